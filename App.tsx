@@ -1,165 +1,557 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Coordinates, AppState, LynchContent, ThemeConfig, CityWeather } from './types';
+import { Coordinates, AppState, LynchContent, ThemeConfig, CityWeather, GenerationProvider, WeatherProvider, PipelineEvent, ArchivedTransmission, BroadcastItem, DriftHop, DriftMode, Itinerary, ItineraryPosition, ItineraryProgress, OverlayLayer, WeatherGrid } from './types';
 import { THEMES } from './constants';
 import WorldMap from './components/WorldMap';
 import LynchPlayer from './components/LynchPlayer';
-import { fetchWeatherData, getTerrainDescription, fetchGlobalTemperatures } from './services/weatherService';
-import { generateNarrative, generateSpeech, generateSceneryImage } from './services/geminiService';
+import TimelineScrubber, { getTargetTime } from './components/TimelineScrubber';
+import LocationSearch from './components/LocationSearch';
+import HistoryPanel from './components/HistoryPanel';
+import ThemeEditor from './components/ThemeEditor';
+import BroadcastPanel from './components/BroadcastPanel';
+import ItineraryEditor from './components/ItineraryEditor';
+import { findArchivedTransmission, restoreContent, saveTransmission } from './services/archiveService';
+import { PermalinkState, createSeed, readPermalink, writePermalink } from './services/permalinkService';
+import { PipelineCancelledError, PipelineStageError, STAGE_APP_STATES, runTransmissionPipeline } from './services/transmissionPipeline';
+import { WEATHER_PROVIDERS } from './services/weatherProvider';
+import { deleteCustomTheme, getThemes, saveCustomTheme } from './services/themeService';
+import { GENERATION_PROVIDERS, getDefaultGenerationProvider } from './services/generationProvider';
+import { getAudioContext } from './services/playbackService';
+import {
+  BROADCAST_CROSSFADE_SECONDS,
+  BROADCAST_LOOKAHEAD,
+  BroadcastQueue,
+  STANDBY_IDENT_INTERVAL_MS,
+  createBroadcastQueue,
+  playIdent,
+  stationCallSign,
+} from './services/broadcastService';
+import { DriftPlanner, advanceItinerary, createDriftPlanner, loadItineraries, saveItineraries } from './services/driftService';
+import { estimateSpeechSeconds } from './services/captionService';
+import { getWeatherGrid } from './services/weatherGridService';
+import { loadOverlayLayers, saveOverlayLayers } from './services/overlayService';
+
+type HistoryMode = 'push' | 'replace' | 'none';
+
+// After the scrubber moves, the overlay grid waits this long before fetching the new hour.
+const GRID_SCRUB_SETTLE_MS = 800;
+
+interface ProcessOptions {
+  at?: Date; // Overrides the timeline scrubber
+  seed?: number; // Omit for a fresh seed
+  theme?: ThemeConfig; // Overrides for state that may not have re-rendered yet
+  provider?: GenerationProvider;
+  weatherProvider?: WeatherProvider;
+  history?: HistoryMode; // How the address bar records this run; defaults to 'push'
+}
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [currentLocation, setCurrentLocation] = useState<Coordinates | null>(null);
   const [content, setContent] = useState<LynchContent | null>(null);
-  const [autoMode, setAutoMode] = useState<boolean>(false);
+  const [broadcasting, setBroadcasting] = useState<boolean>(false);
+  const [themes, setThemes] = useState<Record<string, ThemeConfig>>(getThemes);
   const [currentTheme, setCurrentTheme] = useState<ThemeConfig>(THEMES.LYNCH);
+  const [editingTheme, setEditingTheme] = useState<boolean>(false);
+  const [previewTheme, setPreviewTheme] = useState<ThemeConfig | null>(null); // Unsaved draft from the editor
+  const [provider, setProvider] = useState<GenerationProvider>(getDefaultGenerationProvider);
+  const [weatherProvider, setWeatherProvider] = useState<WeatherProvider>(WEATHER_PROVIDERS.OPEN_METEO);
   const [logs, setLogs] = useState<string[]>([]);
+  const [timeOffsetHours, setTimeOffsetHours] = useState<number>(0); // 0 = live
   const [globalCities, setGlobalCities] = useState<CityWeather[]>([]);
-  const autoModeTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const [overlayLayers, setOverlayLayers] = useState<OverlayLayer[]>(loadOverlayLayers);
+  const [weatherGrid, setWeatherGrid] = useState<WeatherGrid | null>(null);
+  const [archiveVersion, setArchiveVersion] = useState<number>(0);
+  const [broadcastItems, setBroadcastItems] = useState<BroadcastItem[]>([]);
+  const [lookahead, setLookahead] = useState<number>(BROADCAST_LOOKAHEAD);
+  const [identOnAir, setIdentOnAir] = useState<boolean>(false);
+  const [standingBy, setStandingBy] = useState<boolean>(false);
+  const [driftMode, setDriftMode] = useState<DriftMode>('land');
+  const [itineraries, setItineraries] = useState<Itinerary[]>(loadItineraries);
+  const [itineraryId, setItineraryId] = useState<string | null>(null);
+  const [editingItinerary, setEditingItinerary] = useState<boolean>(false);
+  const [editedItinerary, setEditedItinerary] = useState<Itinerary | null>(null); // Null while writing a new one
+  const [hop, setHop] = useState<DriftHop | null>(null);
+  const broadcastRef = useRef<BroadcastQueue | null>(null);
+  const plannerRef = useRef<DriftPlanner | null>(null);
+  const itineraryProgressRef = useRef<ItineraryProgress | null>(null); // Survives planner rebuilds
+  const identRef = useRef<{ cancel: () => void } | null>(null);
+  const onAirRef = useRef<LynchContent | null>(null); // The segment broadcast mode is waiting to follow
+  const onAirPositionRef = useRef<ItineraryPosition | null>(null); // The itinerary waypoint it airs for
+  const awaitingNextRef = useRef<boolean>(false); // Standing by until the queue has something ready
+  const jobRef = useRef<AbortController | null>(null);
+  const permalinkRef = useRef<PermalinkState | null>(null);
+
+  const displayTheme = previewTheme ?? currentTheme;
 
   const addLog = (msg: string) => setLogs(prev => [msg, ...prev].slice(0, 5));
 
   // Initial Data Load
   useEffect(() => {
     const loadGlobalData = async () => {
-        const cities = await fetchGlobalTemperatures();
+        const cities = await weatherProvider.fetchGlobalTemperatures();
         setGlobalCities(cities);
     };
     loadGlobalData();
     const interval = setInterval(loadGlobalData, 300000); // Refresh every 5 mins
     return () => clearInterval(interval);
-  }, []);
+  }, [weatherProvider]);
 
-  const handleSelectLocation = async (coords: Coordinates) => {
-    if (appState !== AppState.IDLE && appState !== AppState.PLAYING && appState !== AppState.ERROR) {
-      return; // Busy
-    }
+  // The overlay grid is only fetched while a layer is on, for the hour the
+  // scrubber is on. The grid cache decides when it is stale, so theme changes
+  // and toggles never refetch it; scrubbing waits for the hour to settle, with
+  // the last grid (labelled with its own hour) kept up until the next arrives.
+  const overlaysOn = overlayLayers.length > 0;
+  const gridHour = timeOffsetHours === 0 ? null : getTargetTime(timeOffsetHours).toISOString();
+  useEffect(() => {
+    if (!overlaysOn) return;
+    let cancelled = false;
+    const loadGrid = () => getWeatherGrid(weatherProvider, gridHour ? new Date(gridHour) : undefined)
+      .then(grid => {
+        if (!cancelled) setWeatherGrid(grid);
+      })
+      .catch(e => {
+        console.warn("Weather grid fetch failed", e);
+        if (cancelled) return;
+        setWeatherGrid(null);
+        addLog("Warning: weather overlay unavailable.");
+      });
+    const settle = setTimeout(loadGrid, gridHour ? GRID_SCRUB_SETTLE_MS : 0);
+    const interval = setInterval(loadGrid, 300000);
+    return () => {
+      cancelled = true;
+      clearTimeout(settle);
+      clearInterval(interval);
+    };
+  }, [weatherProvider, overlaysOn, gridHour]);
+
+  // Another provider's grid is not worth showing while this one's loads.
+  useEffect(() => setWeatherGrid(null), [weatherProvider]);
 
+  const handleToggleOverlay = (layer: OverlayLayer) => {
+    const next = overlayLayers.includes(layer) ? overlayLayers.filter(l => l !== layer) : [...overlayLayers, layer];
+    setOverlayLayers(next);
+    saveOverlayLayers(next);
+  };
+
+  const handleSelectLocation = async (coords: Coordinates) => {
     setCurrentLocation(coords);
     await processLocation(coords);
   };
 
-  const processLocation = async (coords: Coordinates) => {
-    try {
-      setAppState(AppState.FETCHING_WEATHER);
-      addLog(`Connecting to coordinates: ${coords.lat.toFixed(2)}, ${coords.lng.toFixed(2)}...`);
-      
-      let weather;
-      try {
-        weather = await fetchWeatherData(coords);
-      } catch (e) {
-        console.warn("Weather fetch failed", e);
-        throw new Error("WEATHER_FAILED");
-      }
-      
-      addLog(`Conditions received. Temp: ${weather.temperature}°C.`);
-
-      setAppState(AppState.GENERATING_NARRATIVE);
-      let narrative;
-      try {
-        narrative = await generateNarrative(weather, currentTheme);
-      } catch (e) {
-        console.warn("Narrative generation failed", e);
-        throw new Error("NARRATIVE_FAILED");
-      }
-      addLog("Narrative synthesized.");
+  const recordPermalink = (state: PermalinkState, mode: HistoryMode) => {
+    permalinkRef.current = state;
+    if (mode !== 'none') writePermalink(state, mode);
+  };
 
-      setAppState(AppState.GENERATING_MEDIA);
-      addLog("Generating audiovisual hallucination...");
+  const archive = (result: LynchContent, runLog: string[]) => {
+    saveTransmission(result, runLog)
+      .then(() => setArchiveVersion(v => v + 1))
+      .catch(e => {
+        console.warn("Archive save failed", e);
+        addLog("Warning: transmission could not be archived.");
+      });
+  };
 
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      }
+  /**
+   * Runs a transmission for `coords`, cancelling whatever job is still in flight.
+   */
+  const processLocation = async (coords: Coordinates, options: ProcessOptions = {}) => {
+    setBroadcasting(false);
+    const theme = options.theme ?? currentTheme;
+    const generator = options.provider ?? provider;
+    const telemetry = options.weatherProvider ?? weatherProvider;
+    const at = options.at ?? (timeOffsetHours === 0 ? undefined : getTargetTime(timeOffsetHours));
+    const seed = options.seed ?? createSeed();
+    const permalink: PermalinkState = {
+      coords,
+      themeId: theme.id,
+      at: at ? at.toISOString() : null,
+      seed,
+      providerId: generator.id,
+      weatherProviderId: telemetry.id,
+    };
+    recordPermalink(permalink, options.history ?? 'push');
 
-      const terrain = getTerrainDescription(coords.lat, coords.lng);
-      
-      // Parallel Generation of Audio and Static Image for speed
-      const [audioBufferResult, imageResult] = await Promise.allSettled([
-        generateSpeech(narrative, currentTheme, audioContextRef.current),
-        generateSceneryImage(narrative, terrain, currentTheme)
-      ]);
-
-      if (audioBufferResult.status === 'rejected') {
-        console.warn("Audio generation failed", audioBufferResult.reason);
-        throw new Error("AUDIO_FAILED");
-      }
-      
-      const finalImageUrl = imageResult.status === 'fulfilled' ? imageResult.value : null;
-
-      setContent({
-        narrativeText: narrative,
-        audioBuffer: audioBufferResult.value,
-        videoUrl: null, // Skipping video for immediate playback speed
-        imageUrl: finalImageUrl,
-        location: coords,
-        themeId: currentTheme.id
-      });
+    if (jobRef.current) {
+      jobRef.current.abort();
+      addLog("Previous transmission cancelled.");
+    }
+    const controller = new AbortController();
+    jobRef.current = controller;
+    const isCurrent = () => jobRef.current === controller;
+    const runLog: string[] = [];
+
+    try {
+      const result = await runTransmissionPipeline(
+        {
+          coords,
+          at,
+          theme,
+          provider: generator,
+          weatherProvider: telemetry,
+          audioCtx: getAudioContext(),
+          seed,
+        },
+        {
+          signal: controller.signal,
+          onEvent: (event: PipelineEvent) => {
+            if (!isCurrent()) return;
+            if (event.type === 'stage-start') setAppState(STAGE_APP_STATES[event.stage]);
+            if (event.message) {
+              runLog.push(event.message);
+              addLog(event.message);
+            }
+          },
+        },
+      );
 
+      setContent(result);
       setAppState(AppState.PLAYING);
       addLog("Ready. Playing transmission.");
 
+      // Pin live runs to the hour they described so the link keeps reproducing them.
+      if (!permalink.at && permalinkRef.current === permalink) {
+        recordPermalink({ ...permalink, at: result.weather.observedAt }, 'replace');
+      }
+
+      archive(result, runLog);
     } catch (error: any) {
+      if (error instanceof PipelineCancelledError) return;
       console.error(error);
+      if (!isCurrent()) return;
       setAppState(AppState.ERROR);
-      
-      let userMsg = "Transmission interrupted.";
-      if (error.message === "WEATHER_FAILED") {
-        userMsg = "Error: Unable to establish telemetry link (Weather Service Down).";
-      } else if (error.message === "NARRATIVE_FAILED") {
-        userMsg = "Error: Neural synthesis failure (LLM Unresponsive).";
-      } else if (error.message === "AUDIO_FAILED") {
-        userMsg = "Error: Audio frequency corruption (TTS Failed).";
-      } else {
-        userMsg = `Error: System failure (${error.message || 'Unknown'}).`;
+      // Stage failures were already logged by their stage-failed event.
+      if (!(error instanceof PipelineStageError)) {
+        addLog(`Error: System failure (${error.message || 'Unknown'}).`);
       }
-      
-      addLog(userMsg);
+    } finally {
+      if (isCurrent()) {
+        // Stops sibling stages still running after a failure.
+        controller.abort();
+        jobRef.current = null;
+      }
+    }
+  };
+
+  const handleReplay = async (entry: ArchivedTransmission, history: HistoryMode = 'push') => {
+    setBroadcasting(false);
+    recordPermalink({
+      coords: entry.location,
+      themeId: entry.themeId,
+      at: entry.weather.observedAt,
+      seed: entry.seed ?? null, // Entries archived before seeds were recorded have none
+      providerId: entry.providerId,
+      weatherProviderId: null,
+    }, history);
+    if (jobRef.current) {
+      jobRef.current.abort();
+      jobRef.current = null;
+      addLog("Previous transmission cancelled.");
+    }
+    try {
+      const restored = await restoreContent(entry, getAudioContext());
+      if (themes[entry.themeId]) setCurrentTheme(themes[entry.themeId]);
+      setCurrentLocation(entry.location);
+      setContent(restored);
+      setAppState(AppState.PLAYING);
+      addLog(`Replaying archive: ${entry.weather.locationName || 'unknown place'}, ${entry.createdAt.slice(0, 16).replace('T', ' ')} UTC.`);
+    } catch (e) {
+      console.warn("Archive replay failed", e);
+      addLog("Error: Archive reel is damaged (Replay Failed).");
+    }
+  };
+
+  /**
+   * Generates a queued broadcast segment in the background with the current
+   * settings. Unlike processLocation it leaves the app state and the segment
+   * on air alone, and logs only the outcome.
+   */
+  const generateForBroadcast = async (coords: Coordinates, signal: AbortSignal): Promise<LynchContent> => {
+    const runLog: string[] = [];
+    try {
+      const result = await runTransmissionPipeline(
+        {
+          coords,
+          at: timeOffsetHours === 0 ? undefined : getTargetTime(timeOffsetHours),
+          theme: currentTheme,
+          provider,
+          weatherProvider,
+          audioCtx: getAudioContext(),
+          seed: createSeed(),
+        },
+        {
+          signal,
+          onEvent: (event: PipelineEvent) => {
+            if (event.message) runLog.push(event.message);
+          },
+        },
+      );
+      addLog(`Queued: ${result.weather.locationName || 'unknown waters'}.`);
+      archive(result, runLog);
+      return result;
+    } catch (error: any) {
+      if (!(error instanceof PipelineCancelledError)) {
+        addLog(`Warning: queued transmission lost (${error.message || 'Unknown'}).`);
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Puts the head of the broadcast queue on air, or stands by if it is not ready yet.
+   */
+  const airNext = () => {
+    const queue = broadcastRef.current;
+    if (!queue) return;
+    awaitingNextRef.current = false; // Before take(), whose onChange would otherwise air again
+    const item = queue.take();
+    if (!item?.content) {
+      awaitingNextRef.current = true;
+      setStandingBy(true);
+      return;
+    }
+    // The segment going off air played through, so its length counts towards its waypoint's dwell.
+    const aired = onAirRef.current;
+    const position = onAirPositionRef.current;
+    const itinerary = position && itineraries.find(i => i.id === position.itineraryId);
+    if (aired && position && itinerary) {
+      const seconds = aired.audioBuffer ? aired.audioBuffer.duration : estimateSpeechSeconds(aired.narrativeText);
+      itineraryProgressRef.current = advanceItinerary(itinerary, itineraryProgressRef.current, position, seconds);
+    }
+
+    const next = item.content;
+    onAirRef.current = next;
+    onAirPositionRef.current = item.itineraryPosition ?? null;
+    setStandingBy(false);
+    setHop(currentLocation ? { from: currentLocation, to: item.coords } : null);
+    setCurrentLocation(item.coords);
+    setContent(next);
+    setAppState(AppState.PLAYING);
+    recordPermalink({
+      coords: item.coords,
+      themeId: next.themeId,
+      at: next.weather.observedAt,
+      seed: next.seed ?? null,
+      providerId: next.providerId,
+      weatherProviderId: weatherProvider.id,
+    }, 'replace');
+    addLog(`On air: ${next.weather.locationName || 'unknown waters'} (${item.label}).`);
+  };
+
+  /**
+   * Plays the station ident, then the next segment over its tail.
+   */
+  const runIdent = async () => {
+    if (identRef.current) return;
+    const ident = playIdent(getAudioContext(), currentTheme);
+    identRef.current = ident;
+    setIdentOnAir(true);
+    await ident.done;
+    if (identRef.current !== ident) return; // Broadcast stopped
+    identRef.current = null;
+    setIdentOnAir(false);
+    airNextRef.current();
+  };
+
+  const handleSegmentEnded = (ended: LynchContent) => {
+    addLog("Sequence ended.");
+    // Segments that faded out have already handed over; this catches the rest.
+    if (broadcasting && ended === onAirRef.current && !identRef.current && !awaitingNextRef.current) runIdent();
+  };
+
+  const handleSaveItinerary = (itinerary: Itinerary) => {
+    const next = [...itineraries.filter(i => i.id !== itinerary.id), itinerary];
+    setItineraries(next);
+    saveItineraries(next);
+    setItineraryId(itinerary.id);
+    setEditingItinerary(false);
+    addLog(`Itinerary ${itinerary.name} saved (${itinerary.waypoints.length} stops).`);
+  };
+
+  const handleDeleteItinerary = (id: string) => {
+    const next = itineraries.filter(i => i.id !== id);
+    setItineraries(next);
+    saveItineraries(next);
+    if (itineraryId === id) setItineraryId(null);
+    setEditingItinerary(false);
+  };
+
+  const selectTheme = (theme: ThemeConfig) => {
+    setCurrentTheme(theme);
+    if (permalinkRef.current) recordPermalink({ ...permalinkRef.current, themeId: theme.id }, 'replace');
+  };
+
+  const handleSaveTheme = (theme: ThemeConfig) => {
+    try {
+      saveCustomTheme(theme);
+      setThemes(getThemes());
+      selectTheme(theme);
+      setEditingTheme(false);
+      addLog(`Theme ${theme.id} saved.`);
+    } catch (e: any) {
+      console.warn("Theme save failed", e);
+      addLog(`Error: Theme not saved (${e.message || 'Unknown'}).`);
+    }
+  };
+
+  const handleDeleteTheme = (id: string) => {
+    deleteCustomTheme(id);
+    setThemes(getThemes());
+    if (currentTheme.id === id) selectTheme(THEMES.LYNCH);
+    setEditingTheme(false);
+    addLog(`Theme ${id} deleted.`);
+  };
+
+  /**
+   * Restores the map selection and theme from a permalink, then replays the
+   * archived transmission it describes or regenerates it from the link.
+   */
+  const openPermalink = async (state: PermalinkState, history: HistoryMode) => {
+    const theme = themes[state.themeId] ?? currentTheme;
+    const generator = (state.providerId && GENERATION_PROVIDERS[state.providerId]) || provider;
+    const telemetry = (state.weatherProviderId && WEATHER_PROVIDERS[state.weatherProviderId]) || weatherProvider;
+    setCurrentTheme(theme);
+    setProvider(generator);
+    setWeatherProvider(telemetry);
+    setCurrentLocation(state.coords);
+
+    try {
+      const cached = await findArchivedTransmission(state);
+      if (cached) {
+        await handleReplay(cached, history);
+        return;
+      }
+    } catch (e) {
+      console.warn("Archive lookup failed", e);
     }
+
+    addLog("Reconstructing transmission from link.");
+    await processLocation(state.coords, {
+      at: state.at ? new Date(state.at) : undefined,
+      seed: state.seed ?? undefined,
+      theme,
+      provider: generator,
+      weatherProvider: telemetry,
+      history,
+    });
   };
 
-  // Auto Mode Logic
+  // The broadcast queue and history listener outlive renders, so they call through refs to see current state.
+  const generateRef = useRef(generateForBroadcast);
+  generateRef.current = generateForBroadcast;
+  const airNextRef = useRef(airNext);
+  airNextRef.current = airNext;
+  const runIdentRef = useRef(runIdent);
+  runIdentRef.current = runIdent;
+  const openPermalinkRef = useRef(openPermalink);
+  openPermalinkRef.current = openPermalink;
+
+  // Open the link the page was loaded with, and follow back/forward between visited locations.
   useEffect(() => {
-    if (autoMode) {
-      const runAutoLoop = async () => {
-         const lat = (Math.random() * 160) - 80;
-         const lng = (Math.random() * 360) - 180;
-         await processLocation({ lat, lng });
-      };
-
-      runAutoLoop();
-      autoModeTimerRef.current = setInterval(runAutoLoop, 60000); // Every 1 min
-    } else {
-      if (autoModeTimerRef.current) {
-        clearInterval(autoModeTimerRef.current);
+    const initial = readPermalink();
+    if (initial) openPermalinkRef.current(initial, 'replace');
+
+    const handlePopState = () => {
+      const state = readPermalink();
+      if (state) {
+        openPermalinkRef.current(state, 'none');
+      } else {
+        jobRef.current?.abort();
+        jobRef.current = null;
+        permalinkRef.current = null;
+        setCurrentLocation(null);
+        setContent(null);
+        setAppState(AppState.IDLE);
       }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Broadcast: keep segments generated ahead and hand over from one to the next.
+  useEffect(() => {
+    if (!broadcasting) return;
+    const queue = createBroadcastQueue({
+      lookahead,
+      nextLocation: (signal) => plannerRef.current!.next(signal),
+      generate: (coords, signal) => generateRef.current(coords, signal),
+      onChange: (items) => {
+        setBroadcastItems(items);
+        if (awaitingNextRef.current && items[0]?.status === 'ready') runIdentRef.current();
+      },
+    });
+    broadcastRef.current = queue;
+    addLog(`Broadcast started: ${stationCallSign(currentTheme)}.`);
+
+    // Let a transmission already playing finish; otherwise open with the ident.
+    if (jobRef.current) {
+      jobRef.current.abort();
+      jobRef.current = null;
+    }
+    if (content && appState === AppState.PLAYING) {
+      onAirRef.current = content;
+    } else {
+      runIdentRef.current();
     }
 
     return () => {
-      if (autoModeTimerRef.current) clearInterval(autoModeTimerRef.current);
+      queue.stop();
+      broadcastRef.current = null;
+      const ident = identRef.current;
+      identRef.current = null;
+      ident?.cancel();
+      onAirRef.current = null;
+      onAirPositionRef.current = null;
+      awaitingNextRef.current = false;
+      setBroadcastItems([]);
+      setIdentOnAir(false);
+      setStandingBy(false);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoMode]);
+  }, [broadcasting]);
+
+  useEffect(() => {
+    broadcastRef.current?.setLookahead(lookahead);
+  }, [lookahead]);
+
+  // A new planner for each drift setting; stops already queued keep their place, and so does the itinerary.
+  useEffect(() => {
+    plannerRef.current = createDriftPlanner({
+      mode: driftMode,
+      itinerary: itineraries.find(i => i.id === itineraryId) ?? null,
+      weatherProvider,
+      at: timeOffsetHours === 0 ? undefined : getTargetTime(timeOffsetHours),
+      progress: () => itineraryProgressRef.current,
+    });
+  }, [driftMode, itineraries, itineraryId, weatherProvider, timeOffsetHours]);
+
+  // Dead air gets the ident on repeat until a segment is ready.
+  useEffect(() => {
+    if (!standingBy) return;
+    const interval = setInterval(() => runIdentRef.current(), STANDBY_IDENT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [standingBy]);
 
   return (
-    <div className={`min-h-screen p-4 md:p-8 flex flex-col items-center transition-colors duration-1000 ${currentTheme.fontClass}`}
-         style={{ backgroundColor: currentTheme.backgroundColor, color: currentTheme.id === 'WES' ? '#333' : '#e5e5e5' }}>
+    <div className={`min-h-screen p-4 md:p-8 flex flex-col items-center transition-colors duration-1000 ${displayTheme.fontClass}`}
+         style={{ backgroundColor: displayTheme.backgroundColor, color: displayTheme.textColor }}>
       
       <header className="mb-8 text-center space-y-2 w-full max-w-5xl flex flex-col md:flex-row justify-between items-center">
         <div>
           <h1 className="text-4xl md:text-5xl font-bold tracking-tighter uppercase transition-colors"
-              style={{ color: currentTheme.primaryColor }}>
-            {currentTheme.name}
+              style={{ color: displayTheme.primaryColor }}>
+            {displayTheme.name}
           </h1>
           <p className="text-xs font-mono tracking-widest opacity-60 uppercase">
-             Atmospheric Simulation // {currentTheme.id}
+             Atmospheric Simulation // {displayTheme.id}
           </p>
         </div>
 
-        <div className="flex gap-2 mt-4 md:mt-0">
-            {Object.values(THEMES).map(theme => (
+        <div className="flex flex-wrap justify-center gap-2 mt-4 md:mt-0">
+            {Object.values<ThemeConfig>(themes).map(theme => (
                 <button
                     key={theme.id}
-                    onClick={() => setCurrentTheme(theme)}
+                    onClick={() => selectTheme(theme)}
                     className={`px-3 py-1 text-xs border transition-all ${currentTheme.id === theme.id ? 'opacity-100' : 'opacity-50 hover:opacity-100'}`}
                     style={{ 
                         borderColor: theme.primaryColor, 
@@ -170,71 +562,170 @@ const App: React.FC = () => {
                     {theme.id}
                 </button>
             ))}
+            <button
+                onClick={() => setEditingTheme(open => !open)}
+                className={`px-3 py-1 text-xs border transition-all ${editingTheme ? 'opacity-100' : 'opacity-50 hover:opacity-100'}`}
+                style={{ borderColor: displayTheme.primaryColor, color: displayTheme.primaryColor }}
+                title="Write your own director"
+            >
+                {editingTheme ? 'EDITING' : '+ EDIT'}
+            </button>
         </div>
       </header>
 
       <main className="w-full max-w-5xl space-y-8">
+
+        {editingTheme && (
+            <ThemeEditor
+                base={currentTheme}
+                themes={themes}
+                location={currentLocation}
+                onPreview={setPreviewTheme}
+                onSave={handleSaveTheme}
+                onDelete={handleDeleteTheme}
+                onClose={() => setEditingTheme(false)}
+            />
+        )}
         
         {/* Map Section */}
         <section className="relative">
           <div className="flex justify-between items-end mb-2">
             <h2 className="text-sm font-bold opacity-60 uppercase tracking-widest">Global Telemetry</h2>
             <div className="flex gap-4">
+                <button
+                    onClick={() => {
+                        const ids = Object.keys(GENERATION_PROVIDERS);
+                        const next = ids[(ids.indexOf(provider.id) + 1) % ids.length];
+                        setProvider(GENERATION_PROVIDERS[next]);
+                        addLog(`Generation engine switched to ${GENERATION_PROVIDERS[next].name}.`);
+                    }}
+                    className="text-xs font-mono opacity-60 hover:opacity-100"
+                >
+                    ENGINE [{provider.id}]
+                </button>
+                <button
+                    onClick={() => {
+                        const ids = Object.keys(WEATHER_PROVIDERS);
+                        const next = ids[(ids.indexOf(weatherProvider.id) + 1) % ids.length];
+                        setWeatherProvider(WEATHER_PROVIDERS[next]);
+                        addLog(`Telemetry source switched to ${WEATHER_PROVIDERS[next].name}.`);
+                    }}
+                    className="text-xs font-mono opacity-60 hover:opacity-100"
+                >
+                    WX [{weatherProvider.id}]
+                </button>
                 <label className="flex items-center gap-2 cursor-pointer">
-                    <span className={`text-xs font-mono ${autoMode ? 'animate-pulse' : 'opacity-60'}`}
-                          style={{ color: autoMode ? currentTheme.primaryColor : undefined }}>
-                    AUTO_DRIFT {autoMode ? '[ON]' : '[OFF]'}
+                    <span className={`text-xs font-mono ${broadcasting ? 'animate-pulse' : 'opacity-60'}`}
+                          style={{ color: broadcasting ? displayTheme.primaryColor : undefined }}>
+                    BROADCAST {broadcasting ? '[ON]' : '[OFF]'}
                     </span>
                     <input 
                     type="checkbox" 
-                    checked={autoMode} 
-                    onChange={(e) => setAutoMode(e.target.checked)}
+                    checked={broadcasting} 
+                    onChange={(e) => setBroadcasting(e.target.checked)}
                     className="hidden"
                     />
                 </label>
             </div>
           </div>
           
+          <LocationSearch
+            onSelectLocation={handleSelectLocation}
+            theme={displayTheme}
+          />
+
           <WorldMap 
             onSelectLocation={handleSelectLocation}
-            disabled={appState === AppState.FETCHING_WEATHER || appState === AppState.GENERATING_MEDIA || appState === AppState.GENERATING_NARRATIVE}
             selectedLocation={currentLocation}
             cities={globalCities}
-            theme={currentTheme}
+            theme={displayTheme}
+            hop={hop}
+            weatherGrid={weatherGrid}
+            overlayLayers={overlayLayers}
+            onToggleOverlay={handleToggleOverlay}
+          />
+
+          <TimelineScrubber
+            offsetHours={timeOffsetHours}
+            onChange={setTimeOffsetHours}
+            disabled={appState === AppState.FETCHING_WEATHER || appState === AppState.GENERATING_MEDIA || appState === AppState.GENERATING_NARRATIVE}
+            theme={displayTheme}
           />
         </section>
 
         {/* Status/Logs */}
-        <div className={`h-24 text-xs p-2 overflow-hidden flex flex-col-reverse border transition-colors ${currentTheme.id === 'LYNCH' ? 'font-mono' : ''}`}
+        <div className={`h-24 text-xs p-2 overflow-hidden flex flex-col-reverse border transition-colors ${displayTheme.id === 'LYNCH' ? 'font-mono' : ''}`}
              style={{ 
-                 borderColor: currentTheme.primaryColor, 
-                 backgroundColor: currentTheme.backgroundColor,
-                 color: currentTheme.primaryColor 
+                 borderColor: displayTheme.primaryColor, 
+                 backgroundColor: displayTheme.backgroundColor,
+                 color: displayTheme.primaryColor 
              }}>
             {logs.map((log, i) => (
-                <div key={i} className="opacity-70">> {log}</div>
+                <div key={i} className="opacity-70">&gt; {log}</div>
             ))}
              {appState !== AppState.IDLE && appState !== AppState.PLAYING && (
-                <div className="animate-pulse">> PROCESSING...</div>
+                <div className="animate-pulse">&gt; PROCESSING...</div>
             )}
         </div>
 
+        {broadcasting && (
+            <BroadcastPanel
+                items={broadcastItems}
+                onAir={content}
+                callSign={stationCallSign(currentTheme)}
+                identOnAir={identOnAir}
+                standingBy={standingBy}
+                lookahead={lookahead}
+                onLookaheadChange={setLookahead}
+                driftMode={driftMode}
+                onDriftModeChange={setDriftMode}
+                itineraries={itineraries}
+                itineraryId={itineraryId}
+                onItineraryChange={setItineraryId}
+                onEditItinerary={(itinerary) => {
+                    setEditedItinerary(itinerary);
+                    setEditingItinerary(true);
+                }}
+                theme={displayTheme}
+            />
+        )}
+
+        {broadcasting && editingItinerary && (
+            <ItineraryEditor
+                key={editedItinerary?.id ?? 'new'}
+                itinerary={editedItinerary}
+                onSave={handleSaveItinerary}
+                onDelete={handleDeleteItinerary}
+                onClose={() => setEditingItinerary(false)}
+                theme={displayTheme}
+            />
+        )}
+
         {/* Player Section */}
         {content && (
             <LynchPlayer 
                 content={content} 
-                onEnded={() => {
-                    addLog("Sequence ended.");
-                }}
+                onEnded={() => handleSegmentEnded(content)}
                 autoPlay={true} // Always autoplay now as per requirement
-                theme={currentTheme}
+                theme={displayTheme}
+                crossfadeSeconds={broadcasting ? BROADCAST_CROSSFADE_SECONDS : 0}
+                onApproachingEnd={() => {
+                    if (broadcasting && content === onAirRef.current) runIdent();
+                }}
             />
         )}
 
+        <HistoryPanel
+            onReplay={handleReplay}
+            refreshKey={archiveVersion}
+            themes={themes}
+            theme={displayTheme}
+        />
+
       </main>
 
       <footer className="mt-16 text-center text-[10px] opacity-50 font-mono">
-        <p>POWERED BY GEMINI FLASH, IMAGE & TTS</p>
+        <p>{provider.id === 'GEMINI' ? 'POWERED BY GEMINI FLASH, IMAGE & TTS' : `OFFLINE // ${provider.name.toUpperCase()}`}</p>
       </footer>
 
     </div>
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef } from 'react';
+import { ThemeConfig, VisualizerMode } from '../types';
+import { createVisualizerRenderer } from '../services/visualizerService';
+
+interface AudioVisualizerProps {
+  analyser: AnalyserNode | null;
+  active: boolean; // Animates only while true
+  mode: VisualizerMode;
+  theme: ThemeConfig;
+}
+
+const MAX_PIXEL_RATIO = 2;
+
+/**
+ * AudioVisualizer Component
+ *
+ * Draws the player's analyser with the selected renderer, sized to its box at
+ * the device pixel ratio. The animation loop runs only while `active`; the
+ * canvas is cleared when it stops.
+ */
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, active, mode, theme }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let width = 0;
+    let height = 0;
+    let pixelRatio = 1;
+    const fit = () => {
+      pixelRatio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+      width = canvas.clientWidth;
+      height = canvas.clientHeight;
+      canvas.width = Math.max(1, Math.round(width * pixelRatio));
+      canvas.height = Math.max(1, Math.round(height * pixelRatio));
+    };
+    fit();
+    const observer = new ResizeObserver(fit);
+    observer.observe(canvas);
+
+    const clear = () => ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!analyser || !active) {
+      clear();
+      return () => observer.disconnect();
+    }
+
+    const renderer = createVisualizerRenderer(mode, theme);
+    const frequency = new Uint8Array(analyser.frequencyBinCount);
+    const waveform = new Uint8Array(analyser.fftSize);
+    const startedAt = performance.now();
+    let frame = 0;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      analyser.getByteFrequencyData(frequency);
+      analyser.getByteTimeDomainData(waveform);
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      clear();
+      ctx.save();
+      ctx.scale(pixelRatio, pixelRatio);
+      renderer.draw(ctx, { width, height, pixelRatio, frequency, waveform, seconds: (performance.now() - startedAt) / 1000 });
+      ctx.restore();
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      clear();
+    };
+  }, [analyser, active, mode, theme]);
+
+  return <canvas ref={canvasRef} className="w-full h-20 opacity-80" aria-hidden="true" />;
+};
+
+export default AudioVisualizer;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { BroadcastItem, BroadcastItemStatus, DriftMode, Itinerary, LynchContent, ThemeConfig } from '../types';
+import { CATEGORY_GLYPHS, getWeatherCondition } from '../constants';
+import { MAX_BROADCAST_LOOKAHEAD } from '../services/broadcastService';
+import { DRIFT_MODES, DRIFT_MODE_LABELS } from '../services/driftService';
+
+interface BroadcastPanelProps {
+  items: BroadcastItem[];
+  onAir: LynchContent | null;
+  callSign: string;
+  identOnAir: boolean; // The station ident is playing between segments
+  standingBy: boolean; // Nothing generated yet to follow the ident
+  lookahead: number;
+  onLookaheadChange: (lookahead: number) => void;
+  driftMode: DriftMode;
+  onDriftModeChange: (mode: DriftMode) => void;
+  itineraries: Itinerary[];
+  itineraryId: string | null;
+  onItineraryChange: (id: string | null) => void;
+  onEditItinerary: (itinerary: Itinerary | null) => void; // Null writes a new one
+  theme: ThemeConfig;
+}
+
+const STATUS_LABELS: Record<BroadcastItemStatus, string> = {
+  queued: 'QUEUED',
+  generating: 'GENERATING',
+  ready: 'READY',
+  failed: 'FAILED',
+};
+
+const placeLabel = (item: BroadcastItem) =>
+  item.content?.weather.locationName || `${item.coords.lat.toFixed(2)}, ${item.coords.lng.toFixed(2)}`;
+
+/**
+ * BroadcastPanel Component
+ *
+ * Now playing and up next for broadcast mode, with how far ahead to generate
+ * and how the station drifts: the mode, and the itinerary it follows.
+ */
+const BroadcastPanel: React.FC<BroadcastPanelProps> = ({
+  items, onAir, callSign, identOnAir, standingBy, lookahead, onLookaheadChange,
+  driftMode, onDriftModeChange, itineraries, itineraryId, onItineraryChange, onEditItinerary, theme,
+}) => {
+  const condition = onAir ? getWeatherCondition(onAir.weather.conditionCode) : null;
+  const selectStyle = { backgroundColor: theme.backgroundColor, borderColor: theme.primaryColor, color: theme.primaryColor };
+  const itinerary = itineraries.find(i => i.id === itineraryId) ?? null;
+
+  return (
+    <section className={`border p-3 text-xs ${theme.fontClass}`} style={{ borderColor: theme.primaryColor, color: theme.primaryColor }}
+             aria-live="polite">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <h2 className="text-sm font-bold uppercase tracking-widest">
+          <span className="animate-pulse">◉</span> {callSign} <span className="opacity-60">// On Air</span>
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2">
+            <span className="opacity-60 uppercase">Drift</span>
+            <select value={driftMode} onChange={(e) => onDriftModeChange(e.target.value as DriftMode)}
+                    className="px-1 py-0.5 border" style={selectStyle}>
+              {DRIFT_MODES.map(mode => <option key={mode} value={mode}>{DRIFT_MODE_LABELS[mode]}</option>)}
+            </select>
+          </label>
+          {driftMode === 'itinerary' && (
+            <>
+              <select value={itineraryId ?? ''} onChange={(e) => onItineraryChange(e.target.value || null)}
+                      className="px-1 py-0.5 border" style={selectStyle} aria-label="Itinerary">
+                <option value="">(none: drift over land)</option>
+                {itineraries.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+              </select>
+              {itinerary && (
+                <button onClick={() => onEditItinerary(itinerary)} className="opacity-60 hover:opacity-100 uppercase">Edit</button>
+              )}
+              <button onClick={() => onEditItinerary(null)} className="opacity-60 hover:opacity-100 uppercase">+ New</button>
+            </>
+          )}
+          <label className="flex items-center gap-2">
+            <span className="opacity-60 uppercase">Generate ahead</span>
+            <select value={lookahead} onChange={(e) => onLookaheadChange(Number(e.target.value))}
+                    className="px-1 py-0.5 border" style={selectStyle}>
+              {Array.from({ length: MAX_BROADCAST_LOOKAHEAD }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="mb-2">
+        <span className="opacity-60 uppercase">Now: </span>
+        {identOnAir ? 'Station ident'
+          : standingBy ? 'Please stand by…'
+          : onAir && condition ? `${CATEGORY_GLYPHS[condition.category]} ${onAir.weather.locationName || 'Unknown waters'} // ${onAir.themeId} // ${onAir.weather.temperature}°C`
+          : 'Tuning…'}
+      </div>
+
+      <div className="opacity-60 uppercase mb-1">Up next</div>
+      <ol className="divide-y" style={{ borderColor: theme.primaryColor }}>
+        {items.length === 0 && <li className="py-1 opacity-50">Nothing queued.</li>}
+        {items.map((item, i) => (
+          <li key={item.id} className="py-1 flex items-center gap-3" style={{ borderColor: `${theme.primaryColor}33` }}>
+            <span className="w-4 opacity-60">{i + 1}</span>
+            <span className="flex-1 truncate">{placeLabel(item)} <span className="opacity-60">// {item.label}</span></span>
+            {item.content && <span className="opacity-60">{item.content.themeId}</span>}
+            <span className={`w-24 text-right ${item.status === 'generating' ? 'animate-pulse' : ''} ${item.status === 'queued' ? 'opacity-50' : ''}`}
+                  title={item.error}>
+              {STATUS_LABELS[item.status]}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+};
+
+export default BroadcastPanel;
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LynchContent, ThemeConfig } from '../types';
+import { exportSidecar, exportSubtitles, exportVideo, exportWav } from '../services/exportService';
+
+interface ExportMenuProps {
+  content: LynchContent;
+  theme: ThemeConfig;
+}
+
+/**
+ * ExportMenu Component
+ *
+ * Download buttons under the player: a WebM recording (rendered in real time),
+ * the WAV of the speech track, timed subtitles (WebVTT or SRT), and a JSON
+ * sidecar with weather and prompts.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ content, theme }) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recordingRef = useRef<AbortController | null>(null);
+
+  // A new transmission cancels any recording of the previous one.
+  useEffect(() => {
+    setError(null);
+    return () => recordingRef.current?.abort();
+  }, [content]);
+
+  const run = (action: () => void) => () => {
+    try {
+      setError(null);
+      action();
+    } catch (e: any) {
+      setError(e.message || 'Export failed');
+    }
+  };
+
+  const handleVideo = async () => {
+    if (recordingRef.current) {
+      recordingRef.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    recordingRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      await exportVideo(content, theme, { signal: controller.signal, onProgress: setProgress });
+    } catch (e: any) {
+      if (!controller.signal.aborted) {
+        console.warn("Video export failed", e);
+        setError(e.message || 'Video export failed');
+      }
+    } finally {
+      if (recordingRef.current === controller) recordingRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const buttonClass = 'px-3 py-1 text-[10px] uppercase tracking-widest border opacity-60 hover:opacity-100 disabled:opacity-20';
+  const buttonStyle = { borderColor: theme.primaryColor, color: theme.primaryColor };
+
+  return (
+    <div className={`flex flex-wrap justify-center items-center gap-2 ${theme.fontClass}`}>
+      <button onClick={handleVideo} className={buttonClass} style={buttonStyle}
+              title="Records in real time, so it takes as long as the transmission">
+        {progress === null ? 'Export WebM' : `Recording ${Math.round(progress * 100)}% // Cancel`}
+      </button>
+      <button onClick={run(() => exportWav(content))} disabled={!content.audioBuffer} className={buttonClass} style={buttonStyle}>
+        Export WAV
+      </button>
+      <button onClick={run(() => exportSubtitles(content, 'vtt'))} className={buttonClass} style={buttonStyle}>
+        Export VTT
+      </button>
+      <button onClick={run(() => exportSubtitles(content, 'srt'))} className={buttonClass} style={buttonStyle}>
+        Export SRT
+      </button>
+      <button onClick={run(() => exportSidecar(content))} className={buttonClass} style={buttonStyle}>
+        Export JSON
+      </button>
+      {error && <span className="text-[10px] opacity-70" style={{ color: theme.primaryColor }}>{error}</span>}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { ArchiveFilter, ArchivedTransmission, ThemeConfig } from '../types';
+import { CATEGORY_GLYPHS, getWeatherCondition } from '../constants';
+import {
+  ArchiveUsage,
+  deleteTransmission,
+  getArchiveUsage,
+  listTransmissions,
+  pruneArchive,
+  requestPersistentStorage,
+  setFavourite,
+} from '../services/archiveService';
+
+interface HistoryPanelProps {
+  onReplay: (entry: ArchivedTransmission) => void;
+  refreshKey: number; // Bump to reload after a new transmission is saved
+  themes: Record<string, ThemeConfig>; // Built-in and custom, for the theme filter
+  theme: ThemeConfig;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024 ? `${(bytes / 1024 ** 3).toFixed(1)} GB`
+    : bytes >= 1024 * 1024 ? `${(bytes / 1024 ** 2).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+
+/**
+ * HistoryPanel Component
+ *
+ * Browses the local transmission archive: filter by place, text, theme or
+ * favourites; replay, favourite or delete entries; and keep an eye on storage.
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onReplay, refreshKey, themes, theme }) => {
+  const [entries, setEntries] = useState<ArchivedTransmission[]>([]);
+  const [filter, setFilter] = useState<ArchiveFilter>({});
+  const [usage, setUsage] = useState<ArchiveUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = async () => {
+    try {
+      setEntries(await listTransmissions(filter));
+      setUsage(await getArchiveUsage());
+      setError(null);
+    } catch (e: any) {
+      console.warn("Archive unavailable", e);
+      setError(e.message || 'Archive unavailable');
+    }
+  };
+
+  useEffect(() => {
+    reload();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filter, refreshKey]);
+
+  const act = (action: () => Promise<unknown>) => async () => {
+    try {
+      await action();
+    } catch (e) {
+      console.warn("Archive action failed", e);
+    }
+    reload();
+  };
+
+  const inputStyle = { borderColor: theme.primaryColor, color: theme.primaryColor, backgroundColor: 'transparent' };
+
+  return (
+    <section className={`border p-3 text-xs ${theme.fontClass}`} style={{ borderColor: theme.primaryColor, color: theme.primaryColor }}>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <h2 className="text-sm font-bold opacity-60 uppercase tracking-widest">Archive</h2>
+        <div className="flex flex-wrap gap-2 items-center">
+          <input
+            type="search"
+            placeholder="FILTER PLACE / TEXT"
+            value={filter.query || ''}
+            onChange={(e) => setFilter(f => ({ ...f, query: e.target.value }))}
+            className="px-2 py-0.5 border outline-none placeholder:opacity-40"
+            style={inputStyle}
+          />
+          <select
+            value={filter.themeId || ''}
+            onChange={(e) => setFilter(f => ({ ...f, themeId: e.target.value || undefined }))}
+            className="px-1 py-0.5 border"
+            style={inputStyle}
+          >
+            <option value="">ALL THEMES</option>
+            {Object.values<ThemeConfig>(themes).map(t => <option key={t.id} value={t.id}>{t.id}</option>)}
+          </select>
+          <button
+            onClick={() => setFilter(f => ({ ...f, favouritesOnly: !f.favouritesOnly }))}
+            className={`px-2 py-0.5 border ${filter.favouritesOnly ? '' : 'opacity-50'}`}
+            style={{ borderColor: theme.primaryColor }}
+          >
+            ★ ONLY
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="opacity-70 mb-2">ARCHIVE OFFLINE: {error}</div>}
+
+      <ul className="max-h-64 overflow-y-auto divide-y" style={{ borderColor: theme.primaryColor }}>
+        {entries.length === 0 && !error && <li className="py-2 opacity-50">No transmissions on file.</li>}
+        {entries.map(entry => {
+          const condition = getWeatherCondition(entry.weather.conditionCode);
+          return (
+            <li key={entry.id} className="py-1 flex items-center gap-3" style={{ borderColor: `${theme.primaryColor}33` }}>
+              <span className="opacity-60 w-32 shrink-0">{entry.createdAt.slice(0, 16).replace('T', ' ')}</span>
+              <span className="w-10 shrink-0 opacity-60">{entry.themeId}</span>
+              <span className="flex-1 truncate" title={entry.narrativeText}>
+                {CATEGORY_GLYPHS[condition.category]} {entry.weather.locationName || `${entry.location.lat.toFixed(2)}, ${entry.location.lng.toFixed(2)}`}
+                {' '}// {entry.weather.temperature}°C
+                {entry.speechMode !== 'tts' && <span className="opacity-50"> // DEGRADED</span>}
+              </span>
+              <button onClick={() => onReplay(entry)} className="opacity-70 hover:opacity-100" title="Replay">▶</button>
+              <button
+                onClick={act(() => setFavourite(entry.id, !entry.favourite))}
+                className={entry.favourite ? '' : 'opacity-40 hover:opacity-100'}
+                title={entry.favourite ? 'Unfavourite' : 'Favourite (never auto-pruned)'}
+              >
+                ★
+              </button>
+              <button onClick={act(() => deleteTransmission(entry.id))} className="opacity-40 hover:opacity-100" title="Delete">✕</button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {usage && (
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <div className="flex-1 min-w-[8rem] h-1.5 border" style={{ borderColor: theme.primaryColor }}>
+            <div className="h-full" style={{ width: `${Math.min(100, (usage.archiveBytes / usage.budgetBytes) * 100)}%`, backgroundColor: theme.primaryColor }} />
+          </div>
+          <span className="opacity-70">
+            {usage.entries} ON FILE // {formatBytes(usage.archiveBytes)} OF {formatBytes(usage.budgetBytes)}
+            {usage.quotaBytes !== null && usage.usageBytes !== null && ` // ORIGIN ${formatBytes(usage.usageBytes)} / ${formatBytes(usage.quotaBytes)}`}
+          </span>
+          <button onClick={act(() => pruneArchive())} className="px-2 border opacity-60 hover:opacity-100" style={{ borderColor: theme.primaryColor }}>
+            PRUNE
+          </button>
+          {usage.persisted === false && (
+            <button onClick={act(requestPersistentStorage)} className="px-2 border opacity-60 hover:opacity-100" style={{ borderColor: theme.primaryColor }}
+                    title="Ask the browser not to evict the archive">
+              KEEP
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,79 @@
+import React, { useMemo, useState } from 'react';
+import { Itinerary, ThemeConfig } from '../types';
+import { DEFAULT_DWELL_MINUTES, formatItinerary, parseItinerary } from '../services/driftService';
+
+interface ItineraryEditorProps {
+  itinerary: Itinerary | null; // Null starts a new one
+  onSave: (itinerary: Itinerary) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  theme: ThemeConfig;
+}
+
+const PLACEHOLDER = `Reykjavik | 3\n64.14, -21.94\n# Lines starting with # are ignored\nLisbon | ${DEFAULT_DWELL_MINUTES}`;
+
+/**
+ * ItineraryEditor Component
+ *
+ * Writes an ordered list of broadcast stops, one per line as "place | dwell
+ * minutes". Places resolve like the search box, and the parsed stops are
+ * listed as you type.
+ */
+const ItineraryEditor: React.FC<ItineraryEditorProps> = ({ itinerary, onSave, onDelete, onClose, theme }) => {
+  const [name, setName] = useState<string>(itinerary?.name ?? 'New itinerary');
+  const [text, setText] = useState<string>(itinerary ? formatItinerary(itinerary.waypoints) : '');
+  const parsed = useMemo(() => parseItinerary(text), [text]);
+
+  const accent = theme.primaryColor;
+  const fieldClass = 'w-full px-2 py-1 border bg-transparent outline-none';
+  const fieldStyle = { borderColor: accent, color: accent };
+  const buttonClass = 'px-3 py-1 border uppercase tracking-widest opacity-70 hover:opacity-100 disabled:opacity-20';
+
+  const handleSave = () => onSave({
+    id: itinerary?.id ?? `itinerary-${Date.now().toString(36)}`,
+    name: name.trim() || 'Untitled',
+    waypoints: parsed.waypoints,
+  });
+
+  return (
+    <section className={`border p-4 text-xs space-y-3 ${theme.fontClass}`} style={{ borderColor: accent, color: accent, backgroundColor: theme.backgroundColor }}>
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-sm font-bold opacity-60 uppercase tracking-widest">Itinerary</h2>
+        <div className="flex flex-wrap gap-2">
+          {itinerary && (
+            <button onClick={() => onDelete(itinerary.id)} className={buttonClass} style={{ borderColor: accent }}>Delete</button>
+          )}
+          <button onClick={handleSave} disabled={parsed.waypoints.length === 0} className={buttonClass} style={{ borderColor: accent }}>Save</button>
+          <button onClick={onClose} className={buttonClass} style={{ borderColor: accent }}>Close</button>
+        </div>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="opacity-60 uppercase">Name</span>
+        <input value={name} onChange={(e) => setName(e.target.value)} className={fieldClass} style={fieldStyle} />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="opacity-60 uppercase">Stops (place | dwell minutes)</span>
+        <textarea value={text} onChange={(e) => setText(e.target.value)} rows={6} placeholder={PLACEHOLDER}
+                  className={`${fieldClass} font-mono`} style={fieldStyle} />
+      </label>
+
+      <ol className="space-y-0.5 opacity-80">
+        {parsed.waypoints.map((waypoint, i) => (
+          <li key={i}>
+            {i + 1}. {waypoint.name} ({waypoint.coords.lat.toFixed(2)}, {waypoint.coords.lng.toFixed(2)}) // {waypoint.dwellMinutes} min
+          </li>
+        ))}
+      </ol>
+
+      {parsed.unresolved.length > 0 && (
+        <ul className="space-y-0.5">
+          {parsed.unresolved.map(line => <li key={line}>! Not found: {line}</li>)}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ItineraryEditor;
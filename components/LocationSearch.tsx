@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { Coordinates, LocationSearchResult, ThemeConfig } from '../types';
+import { searchLocations } from '../services/locationSearchService';
+
+interface LocationSearchProps {
+  onSelectLocation: (coords: Coordinates) => void;
+  theme: ThemeConfig;
+}
+
+const KIND_TAGS: Record<LocationSearchResult['kind'], string> = {
+  coordinates: 'XY',
+  geohash: 'GH',
+  city: 'CITY',
+};
+
+/**
+ * LocationSearch Component
+ *
+ * A search box above the map for targeting an exact place. Understands
+ * decimal and DMS coordinates, "lat,lng" pairs, geohashes and city names
+ * from the bundled gazetteer. Arrow keys move through the suggestions,
+ * Enter transmits, Escape closes the list.
+ */
+const LocationSearch: React.FC<LocationSearchProps> = ({ onSelectLocation, theme }) => {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(() => searchLocations(query), [query]);
+
+  const choose = (result: LocationSearchResult) => {
+    setQuery(result.kind === 'city' ? `${result.label}, ${result.detail}` : query.trim());
+    setOpen(false);
+    onSelectLocation(result.coords);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      const result = results[activeIndex];
+      if (result) choose(result);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && query.trim() !== '';
+
+  return (
+    <div className={`relative mb-2 text-xs ${theme.fontClass}`}>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="SEARCH: city, 48.8566 2.3522, 48°51'24&quot;N 2°21'8&quot;E, u09tvw"
+        className="w-full px-2 py-1 border bg-transparent outline-none placeholder:opacity-40"
+        style={{ borderColor: theme.primaryColor, color: theme.primaryColor }}
+        aria-label="Search for a location"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+      />
+      {showList && (
+        <ul className="absolute z-20 left-0 right-0 border border-t-0 max-h-64 overflow-y-auto"
+            style={{ borderColor: theme.primaryColor, backgroundColor: theme.backgroundColor }}
+            role="listbox">
+          {results.length === 0 && (
+            <li className="px-2 py-1 opacity-50" style={{ color: theme.primaryColor }}>NO SIGNAL FOR THAT NAME</li>
+          )}
+          {results.map((result, i) => (
+            <li
+              key={`${result.kind}-${result.label}-${result.detail}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              // mousedown fires before the input's blur closes the list.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(result);
+              }}
+              onMouseEnter={() => setActiveIndex(i)}
+              className="px-2 py-1 flex justify-between gap-4 cursor-pointer"
+              style={{
+                color: theme.primaryColor,
+                backgroundColor: i === activeIndex ? theme.secondaryColor : 'transparent',
+              }}
+            >
+              <span>{result.label}</span>
+              <span className="opacity-60">{result.detail} // {KIND_TAGS[result.kind]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LocationSearch;
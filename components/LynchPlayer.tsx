@@ -1,149 +1,403 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { LynchContent, ThemeConfig } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LynchContent, SoundscapeMix, ThemeConfig, TransportSettings, VisualizerMode } from '../types';
+import { CATEGORY_GLYPHS, INTENSITY_LABELS, getWeatherCondition } from '../constants';
+import { getTimeFrame } from '../services/weatherService';
+import ExportMenu from './ExportMenu';
+import SceneryView from './SceneryView';
+import SoundscapeMixer from './SoundscapeMixer';
+import TransportBar from './TransportBar';
+import AudioVisualizer from './AudioVisualizer';
+import { Soundscape, createSoundscape, loadMix, saveMix } from '../services/soundscapeService';
+import { SPEECH_MODE_LABELS, speakWithBrowserVoice } from '../services/degradationService';
+import { captionsForContent, estimateSpeechSeconds } from '../services/captionService';
+import {
+  PLAYBACK_RATES,
+  Transport,
+  bindMediaSession,
+  createBufferTransport,
+  createClockTransport,
+  getAudioContext,
+  loadTransportSettings,
+  saveTransportSettings,
+  updateMediaSessionState,
+} from '../services/playbackService';
+import { ANALYSER_FFT_SIZE, VISUALIZER_MODES, VISUALIZER_MODE_LABELS } from '../services/visualizerService';
 
 interface LynchPlayerProps {
   content: LynchContent;
   onEnded: () => void;
   autoPlay: boolean;
   theme: ThemeConfig;
+  /**
+   * When set, the last seconds fade out and `onApproachingEnd` fires as they begin, so the next segment can overlap.
+   * Counted in listening time, so the fade lasts this long at any playback rate.
+   */
+  crossfadeSeconds?: number;
+  onApproachingEnd?: () => void;
 }
 
-const LynchPlayer: React.FC<LynchPlayerProps> = ({ content, onEnded, autoPlay, theme }) => {
+const SEEK_STEP_SECONDS = 5;
+const VOLUME_STEP = 0.1;
+
+const LynchPlayer: React.FC<LynchPlayerProps> = ({ content, onEnded, autoPlay, theme, crossfadeSeconds = 0, onApproachingEnd }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+  // Mirrors isPlaying for effects that run before the state catches up, such as autoplay on a new transport.
+  const playingRef = useRef(false);
+  const condition = getWeatherCondition(content.weather.conditionCode);
+  const timeFrame = getTimeFrame(content.weather);
+  const transportRef = useRef<Transport | null>(null);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  // The current transport's analyser, for reconnecting it when playback rewires the output.
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  // Null follows the theme's default.
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode | null>(null);
+  const browserSpeechRef = useRef<{ done: Promise<void>; cancel: () => void } | null>(null);
+  const clockFrameRef = useRef<number | null>(null);
+  // Whether this play-through has entered its crossfade.
+  const fadingRef = useRef(false);
+  const crossfadeRef = useRef(crossfadeSeconds);
+  crossfadeRef.current = crossfadeSeconds;
+  const [elapsed, setElapsed] = useState(0);
+  const [settings, setSettings] = useState<TransportSettings>(loadTransportSettings);
+  const rateRef = useRef(settings.rate);
+  rateRef.current = settings.rate;
+  const soundscapeRef = useRef<Soundscape | null>(null);
+  const [mix, setMix] = useState<SoundscapeMix>(loadMix);
+  const [showMixer, setShowMixer] = useState(false);
+  // The browser voice can still fail at playback time; drop to subtitles if it does.
+  const [voiceFailed, setVoiceFailed] = useState(false);
+  const [captionsOn, setCaptionsOn] = useState(true);
 
-  useEffect(() => {
-    return () => {
-      stopPlayback();
+  const speechMode = content.speechMode === 'browser-voice' && voiceFailed ? 'subtitles' : content.speechMode;
+  // Without the generated voice the text is the narration, so it cannot be switched off.
+  const showCaptions = speechMode !== 'tts' || captionsOn;
+  const duration = content.audioBuffer ? content.audioBuffer.duration : estimateSpeechSeconds(content.narrativeText);
+  const captions = useMemo(() => captionsForContent(content), [content]);
+  const words = useMemo(() => captions.flatMap(c => c.words), [captions]);
+  // Captions stay up while paused mid-transmission.
+  const started = isPlaying || elapsed > 0;
+  const activeCaption = !started ? undefined : captions.find(c => elapsed >= c.start && elapsed < c.end)
+    || (elapsed >= (captions[captions.length - 1]?.end ?? Infinity) ? captions[captions.length - 1] : undefined);
+  // The word being spoken: the last one to have started.
+  const activeWord = started ? words.filter(w => w.start <= elapsed).pop() : undefined;
+  const degradedStages = Object.keys(content.degraded);
+  const activeVisualizer = visualizerMode ?? theme.visualizer;
+
+  // Transport callbacks outlive renders; route them to the latest handlers.
+  const handlersRef = useRef({ ended: () => {}, approaching: () => {}, play: () => {}, pause: () => {}, seek: (_: number) => {} });
+
+  const setPlaying = (playing: boolean) => {
+    playingRef.current = playing;
+    setIsPlaying(playing);
+  };
+
+  const stopClock = () => {
+    if (clockFrameRef.current !== null) cancelAnimationFrame(clockFrameRef.current);
+    clockFrameRef.current = null;
+  };
+
+  /**
+   * Follows the transport's position every frame, for captions and the seek bar.
+   */
+  const startClock = (transport: Transport) => {
+    stopClock();
+    const tick = () => {
+      const seconds = transport.currentTime();
+      setElapsed(seconds);
+      const remaining = (transport.duration - seconds) / rateRef.current;
+      if (crossfadeRef.current > 0 && !fadingRef.current && remaining <= crossfadeRef.current) {
+        fadingRef.current = true;
+        handlersRef.current.approaching();
+      }
+      clockFrameRef.current = requestAnimationFrame(tick);
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [content]);
+    clockFrameRef.current = requestAnimationFrame(tick);
+  };
 
-  const stopPlayback = () => {
-    if (sourceNodeRef.current) {
-      try {
-        sourceNodeRef.current.stop();
-      } catch (e) { /* ignore */ }
-      sourceNodeRef.current.disconnect();
-      sourceNodeRef.current = null;
-    }
-    if (videoRef.current) {
-      videoRef.current.pause();
-      videoRef.current.currentTime = 0;
-    }
-    setIsPlaying(false);
+  const stopSoundscape = (fadeSeconds?: number) => {
+    soundscapeRef.current?.stop(fadeSeconds);
+    soundscapeRef.current = null;
+  };
+
+  const handleMixChange = (next: SoundscapeMix) => {
+    setMix(next);
+    saveMix(next);
+    soundscapeRef.current?.setMix(next);
+  };
+
+  const cancelBrowserSpeech = () => {
+    const speech = browserSpeechRef.current;
+    browserSpeechRef.current = null;
+    speech?.cancel();
+  };
+
+  /**
+   * (Re)starts the browser voice at the word under `seconds`. The synthesizer
+   * can neither pause nor seek, so it follows the transport's clock instead.
+   */
+  const speakFrom = (seconds: number, rate: number = settings.rate) => {
+    const transport = transportRef.current;
+    const remaining = words.filter(w => w.end > seconds).map(w => w.text).join(' ');
+    cancelBrowserSpeech();
+    if (!remaining || !transport) return;
+
+    const speech = speakWithBrowserVoice(remaining, theme, rate);
+    browserSpeechRef.current = speech;
+    speech.done.catch((e) => {
+      if (browserSpeechRef.current !== speech) return;
+      console.warn("Browser voice failed, continuing with subtitles", e);
+      browserSpeechRef.current = null;
+      soundscapeRef.current?.setDucked(false);
+      setVoiceFailed(true);
+      // The clock may have run out while we were waiting on the voice.
+      if (transport.currentTime() >= transport.duration) finishPlayback();
+    });
+  };
+
+  const finishPlayback = () => {
+    stopClock();
+    stopSoundscape();
+    cancelBrowserSpeech();
+    transportRef.current?.seek(0);
+    setElapsed(0);
+    setPlaying(false);
+    if (videoRef.current) videoRef.current.pause();
+    onEnded();
+  };
+
+  const pausePlayback = () => {
+    const transport = transportRef.current;
+    if (!transport) return;
+    transport.pause();
+    cancelBrowserSpeech();
+    stopClock();
+    stopSoundscape(0.3);
+    if (videoRef.current) videoRef.current.pause();
+    setElapsed(transport.currentTime());
+    setPlaying(false);
   };
 
   const startPlayback = async () => {
-    if (isPlaying) return;
+    const transport = transportRef.current;
+    if (!transport || playingRef.current) return;
 
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const audioCtx = getAudioContext();
+    if (audioCtx.state === 'suspended') {
+      await audioCtx.resume();
     }
 
-    if (audioContextRef.current.state === 'suspended') {
-      await audioContextRef.current.resume();
+    // The bed fades in under the narration, which plays through its mixer.
+    stopSoundscape(0.3);
+    const soundscape = createSoundscape(audioCtx, theme, content.weather, mix, content.speechMode === 'tts');
+    soundscapeRef.current = soundscape;
+    if (transport.output) {
+      transport.output.disconnect();
+      transport.output.connect(soundscape.voiceInput);
+      if (analyserRef.current) transport.output.connect(analyserRef.current);
+    }
+
+    try {
+      await transport.play();
+    } catch (e) {
+      console.warn("Playback could not start", e);
+      stopSoundscape(0.3);
+      return;
     }
 
     // If video exists, play it, otherwise just image is shown
     if (videoRef.current && content.videoUrl) {
-      videoRef.current.loop = true; 
+      videoRef.current.loop = true;
       videoRef.current.play().catch(e => console.error("Video play failed", e));
     }
-
-    if (content.audioBuffer && audioContextRef.current) {
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = content.audioBuffer;
-      source.connect(audioContextRef.current.destination);
-      
-      source.onended = () => {
-        setIsPlaying(false);
-        if (videoRef.current) videoRef.current.pause();
-        onEnded();
-      };
-
-      source.start();
-      sourceNodeRef.current = source;
-      setIsPlaying(true);
-      
-      visualize(source, audioContextRef.current);
+    if (speechMode === 'browser-voice') {
+      speakFrom(transport.currentTime());
+      soundscape.setDucked(true); // speechSynthesis bypasses Web Audio, so duck by hand
     }
+    fadingRef.current = false;
+    setPlaying(true);
+    startClock(transport);
   };
 
-  useEffect(() => {
-    // Immediate auto play if requested
-    if (autoPlay && content) {
-        startPlayback();
+  const togglePlayback = () => (isPlaying ? pausePlayback() : startPlayback());
+
+  const seekTo = (seconds: number) => {
+    const transport = transportRef.current;
+    if (!transport) return;
+    transport.seek(seconds);
+    if ((transport.duration - transport.currentTime()) / settings.rate > crossfadeSeconds) fadingRef.current = false;
+    setElapsed(transport.currentTime());
+    updateMediaSessionState(isPlaying, transport.duration, transport.currentTime(), settings.rate);
+    if (isPlaying && browserSpeechRef.current) speakFrom(transport.currentTime());
+  };
+
+  const handleSettingsChange = (next: TransportSettings) => {
+    if (next.rate !== settings.rate && isPlaying && browserSpeechRef.current) {
+      speakFrom(transportRef.current?.currentTime() ?? 0, next.rate);
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [content, autoPlay]);
+    setSettings(next);
+    saveTransportSettings(next);
+  };
 
+  const handleEnded = () => {
+    const transport = transportRef.current;
+    if (!transport) return;
+    if (settings.loop) {
+      transport.seek(0);
+      transport.play().catch(e => console.warn("Loop restart failed", e));
+      if (speechMode === 'browser-voice') speakFrom(0);
+      return;
+    }
+    // A browser voice slower than the caption estimate gets to finish its sentence.
+    const speech = browserSpeechRef.current;
+    if (speech) {
+      speech.done.then(() => {
+        if (browserSpeechRef.current === speech) finishPlayback();
+      }, () => {});
+      return;
+    }
+    finishPlayback();
+  };
 
-  const visualize = (source: AudioBufferSourceNode, ctx: AudioContext) => {
-    if (!canvasRef.current) return;
-    const canvas = canvasRef.current;
-    const canvasCtx = canvas.getContext('2d');
-    if (!canvasCtx) return;
+  const handleApproachingEnd = () => {
+    const transport = transportRef.current;
+    if (!transport || settings.loop) return;
+    const remaining = (transport.duration - transport.currentTime()) / settings.rate;
+    transport.fadeOut(remaining);
+    stopSoundscape(remaining);
+    onApproachingEnd?.();
+  };
 
-    const analyzer = ctx.createAnalyser();
-    analyzer.fftSize = 256;
-    source.connect(analyzer);
+  // Bound to the player itself, so the shortcuts only act while it has focus.
+  const handleKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement | null;
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON', 'A'].includes(target.tagName))) return;
 
-    const bufferLength = analyzer.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
+    const rateIndex = PLAYBACK_RATES.indexOf(settings.rate);
+    switch (e.key.length === 1 ? e.key.toLowerCase() : e.key) {
+      case ' ':
+      case 'k':
+        togglePlayback();
+        break;
+      case 'ArrowLeft':
+        seekTo(elapsed - SEEK_STEP_SECONDS);
+        break;
+      case 'ArrowRight':
+        seekTo(elapsed + SEEK_STEP_SECONDS);
+        break;
+      case 'ArrowUp':
+        handleSettingsChange({ ...settings, volume: Math.min(1, settings.volume + VOLUME_STEP) });
+        break;
+      case 'ArrowDown':
+        handleSettingsChange({ ...settings, volume: Math.max(0, settings.volume - VOLUME_STEP) });
+        break;
+      case '<':
+        handleSettingsChange({ ...settings, rate: PLAYBACK_RATES[Math.max(0, rateIndex - 1)] });
+        break;
+      case '>':
+        handleSettingsChange({ ...settings, rate: PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, rateIndex + 1)] });
+        break;
+      case 'l':
+        handleSettingsChange({ ...settings, loop: !settings.loop });
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
 
-    const draw = () => {
-        if (!sourceNodeRef.current) return;
-        requestAnimationFrame(draw);
+  handlersRef.current = {
+    ended: handleEnded,
+    approaching: handleApproachingEnd,
+    play: () => { startPlayback(); },
+    pause: pausePlayback,
+    seek: seekTo,
+  };
 
-        analyzer.getByteFrequencyData(dataArray);
+  // One transport per transmission: the audio track when there is one, a clock otherwise.
+  useEffect(() => {
+    setVoiceFailed(false);
+    setElapsed(0);
+    const onTransportEnded = () => handlersRef.current.ended();
+    const transport = content.audioBuffer
+      ? createBufferTransport(getAudioContext(), content.audioBuffer, onTransportEnded)
+      : createClockTransport(duration, onTransportEnded);
+    transportRef.current = transport;
+    return () => {
+      stopClock();
+      stopSoundscape(0.3);
+      cancelBrowserSpeech();
+      transport.pause();
+      transport.dispose();
+      if (transportRef.current === transport) transportRef.current = null;
+      setPlaying(false);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [content]);
 
-        // Clear with theme background opacity
-        canvasCtx.clearRect(0, 0, canvas.width, canvas.height);
+  useEffect(() => {
+    transportRef.current?.setRate(settings.rate);
+    transportRef.current?.setVolume(settings.volume);
+  }, [content, settings.rate, settings.volume]);
 
-        const barWidth = (canvas.width / bufferLength) * 2.5;
-        let barHeight;
-        let x = 0;
+  useEffect(() => {
+    // Immediate auto play if requested
+    if (autoPlay && content) {
+        startPlayback();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [content, autoPlay]);
 
-        for(let i = 0; i < bufferLength; i++) {
-            barHeight = dataArray[i];
+  useEffect(() => bindMediaSession(
+    {
+      title: content.weather.locationName || `${content.location.lat.toFixed(2)}, ${content.location.lng.toFixed(2)}`,
+      artist: theme.name,
+      artwork: content.imageUrl,
+    },
+    {
+      play: () => handlersRef.current.play(),
+      pause: () => handlersRef.current.pause(),
+      stop: () => { handlersRef.current.pause(); handlersRef.current.seek(0); },
+      seekTo: (seconds) => handlersRef.current.seek(seconds),
+      seekBy: (seconds) => handlersRef.current.seek((transportRef.current?.currentTime() ?? 0) + seconds),
+    },
+  ), [content, theme.name]);
 
-            // Use theme primary color
-            canvasCtx.fillStyle = theme.primaryColor;
-            
-            // Adjust opacity based on volume
-            canvasCtx.globalAlpha = barHeight / 255;
-            canvasCtx.fillRect(x, canvas.height - barHeight / 2, barWidth, barHeight / 2);
+  useEffect(() => {
+    updateMediaSessionState(isPlaying, duration, transportRef.current?.currentTime() ?? 0, settings.rate);
+  }, [isPlaying, duration, settings.rate]);
 
-            x += barWidth + 1;
-        }
+  // Taps whatever the transport plays for the visualizer.
+  useEffect(() => {
+    const transport = transportRef.current;
+    if (!transport?.output) return;
+    const node = getAudioContext().createAnalyser();
+    node.fftSize = ANALYSER_FFT_SIZE;
+    transport.output.connect(node);
+    analyserRef.current = node;
+    setAnalyser(node);
+    return () => {
+      try {
+        transport.output?.disconnect(node);
+      } catch (e) { /* Already disconnected by the transport */ }
+      if (analyserRef.current === node) analyserRef.current = null;
+      setAnalyser(null);
     };
-    draw();
-  };
+  }, [content]);
 
   return (
-    <div className={`relative w-full max-w-4xl mx-auto mt-8 transition-all duration-500 ${theme.containerClass}`}>
+    <div className={`relative w-full max-w-4xl mx-auto mt-8 transition-all duration-500 focus:outline-none focus-visible:ring-1 ${theme.containerClass}`}
+         tabIndex={0} onKeyDown={handleKey} aria-label="Transmission player">
       
       {/* Visual Layer: Video OR Generated Image OR Placeholder */}
       <div className="relative aspect-video bg-black overflow-hidden">
         {content.videoUrl ? (
-          <video 
-            ref={videoRef}
-            src={content.videoUrl}
-            className="w-full h-full object-cover transition-opacity duration-1000"
-            style={{ opacity: isPlaying ? 1 : 0.6 }}
-            muted 
-            playsInline
-          />
+          <div className="w-full h-full transition-opacity duration-1000" style={{ opacity: isPlaying ? 1 : 0.6 }}>
+            <SceneryView key={content.videoUrl} videoUrl={content.videoUrl} videoRef={videoRef} effects={theme.postEffects} weather={content.weather} />
+          </div>
         ) : content.imageUrl ? (
-            <img 
-                src={content.imageUrl} 
-                alt="Atmospheric Generation"
-                className="w-full h-full object-cover animate-[pulse_10s_ease-in-out_infinite]"
-            />
+            <SceneryView key={content.imageUrl} imageUrl={content.imageUrl} effects={theme.postEffects} weather={content.weather} />
         ) : (
           <div className={`w-full h-full flex items-center justify-center ${theme.fontClass} italic`}
                style={{ color: theme.primaryColor }}>
@@ -151,36 +405,105 @@ const LynchPlayer: React.FC<LynchPlayerProps> = ({ content, onEnded, autoPlay, t
           </div>
         )}
         
-        {/* CRT Overlay Effect - Only for Lynch/Blade */}
-        {theme.id !== 'WES' && <div className="absolute inset-0 crt-overlay pointer-events-none"></div>}
+        {/* Timed captions, the spoken word picked out. Announced only when there is no voice to hear. */}
+        {showCaptions && activeCaption && (
+          <div className={`absolute bottom-4 left-0 right-0 px-8 text-center pointer-events-none ${theme.fontClass}`}
+               aria-live={speechMode === 'tts' ? 'off' : 'polite'} aria-atomic="true">
+            <span className="inline-block px-3 py-1 text-lg leading-snug"
+                  style={{ backgroundColor: 'rgba(0,0,0,0.65)', color: theme.captionColor }}>
+              {activeCaption.words.map((word, i) => (
+                <React.Fragment key={i}>
+                  {i > 0 && ' '}
+                  <span style={word === activeWord ? { color: theme.primaryColor } : undefined}>{word.text}</span>
+                </React.Fragment>
+              ))}
+            </span>
+          </div>
+        )}
+
+        {/* Degraded components, stated plainly */}
+        {(speechMode !== 'tts' || degradedStages.length > 0) && (
+          <div className={`absolute top-2 right-2 px-2 py-1 text-[10px] uppercase tracking-widest pointer-events-none ${theme.fontClass}`}
+               style={{ backgroundColor: theme.backgroundColor, color: theme.primaryColor, opacity: 0.85 }}
+               title={Object.entries(content.degraded).map(([stage, reason]) => `${stage}: ${reason}`).join('\n')}>
+            DEGRADED // {speechMode !== 'tts' ? `VOICE: ${SPEECH_MODE_LABELS[speechMode]}` : 'VOICE OK'}
+            {degradedStages.filter(stage => stage !== 'speech').map(stage => ` // ${stage} lost`)}
+          </div>
+        )}
+
+        {/* Condition Overlay */}
+        <div className={`absolute top-2 left-2 px-2 py-1 text-[10px] uppercase tracking-widest pointer-events-none ${theme.fontClass}`}
+             style={{ backgroundColor: theme.backgroundColor, color: theme.primaryColor, opacity: 0.85 }}>
+          {timeFrame !== 'present' && `${timeFrame === 'past' ? 'ARCHIVE' : 'PROPHECY'} ${content.weather.observedAt.slice(0, 16).replace('T', ' ')} // `}
+          {CATEGORY_GLYPHS[condition.category]} {condition.label} // {INTENSITY_LABELS[condition.intensity]} // {content.weather.temperature}°C
+          {content.weather.locationName && <div className="opacity-70 normal-case">{content.weather.locationName}</div>}
+        </div>
       </div>
 
       {/* Controls & Visualization */}
       <div className={`p-4 border-t flex flex-col gap-4 transition-colors duration-500`}
            style={{ backgroundColor: theme.backgroundColor, borderColor: theme.primaryColor }}>
         
-        <canvas ref={canvasRef} width="600" height="50" className="w-full h-12 opacity-80" />
+        <AudioVisualizer analyser={analyser} active={isPlaying} mode={activeVisualizer} theme={theme} />
+        {analyser && (
+          <div className={`flex flex-wrap justify-center gap-3 -mt-2 text-[10px] uppercase tracking-widest ${theme.fontClass}`}
+               role="group" aria-label="Visualizer">
+            {VISUALIZER_MODES.map(mode => (
+              <button key={mode} onClick={() => setVisualizerMode(mode)} aria-pressed={mode === activeVisualizer}
+                      className="hover:opacity-100" style={{ color: theme.primaryColor, opacity: mode === activeVisualizer ? 1 : 0.4 }}>
+                {VISUALIZER_MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+        )}
         
-        <div className="text-center">
-            {!isPlaying ? (
-                <button 
-                onClick={startPlayback}
-                className={`px-8 py-2 uppercase text-sm border hover:invert transition-all ${theme.fontClass}`}
-                style={{ backgroundColor: theme.secondaryColor, color: theme.primaryColor, borderColor: theme.primaryColor }}
-                >
-                Replay Transmission
-                </button>
-            ) : (
-                <div className={`text-xs animate-pulse ${theme.fontClass}`} style={{ color: theme.primaryColor }}>
-                    TRANSMITTING...
-                </div>
-            )}
-        </div>
+        <TransportBar
+          playing={isPlaying}
+          position={elapsed}
+          duration={duration}
+          settings={settings}
+          onTogglePlay={togglePlayback}
+          onSeek={seekTo}
+          onSettingsChange={handleSettingsChange}
+          theme={theme}
+        />
 
+        {/* Karaoke narrative: spoken words brighten, the current one takes the accent colour */}
         <div className={`${theme.fontClass} italic text-center text-sm px-8 leading-relaxed`}
-             style={{ color: theme.id === 'WES' ? '#555' : '#888' }}>
-            "{content.narrativeText}"
+             style={{ color: theme.textColor }}>
+            "{words.map((word, i) => (
+              <React.Fragment key={i}>
+                {i > 0 && ' '}
+                <span className="transition-opacity duration-200"
+                      style={word === activeWord
+                        ? { color: theme.primaryColor, opacity: 1 }
+                        : { opacity: activeWord && word.start < activeWord.start ? 0.9 : 0.6 }}>
+                  {word.text}
+                </span>
+              </React.Fragment>
+            ))}"
         </div>
+
+        <div className="flex flex-col items-center gap-3">
+          <div className="flex gap-6">
+            {speechMode === 'tts' && (
+              <button onClick={() => setCaptionsOn(on => !on)}
+                      aria-pressed={captionsOn}
+                      className={`text-[10px] uppercase tracking-widest opacity-60 hover:opacity-100 ${theme.fontClass}`}
+                      style={{ color: theme.primaryColor }}>
+                CC {captionsOn ? '[ON]' : '[OFF]'}
+              </button>
+            )}
+            <button onClick={() => setShowMixer(open => !open)}
+                    className={`text-[10px] uppercase tracking-widest opacity-60 hover:opacity-100 ${theme.fontClass}`}
+                    style={{ color: theme.primaryColor }}>
+              Soundscape Mixer {showMixer ? '[-]' : '[+]'}
+            </button>
+          </div>
+          {showMixer && <SoundscapeMixer mix={mix} onChange={handleMixChange} theme={theme} />}
+        </div>
+
+        <ExportMenu content={content} theme={theme} />
       </div>
     </div>
   );
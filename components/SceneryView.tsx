@@ -0,0 +1,124 @@
+import React, { RefObject, useEffect, useRef, useState } from 'react';
+import { PostEffectSettings, WeatherData } from '../types';
+import { SceneSource, createPostProcessor, deriveSceneWeather } from '../services/postProcessingService';
+
+interface SceneryViewProps {
+  imageUrl?: string;
+  videoUrl?: string; // Takes precedence over imageUrl
+  videoRef?: RefObject<HTMLVideoElement | null>; // Given the video element, so the player can start and pause it
+  effects: PostEffectSettings;
+  weather: WeatherData;
+}
+
+const MAX_PIXEL_RATIO = 2;
+
+/**
+ * SceneryView Component
+ *
+ * The generated image or video run through the theme's post-processing stack,
+ * animated every frame and driven by the transmission's weather. Falls back to
+ * the plain image or video if the stack cannot start; holds a still frame of an
+ * image for reduced motion. Key it by URL so new scenery gets a fresh attempt.
+ */
+const SceneryView: React.FC<SceneryViewProps> = ({ imageUrl, videoUrl, videoRef, effects, weather }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const localVideoRef = useRef<HTMLVideoElement>(null);
+  const [failed, setFailed] = useState(false);
+  const effectsKey = JSON.stringify(effects);
+
+  const setVideo = (video: HTMLVideoElement | null) => {
+    localVideoRef.current = video;
+    if (videoRef) videoRef.current = video;
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const video = localVideoRef.current;
+    if (!container || (videoUrl ? !video : !imageUrl)) return;
+
+    let disposed = false;
+    let frame = 0;
+    let cleanup = () => {};
+    let detach = () => {};
+
+    const start = (source: SceneSource) => {
+      if (disposed) return;
+      try {
+        const pixelRatio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+        const size = () => ({
+          width: Math.max(1, Math.round(container.clientWidth * pixelRatio)),
+          height: Math.max(1, Math.round(container.clientHeight * pixelRatio)),
+        });
+        const processor = createPostProcessor(source, effects, deriveSceneWeather(weather), size());
+        processor.canvas.className = 'w-full h-full block';
+        container.appendChild(processor.canvas);
+
+        // A video moves anyway, so it is always redrawn.
+        const reducedMotion = !video && (window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false);
+        const startedAt = performance.now();
+        const draw = () => {
+          processor.render((performance.now() - startedAt) / 1000);
+          if (!reducedMotion) frame = requestAnimationFrame(draw);
+        };
+
+        const observer = new ResizeObserver(() => {
+          const { width, height } = size();
+          processor.resize(width, height);
+          if (reducedMotion) draw();
+        });
+        observer.observe(container);
+        draw();
+
+        cleanup = () => {
+          observer.disconnect();
+          processor.dispose();
+          processor.canvas.remove();
+        };
+      } catch (e) {
+        console.warn("Scenery post-processing failed", e);
+        setFailed(true);
+      }
+    };
+    const fail = () => { if (!disposed) setFailed(true); };
+
+    if (video) {
+      // HAVE_CURRENT_DATA: the first frame, and so the video's size, is known.
+      const onLoaded = () => start(video);
+      if (video.readyState >= 2) onLoaded();
+      else video.addEventListener('loadeddata', onLoaded, { once: true });
+      video.addEventListener('error', fail, { once: true });
+      detach = () => {
+        video.removeEventListener('loadeddata', onLoaded);
+        video.removeEventListener('error', fail);
+      };
+    } else if (imageUrl) {
+      const image = new Image();
+      image.onload = () => start(image);
+      image.onerror = fail;
+      image.src = imageUrl;
+    }
+
+    return () => {
+      disposed = true;
+      cancelAnimationFrame(frame);
+      detach();
+      cleanup();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [imageUrl, videoUrl, effectsKey, weather]);
+
+  if (videoUrl) {
+    // The video stays in the page as the stack's frame source, hidden unless the stack failed.
+    return (
+      <div ref={containerRef} className="w-full h-full" role="img" aria-label="Atmospheric Generation">
+        <video ref={setVideo} src={videoUrl} className={failed ? 'w-full h-full object-cover' : 'hidden'} muted playsInline />
+      </div>
+    );
+  }
+  if (failed) {
+    return <img src={imageUrl} alt="Atmospheric Generation" className="w-full h-full object-cover" />;
+  }
+  return <div ref={containerRef} className="w-full h-full" role="img" aria-label="Atmospheric Generation" />;
+};
+
+export default SceneryView;
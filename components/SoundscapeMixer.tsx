@@ -0,0 +1,42 @@
+import React from 'react';
+import { SoundscapeChannel, SoundscapeMix, ThemeConfig } from '../types';
+import { SOUNDSCAPE_CHANNELS } from '../services/soundscapeService';
+
+interface SoundscapeMixerProps {
+  mix: SoundscapeMix;
+  onChange: (mix: SoundscapeMix) => void;
+  theme: ThemeConfig;
+}
+
+const CHANNEL_LABELS: Record<SoundscapeChannel, string> = {
+  master: 'Master',
+  voice: 'Voice',
+  drone: 'Drone',
+  texture: 'Texture',
+  rain: 'Rain',
+  wind: 'Wind',
+};
+
+/**
+ * SoundscapeMixer Component
+ *
+ * One fader per soundscape channel, including the narration itself.
+ */
+const SoundscapeMixer: React.FC<SoundscapeMixerProps> = ({ mix, onChange, theme }) => (
+  <div className={`grid grid-cols-3 md:grid-cols-6 gap-x-4 gap-y-2 text-[10px] uppercase tracking-widest ${theme.fontClass}`}
+       style={{ color: theme.primaryColor }}>
+    {SOUNDSCAPE_CHANNELS.map(channel => (
+      <label key={channel} className="flex flex-col gap-1">
+        <span className="opacity-60">{CHANNEL_LABELS[channel]} {Math.round(mix[channel] * 100)}</span>
+        <input
+          type="range" min={0} max={1} step={0.01}
+          value={mix[channel]}
+          onChange={(e) => onChange({ ...mix, [channel]: Number(e.target.value) })}
+          style={{ accentColor: theme.primaryColor }}
+        />
+      </label>
+    ))}
+  </div>
+);
+
+export default SoundscapeMixer;
@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Coordinates, PostEffectId, ThemeConfig } from '../types';
+import { DEFAULT_COORDINATES, TTS_VOICES } from '../constants';
+import { PROMPT_PLACEHOLDERS, isBuiltInTheme, parseTheme, renderPromptTemplate, serializeTheme, validateTheme } from '../services/themeService';
+import { describeTerrain } from '../services/terrainService';
+import { POST_EFFECT_IDS, POST_EFFECT_LABELS } from '../services/postProcessingService';
+import { SOUNDSCAPE_STYLES } from '../services/soundscapeService';
+import { VISUALIZER_MODES, VISUALIZER_MODE_LABELS, VISUALIZER_SIGNATURES } from '../services/visualizerService';
+import { downloadBlob } from '../services/exportService';
+
+interface ThemeEditorProps {
+  base: ThemeConfig; // Theme the editor starts from
+  themes: Record<string, ThemeConfig>;
+  location: Coordinates | null; // Place the prompt preview describes
+  onPreview: (theme: ThemeConfig | null) => void; // Latest valid draft, or null when the editor closes
+  onSave: (theme: ThemeConfig) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const SAMPLE_ATMOSPHERE = 'moderate rain, wet asphalt, flickering signs. The road is listening tonight';
+
+const COLOR_LABELS: [keyof ThemeConfig, string][] = [
+  ['primaryColor', 'Primary'],
+  ['secondaryColor', 'Secondary'],
+  ['backgroundColor', 'Background'],
+  ['textColor', 'Text'],
+  ['captionColor', 'Captions'],
+];
+
+const STYLE_LABELS: [keyof ThemeConfig, string][] = [
+  ['fontClass', 'Font classes'],
+  ['containerClass', 'Player frame classes'],
+  ['markerClass', 'Map marker classes'],
+  ['mapFilter', 'Map CSS filter'],
+];
+
+/**
+ * Gives built-in themes a fresh id so saving never collides with them.
+ */
+const startDraft = (base: ThemeConfig): ThemeConfig =>
+  isBuiltInTheme(base.id) ? { ...base, id: `${base.id}_II`, name: `${base.name} II` } : { ...base };
+
+/**
+ * ThemeEditor Component
+ *
+ * Edits a declarative theme with a live preview: every valid change restyles
+ * the real map and player. Themes can be saved locally, exported as JSON and
+ * imported from JSON.
+ */
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ base, themes, location, onPreview, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<ThemeConfig>(() => startDraft(base));
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const errors = useMemo(() => {
+    const result = validateTheme(draft);
+    return isBuiltInTheme(draft.id) ? [...result.errors, `${draft.id} is a built-in theme; choose another id.`] : result.errors;
+  }, [draft]);
+
+  // Only valid drafts reach the preview; an invalid edit keeps the last good look.
+  useEffect(() => {
+    const { theme } = validateTheme(draft);
+    if (theme) onPreview(theme);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft]);
+
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  const promptPreview = useMemo(() => {
+    const terrain = describeTerrain(location ?? DEFAULT_COORDINATES);
+    return renderPromptTemplate(draft.videoPromptTemplate, SAMPLE_ATMOSPHERE, terrain).replace(/\s+/g, ' ').trim();
+  }, [draft.videoPromptTemplate, location]);
+
+  const set = (field: keyof ThemeConfig) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+      setImportErrors([]);
+      setDraft(d => ({ ...d, [field]: field === 'id' ? e.target.value.toUpperCase() : e.target.value }));
+    };
+
+  const setEffect = (effect: PostEffectId, strength: number) =>
+    setDraft(d => {
+      const postEffects = { ...d.postEffects };
+      if (strength > 0) postEffects[effect] = strength;
+      else delete postEffects[effect];
+      return { ...d, postEffects };
+    });
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseTheme(await file.text());
+    setImportErrors(result.errors.map(error => `${file.name}: ${error}`));
+    if (result.theme) setDraft(startDraft(result.theme));
+  };
+
+  const handleExport = () => {
+    const { theme } = validateTheme(draft);
+    if (theme) downloadBlob(new Blob([serializeTheme(theme)], { type: 'application/json' }), `${theme.id.toLowerCase()}.theme.json`);
+  };
+
+  const accent = base.primaryColor;
+  const fieldClass = 'w-full px-2 py-1 border bg-transparent outline-none';
+  const fieldStyle = { borderColor: accent, color: accent };
+  const buttonClass = 'px-3 py-1 border uppercase tracking-widest opacity-70 hover:opacity-100 disabled:opacity-20';
+  const isSaved = themes[draft.id] !== undefined && !isBuiltInTheme(draft.id);
+
+  return (
+    <section className={`border p-4 text-xs space-y-4 ${base.fontClass}`} style={{ borderColor: accent, color: accent, backgroundColor: base.backgroundColor }}>
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-sm font-bold opacity-60 uppercase tracking-widest">Theme Editor // Preview Live</h2>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass} style={{ borderColor: accent }}>Import JSON</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <button onClick={handleExport} disabled={errors.length > 0} className={buttonClass} style={{ borderColor: accent }}>Export JSON</button>
+          {isSaved && (
+            <button onClick={() => onDelete(draft.id)} className={buttonClass} style={{ borderColor: accent }}>Delete</button>
+          )}
+          <button onClick={() => onSave(draft)} disabled={errors.length > 0} className={buttonClass} style={{ borderColor: accent }}>Save</button>
+          <button onClick={onClose} className={buttonClass} style={{ borderColor: accent }}>Close</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="space-y-1">
+          <span className="opacity-60 uppercase">Id</span>
+          <input value={draft.id} onChange={set('id')} className={fieldClass} style={fieldStyle} />
+        </label>
+        <label className="space-y-1">
+          <span className="opacity-60 uppercase">Name</span>
+          <input value={draft.name} onChange={set('name')} className={fieldClass} style={fieldStyle} />
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="space-y-1">
+            <span className="opacity-60 uppercase">Voice</span>
+            <select value={draft.voiceName} onChange={set('voiceName')} className={fieldClass} style={fieldStyle}>
+              {TTS_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="opacity-60 uppercase">Soundscape</span>
+            <select value={draft.soundscape} onChange={set('soundscape')} className={fieldClass} style={fieldStyle}>
+              {SOUNDSCAPE_STYLES.map(style => <option key={style} value={style}>{style.toUpperCase()}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="opacity-60 uppercase">Visualizer</span>
+            <select value={draft.visualizer} onChange={set('visualizer')} className={fieldClass} style={fieldStyle}>
+              {VISUALIZER_MODES.map(mode => <option key={mode} value={mode}>{VISUALIZER_MODE_LABELS[mode].toUpperCase()}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="opacity-60 uppercase">Signature</span>
+            <select value={draft.visualizerSignature} onChange={set('visualizerSignature')} className={fieldClass} style={fieldStyle}>
+              {VISUALIZER_SIGNATURES.map(signature => <option key={signature} value={signature}>{signature.toUpperCase()}</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-2">
+        {POST_EFFECT_IDS.map(effect => (
+          <label key={effect} className="flex items-center gap-2">
+            <span className="opacity-60 uppercase w-24 shrink-0">{POST_EFFECT_LABELS[effect]}</span>
+            <input
+              type="range" min={0} max={1} step={0.05}
+              value={draft.postEffects[effect] ?? 0}
+              onChange={(e) => setEffect(effect, Number(e.target.value))}
+              className="flex-1"
+              style={{ accentColor: accent }}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {COLOR_LABELS.map(([field, label]) => (
+          <label key={field} className="flex items-center gap-2">
+            <input type="color" value={draft[field] as string} onChange={set(field)} className="w-8 h-6 border-0 bg-transparent cursor-pointer" />
+            <span className="opacity-60 uppercase">{label}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {STYLE_LABELS.map(([field, label]) => (
+          <label key={field} className="space-y-1">
+            <span className="opacity-60 uppercase">{label}</span>
+            <input value={draft[field] as string} onChange={set(field)} className={fieldClass} style={fieldStyle} />
+          </label>
+        ))}
+      </div>
+
+      <label className="block space-y-1">
+        <span className="opacity-60 uppercase">Narrator instructions</span>
+        <textarea value={draft.systemInstruction} onChange={set('systemInstruction')} rows={5} className={fieldClass} style={fieldStyle} />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="opacity-60 uppercase">Scenery prompt template</span>
+        <textarea value={draft.videoPromptTemplate} onChange={set('videoPromptTemplate')} rows={5} className={fieldClass} style={fieldStyle} />
+      </label>
+      <div className="opacity-60 leading-relaxed">
+        {Object.entries(PROMPT_PLACEHOLDERS).map(([key, help]) => (
+          <span key={key} className="mr-3" title={help}>{`{${key}}`}</span>
+        ))}
+        <div>Sections: {'{#coastal}…{/coastal}'} if set, {'{^land}…{/land}'} if not, {'{#biome=desert|steppe}…{/biome}'} if one of.</div>
+      </div>
+      <div className="border-l-2 pl-2 opacity-80" style={{ borderColor: accent }}>
+        <span className="opacity-60 uppercase">Rendered here: </span>{promptPreview}
+      </div>
+
+      {[...importErrors, ...errors].length > 0 && (
+        <ul className="space-y-0.5">
+          {[...importErrors, ...errors].map(error => <li key={error}>! {error}</li>)}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ThemeEditor;
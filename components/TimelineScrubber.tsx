@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { ThemeConfig } from '../types';
+import { TIME_TRAVEL_PAST_DAYS, TIME_TRAVEL_FUTURE_DAYS } from '../services/weatherService';
+
+interface TimelineScrubberProps {
+  offsetHours: number; // 0 = live conditions
+  onChange: (offsetHours: number) => void;
+  disabled: boolean;
+  theme: ThemeConfig;
+}
+
+const MIN_OFFSET = -TIME_TRAVEL_PAST_DAYS * 24;
+const MAX_OFFSET = TIME_TRAVEL_FUTURE_DAYS * 24;
+
+/**
+ * Resolves a scrubber offset to the top of the target hour.
+ */
+export const getTargetTime = (offsetHours: number, now: Date = new Date()): Date => {
+  const target = new Date(now.getTime() + offsetHours * 3600000);
+  target.setUTCMinutes(0, 0, 0);
+  return target;
+};
+
+const formatOffset = (offsetHours: number) => {
+  const abs = Math.abs(offsetHours);
+  const days = Math.floor(abs / 24);
+  const hours = abs % 24;
+  const sign = offsetHours < 0 ? '-' : '+';
+  return `${sign}${days ? `${days}D ` : ''}${hours}H`;
+};
+
+/**
+ * TimelineScrubber Component
+ *
+ * A slider under the map that picks any hour from a week ago to a week ahead.
+ * Left of centre is the archive, right of centre is prophecy.
+ */
+const TimelineScrubber: React.FC<TimelineScrubberProps> = ({ offsetHours, onChange, disabled, theme }) => {
+  const [now, setNow] = useState(new Date());
+
+  // Keep the displayed target time in step with the clock.
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const target = getTargetTime(offsetHours, now);
+  const label = offsetHours === 0 ? 'LIVE' : offsetHours < 0 ? `ARCHIVE ${formatOffset(offsetHours)}` : `PROPHECY ${formatOffset(offsetHours)}`;
+
+  return (
+    <div className={`flex items-center gap-3 mt-2 text-xs ${theme.fontClass}`} style={{ color: theme.primaryColor }}>
+      <span className="opacity-60 w-14">-{TIME_TRAVEL_PAST_DAYS}D</span>
+      <input
+        type="range"
+        min={MIN_OFFSET}
+        max={MAX_OFFSET}
+        step={1}
+        value={offsetHours}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 cursor-pointer disabled:cursor-wait"
+        style={{ accentColor: theme.primaryColor }}
+        aria-label="Time travel"
+      />
+      <span className="opacity-60 w-14 text-right">+{TIME_TRAVEL_FUTURE_DAYS}D</span>
+      <button
+        onClick={() => onChange(0)}
+        disabled={disabled || offsetHours === 0}
+        className="px-2 border opacity-60 hover:opacity-100 disabled:opacity-30"
+        style={{ borderColor: theme.primaryColor }}
+      >
+        NOW
+      </button>
+      <span className={`w-56 text-right ${offsetHours !== 0 ? 'animate-pulse' : ''}`}>
+        {label} // {target.toISOString().slice(0, 16).replace('T', ' ')} UTC
+      </span>
+    </div>
+  );
+};
+
+export default TimelineScrubber;
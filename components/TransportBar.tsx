@@ -0,0 +1,78 @@
+import React from 'react';
+import { ThemeConfig, TransportSettings } from '../types';
+import { PLAYBACK_RATES } from '../services/playbackService';
+
+interface TransportBarProps {
+  playing: boolean;
+  position: number; // Seconds
+  duration: number; // Seconds
+  settings: TransportSettings;
+  onTogglePlay: () => void;
+  onSeek: (seconds: number) => void;
+  onSettingsChange: (settings: TransportSettings) => void;
+  theme: ThemeConfig;
+}
+
+const formatClock = (seconds: number): string => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+/**
+ * TransportBar Component
+ *
+ * Play/pause, a seek bar with elapsed and total time, loop, speed and volume.
+ * Keyboard shortcuts are listed in the play button's tooltip; the player handles them while it has focus.
+ */
+const TransportBar: React.FC<TransportBarProps> = ({ playing, position, duration, settings, onTogglePlay, onSeek, onSettingsChange, theme }) => {
+  const nextRate = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(settings.rate) + 1) % PLAYBACK_RATES.length];
+  const buttonClass = 'px-2 py-1 text-[10px] uppercase tracking-widest border opacity-70 hover:opacity-100 shrink-0';
+  const buttonStyle = { borderColor: theme.primaryColor, color: theme.primaryColor };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-3 text-[10px] uppercase tracking-widest ${theme.fontClass}`}
+         style={{ color: theme.primaryColor }}>
+      <button onClick={onTogglePlay} className={`${buttonClass} w-20`}
+              style={{ ...buttonStyle, backgroundColor: theme.secondaryColor }}
+              aria-label={playing ? 'Pause' : 'Play'}
+              title="Space/K play-pause // ← → seek 5s // ↑ ↓ volume // < > speed // L loop">
+        {playing ? '❚❚ Pause' : '▶ Play'}
+      </button>
+
+      <span className="tabular-nums opacity-70">{formatClock(position)}</span>
+      <input
+        type="range" min={0} max={duration || 0} step={0.01}
+        value={Math.min(position, duration)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label="Seek"
+        aria-valuetext={`${formatClock(position)} of ${formatClock(duration)}`}
+        className="flex-1 min-w-[8rem]"
+        style={{ accentColor: theme.primaryColor }}
+      />
+      <span className="tabular-nums opacity-70">{formatClock(duration)}</span>
+
+      <button onClick={() => onSettingsChange({ ...settings, loop: !settings.loop })}
+              aria-pressed={settings.loop} className={buttonClass}
+              style={{ ...buttonStyle, opacity: settings.loop ? 1 : undefined }}>
+        Loop {settings.loop ? '[ON]' : '[OFF]'}
+      </button>
+      <button onClick={() => onSettingsChange({ ...settings, rate: nextRate })}
+              aria-label={`Playback speed ${settings.rate}x`} className={`${buttonClass} w-14`} style={buttonStyle}>
+        {settings.rate}x
+      </button>
+      <label className="flex items-center gap-2">
+        <span className="opacity-60">Vol</span>
+        <input
+          type="range" min={0} max={1} step={0.01}
+          value={settings.volume}
+          onChange={(e) => onSettingsChange({ ...settings, volume: Number(e.target.value) })}
+          aria-label="Volume"
+          className="w-20"
+          style={{ accentColor: theme.primaryColor }}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default TransportBar;
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Coordinates, OverlayLayer, ThemeConfig, WeatherGrid } from '../types';
+import { Viewport } from '../services/projectionService';
+import { sampleGrid, sampleWind } from '../services/weatherGridService';
+import { OVERLAY_LAYERS, OVERLAY_LAYER_LABELS, OVERLAY_UNITS, getOverlayRamp, rampColor, rampGradient } from '../services/overlayService';
+
+interface WeatherOverlayProps {
+  viewport: Viewport;
+  grid: WeatherGrid | null; // Null while it loads
+  layers: OverlayLayer[];
+  theme: ThemeConfig;
+}
+
+// Field layers are computed in cells of this many pixels and smoothed when the canvas is stretched.
+const FIELD_CELL = 4;
+// The heatmap is a wash over the land, not a replacement for it.
+const TEMPERATURE_OPACITY = 0.5;
+// Drawn bottom to top.
+const FIELD_LAYERS: OverlayLayer[] = ['temperature', 'cloud', 'precipitation'];
+const FIELD_SOURCES: Partial<Record<OverlayLayer, 'temperature' | 'cloudCover' | 'precipitation'>> = {
+  temperature: 'temperature',
+  cloud: 'cloudCover',
+  precipitation: 'precipitation',
+};
+
+// One particle per this many square pixels of map.
+const PIXELS_PER_PARTICLE = 600;
+const PARTICLE_MAX_AGE = 90; // Frames
+// Degrees a particle moves per frame per km/h of wind, at zoom 1.
+const PARTICLE_SPEED = 0.008;
+// Share of the trails kept each frame.
+const TRAIL_FADE = 0.92;
+const MAX_PARTICLE_LATITUDE = 85;
+
+interface Particle {
+  coords: Coordinates;
+  age: number;
+}
+
+/**
+ * Composites the active field layers, evaluating the grid under every cell of the frame.
+ */
+const drawFieldLayers = (ctx: CanvasRenderingContext2D, viewport: Viewport, grid: WeatherGrid, layers: OverlayLayer[], theme: ThemeConfig) => {
+  const { width, height } = ctx.canvas;
+  const image = ctx.createImageData(width, height);
+  const active = FIELD_LAYERS.filter(layer => layers.includes(layer));
+  const ramps = active.map(layer => getOverlayRamp(theme, layer));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const coords = viewport.invert({ x: (x + 0.5) * FIELD_CELL, y: (y + 0.5) * FIELD_CELL });
+      if (!coords) continue;
+      // "Over" compositing of each layer onto the ones below.
+      let [r, g, b, a] = [0, 0, 0, 0];
+      active.forEach((layer, i) => {
+        const [lr, lg, lb, la] = rampColor(ramps[i], sampleGrid(grid, coords, FIELD_SOURCES[layer]!));
+        const alpha = (la / 255) * (layer === 'temperature' ? TEMPERATURE_OPACITY : 1);
+        const outA = alpha + a * (1 - alpha);
+        if (outA === 0) return;
+        r = (lr * alpha + r * a * (1 - alpha)) / outA;
+        g = (lg * alpha + g * a * (1 - alpha)) / outA;
+        b = (lb * alpha + b * a * (1 - alpha)) / outA;
+        a = outA;
+      });
+      const offset = (y * width + x) * 4;
+      image.data[offset] = r;
+      image.data[offset + 1] = g;
+      image.data[offset + 2] = b;
+      image.data[offset + 3] = a * 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/**
+ * A random visible point, or null if a few tries all land off the map.
+ */
+const spawnPoint = (viewport: Viewport): Coordinates | null => {
+  for (let i = 0; i < 10; i++) {
+    const coords = viewport.invert({ x: Math.random() * viewport.width, y: Math.random() * viewport.height });
+    if (coords && Math.abs(coords.lat) < MAX_PARTICLE_LATITUDE) return coords;
+  }
+  return null;
+};
+
+/**
+ * WeatherOverlay Component
+ *
+ * Draws the map's weather layers from the global grid: a temperature heatmap,
+ * cloud and precipitation shading, and wind particles that drift with the
+ * interpolated wind and take their colour from its speed. Each active layer
+ * gets a legend in the theme's colours, headed by the hour when the grid is
+ * not current conditions.
+ */
+const WeatherOverlay: React.FC<WeatherOverlayProps> = ({ viewport, grid, layers, theme }) => {
+  const fieldRef = useRef<HTMLCanvasElement>(null);
+  const windRef = useRef<HTMLCanvasElement>(null);
+  const showFields = FIELD_LAYERS.some(layer => layers.includes(layer));
+  const showWind = layers.includes('wind');
+  const windRamp = useMemo(() => getOverlayRamp(theme, 'wind'), [theme]);
+
+  useEffect(() => {
+    const ctx = fieldRef.current?.getContext('2d');
+    if (ctx && grid) drawFieldLayers(ctx, viewport, grid, layers, theme);
+  }, [viewport, grid, layers, theme, showFields]);
+
+  // Particles restart whenever the map moves, so trails never smear across a pan.
+  useEffect(() => {
+    const ctx = windRef.current?.getContext('2d');
+    if (!ctx || !grid || !showWind) return;
+    const { width, height } = viewport;
+    const step = PARTICLE_SPEED / viewport.view.zoom;
+    const spawn = (): Particle | null => {
+      const coords = spawnPoint(viewport);
+      return coords && { coords, age: Math.floor(Math.random() * PARTICLE_MAX_AGE) };
+    };
+    const particles = Array.from({ length: Math.round((width * height) / PIXELS_PER_PARTICLE) }, spawn)
+      .filter((p): p is Particle => p !== null);
+
+    let frame = 0;
+    const draw = () => {
+      ctx.globalCompositeOperation = 'destination-in';
+      ctx.fillStyle = `rgba(0, 0, 0, ${TRAIL_FADE})`;
+      ctx.fillRect(0, 0, width, height);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.lineWidth = 1;
+
+      particles.forEach((particle, i) => {
+        const { u, v } = sampleWind(grid, particle.coords);
+        const { lat, lng } = particle.coords;
+        const next = {
+          lat: lat + v * step,
+          lng: ((lng + (u * step) / Math.max(0.2, Math.cos((lat * Math.PI) / 180)) + 540) % 360) - 180,
+        };
+        const from = viewport.project(particle.coords);
+        const to = viewport.project(next);
+        if (from && to && Math.abs(next.lng - lng) < 180) {
+          const [r, g, b, a] = rampColor(windRamp, Math.hypot(u, v));
+          ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${a / 255})`;
+          ctx.beginPath();
+          ctx.moveTo(from.x, from.y);
+          ctx.lineTo(to.x, to.y);
+          ctx.stroke();
+        }
+        particle.coords = next;
+        particle.age++;
+        const offscreen = !to || to.x < 0 || to.y < 0 || to.x > width || to.y > height;
+        if (particle.age > PARTICLE_MAX_AGE || offscreen || Math.abs(next.lat) > MAX_PARTICLE_LATITUDE) {
+          particles[i] = { coords: spawnPoint(viewport) ?? next, age: 0 };
+        }
+      });
+      frame = requestAnimationFrame(draw);
+    };
+    ctx.clearRect(0, 0, width, height);
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [viewport, grid, showWind, windRamp]);
+
+  if (layers.length === 0) return null;
+
+  return (
+    <>
+      {showFields && (
+        <canvas
+          ref={fieldRef}
+          width={Math.ceil(viewport.width / FIELD_CELL)}
+          height={Math.ceil(viewport.height / FIELD_CELL)}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          aria-hidden="true"
+        />
+      )}
+      {showWind && (
+        <canvas
+          ref={windRef}
+          width={Math.round(viewport.width)}
+          height={Math.round(viewport.height)}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          aria-hidden="true"
+        />
+      )}
+
+      {/* Legends */}
+      <div className={`absolute bottom-10 right-2 p-1 space-y-1 text-[8px] uppercase pointer-events-none z-30 ${theme.fontClass}`}
+           style={{ backgroundColor: theme.backgroundColor, color: theme.primaryColor }}>
+        {!grid && <div>Loading weather grid...</div>}
+        {grid?.validAt && <div>{grid.validAt.slice(0, 16).replace('T', ' ')} UTC</div>}
+        {grid && OVERLAY_LAYERS.filter(layer => layers.includes(layer)).map(layer => {
+          const ramp = getOverlayRamp(theme, layer);
+          return (
+            <div key={layer}>
+              <div>{OVERLAY_LAYER_LABELS[layer]} ({OVERLAY_UNITS[layer]})</div>
+              <div className="w-24 h-1.5" style={{ backgroundImage: rampGradient(ramp) }} />
+              <div className="flex justify-between opacity-70">
+                <span>{ramp[0].value}</span>
+                <span>{ramp[ramp.length - 1].value}+</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
+
+export default WeatherOverlay;
@@ -1,204 +1,514 @@
-import React, { useRef, useState, useMemo, useEffect } from 'react';
-import { Coordinates, CityWeather, ThemeConfig } from '../types';
+import React, { useId, useRef, useState, useMemo, useEffect } from 'react';
+import { Coordinates, CityWeather, DriftHop, MapProjection, MapView, OverlayLayer, SolarPhase, ThemeConfig, WeatherGrid } from '../types';
+import { CATEGORY_GLYPHS, getWeatherCondition } from '../constants';
+import { SOLAR_PHASE_LABELS, getMoonState, getSolarElevation, getSolarPhase, getSubsolarPoint, getTerminatorPath } from '../services/astronomyService';
+import { greatCirclePath } from '../services/utils';
+import { getZonedTime, lookupTimezone } from '../services/timezoneService';
+import { LngLat } from '../services/geoData';
+import { NATURAL_EARTH_50M } from '../services/naturalEarthData';
+import { OSM_LAKES } from '../services/lakeData';
+import { topologyFeatures } from '../services/topojson';
+import {
+  DEFAULT_MAP_VIEW, MAP_PROJECTIONS, MAP_PROJECTION_LABELS, MAX_ZOOM, MIN_ZOOM, ScreenPoint, Viewport,
+  clampView, createViewport, dragView, loadMapProjection, saveMapProjection, zoomView,
+} from '../services/projectionService';
+import { OVERLAY_LAYERS, OVERLAY_LAYER_LABELS } from '../services/overlayService';
+import WeatherOverlay from './WeatherOverlay';
 
 interface WorldMapProps {
   onSelectLocation: (coords: Coordinates) => void;
-  disabled: boolean;
   selectedLocation: Coordinates | null;
   cities: CityWeather[];
   theme: ThemeConfig;
+  hop?: DriftHop | null; // Animates the selection along the great circle between the two
+  weatherGrid?: WeatherGrid | null; // Feeds the overlay layers; null while it loads
+  overlayLayers?: OverlayLayer[];
+  onToggleOverlay?: (layer: OverlayLayer) => void;
 }
 
+const HOP_MS = 2000;
+
+// Night shading is computed in cells of this many pixels and smoothed when the canvas is stretched.
+const SHADE_CELL = 4;
+// Darkness of each band, 0-255 alpha over the map.
+const PHASE_SHADE: Record<SolarPhase, number> = {
+  day: 0,
+  civil: 70,
+  nautical: 120,
+  astronomical: 165,
+  night: 205,
+};
+
+const MOON_GLYPHS = ['🌑', '🌒', '🌓', '🌔', '🌕', '🌖', '🌗', '🌘'];
+
+// Land is drawn grey so each theme's map filter tints it, as it did the old raster map.
+const LAND_FILL = '#c8c8c8';
+// Pixels a pointer must travel before a press becomes a drag rather than a click.
+const DRAG_THRESHOLD = 4;
+const ZOOM_STEP = 2;
+const WHEEL_ZOOM_RATE = 0.002;
+// Size assumed until the frame has been measured.
+const INITIAL_SIZE = { width: 720, height: 360 };
+const NO_OVERLAYS: OverlayLayer[] = [];
+
+const toCoords = ([lng, lat]: LngLat): Coordinates => ({ lat, lng });
+
+/**
+ * Drops points closer than `tolerance` degrees (lat plus lng) to the last one kept.
+ */
+const thinRing = (ring: Coordinates[], tolerance: number): Coordinates[] => {
+  let last = ring[0];
+  return ring.filter((coords, i) => {
+    if (i > 0 && Math.abs(coords.lat - last.lat) + Math.abs(coords.lng - last.lng) < tolerance) return false;
+    last = coords;
+    return true;
+  });
+};
+
+// Natural Earth's land already leaves out the Caspian; the other lakes are masked out of it.
+const LAND_RINGS = topologyFeatures(NATURAL_EARTH_50M, 'land').flatMap(feature => feature.polygons.flat()).map(ring => ring.map(toCoords));
+const LAKE_RINGS = OSM_LAKES.map(([outline]) => outline.map(toCoords));
+// The land at a few levels of detail, coarsest first, so a zoomed-out map projects a fraction of the points.
+const LAND_DETAIL_DEGREES = [0.5, 0.25, 0.1, 0];
+const LAND_LEVELS = LAND_DETAIL_DEGREES.map(tolerance =>
+  tolerance ? LAND_RINGS.map(ring => thinRing(ring, tolerance)).filter(ring => ring.length > 2) : LAND_RINGS);
+// Detail finer than this many pixels is not drawn.
+const OUTLINE_TOLERANCE = 0.75;
+
+/**
+ * The coarsest land outlines that still hold OUTLINE_TOLERANCE at the viewport's scale.
+ */
+const landForViewport = (viewport: Viewport): Coordinates[][] => {
+  const degreesPerPixel = 180 / (Math.PI * viewport.scale);
+  const level = LAND_DETAIL_DEGREES.findIndex(tolerance => tolerance <= degreesPerPixel * OUTLINE_TOLERANCE);
+  return LAND_LEVELS[level];
+};
+
+// Meridians and parallels every 30°, sampled finely enough to curve on every projection.
+const GRATICULE: Coordinates[][] = [
+  ...Array.from({ length: 13 }, (_, i) => Array.from({ length: 91 }, (_, j) => ({ lng: -180 + i * 30, lat: -90 + j * 2 }))),
+  ...Array.from({ length: 5 }, (_, i) => Array.from({ length: 181 }, (_, j) => ({ lat: -60 + i * 30, lng: -180 + j * 2 }))),
+];
+
+const toSvgPoints = (points: ScreenPoint[]) => points.map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ');
+
+/**
+ * The rings as one SVG path, leaving out those wholly off the frame.
+ */
+const ringsToPath = (rings: Coordinates[][], viewport: Viewport): string => rings
+  .map(ring => viewport.projectRing(ring))
+  .filter((points): points is ScreenPoint[] => points !== null && points.length > 2)
+  .filter(points => {
+    let [left, right, top, bottom] = [Infinity, -Infinity, Infinity, -Infinity];
+    for (const { x, y } of points) {
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+    }
+    return right >= 0 && left <= viewport.width && bottom >= 0 && top <= viewport.height;
+  })
+  .map(points => `M${toSvgPoints(points)}Z`)
+  .join('');
+
+/**
+ * Paints the night side and the three twilight bands by evaluating the sun's
+ * elevation under every cell of the frame, so the bands take their true shape
+ * in any projection (including polar day and night).
+ */
+const drawNightShading = (ctx: CanvasRenderingContext2D, viewport: Viewport, date: Date) => {
+  const { width, height } = ctx.canvas;
+  const image = ctx.createImageData(width, height);
+  const subsolar = getSubsolarPoint(date);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const coords = viewport.invert({ x: (x + 0.5) * SHADE_CELL, y: (y + 0.5) * SHADE_CELL });
+      if (!coords) continue;
+      image.data[(y * width + x) * 4 + 3] = PHASE_SHADE[getSolarPhase(getSolarElevation(coords, date, subsolar))]; // Black, so only alpha is set
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2);
+
+const distance = (a: ScreenPoint, b: ScreenPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
 /**
  * WorldMap Component
- * 
- * Displays an interactive map with:
+ *
+ * Displays an interactive vector map with:
  * 1. Click-to-select functionality for coordinates.
- * 2. Visual Day/Night cycle based on real-time solar position.
- * 3. Live city markers with local time and temperature.
+ * 2. Wheel and pinch zoom, drag to pan (or turn the globe), and a choice of projection.
+ * 3. Day/night with the exact terminator, twilight bands, and the sun and moon overhead.
+ * 4. Live city markers with local time and temperature.
+ * 5. Drift hops, drawn as a great-circle trail that the selection travels along.
+ * 6. Toggleable weather overlay layers from the global grid.
  */
-const WorldMap: React.FC<WorldMapProps> = ({ onSelectLocation, disabled, selectedLocation, cities, theme }) => {
+const WorldMap: React.FC<WorldMapProps> = ({
+  onSelectLocation, selectedLocation, cities, theme, hop = null, weatherGrid = null, overlayLayers = NO_OVERLAYS, onToggleOverlay,
+}) => {
   const mapRef = useRef<HTMLDivElement>(null);
+  const shadeRef = useRef<HTMLCanvasElement>(null);
+  const pointersRef = useRef(new Map<number, ScreenPoint>());
+  const draggedRef = useRef(false);
+  const [size, setSize] = useState(INITIAL_SIZE);
+  const [view, setView] = useState<MapView>(() => ({ ...DEFAULT_MAP_VIEW, projection: loadMapProjection() }));
   const [hoverCoords, setHoverCoords] = useState<Coordinates | null>(null);
-  const [sunPos, setSunPos] = useState<{lat: number, lng: number} | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
+  const [hopProgress, setHopProgress] = useState(1);
 
-  /**
-   * Calculates the approximate position of the sun (subsolar point).
-   * Used to render the shadow/night overlay on the map.
-   * 
-   * Updates every 10 minutes.
-   */
+  const viewport = useMemo(() => createViewport(view, size.width, size.height), [view, size]);
+  const hopPath = useMemo(() => (hop ? greatCirclePath(hop.from, hop.to) : []), [hop]);
+
+  // Runs the hop from 0 to 1 each time a new one arrives.
   useEffect(() => {
-    const calculateSunPosition = () => {
-      const now = new Date();
-      const utcHours = now.getUTCHours() + now.getUTCMinutes() / 60;
-      
-      // Longitude: Sun moves 15 deg/hour. At 12:00 UTC it is at 0 deg (Prime Meridian).
-      // Formula: (12 - UTC) * 15
-      let sunLng = (12 - utcHours) * 15;
-      if (sunLng < -180) sunLng += 360;
-      if (sunLng > 180) sunLng -= 360;
-
-      // Latitude (Declination): Approx sine wave between -23.44 (Winter Solstice) and +23.44 (Summer Solstice)
-      // Day of year calculation
-      const start = new Date(now.getFullYear(), 0, 0);
-      const diff = now.getTime() - start.getTime();
-      const dayOfYear = Math.floor(diff / (1000 * 60 * 60 * 24));
-      // Approx declination formula. 81 is roughly the spring equinox.
-      const sunLat = 23.44 * Math.sin((2 * Math.PI / 365) * (dayOfYear - 81));
-
-      setSunPos({ lat: sunLat, lng: sunLng });
+    if (!hop) return;
+    const start = performance.now();
+    let frame = 0;
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / HOP_MS);
+      setHopProgress(easeInOut(t));
+      if (t < 1) frame = requestAnimationFrame(step);
     };
+    setHopProgress(0);
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [hop]);
 
-    calculateSunPosition();
-    const interval = setInterval(calculateSunPosition, 60000 * 10); // Update every 10 mins
-    return () => clearInterval(interval);
+  // Everything is drawn in pixels, so the frame's size is tracked.
+  useEffect(() => {
+    const element = mapRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (!width || !height) return;
+      setSize({ width, height });
+      setView(v => clampView(v, width, height));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
   }, []);
 
-  // Update clock for city times
+  // React's wheel listener is passive, so it cannot stop the page scrolling under the map.
+  useEffect(() => {
+    const element = mapRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      setView(v => zoomView(v, Math.exp(-e.deltaY * WHEEL_ZOOM_RATE), anchor, size.width, size.height));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [size]);
+
+  // Sun, moon and terminator follow the clock below.
+  const sunPos = useMemo(() => getSubsolarPoint(currentTime), [currentTime]);
+  const moon = useMemo(() => getMoonState(currentTime), [currentTime]);
+  const terminator = useMemo(() => getTerminatorPath(currentTime), [currentTime]);
+
+  const landPath = useMemo(() => ringsToPath(landForViewport(viewport), viewport), [viewport]);
+  const lakePath = useMemo(() => ringsToPath(LAKE_RINGS, viewport), [viewport]);
+  const lakeMaskId = useId();
+  const graticule = useMemo(() => GRATICULE.flatMap(line => viewport.projectLine(line)), [viewport]);
+  const terminatorLines = useMemo(() => viewport.projectLine(terminator), [viewport, terminator]);
+
+  useEffect(() => {
+    const ctx = shadeRef.current?.getContext('2d');
+    if (ctx) drawNightShading(ctx, viewport, currentTime);
+  }, [viewport, currentTime]);
+
+  // Update clock for city times and the day/night overlay
   useEffect(() => {
     const timer = setInterval(() => setCurrentTime(new Date()), 60000);
     return () => clearInterval(timer);
   }, []);
 
+  const localPoint = (e: React.PointerEvent | React.MouseEvent): ScreenPoint => {
+    const rect = mapRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
   const handleClick = (e: React.MouseEvent) => {
-    if (disabled || !mapRef.current) return;
-    
-    const rect = mapRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    const normX = x / rect.width;
-    const normY = y / rect.height;
-    const lng = (normX * 360) - 180;
-    const lat = 90 - (normY * 180);
-
-    onSelectLocation({ lat, lng });
+    if (!mapRef.current || draggedRef.current) return;
+    const coords = viewport.invert(localPoint(e));
+    if (coords) onSelectLocation(coords);
   };
 
   const handleCityClick = (e: React.MouseEvent, city: CityWeather) => {
-    e.stopPropagation(); 
-    if (disabled) return;
-    onSelectLocation({ lat: city.lat, lng: city.lng });
+    e.stopPropagation();
+    if (!draggedRef.current) onSelectLocation({ lat: city.lat, lng: city.lng });
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-     if (!mapRef.current) return;
-    const rect = mapRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    const normX = x / rect.width;
-    const normY = y / rect.height;
-    setHoverCoords({
-        lng: (normX * 360) - 180,
-        lat: 90 - (normY * 180)
-    });
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (pointersRef.current.size === 0) draggedRef.current = false;
+    pointersRef.current.set(e.pointerId, localPoint(e));
   };
 
-  // Convert lat/lng to CSS percentage coordinates
-  const getPos = (lat: number, lng: number) => ({
-    left: `${((lng + 180) / 360) * 100}%`,
-    top: `${((90 - lat) / 180) * 100}%`
-  });
+  /**
+   * One pointer drags the map once it has moved past the threshold; two pinch-zoom it about their midpoint.
+   */
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!mapRef.current) return;
+    const point = localPoint(e);
+    setHoverCoords(viewport.invert(point));
+
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+    if (pointers.size === 2) {
+      const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1];
+      const midpoint = { x: (point.x + other.x) / 2, y: (point.y + other.y) / 2 };
+      const factor = distance(point, other) / Math.max(1, distance(previous, other));
+      draggedRef.current = true;
+      setView(v => zoomView(v, factor, midpoint, size.width, size.height));
+    } else {
+      if (!draggedRef.current && distance(point, previous) < DRAG_THRESHOLD) return;
+      if (!draggedRef.current) mapRef.current.setPointerCapture(e.pointerId);
+      draggedRef.current = true;
+      setView(v => dragView(v, point.x - previous.x, point.y - previous.y, size.width, size.height));
+    }
+    pointers.set(e.pointerId, point);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+  };
+
+  const zoomBy = (factor: number) =>
+    setView(v => zoomView(v, factor, { x: size.width / 2, y: size.height / 2 }, size.width, size.height));
+
+  // A new projection starts zoomed out, with the globe turned to the selection.
+  const handleProjection = (projection: MapProjection) => {
+    saveMapProjection(projection);
+    setView({ ...DEFAULT_MAP_VIEW, projection, rotation: selectedLocation ? { ...selectedLocation } : DEFAULT_MAP_VIEW.rotation });
+  };
+
+  // Controls sit on the map, so presses on them must not select or drag.
+  const stopMapEvents = { onClick: (e: React.MouseEvent) => e.stopPropagation(), onPointerDown: (e: React.PointerEvent) => e.stopPropagation() };
+
+  // Pixel position for a marker; null when it is round the back of the globe.
+  const getPos = (lat: number, lng: number) => {
+    const point = viewport.project({ lat, lng });
+    return point ? { left: point.x, top: point.y } : null;
+  };
+
+  // Zones are looked up once per place; the clock then formats them every minute.
+  const cityZones = useMemo(() => new Map(cities.map(city => [city.name, lookupTimezone(city)])), [cities]);
+  const selectedZone = useMemo(() => (selectedLocation ? lookupTimezone(selectedLocation) : null), [selectedLocation]);
 
   /**
-   * Estimates local time for a given longitude based on 15-degree/hour segments.
-   * Does not account for political time zones or DST, purely solar time approximation.
+   * Local wall-clock time in the city's IANA zone, DST included, e.g. "Oct 14 21:45 CEST".
    */
-  const getCityTime = (lng: number) => {
-    // Get UTC time in ms
-    const utc = currentTime.getTime() + (currentTime.getTimezoneOffset() * 60000);
-    // Rough approximation: 15 degrees = 1 hour
-    const offsetHours = lng / 15;
-    const cityTime = new Date(utc + (3600000 * offsetHours));
-    
-    return cityTime.toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false
-    });
+  const getCityTime = (city: CityWeather) => {
+    const zoned = getZonedTime(cityZones.get(city.name) ?? lookupTimezone(city), currentTime);
+    return `${zoned.date} ${zoned.time} ${zoned.abbreviation}`;
   };
 
+  const selectedTime = selectedZone ? getZonedTime(selectedZone, currentTime) : null;
+
+  // The trail stays until the selection moves elsewhere; while the hop is under way the marker rides along it.
+  const onHop = hop !== null && selectedLocation?.lat === hop.to.lat && selectedLocation?.lng === hop.to.lng;
+  const hopping = onHop && hopProgress < 1;
+  const travelled = hopPath.slice(0, Math.max(1, Math.round(hopProgress * (hopPath.length - 1))) + 1);
+  const markerLocation = hopping ? travelled[travelled.length - 1] : selectedLocation;
+
+  const sunStyle = getPos(sunPos.lat, sunPos.lng);
+  const moonStyle = getPos(moon.position.lat, moon.position.lng);
+  const markerStyle = markerLocation ? getPos(markerLocation.lat, markerLocation.lng) : null;
+  const globe = view.projection === 'orthographic';
+  const controlClass = 'px-1.5 border leading-tight opacity-70 hover:opacity-100 disabled:opacity-20';
+
   return (
-    <div className={`relative w-full aspect-[2/1] bg-[#020202] overflow-hidden group border transition-colors duration-500 ${theme.containerClass.split(' ')[0]}`}>
-      
-      {/* Background Map Image */}
-      <img 
-        src="https://upload.wikimedia.org/wikipedia/commons/thumb/e/ec/World_map_blank_without_borders.svg/2000px-World_map_blank_without_borders.svg.png" 
-        alt="World Map"
-        className="absolute inset-0 w-full h-full object-cover transition-all duration-1000"
+    <div
+      ref={mapRef}
+      onClick={handleClick}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onMouseLeave={() => setHoverCoords(null)}
+      className={`relative w-full aspect-[2/1] bg-[#020202] overflow-hidden group border transition-colors duration-500 cursor-crosshair select-none ${theme.containerClass.split(' ')[0]}`}
+      style={{ touchAction: 'none' }}
+    >
+
+      {/* Land, from the bundled Natural Earth outlines, with the lakes masked out */}
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none transition-all duration-1000"
+        viewBox={`0 0 ${size.width} ${size.height}`}
         style={{ filter: theme.mapFilter }}
-      />
+        aria-label="World Map"
+        role="img"
+      >
+        <defs>
+          <mask id={lakeMaskId}>
+            <rect width={size.width} height={size.height} fill="white" />
+            <path d={lakePath} fill="black" />
+          </mask>
+        </defs>
+        <path d={landPath} fill={LAND_FILL} fillRule="evenodd" mask={`url(#${lakeMaskId})`} />
+      </svg>
 
-      {/* Day/Night Overlay */}
-      {sunPos && (
-        <div className="absolute inset-0 pointer-events-none mix-blend-multiply opacity-80"
-             style={{
-                // We create a large radial gradient centered at the sun to represent "Day"
-                // The rest is dark (Night). 
-                // Since this is 2D projection, it's not a perfect circle on the map, but good approximation visually.
-                background: `radial-gradient(circle at ${((sunPos.lng + 180) / 360) * 100}% ${((90 - sunPos.lat) / 180) * 100}%, transparent 10%, rgba(0,0,0,0.4) 30%, rgba(0,0,0,0.9) 60%)`
-             }}
-        />
-      )}
-      
-      {/* Grid Overlay - Thematic */}
-      <div 
-        className="absolute inset-0 pointer-events-none opacity-20"
-        style={{ 
-            backgroundImage: `linear-gradient(${theme.primaryColor} 1px, transparent 1px), linear-gradient(90deg, ${theme.primaryColor} 1px, transparent 1px)`,
-            backgroundSize: '40px 40px'
-        }}
-      />
+      {/* Weather Layers */}
+      <WeatherOverlay viewport={viewport} grid={weatherGrid} layers={overlayLayers} theme={theme} />
 
-      {/* Click Handler Overlay */}
-      <div 
-        ref={mapRef}
-        onClick={handleClick}
-        onMouseMove={handleMouseMove}
-        onMouseLeave={() => setHoverCoords(null)}
-        className={`absolute inset-0 cursor-crosshair ${disabled ? 'cursor-wait' : ''} z-10`}
+      {/* Day/Night Overlay: night and the civil, nautical and astronomical twilight bands */}
+      <canvas
+        ref={shadeRef}
+        width={Math.ceil(size.width / SHADE_CELL)}
+        height={Math.ceil(size.height / SHADE_CELL)}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        aria-hidden="true"
       />
 
+      {/* Graticule, Globe Outline and Terminator */}
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${size.width} ${size.height}`} aria-hidden="true">
+        <g opacity={0.2}>
+          {graticule.map((line, i) => (
+            <polyline key={i} points={toSvgPoints(line)} fill="none" stroke={theme.primaryColor} strokeWidth={1} />
+          ))}
+        </g>
+        {globe && (
+          <circle cx={viewport.centre.x} cy={viewport.centre.y} r={viewport.scale} fill="none" stroke={theme.primaryColor} strokeWidth={1} opacity={0.5} />
+        )}
+        {terminatorLines.map((line, i) => (
+          <polyline key={i} points={toSvgPoints(line)} fill="none" stroke={theme.primaryColor} strokeWidth={1} opacity={0.35} />
+        ))}
+      </svg>
+
+      {/* Sun and Moon */}
+      {sunStyle && (
+        <div className="absolute transform -translate-x-1/2 -translate-y-1/2 pointer-events-none text-sm opacity-70"
+             style={{ ...sunStyle, color: theme.primaryColor }}
+             title="Subsolar point">
+          ☀
+        </div>
+      )}
+      {moonStyle && (
+        <div className="absolute transform -translate-x-1/2 -translate-y-1/2 pointer-events-none text-sm opacity-80"
+             style={moonStyle}
+             title="Sublunar point">
+          {MOON_GLYPHS[Math.round(moon.phase * 8) % 8]}
+        </div>
+      )}
+
       {/* City Markers */}
-      {cities.map((city) => (
-        <div
-          key={city.name}
-          onClick={(e) => handleCityClick(e, city)}
-          className="absolute transform -translate-x-1/2 -translate-y-1/2 z-20 group/city cursor-pointer flex flex-col items-center"
-          style={getPos(city.lat, city.lng)}
-        >
-          <div className={`w-2 h-2 rounded-full transition-transform hover:scale-150 ${theme.markerClass}`} />
-          <div className={`mt-1 text-[8px] opacity-70 group-hover/city:opacity-100 whitespace-nowrap px-1 rounded ${theme.fontClass} flex flex-col items-center`}
-               style={{ backgroundColor: theme.backgroundColor, color: theme.primaryColor }}>
-            <span className="font-bold">{city.name} {city.temperature}°</span>
-            <span className="text-[6px] opacity-80 leading-none pb-0.5 tracking-tighter">{getCityTime(city.lng)}</span>
+      {cities.map((city) => {
+        const position = getPos(city.lat, city.lng);
+        if (!position) return null;
+        return (
+          <div
+            key={city.name}
+            onClick={(e) => handleCityClick(e, city)}
+            className="absolute transform -translate-x-1/2 -translate-y-1/2 z-20 group/city cursor-pointer flex flex-col items-center"
+            style={position}
+          >
+            <div className={`w-2 h-2 rounded-full transition-transform hover:scale-150 ${theme.markerClass}`} />
+            <div className={`mt-1 text-[8px] opacity-70 group-hover/city:opacity-100 whitespace-nowrap px-1 rounded ${theme.fontClass} flex flex-col items-center`}
+                 style={{ backgroundColor: theme.backgroundColor, color: theme.primaryColor }}>
+              <span className="font-bold">
+                {city.conditionCode !== undefined && (
+                  <span title={getWeatherCondition(city.conditionCode).label}>{CATEGORY_GLYPHS[getWeatherCondition(city.conditionCode).category]} </span>
+                )}
+                {city.name} {city.temperature}°
+              </span>
+              <span className="text-[6px] opacity-80 leading-none pb-0.5 tracking-tighter" title={cityZones.get(city.name)}>{getCityTime(city)}</span>
+            </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
+
+      {/* Drift Trail */}
+      {onHop && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none z-20" viewBox={`0 0 ${size.width} ${size.height}`} aria-hidden="true">
+          {viewport.projectLine(travelled).map((line, i) => (
+            <polyline
+              key={i}
+              points={toSvgPoints(line)}
+              fill="none"
+              stroke={theme.primaryColor}
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              opacity={hopping ? 0.9 : 0.4}
+            />
+          ))}
+        </svg>
+      )}
 
       {/* Selected Location Marker */}
-      {selectedLocation && (
-        <div 
-          className="absolute w-4 h-4 border-2 rounded-full transform -translate-x-1/2 -translate-y-1/2 pointer-events-none z-30 animate-pulse"
+      {markerStyle && (
+        <div
+          className={`absolute w-4 h-4 border-2 rounded-full transform -translate-x-1/2 -translate-y-1/2 pointer-events-none z-30 ${hopping ? '' : 'animate-pulse'}`}
           style={{
             borderColor: theme.primaryColor,
-            ...getPos(selectedLocation.lat, selectedLocation.lng)
+            ...markerStyle
           }}
         />
       )}
 
+      {/* Selected Location Time */}
+      {selectedTime && (
+        <div className={`absolute top-2 left-2 text-xs p-1 pointer-events-none z-30 ${theme.fontClass}`}
+             style={{ backgroundColor: theme.backgroundColor, color: theme.primaryColor }}>
+          LOCAL: {selectedTime.date} {selectedTime.time} {selectedTime.abbreviation} // {selectedTime.utcOffset} // {selectedTime.timeZone}
+        </div>
+      )}
+
+      {/* Projection, Zoom and Layer Controls */}
+      <div {...stopMapEvents}
+           className={`absolute top-2 right-2 flex flex-col items-end gap-1 text-[10px] uppercase z-30 cursor-default ${theme.fontClass}`}
+           style={{ color: theme.primaryColor }}>
+        <div className="flex gap-1">
+          {MAP_PROJECTIONS.map(projection => (
+            <button key={projection} onClick={() => handleProjection(projection)} className={controlClass}
+                    style={{ borderColor: theme.primaryColor, backgroundColor: theme.backgroundColor, opacity: view.projection === projection ? 1 : undefined }}>
+              {MAP_PROJECTION_LABELS[projection]}
+            </button>
+          ))}
+          <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={view.zoom <= MIN_ZOOM} className={controlClass}
+                  style={{ borderColor: theme.primaryColor, backgroundColor: theme.backgroundColor }} title="Zoom out">−</button>
+          <button onClick={() => zoomBy(ZOOM_STEP)} disabled={view.zoom >= MAX_ZOOM} className={controlClass}
+                  style={{ borderColor: theme.primaryColor, backgroundColor: theme.backgroundColor }} title="Zoom in">+</button>
+        </div>
+        {onToggleOverlay && (
+          <div className="flex gap-1">
+            {OVERLAY_LAYERS.map(layer => (
+              <button key={layer} onClick={() => onToggleOverlay(layer)} className={controlClass}
+                      style={{ borderColor: theme.primaryColor, backgroundColor: theme.backgroundColor, opacity: overlayLayers.includes(layer) ? 1 : undefined }}>
+                {OVERLAY_LAYER_LABELS[layer]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Hover Info */}
       <div className={`absolute bottom-2 left-2 text-xs p-1 pointer-events-none z-30 ${theme.fontClass}`}
            style={{ backgroundColor: theme.backgroundColor, color: theme.primaryColor }}>
-        {hoverCoords 
-          ? `LAT: ${hoverCoords.lat.toFixed(2)} / LNG: ${hoverCoords.lng.toFixed(2)}`
+        {hoverCoords
+          ? `LAT: ${hoverCoords.lat.toFixed(2)} / LNG: ${hoverCoords.lng.toFixed(2)} // ${SOLAR_PHASE_LABELS[getSolarPhase(getSolarElevation(hoverCoords, currentTime, sunPos))].toUpperCase()}`
           : "SEARCHING..."}
+        {view.zoom > MIN_ZOOM && ` // ${view.zoom.toFixed(1)}×`}
+      </div>
+
+      {/* Moon Phase */}
+      <div className={`absolute bottom-2 right-2 text-xs p-1 pointer-events-none z-30 ${theme.fontClass}`}
+           style={{ backgroundColor: theme.backgroundColor, color: theme.primaryColor }}>
+        {MOON_GLYPHS[Math.round(moon.phase * 8) % 8]} {moon.phaseName.toUpperCase()} // {Math.round(moon.illumination * 100)}%
+      </div>
+
+      {/* Map Data Credits */}
+      <div {...stopMapEvents}
+           className={`absolute bottom-2 left-1/2 -translate-x-1/2 text-[9px] px-1 z-30 cursor-default opacity-70 ${theme.fontClass}`}
+           style={{ backgroundColor: theme.backgroundColor, color: theme.primaryColor }}>
+        <a href="https://www.naturalearthdata.com/" target="_blank" rel="noopener noreferrer" className="hover:underline">Natural Earth</a>
+        {' // Lakes '}
+        <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noopener noreferrer" className="hover:underline">© OpenStreetMap contributors</a>
       </div>
     </div>
   );
 };
 
-export default WorldMap;
\ No newline at end of file
+export default WorldMap;
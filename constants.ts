@@ -1,24 +1,118 @@
-import { ThemeConfig } from './types';
+import { ColorStop, OverlayLayer, ThemeConfig, WeatherCondition, WeatherCategory, WeatherIntensity, PrecipitationType } from './types';
 
-export const WEATHER_CODES: Record<number, string> = {
-  0: "Clear sky",
-  1: "Mainly clear",
-  2: "Partly cloudy",
-  3: "Overcast",
-  45: "Fog",
-  48: "Depositing rime fog",
-  51: "Light drizzle",
-  53: "Moderate drizzle",
-  55: "Dense drizzle",
-  61: "Slight rain",
-  63: "Moderate rain",
-  65: "Heavy rain",
-  71: "Slight snow fall",
-  73: "Moderate snow fall",
-  75: "Heavy snow fall",
-  95: "Thunderstorm",
+// Per-theme mood keywords for each weather category, keyed by ThemeConfig.id.
+const CATEGORY_MOODS: Record<WeatherCategory, Record<string, string[]>> = {
+  clear: {
+    LYNCH: ['overexposed', 'too bright', 'suburban unease', 'buzzing streetlights'],
+    WES: ['crisp', 'pastel blue', 'orderly', 'postcard'],
+    BLADE: ['rare sky', 'bleached neon', 'exposed', 'dead satellites'],
+  },
+  cloudy: {
+    LYNCH: ['heavy ceiling', 'waiting', 'grey velvet', 'muffled'],
+    WES: ['cotton-wool', 'muted', 'melancholy', 'tidy greys'],
+    BLADE: ['smog ceiling', 'holograms on clouds', 'gunmetal', 'low-orbit haze'],
+  },
+  fog: {
+    LYNCH: ['veiled', 'lost highway', 'the woods are watching', 'dreamlike'],
+    WES: ['misty', 'lighthouse', 'soft focus', 'expedition'],
+    BLADE: ['volumetric', 'searchlights', 'steam', 'blind alleys'],
+  },
+  drizzle: {
+    LYNCH: ['damp', 'dripping pines', 'wet asphalt', 'whispering'],
+    WES: ['fine spray', 'umbrellas', 'wistful', 'galoshes'],
+    BLADE: ['fine acid mist', 'wet chrome', 'flickering signs', 'soaked trenchcoat'],
+  },
+  rain: {
+    LYNCH: ['downpour on the windshield', 'drowning static', 'black water', 'endless night'],
+    WES: ['rain-streaked windows', 'tea indoors', 'soggy itinerary', 'yellow raincoats'],
+    BLADE: ['acid rain', 'neon puddles', 'tears in rain', 'overflowing gutters'],
+  },
+  snow: {
+    LYNCH: ['white noise', 'frozen silence', 'muffled footsteps', 'cold fluorescent'],
+    WES: ['snow globe', 'alpine hotel', 'funicular', 'wool scarves'],
+    BLADE: ['ash-grey snow', 'frozen circuits', 'white static', 'cold server farms'],
+  },
+  showers: {
+    LYNCH: ['sudden', 'electric hiss', 'passing shadows', 'interrupted'],
+    WES: ['intermittent', 'dash for cover', 'punctual bursts', 'awnings'],
+    BLADE: ['bursts of acid', 'rain sweeps', 'spinner wash', 'sputtering neon'],
+  },
+  thunderstorm: {
+    LYNCH: ['electricity', 'flickering lamps', 'the storm is the message', 'ominous'],
+    WES: ['dramatic', 'chapter break', 'lightning rod', 'theatrical'],
+    BLADE: ['power surges', 'blackout', 'lightning over arcologies', 'apocalyptic'],
+  },
+};
+
+const condition = (
+  code: number,
+  label: string,
+  category: WeatherCategory,
+  intensity: WeatherIntensity,
+  precipitation: PrecipitationType,
+): WeatherCondition => ({ code, label, category, intensity, precipitation, moods: CATEGORY_MOODS[category] });
+
+/**
+ * Every WMO weather interpretation code Open-Meteo can return.
+ */
+export const WEATHER_CONDITIONS: Record<number, WeatherCondition> = {
+  0: condition(0, "Clear sky", 'clear', 0, 'none'),
+  1: condition(1, "Mainly clear", 'clear', 0, 'none'),
+  2: condition(2, "Partly cloudy", 'cloudy', 1, 'none'),
+  3: condition(3, "Overcast", 'cloudy', 2, 'none'),
+  45: condition(45, "Fog", 'fog', 2, 'none'),
+  48: condition(48, "Depositing rime fog", 'fog', 3, 'freezing'),
+  51: condition(51, "Light drizzle", 'drizzle', 1, 'drizzle'),
+  53: condition(53, "Moderate drizzle", 'drizzle', 2, 'drizzle'),
+  55: condition(55, "Dense drizzle", 'drizzle', 3, 'drizzle'),
+  56: condition(56, "Light freezing drizzle", 'drizzle', 1, 'freezing'),
+  57: condition(57, "Dense freezing drizzle", 'drizzle', 3, 'freezing'),
+  61: condition(61, "Slight rain", 'rain', 1, 'rain'),
+  63: condition(63, "Moderate rain", 'rain', 2, 'rain'),
+  65: condition(65, "Heavy rain", 'rain', 3, 'rain'),
+  66: condition(66, "Light freezing rain", 'rain', 1, 'freezing'),
+  67: condition(67, "Heavy freezing rain", 'rain', 3, 'freezing'),
+  71: condition(71, "Slight snow fall", 'snow', 1, 'snow'),
+  73: condition(73, "Moderate snow fall", 'snow', 2, 'snow'),
+  75: condition(75, "Heavy snow fall", 'snow', 3, 'snow'),
+  77: condition(77, "Snow grains", 'snow', 1, 'snow'),
+  80: condition(80, "Slight rain showers", 'showers', 1, 'rain'),
+  81: condition(81, "Moderate rain showers", 'showers', 2, 'rain'),
+  82: condition(82, "Violent rain showers", 'showers', 4, 'rain'),
+  85: condition(85, "Slight snow showers", 'showers', 1, 'snow'),
+  86: condition(86, "Heavy snow showers", 'showers', 3, 'snow'),
+  95: condition(95, "Thunderstorm", 'thunderstorm', 3, 'rain'),
+  96: condition(96, "Thunderstorm with slight hail", 'thunderstorm', 4, 'hail'),
+  99: condition(99, "Thunderstorm with heavy hail", 'thunderstorm', 4, 'hail'),
+};
+
+export const UNKNOWN_CONDITION: WeatherCondition = condition(-1, "Unknown", 'cloudy', 0, 'none');
+
+export const INTENSITY_LABELS: Record<WeatherIntensity, string> = {
+  0: "Calm",
+  1: "Light",
+  2: "Moderate",
+  3: "Heavy",
+  4: "Severe",
 };
 
+export const CATEGORY_GLYPHS: Record<WeatherCategory, string> = {
+  clear: '☀',
+  cloudy: '☁',
+  fog: '≋',
+  drizzle: '⋰',
+  rain: '☂',
+  snow: '❄',
+  showers: '☔',
+  thunderstorm: '⚡',
+};
+
+/**
+ * Looks up a WMO code in the catalog, falling back to UNKNOWN_CONDITION.
+ */
+export const getWeatherCondition = (code: number | undefined): WeatherCondition =>
+  (code !== undefined && WEATHER_CONDITIONS[code]) || UNKNOWN_CONDITION;
+
 export const MAJOR_CITIES = [
   { name: "LA", lat: 34.05, lng: -118.24 },
   { name: "NY", lat: 40.71, lng: -74.00 },
@@ -46,19 +140,26 @@ export const THEMES: Record<string, ThemeConfig> = {
       Metaphors: coffee, logs, curtains, dark highways.
       Keep it under 80 words. Do not greet.
     `,
-    videoPromptTemplate: (weather, terrain) => `
-      Cinematic, 35mm film grain, David Lynch style shot of ${terrain}. 
-      Atmosphere: ${weather}, moody lighting, surreal, dim, high contrast, mysterious, eerie stillness. 
+    videoPromptTemplate: `
+      Cinematic, 35mm film grain, David Lynch style shot of {terrain}. 
+      {#coastal}Black water at the edge of the frame, a lighthouse that does not blink. {/coastal}{#biome=taiga|temperate_forest}Douglas firs swaying. {/biome}
+      Atmosphere: {atmosphere}, moody lighting, surreal, dim, high contrast, mysterious, eerie stillness. 
       No people.
     `,
     voiceName: 'Fenrir',
+    soundscape: 'industrial',
+    visualizer: 'signature',
+    visualizerSignature: 'chevron',
     primaryColor: '#ef4444', // red-500
     secondaryColor: '#450a0a', // red-950
     backgroundColor: '#050505',
+    textColor: '#e5e5e5',
+    captionColor: '#ef4444',
     fontClass: 'font-mono', // Courier
     containerClass: 'border-[#330000] shadow-[0_0_30px_#330000] bg-black',
     mapFilter: 'grayscale(100%) contrast(150%) brightness(50%) invert(100%)',
     markerClass: 'bg-red-600 shadow-[0_0_8px_#ff0000]',
+    postEffects: { kenBurns: 0.5, chromaticAberration: 0.3, rain: 1, grain: 0.6, scanlines: 0.5, vignette: 0.8 },
   },
   WES: {
     id: 'WES',
@@ -70,19 +171,26 @@ export const THEMES: Record<string, ThemeConfig> = {
       Keep it dry, factual, but whimsical. 
       Keep it under 80 words.
     `,
-    videoPromptTemplate: (weather, terrain) => `
-      Cinematic shot of ${terrain} in the style of Wes Anderson.
+    videoPromptTemplate: `
+      Cinematic shot of {terrain} in the style of Wes Anderson.
+      {#elevation=alpine|highland}A pink funicular climbs the slope. {/elevation}{^land}A tiny striped research vessel sits dead centre. {/land}
       Symmetrical composition, pastel color palette, flat lighting, whimsical, highly detailed, yellow and pink hues.
-      Atmosphere: ${weather}. No people.
+      Atmosphere: {atmosphere}. No people.
     `,
     voiceName: 'Puck',
+    soundscape: 'music-box',
+    visualizer: 'signature',
+    visualizerSignature: 'symmetry',
     primaryColor: '#fbbf24', // amber-400
     secondaryColor: '#fef3c7', // amber-100
     backgroundColor: '#fdf2f8', // pink-50
+    textColor: '#333333',
+    captionColor: '#fef3c7',
     fontClass: 'font-[Oswald] tracking-wider',
     containerClass: 'border-4 border-yellow-400 shadow-none bg-[#fff0f5]',
     mapFilter: 'sepia(50%) hue-rotate(330deg) saturate(150%) brightness(110%)',
     markerClass: 'bg-yellow-400 border-2 border-white shadow-sm',
+    postEffects: { kenBurns: 0.4, rain: 0.6, grain: 0.15, vignette: 0.25 },
   },
   BLADE: {
     id: 'BLADE',
@@ -94,20 +202,53 @@ export const THEMES: Record<string, ThemeConfig> = {
       Gritty, cynical, and poetic.
       Keep it under 80 words.
     `,
-    videoPromptTemplate: (weather, terrain) => `
-      Cyberpunk sci-fi cityscape shot of ${terrain}.
+    videoPromptTemplate: `
+      Cyberpunk sci-fi {#biome=urban}cityscape{/biome}{^biome=urban}landscape{/biome} shot of {terrain}{^biome=urban}, a lone arcology on the horizon{/biome}.
       Neon lights, rain-slicked surfaces, volumetric fog, blue and purple lighting, high tech low life aesthetic.
-      Atmosphere: ${weather}.
+      Atmosphere: {atmosphere}.
     `,
     voiceName: 'Charon',
+    soundscape: 'synth-pad',
+    visualizer: 'signature',
+    visualizerSignature: 'neon-grid',
     primaryColor: '#00e5ff', // cyan-400
     secondaryColor: '#1e1b4b', // indigo-950
     backgroundColor: '#020617', // slate-950
+    textColor: '#e5e5e5',
+    captionColor: '#00e5ff',
     fontClass: 'font-sans',
     containerClass: 'border border-cyan-500 shadow-[0_0_20px_#00e5ff] bg-[#000510]',
     mapFilter: 'hue-rotate(180deg) saturate(200%) contrast(120%) brightness(70%)',
     markerClass: 'bg-cyan-400 shadow-[0_0_8px_#00e5ff]',
+    postEffects: { kenBurns: 0.3, chromaticAberration: 0.6, bloom: 0.8, rain: 1, grain: 0.3, scanlines: 0.4, vignette: 0.5 },
   }
 };
 
+const stop = (value: number, color: string, alpha: number = 1): ColorStop => ({ value, color, alpha });
+
+// Colour ramps for the map's weather overlays, keyed by ThemeConfig.id. Other themes derive theirs from their colours.
+export const OVERLAY_RAMPS: Record<string, Record<OverlayLayer, ColorStop[]>> = {
+  LYNCH: {
+    temperature: [stop(-40, '#0b1a3a'), stop(-10, '#3b4b6b'), stop(10, '#6b6b6b'), stop(25, '#a31d1d'), stop(40, '#ff2a2a')],
+    wind: [stop(0, '#6b6b6b', 0.5), stop(30, '#e5e5e5'), stop(80, '#ef4444')],
+    precipitation: [stop(0, '#1e3a5f', 0), stop(0.5, '#1e3a5f', 0.55), stop(3, '#2563eb', 0.7), stop(10, '#e5e5e5', 0.85)],
+    cloud: [stop(0, '#a3a3a3', 0), stop(50, '#a3a3a3', 0.25), stop(100, '#e5e5e5', 0.5)],
+  },
+  WES: {
+    temperature: [stop(-40, '#a5b4fc'), stop(-10, '#bae6fd'), stop(10, '#fef3c7'), stop(25, '#fbbf24'), stop(40, '#f472b6')],
+    wind: [stop(0, '#fef3c7', 0.6), stop(30, '#fbbf24'), stop(80, '#f472b6')],
+    precipitation: [stop(0, '#60a5fa', 0), stop(0.5, '#60a5fa', 0.5), stop(3, '#818cf8', 0.7), stop(10, '#f472b6', 0.85)],
+    cloud: [stop(0, '#ffffff', 0), stop(50, '#ffffff', 0.3), stop(100, '#ffffff', 0.6)],
+  },
+  BLADE: {
+    temperature: [stop(-40, '#1e1b4b'), stop(-10, '#3b0ca3'), stop(10, '#00e5ff'), stop(25, '#f0abfc'), stop(40, '#ff0080')],
+    wind: [stop(0, '#00e5ff', 0.5), stop(30, '#a855f7'), stop(80, '#ff0080')],
+    precipitation: [stop(0, '#00e5ff', 0), stop(0.5, '#00e5ff', 0.45), stop(3, '#a855f7', 0.7), stop(10, '#ff0080', 0.85)],
+    cloud: [stop(0, '#1e1b4b', 0), stop(50, '#6366f1', 0.3), stop(100, '#c7d2fe', 0.6)],
+  },
+};
+
+// Prebuilt Gemini TTS voices a theme can speak with.
+export const TTS_VOICES = ['Fenrir', 'Puck', 'Kore', 'Zephyr', 'Charon'];
+
 export const DEFAULT_COORDINATES = { lat: 34.137, lng: -118.352 };
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { ArchiveFilter, ArchivedTransmission, LynchContent } from '../types';
+import { decodeAudioData } from './utils';
+import { COORD_DECIMALS, PermalinkState } from './permalinkService';
+
+const DB_NAME = 'lynchian-archive';
+const DB_VERSION = 1;
+const STORE = 'transmissions';
+
+// Default budget for the archive. Oldest non-favourites are pruned beyond it.
+export const ARCHIVE_BUDGET_BYTES = 200 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call retry after a failed open.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // Awaited together, so a failed run does not leave the transaction's abort unhandled.
+  const [result] = await Promise.all([(async () => run(tx.objectStore(STORE)))(), done]);
+  return result;
+};
+
+/**
+ * Interleaves an AudioBuffer into 16-bit PCM, the same layout Gemini TTS returns.
+ */
+const encodePcm = (buffer: AudioBuffer): Int16Array => {
+  const channels = buffer.numberOfChannels;
+  const pcm = new Int16Array(buffer.length * channels);
+  for (let c = 0; c < channels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < buffer.length; i++) {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      pcm[i * channels + c] = Math.round(sample * 32767);
+    }
+  }
+  return pcm;
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Stores a finished transmission, then prunes the archive back under budget.
+ *
+ * @param content - The content handed to the player.
+ * @param log - Progress messages from the run, oldest first.
+ * @returns The stored entry.
+ */
+export const saveTransmission = async (content: LynchContent, log: string[] = []): Promise<ArchivedTransmission> => {
+  const pcm = content.audioBuffer ? encodePcm(content.audioBuffer) : null;
+  const entry: ArchivedTransmission = {
+    id: createId(),
+    createdAt: new Date().toISOString(),
+    favourite: false,
+    narrativeText: content.narrativeText,
+    weather: content.weather,
+    location: content.location,
+    themeId: content.themeId,
+    providerId: content.providerId,
+    seed: content.seed,
+    imageUrl: content.imageUrl,
+    audio: content.audioBuffer && pcm
+      ? { pcm, sampleRate: content.audioBuffer.sampleRate, channels: content.audioBuffer.numberOfChannels }
+      : null,
+    speechMode: content.speechMode,
+    degraded: content.degraded,
+    log,
+    // Strings are UTF-16 in memory; close enough for budgeting.
+    sizeBytes: (pcm?.byteLength ?? 0) + (content.imageUrl?.length ?? 0) * 2 + content.narrativeText.length * 2 + 2048,
+  };
+
+  await withStore('readwrite', store => request(store.put(entry)));
+  await pruneArchive();
+  return entry;
+};
+
+/**
+ * Lists archived transmissions, newest first.
+ */
+export const listTransmissions = async (filter: ArchiveFilter = {}): Promise<ArchivedTransmission[]> => {
+  const all = await withStore('readonly', store => request(store.getAll() as IDBRequest<ArchivedTransmission[]>));
+  const query = filter.query?.trim().toLowerCase();
+
+  return all
+    .filter(entry => !filter.themeId || entry.themeId === filter.themeId)
+    .filter(entry => !filter.favouritesOnly || entry.favourite)
+    .filter(entry => !query
+      || (entry.weather.locationName || '').toLowerCase().includes(query)
+      || entry.narrativeText.toLowerCase().includes(query))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const sameCoordinate = (a: number, b: number) => a.toFixed(COORD_DECIMALS) === b.toFixed(COORD_DECIMALS);
+
+/**
+ * Finds the newest archived transmission a permalink describes: the same seed,
+ * theme and coordinates (to the link's precision) and, when the link pins an
+ * hour, the same hour. Links without a seed, and entries archived without one,
+ * never match.
+ */
+export const findArchivedTransmission = async (state: PermalinkState): Promise<ArchivedTransmission | undefined> => {
+  if (state.seed === null) return undefined;
+  return (await listTransmissions()).find(entry =>
+    entry.seed === state.seed
+    && entry.themeId === state.themeId
+    && sameCoordinate(entry.location.lat, state.coords.lat)
+    && sameCoordinate(entry.location.lng, state.coords.lng)
+    && (!state.at || entry.weather.observedAt.slice(0, 13) === state.at.slice(0, 13))
+  );
+};
+
+export const getTransmission = (id: string): Promise<ArchivedTransmission | undefined> =>
+  withStore('readonly', store => request(store.get(id) as IDBRequest<ArchivedTransmission | undefined>));
+
+export const deleteTransmission = (id: string): Promise<void> =>
+  withStore('readwrite', store => request(store.delete(id)).then(() => undefined));
+
+/**
+ * Marks or unmarks a favourite. Favourites are never pruned automatically.
+ */
+export const setFavourite = (id: string, favourite: boolean): Promise<void> =>
+  withStore('readwrite', async store => {
+    const entry = await request(store.get(id) as IDBRequest<ArchivedTransmission | undefined>);
+    if (entry) await request(store.put({ ...entry, favourite }));
+  });
+
+/**
+ * Rebuilds player content from an archived entry.
+ */
+export const restoreContent = async (entry: ArchivedTransmission, audioCtx: AudioContext): Promise<LynchContent> => ({
+  narrativeText: entry.narrativeText,
+  weather: entry.weather,
+  audioBuffer: entry.audio
+    ? await decodeAudioData(new Uint8Array(entry.audio.pcm.buffer), audioCtx, entry.audio.sampleRate, entry.audio.channels)
+    : null,
+  videoUrl: null, // Video URLs are short-lived and not archived
+  imageUrl: entry.imageUrl,
+  location: entry.location,
+  themeId: entry.themeId,
+  providerId: entry.providerId,
+  seed: entry.seed,
+  speechMode: entry.speechMode,
+  degraded: entry.degraded,
+});
+
+export interface ArchiveUsage {
+  entries: number;
+  archiveBytes: number; // Sum of entry sizes
+  budgetBytes: number;
+  usageBytes: number | null; // Whole-origin usage reported by the browser, when available
+  quotaBytes: number | null;
+  persisted: boolean | null;
+}
+
+/**
+ * Reports how much the archive holds against its budget and the browser quota.
+ */
+export const getArchiveUsage = async (budgetBytes: number = ARCHIVE_BUDGET_BYTES): Promise<ArchiveUsage> => {
+  const all = await listTransmissions();
+  const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined;
+  const estimate = storage?.estimate ? await storage.estimate() : undefined;
+  const persisted = storage?.persisted ? await storage.persisted() : null;
+  return {
+    entries: all.length,
+    archiveBytes: all.reduce((sum, e) => sum + e.sizeBytes, 0),
+    budgetBytes,
+    usageBytes: estimate?.usage ?? null,
+    quotaBytes: estimate?.quota ?? null,
+    persisted,
+  };
+};
+
+/**
+ * Asks the browser not to evict the archive under storage pressure.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> =>
+  typeof navigator !== 'undefined' && navigator.storage?.persist ? navigator.storage.persist() : false;
+
+/**
+ * Deletes the oldest non-favourite entries until the archive fits the budget,
+ * or within 90% of the browser quota if that is tighter.
+ *
+ * @returns How many entries were removed.
+ */
+export const pruneArchive = async (budgetBytes: number = ARCHIVE_BUDGET_BYTES): Promise<number> => {
+  const usage = await getArchiveUsage(budgetBytes);
+  const quotaRoom = usage.quotaBytes !== null && usage.usageBytes !== null
+    ? usage.archiveBytes + (usage.quotaBytes * 0.9 - usage.usageBytes)
+    : Infinity;
+  const limit = Math.min(budgetBytes, quotaRoom);
+  if (usage.archiveBytes <= limit) return 0;
+
+  const oldestFirst = (await listTransmissions()).filter(e => !e.favourite).reverse();
+  let total = usage.archiveBytes;
+  let removed = 0;
+  for (const entry of oldestFirst) {
+    if (total <= limit) break;
+    await deleteTransmission(entry.id);
+    total -= entry.sizeBytes;
+    removed++;
+  }
+  return removed;
+};
@@ -0,0 +1,208 @@
+import { Coordinates, DaylightInfo, MoonState, SolarPhase } from '../types';
+
+const DAY_MS = 86400000;
+const RAD = Math.PI / 180;
+const DEG = 180 / Math.PI;
+// Refraction and the sun's radius put sunrise and sunset at this apparent elevation.
+const HORIZON_ELEVATION = -0.833;
+
+/**
+ * Lower edge of each twilight band, in degrees of solar elevation.
+ */
+export const TWILIGHT_ELEVATIONS: Record<Exclude<SolarPhase, 'day' | 'night'>, number> = {
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+};
+
+export const SOLAR_PHASE_LABELS: Record<SolarPhase, string> = {
+  day: 'Daylight',
+  civil: 'Civil twilight',
+  nautical: 'Nautical twilight',
+  astronomical: 'Astronomical twilight',
+  night: 'Night',
+};
+
+const MOON_PHASE_NAMES = [
+  'New moon', 'Waxing crescent', 'First quarter', 'Waxing gibbous',
+  'Full moon', 'Waning gibbous', 'Last quarter', 'Waning crescent',
+];
+
+const normalizeLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+const julianDay = (date: Date) => date.getTime() / DAY_MS + 2440587.5;
+
+interface SolarCoordinates {
+  declination: number; // Degrees
+  rightAscension: number; // Degrees
+  equationOfTime: number; // Minutes that apparent solar time runs ahead of mean time
+}
+
+/**
+ * The sun's apparent position, after the NOAA solar calculator (Meeus,
+ * Astronomical Algorithms). Good to well under a minute of time this century.
+ */
+const solarCoordinates = (date: Date): SolarCoordinates => {
+  const t = (julianDay(date) - 2451545) / 36525; // Julian centuries since J2000
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const m = meanAnomaly * RAD;
+  const center = Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t))
+    + Math.sin(2 * m) * (0.019993 - 0.000101 * t)
+    + Math.sin(3 * m) * 0.000289;
+  const omega = (125.04 - 1934.136 * t) * RAD;
+  const apparentLongitude = (meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega)) * RAD;
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = (meanObliquity + 0.00256 * Math.cos(omega)) * RAD;
+
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = meanLongitude * RAD;
+  const equationOfTime = 4 * DEG * (
+    y * Math.sin(2 * l0)
+    - 2 * eccentricity * Math.sin(m)
+    + 4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0)
+    - 0.5 * y * y * Math.sin(4 * l0)
+    - 1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+  );
+
+  return {
+    declination: Math.asin(Math.sin(obliquity) * Math.sin(apparentLongitude)) * DEG,
+    rightAscension: Math.atan2(Math.cos(obliquity) * Math.sin(apparentLongitude), Math.cos(apparentLongitude)) * DEG,
+    equationOfTime,
+  };
+};
+
+/**
+ * The subsolar point: where the sun is directly overhead at `date`.
+ * Latitude is the solar declination; longitude follows apparent solar time,
+ * so the equation of time shifts it up to about 4° either way.
+ */
+export const getSubsolarPoint = (date: Date = new Date()): Coordinates => {
+  const { declination, equationOfTime } = solarCoordinates(date);
+  const utcMinutes = (date.getTime() % DAY_MS) / 60000;
+  return { lat: declination, lng: normalizeLng(-(utcMinutes + equationOfTime - 720) / 4) };
+};
+
+/**
+ * Elevation of a body above the horizon at `coords`, in degrees, given the
+ * point on Earth it stands directly over.
+ */
+const elevationFrom = (coords: Coordinates, overhead: Coordinates): number => {
+  const lat = coords.lat * RAD;
+  const declination = overhead.lat * RAD;
+  const hourAngle = (coords.lng - overhead.lng) * RAD;
+  const sine = Math.sin(lat) * Math.sin(declination) + Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle);
+  return Math.asin(Math.max(-1, Math.min(1, sine))) * DEG;
+};
+
+/**
+ * The sun's geometric elevation at `coords`, in degrees. Pass the subsolar
+ * point when evaluating many places at the same instant.
+ */
+export const getSolarElevation = (coords: Coordinates, date: Date = new Date(), subsolar: Coordinates = getSubsolarPoint(date)): number =>
+  elevationFrom(coords, subsolar);
+
+/**
+ * Classifies a solar elevation into daylight, a twilight band or night.
+ */
+export const getSolarPhase = (elevation: number): SolarPhase => {
+  if (elevation >= HORIZON_ELEVATION) return 'day';
+  if (elevation >= TWILIGHT_ELEVATIONS.civil) return 'civil';
+  if (elevation >= TWILIGHT_ELEVATIONS.nautical) return 'nautical';
+  if (elevation >= TWILIGHT_ELEVATIONS.astronomical) return 'astronomical';
+  return 'night';
+};
+
+/**
+ * The terminator (where the sun's centre is on the horizon) as one latitude
+ * per longitude, west to east. It is a great circle, so on the map it is a
+ * single curve across every meridian.
+ *
+ * @param step - Longitude spacing in degrees.
+ */
+export const getTerminatorPath = (date: Date = new Date(), step: number = 2): Coordinates[] => {
+  const sun = getSubsolarPoint(date);
+  // At the equinoxes the curve degenerates to two meridians; a hair of declination keeps it a function.
+  const declination = (Math.abs(sun.lat) < 1e-4 ? (sun.lat < 0 ? -1e-4 : 1e-4) : sun.lat) * RAD;
+  const path: Coordinates[] = [];
+  for (let lng = -180; lng <= 180; lng += step) {
+    const hourAngle = (lng - sun.lng) * RAD;
+    path.push({ lat: Math.atan(-Math.cos(hourAngle) / Math.tan(declination)) * DEG, lng });
+  }
+  return path;
+};
+
+/**
+ * Sunrise and sunset on the local calendar day containing `at`, plus the sun's
+ * elevation and twilight phase at `at` itself.
+ *
+ * @param utcOffsetSeconds - The location's offset, which decides the local day.
+ */
+export const getDaylight = (coords: Coordinates, at: Date, utcOffsetSeconds: number): DaylightInfo => {
+  const localDayStart = Math.floor((at.getTime() + utcOffsetSeconds * 1000) / DAY_MS) * DAY_MS;
+  // Solar noon, refined once with the equation of time at the noon estimate.
+  let noon = localDayStart + (720 - 4 * coords.lng) * 60000;
+  const sun = solarCoordinates(new Date(noon));
+  noon -= sun.equationOfTime * 60000;
+
+  const lat = coords.lat * RAD;
+  const declination = sun.declination * RAD;
+  const cosHourAngle = (Math.sin(HORIZON_ELEVATION * RAD) - Math.sin(lat) * Math.sin(declination)) / (Math.cos(lat) * Math.cos(declination));
+  const elevation = getSolarElevation(coords, at);
+  const base = { solarElevation: elevation, phase: getSolarPhase(elevation) };
+
+  if (cosHourAngle > 1) return { ...base, sunrise: null, sunset: null, polar: 'night' };
+  if (cosHourAngle < -1) return { ...base, sunrise: null, sunset: null, polar: 'day' };
+  const halfDayMs = Math.acos(cosHourAngle) * DEG * 4 * 60000;
+  return {
+    ...base,
+    sunrise: new Date(noon - halfDayMs).toISOString(),
+    sunset: new Date(noon + halfDayMs).toISOString(),
+    polar: null,
+  };
+};
+
+/**
+ * The moon's sublunar point and phase, from the low-precision lunar theory
+ * (a degree or so of position; plenty for a map marker).
+ */
+export const getMoonState = (date: Date = new Date()): MoonState => {
+  const d = julianDay(date) - 2451545;
+  const obliquity = 23.4397 * RAD;
+
+  // Geocentric ecliptic coordinates.
+  const meanLongitude = (218.316 + 13.176396 * d) * RAD;
+  const meanAnomaly = (134.963 + 13.064993 * d) * RAD;
+  const argumentOfLatitude = (93.272 + 13.22935 * d) * RAD;
+  const longitude = meanLongitude + 6.289 * RAD * Math.sin(meanAnomaly);
+  const latitude = 5.128 * RAD * Math.sin(argumentOfLatitude);
+  const distanceKm = 385001 - 20905 * Math.cos(meanAnomaly);
+
+  const rightAscension = Math.atan2(
+    Math.sin(longitude) * Math.cos(obliquity) - Math.tan(latitude) * Math.sin(obliquity),
+    Math.cos(longitude),
+  );
+  const declination = Math.asin(
+    Math.sin(latitude) * Math.cos(obliquity) + Math.cos(latitude) * Math.sin(obliquity) * Math.sin(longitude),
+  );
+  const siderealTime = (280.46061837 + 360.98564736629 * d) * RAD;
+
+  // Phase from the sun-moon elongation.
+  const sun = solarCoordinates(date);
+  const sunRa = sun.rightAscension * RAD;
+  const sunDec = sun.declination * RAD;
+  const sunDistanceKm = 149598000;
+  const elongation = Math.acos(Math.max(-1, Math.min(1,
+    Math.sin(sunDec) * Math.sin(declination) + Math.cos(sunDec) * Math.cos(declination) * Math.cos(sunRa - rightAscension))));
+  const incidence = Math.atan2(sunDistanceKm * Math.sin(elongation), distanceKm - sunDistanceKm * Math.cos(elongation));
+  const waxing = Math.cos(sunDec) * Math.sin(sunRa - rightAscension) < 0;
+  const phase = 0.5 + (0.5 * incidence * (waxing ? -1 : 1)) / Math.PI;
+
+  return {
+    position: { lat: declination * DEG, lng: normalizeLng((rightAscension - siderealTime) * DEG) },
+    illumination: (1 + Math.cos(incidence)) / 2,
+    phase,
+    phaseName: MOON_PHASE_NAMES[Math.round(phase * 8) % 8],
+  };
+};
@@ -0,0 +1,246 @@
+import { BroadcastItem, Coordinates, DriftStop, LynchContent, ThemeConfig } from '../types';
+import { hashString, createSeededRandom } from './utils';
+
+// Transmissions kept generated (or generating) ahead of the one on air.
+export const BROADCAST_LOOKAHEAD = 2;
+export const MAX_BROADCAST_LOOKAHEAD = 4;
+// Overlap between the end of one segment and the start of the next.
+export const BROADCAST_CROSSFADE_SECONDS = 2.5;
+// While nothing is ready, the ident repeats this often.
+export const STANDBY_IDENT_INTERVAL_MS = 15000;
+
+const IDENT_SECONDS = 5;
+const IDENT_LEVEL = 0.5;
+const RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+/**
+ * A station name for the theme, e.g. "KLYN 97.3 FM". Stable per theme id.
+ */
+export const stationCallSign = (theme: ThemeConfig): string => {
+  const letters = theme.id.replace(/[^A-Z]/g, '').padEnd(3, 'X').slice(0, 3);
+  const frequency = 88.1 + (hashString(theme.id) % 100) * 0.2;
+  return `K${letters} ${frequency.toFixed(1)} FM`;
+};
+
+const midi = (semitones: number, root: number) => root * Math.pow(2, semitones / 12);
+
+/**
+ * Renders the theme's station ident: a few seconds of sting in the style of
+ * its soundscape, with a fade at each end for crossfading. Deterministic per theme.
+ */
+export const renderIdent = (audioCtx: AudioContext, theme: ThemeConfig): AudioBuffer => {
+  const sampleRate = audioCtx.sampleRate;
+  const length = Math.ceil(IDENT_SECONDS * sampleRate);
+  const buffer = audioCtx.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+  const random = createSeededRandom(hashString(`ident|${theme.id}`));
+  const fade = BROADCAST_CROSSFADE_SECONDS / 2;
+
+  // Each style adds notes as (start, frequency, length, voice) on top of the bed.
+  const notes: { start: number; frequency: number; length: number; bright: boolean }[] = [];
+  let noise = 0;
+  let swell: number[] = [];
+  switch (theme.soundscape) {
+    case 'industrial':
+      swell = [0, 1, 7].map(st => midi(st, 55));
+      noise = 0.25;
+      break;
+    case 'music-box': {
+      const scale = [0, 4, 7, 12, 16, 19, 24];
+      for (let i = 0; i < 7; i++) {
+        notes.push({ start: 0.3 + i * 0.28, frequency: midi(scale[Math.floor(random() * scale.length)], 523.25), length: 1.2, bright: true });
+      }
+      break;
+    }
+    case 'synth-pad':
+      swell = [0, 7, 10, 15].map(st => midi(st, 73.42));
+      notes.push({ start: 1.2, frequency: midi(19, 73.42), length: 2.5, bright: false });
+      noise = 0.08;
+      break;
+    default:
+      notes.push({ start: 0.4, frequency: 880, length: 1.5, bright: true }, { start: 0.9, frequency: 659.25, length: 2, bright: true });
+  }
+
+  let lowpass = 0;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const envelope = Math.min(1, t / fade, (IDENT_SECONDS - t) / fade);
+    let sample = 0;
+
+    // Sustained chord: rich harmonics through a filter that opens and closes.
+    if (swell.length) {
+      const shape = Math.sin(Math.PI * (t / IDENT_SECONDS));
+      let chord = 0;
+      for (const f of swell) {
+        for (let h = 1; h <= 4; h++) chord += Math.sin(2 * Math.PI * f * h * t * (1 + (h - 1) * 0.002)) / h;
+      }
+      const cutoff = 0.02 + shape * 0.15;
+      lowpass += cutoff * (chord / swell.length - lowpass);
+      sample += lowpass * 0.6 * shape;
+    }
+
+    // Plucked or bowed notes.
+    for (const note of notes) {
+      const local = t - note.start;
+      if (local < 0 || local > note.length) continue;
+      const decay = note.bright ? Math.exp(-local * 3) : Math.sin(Math.PI * (local / note.length));
+      const tone = Math.sin(2 * Math.PI * note.frequency * local) + (note.bright ? 0.3 * Math.sin(4 * Math.PI * note.frequency * local) : 0);
+      sample += tone * decay * 0.35;
+    }
+
+    // Static and crackle.
+    if (noise) sample += (random() * 2 - 1) * noise * 0.3 * (random() < 0.002 ? 4 : 1);
+
+    data[i] = Math.max(-1, Math.min(1, sample * envelope * IDENT_LEVEL));
+  }
+  return buffer;
+};
+
+/**
+ * Plays the theme's ident on `audioCtx`. `done` resolves once the next
+ * segment should start, a crossfade before the sting ends, or on cancel.
+ */
+export const playIdent = (audioCtx: AudioContext, theme: ThemeConfig): { done: Promise<void>; cancel: () => void } => {
+  const source = audioCtx.createBufferSource();
+  source.buffer = renderIdent(audioCtx, theme);
+  const gain = audioCtx.createGain();
+  source.connect(gain);
+  gain.connect(audioCtx.destination);
+  source.start();
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let resolveDone = () => {};
+  const done = new Promise<void>(resolve => {
+    resolveDone = resolve;
+    timer = setTimeout(resolve, (IDENT_SECONDS - BROADCAST_CROSSFADE_SECONDS) * 1000);
+  });
+  source.onended = () => gain.disconnect();
+
+  return {
+    done,
+    cancel: () => {
+      if (timer) clearTimeout(timer);
+      gain.gain.setTargetAtTime(0, audioCtx.currentTime, 0.1);
+      try {
+        source.stop(audioCtx.currentTime + 0.5);
+      } catch (e) { /* already stopped */ }
+      resolveDone();
+    },
+  };
+};
+
+export interface BroadcastQueueOptions {
+  lookahead: number;
+  /** Where the next queued transmission should come from. */
+  nextLocation: (signal: AbortSignal) => Promise<DriftStop>;
+  generate: (coords: Coordinates, signal: AbortSignal) => Promise<LynchContent>;
+  /** Called with a fresh array whenever an item is added, changes status or leaves. */
+  onChange: (items: BroadcastItem[]) => void;
+}
+
+/**
+ * The transmissions lined up behind the one on air.
+ */
+export interface BroadcastQueue {
+  /** Removes and returns the head of the queue if it is ready, and tops the queue back up. */
+  take: () => BroadcastItem | null;
+  setLookahead: (lookahead: number) => void;
+  /** Cancels generation in flight; the queue does nothing afterwards. */
+  stop: () => void;
+}
+
+/**
+ * Keeps `lookahead` transmissions generated ahead, one step at a time so the
+ * provider is never asked for more than one at once: a queued item is generated
+ * before the next location is planned. Failed items are dropped and replaced
+ * after a delay that doubles while failures continue.
+ */
+export const createBroadcastQueue = (options: BroadcastQueueOptions): BroadcastQueue => {
+  let items: BroadcastItem[] = [];
+  let lookahead = options.lookahead;
+  let controller: AbortController | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryDelay = RETRY_DELAY_MS;
+  let stopped = false;
+  let counter = 0;
+
+  const emit = () => options.onChange([...items]);
+
+  const fail = (e: unknown, item: BroadcastItem | null) => {
+    console.warn("Broadcast generation failed", e);
+    if (item) {
+      item.status = 'failed';
+      item.error = (e instanceof Error && e.message) || 'Unknown';
+    }
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      pump();
+    }, retryDelay);
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+  };
+
+  const pump = async () => {
+    if (stopped || controller || retryTimer) return;
+    items = items.filter(item => item.status !== 'failed');
+    const next = items.find(item => item.status === 'queued') ?? null;
+    if (!next && items.length >= lookahead) {
+      emit();
+      return;
+    }
+
+    const current = new AbortController();
+    controller = current;
+    try {
+      if (next) {
+        next.status = 'generating';
+        emit();
+        next.content = await options.generate(next.coords, current.signal);
+        next.status = 'ready';
+        retryDelay = RETRY_DELAY_MS;
+      } else {
+        const stop = await options.nextLocation(current.signal);
+        items.push({
+          id: `broadcast-${++counter}`,
+          coords: stop.coords,
+          label: stop.label,
+          itineraryPosition: stop.itineraryPosition,
+          status: 'queued',
+          content: null,
+        });
+      }
+    } catch (e) {
+      if (stopped) return;
+      fail(e, next);
+    } finally {
+      if (controller === current) controller = null;
+    }
+    emit();
+    pump();
+  };
+
+  pump();
+
+  return {
+    take: () => {
+      const head = items.find(item => item.status !== 'failed');
+      if (!head || head.status !== 'ready') return null;
+      items = items.filter(item => item !== head);
+      emit();
+      pump();
+      return head;
+    },
+    setLookahead: (next) => {
+      lookahead = Math.max(1, Math.min(MAX_BROADCAST_LOOKAHEAD, next));
+      // Drop queued (not yet started) items beyond the new depth.
+      items = items.filter((item, i) => i < lookahead || item.status !== 'queued');
+      emit();
+      pump();
+    },
+    stop: () => {
+      stopped = true;
+      controller?.abort();
+      if (retryTimer) clearTimeout(retryTimer);
+    },
+  };
+};
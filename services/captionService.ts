@@ -0,0 +1,224 @@
+import { Caption, CaptionWord, LynchContent } from '../types';
+
+// Unhurried narration pace, used to time on-screen text when there is no voice to follow.
+const WORDS_PER_SECOND = 2.4;
+// Breathing room before the first line and after the last.
+const LEAD_SECONDS = 0.5;
+const TAIL_SECONDS = 1.5;
+// Longer sentences are split into balanced lines of at most this many words.
+const MAX_CAPTION_WORDS = 14;
+
+// Energy segmentation: 20 ms frames, gaps shorter than a consonant stop are bridged.
+const FRAME_SECONDS = 0.02;
+const BRIDGE_SECONDS = 0.08;
+const MIN_REGION_SECONDS = 0.05;
+// Silence long enough to sit between sentences.
+const MIN_PAUSE_SECONDS = 0.25;
+
+export type SubtitleFormat = 'vtt' | 'srt';
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * Estimated spoken length of a text, in seconds, at a slow narration pace.
+ */
+export const estimateSpeechSeconds = (text: string): number => {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return LEAD_SECONDS + words / WORDS_PER_SECOND + TAIL_SECONDS;
+};
+
+const splitSentences = (text: string): string[] =>
+  text.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g)?.map(s => s.trim()).filter(Boolean) || [];
+
+/**
+ * Breaks a sentence into lines of at most MAX_CAPTION_WORDS, evenly sized.
+ */
+const splitLines = (sentence: string): string[][] => {
+  const words = sentence.split(/\s+/).filter(Boolean);
+  const count = Math.ceil(words.length / MAX_CAPTION_WORDS);
+  const size = Math.ceil(words.length / count);
+  return Array.from({ length: count }, (_, i) => words.slice(i * size, (i + 1) * size)).filter(line => line.length);
+};
+
+// Roughly how long a word takes to say, in arbitrary units.
+const spokenWeight = (word: string) => word.replace(/[^\p{L}\p{N}]/gu, '').length + 1;
+
+// The pause a reader leaves after a word, in the same units.
+const pauseWeight = (word: string) => (/[.!?]["')\]]*$/.test(word) ? 5 : /[,;:—]$/.test(word) ? 3 : 0);
+
+/**
+ * Assembles captions from lines of timed words. Each caption lasts until the
+ * next begins, so the text does not blink between lines.
+ */
+const assembleCaptions = (lines: CaptionWord[][], endSeconds: number): Caption[] =>
+  lines.map((words, i) => ({
+    text: words.map(w => w.text).join(' '),
+    start: words[0].start,
+    end: i + 1 < lines.length ? lines[i + 1][0].start : Math.max(endSeconds, words[words.length - 1].end),
+    words,
+  }));
+
+/**
+ * Splits a narrative into captions spread over `durationSeconds`. Word timings
+ * follow word length, with pauses after commas and full stops.
+ */
+export const buildCaptions = (text: string, durationSeconds: number = estimateSpeechSeconds(text)): Caption[] => {
+  const lines = splitSentences(text).flatMap(splitLines);
+  const all = lines.flat();
+  const totalWeight = all.reduce((sum, w) => sum + spokenWeight(w) + pauseWeight(w), 0) || 1;
+  const spoken = Math.max(0, durationSeconds - LEAD_SECONDS - TAIL_SECONDS) || durationSeconds;
+  const secondsPerUnit = spoken / totalWeight;
+
+  let cursor = Math.min(LEAD_SECONDS, durationSeconds);
+  const timed = lines.map(line => line.map(word => {
+    const start = cursor;
+    const end = start + spokenWeight(word) * secondsPerUnit;
+    cursor = end + pauseWeight(word) * secondsPerUnit;
+    return { text: word, start, end };
+  }));
+  return assembleCaptions(timed, cursor);
+};
+
+/**
+ * Finds where a voice recording is audible: RMS per frame against a threshold
+ * set between the noise floor and the loud end of the recording.
+ */
+export const detectSpeechRegions = (buffer: AudioBuffer): Span[] => {
+  const frameLength = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const frames = Math.floor(buffer.length / frameLength);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const energy = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = f * frameLength; i < (f + 1) * frameLength; i++) sum += data[i] * data[i];
+    }
+    energy[f] = Math.sqrt(sum / (frameLength * channels.length));
+  }
+  if (!frames) return [];
+
+  const sorted = Float32Array.from(energy).sort();
+  const floor = sorted[Math.floor(frames * 0.1)];
+  const loud = sorted[Math.floor(frames * 0.95)];
+  const threshold = floor + (loud - floor) * 0.12;
+
+  const regions: Span[] = [];
+  for (let f = 0; f < frames; f++) {
+    if (energy[f] <= threshold) continue;
+    const start = f * FRAME_SECONDS;
+    const last = regions[regions.length - 1];
+    if (last && start - last.end < BRIDGE_SECONDS) last.end = start + FRAME_SECONDS;
+    else regions.push({ start, end: start + FRAME_SECONDS });
+  }
+  return regions.filter(r => r.end - r.start >= MIN_REGION_SECONDS);
+};
+
+/**
+ * Spreads words across the voiced parts of a stretch of audio, in proportion
+ * to their spoken weight, skipping the silences between regions.
+ */
+const timeWordsOverRegions = (words: string[], regions: Span[]): CaptionWord[] => {
+  const voiced = regions.reduce((sum, r) => sum + (r.end - r.start), 0);
+  const totalWeight = words.reduce((sum, w) => sum + spokenWeight(w), 0) || 1;
+
+  // Wall-clock time at `offset` seconds into the voiced audio.
+  const toWallClock = (offset: number) => {
+    let remaining = offset;
+    for (const region of regions) {
+      const length = region.end - region.start;
+      if (remaining <= length) return region.start + remaining;
+      remaining -= length;
+    }
+    return regions[regions.length - 1].end;
+  };
+
+  let cursor = 0;
+  return words.map(word => {
+    const length = (spokenWeight(word) / totalWeight) * voiced;
+    // Nudge the end in slightly so a word ending on a region edge does not claim the silence after it.
+    const timed = { text: word, start: toWallClock(cursor), end: toWallClock(cursor + length - 1e-6) };
+    cursor += length;
+    return timed;
+  });
+};
+
+/**
+ * Times captions against a recorded voice. Sentences are matched to the
+ * longest pauses in the recording, then words are spread over each
+ * sentence's voiced audio. Falls back to text-length estimates over the
+ * buffer's duration when the recording has too little structure.
+ */
+export const alignCaptionsToAudio = (text: string, buffer: AudioBuffer): Caption[] => {
+  const sentences = splitSentences(text).map(splitLines);
+  const regions = detectSpeechRegions(buffer);
+  if (!regions.length || !sentences.length) return buildCaptions(text, buffer.duration);
+
+  const pauses = regions.slice(1)
+    .map((region, i) => ({ start: regions[i].end, end: region.start }))
+    .filter(gap => gap.end - gap.start >= MIN_PAUSE_SECONDS);
+  const breaks = pauses.length >= sentences.length - 1
+    ? [...pauses].sort((a, b) => (b.end - b.start) - (a.end - a.start)).slice(0, sentences.length - 1).sort((a, b) => a.start - b.start)
+    : null;
+
+  // Without enough pauses, treat the whole narrative as one sentence.
+  const groups = breaks ? sentences : [sentences.flat()];
+  const lines: CaptionWord[][] = [];
+  groups.forEach((group, i) => {
+    const from = i === 0 ? 0 : breaks![i - 1].end;
+    const to = breaks && i < breaks.length ? breaks[i].start : buffer.duration;
+    const inside = regions.filter(r => r.start >= from && r.end <= to);
+    const timed = timeWordsOverRegions(group.flat(), inside.length ? inside : [{ start: from, end: to }]);
+    let offset = 0;
+    for (const line of group) {
+      lines.push(timed.slice(offset, offset + line.length));
+      offset += line.length;
+    }
+  });
+  return assembleCaptions(lines, buffer.duration);
+};
+
+/**
+ * Captions for whatever a transmission plays: aligned to the synthesized voice
+ * when there is one, otherwise estimated over the ambient bed or reading time.
+ */
+export const captionsForContent = (content: LynchContent): Caption[] => {
+  if (content.audioBuffer && content.speechMode === 'tts') return alignCaptionsToAudio(content.narrativeText, content.audioBuffer);
+  const duration = content.speechMode === 'ambient' && content.audioBuffer
+    ? content.audioBuffer.duration
+    : estimateSpeechSeconds(content.narrativeText);
+  return buildCaptions(content.narrativeText, duration);
+};
+
+/**
+ * Formats seconds as "hh:mm:ss.mmm" (WebVTT) or "hh:mm:ss,mmm" (SRT).
+ */
+const formatTimestamp = (seconds: number, separator: '.' | ','): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Serialises captions as WebVTT, with per-word timestamp tags so players that
+ * support them can highlight karaoke-style.
+ */
+export const toWebVtt = (captions: Caption[]): string =>
+  `WEBVTT\n\n${captions.map((caption, i) => {
+    const text = caption.words
+      .map((word, j) => (j === 0 ? '' : `<${formatTimestamp(Math.min(Math.max(word.start, caption.start), caption.end), '.')}>`) + escapeVtt(word.text))
+      .join(' ');
+    return `${i + 1}\n${formatTimestamp(caption.start, '.')} --> ${formatTimestamp(caption.end, '.')}\n${text}`;
+  }).join('\n\n')}\n`;
+
+/**
+ * Serialises captions as SubRip (SRT).
+ */
+export const toSrt = (captions: Caption[]): string =>
+  `${captions.map((caption, i) =>
+    `${i + 1}\n${formatTimestamp(caption.start, ',')} --> ${formatTimestamp(caption.end, ',')}\n${caption.text}`,
+  ).join('\n\n')}\n`;
@@ -0,0 +1,105 @@
+import { SpeechMode, ThemeConfig, WeatherData } from '../types';
+import { getWeatherCondition } from '../constants';
+import { hashString, createSeededRandom } from './utils';
+
+/**
+ * Order in which the player falls back when the generated voice is unavailable.
+ * Each mode shows timed on-screen text; they differ in what you hear.
+ */
+export const SPEECH_FALLBACKS: SpeechMode[] = ['browser-voice', 'ambient', 'subtitles'];
+
+export const SPEECH_MODE_LABELS: Record<SpeechMode, string> = {
+  'tts': 'Synthesized voice',
+  'browser-voice': 'Local browser voice',
+  'ambient': 'Ambient bed + subtitles',
+  'subtitles': 'Subtitles only',
+};
+
+// Rate and pitch for the browser voice, nudged towards each theme's narrator.
+const BROWSER_VOICE_SETTINGS: Record<string, { rate: number; pitch: number }> = {
+  LYNCH: { rate: 0.8, pitch: 0.7 },
+  WES: { rate: 1.05, pitch: 1.15 },
+  BLADE: { rate: 0.9, pitch: 0.6 },
+};
+
+// Root frequency (Hz) and chord intervals (semitones) of each theme's ambient drone.
+const AMBIENT_TONES: Record<string, { root: number; intervals: number[]; noise: number }> = {
+  LYNCH: { root: 55, intervals: [0, 1, 7], noise: 0.25 }, // Low, dissonant hum
+  WES: { root: 220, intervals: [0, 4, 7, 12], noise: 0.05 }, // Bright major pad
+  BLADE: { root: 41.2, intervals: [0, 7, 10, 15], noise: 0.35 }, // Brooding minor, heavy hiss
+};
+
+/**
+ * True when the browser exposes a local speech synthesizer.
+ */
+export const isBrowserSpeechAvailable = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+
+/**
+ * Speaks text with the browser's built-in voice. Resolves when speech ends and
+ * rejects if the synthesizer reports an error.
+ *
+ * @returns The pending speech and a function that silences it.
+ */
+export const speakWithBrowserVoice = (text: string, theme: ThemeConfig, rate: number = 1): { done: Promise<void>; cancel: () => void } => {
+  const synth = window.speechSynthesis;
+  const utterance = new SpeechSynthesisUtterance(text);
+  const settings = BROWSER_VOICE_SETTINGS[theme.id] || { rate: 1, pitch: 1 };
+  utterance.rate = settings.rate * rate;
+  utterance.pitch = settings.pitch;
+  utterance.lang = 'en-US';
+
+  const done = new Promise<void>((resolve, reject) => {
+    utterance.onend = () => resolve();
+    utterance.onerror = (e) => (e.error === 'interrupted' || e.error === 'canceled' ? resolve() : reject(new Error(e.error)));
+  });
+
+  synth.cancel(); // Drop anything still queued from an earlier transmission
+  synth.speak(utterance);
+  return { done, cancel: () => synth.cancel() };
+};
+
+/**
+ * Renders a themed ambient bed: a slow-breathing drone chord plus filtered
+ * noise that swells with precipitation and wind. Deterministic per theme and weather.
+ *
+ * @param theme - Picks the drone's root and chord.
+ * @param weather - Rain and wind thicken the noise layer.
+ * @param audioCtx - Context used to allocate the buffer.
+ * @param durationSeconds - Length of the bed, usually the caption timeline's length.
+ */
+export const generateAmbientBed = (theme: ThemeConfig, weather: WeatherData, audioCtx: AudioContext, durationSeconds: number): AudioBuffer => {
+  const sampleRate = audioCtx.sampleRate;
+  const length = Math.ceil(durationSeconds * sampleRate);
+  const buffer = audioCtx.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+
+  const tone = AMBIENT_TONES[theme.id] || AMBIENT_TONES.LYNCH;
+  const condition = getWeatherCondition(weather.conditionCode);
+  const random = createSeededRandom(hashString(`${theme.id}|${weather.conditionCode}|${weather.windSpeed}`));
+  const wet = condition.precipitation === 'none' ? 0 : condition.intensity / 4;
+  const noiseLevel = tone.noise + wet * 0.4 + Math.min(weather.windSpeed, 60) / 300;
+  const frequencies = tone.intervals.map(st => tone.root * Math.pow(2, st / 12));
+  const fade = Math.min(2, durationSeconds / 4);
+
+  let brown = 0;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    // Each partial breathes at its own slow rate.
+    let drone = 0;
+    frequencies.forEach((f, k) => {
+      const swell = 0.6 + 0.4 * Math.sin(2 * Math.PI * t * (0.05 + k * 0.031));
+      drone += Math.sin(2 * Math.PI * f * t) * swell;
+    });
+    drone /= frequencies.length;
+
+    // Brown noise: integrated white noise, leaky so it stays centred.
+    brown = (brown + (random() * 2 - 1) * 0.02) * 0.998;
+    const gust = 0.7 + 0.3 * Math.sin(2 * Math.PI * t * 0.11);
+
+    const envelope = Math.min(1, t / fade, (durationSeconds - t) / fade);
+    data[i] = (drone * 0.18 + brown * 3 * noiseLevel * gust) * Math.max(0, envelope);
+  }
+
+  return buffer;
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseItinerary } from './driftService';
+import { searchLocations } from './locationSearchService';
+
+describe('parseItinerary', () => {
+  it('reads a city whose name is also a valid geohash as the city', () => {
+    const { waypoints, unresolved } = parseItinerary('Sydney | 3');
+    expect(unresolved).toEqual([]);
+    expect(waypoints).toEqual([{ name: 'Sydney', coords: { lat: -33.86, lng: 151.2 }, dwellMinutes: 3 }]);
+  });
+
+  it('falls back to a geohash when no city matches', () => {
+    const { waypoints } = parseItinerary('u09tvw | 10');
+    expect(waypoints).toHaveLength(1);
+    expect(waypoints[0].name).toBe('u09tvw');
+    expect(waypoints[0].coords.lat).toBeCloseTo(48.86, 1);
+    expect(waypoints[0].coords.lng).toBeCloseTo(2.35, 1);
+  });
+});
+
+describe('searchLocations', () => {
+  it('keeps the only city match ahead of the geohash reading', () => {
+    expect(searchLocations('Sydney', 1)).toMatchObject([{ kind: 'city', label: 'Sydney' }]);
+  });
+
+  it('lists the geohash reading after the cities when there is room', () => {
+    const results = searchLocations('Sydney', 5);
+    expect(results[0]).toMatchObject({ kind: 'city', label: 'Sydney' });
+    expect(results[results.length - 1].kind).toBe('geohash');
+  });
+});
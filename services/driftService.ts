@@ -0,0 +1,237 @@
+import { Coordinates, DriftMode, DriftStop, Itinerary, ItineraryPosition, ItineraryProgress, ItineraryWaypoint, WeatherData, WeatherProvider } from '../types';
+import { getWeatherCondition } from '../constants';
+import { isOnLandPolygon } from './terrainService';
+import { getSubsolarPoint } from './astronomyService';
+import { destinationPoint } from './utils';
+import { searchCities, searchLocations } from './locationSearchService';
+
+export const DRIFT_MODES: DriftMode[] = ['land', 'storm', 'dusk', 'itinerary'];
+
+export const DRIFT_MODE_LABELS: Record<DriftMode, string> = {
+  land: 'Land',
+  storm: 'Chase the storm',
+  dusk: 'Follow the dusk',
+  itinerary: 'Itinerary',
+};
+
+const ITINERARY_STORAGE_KEY = 'lynchian-itineraries';
+export const DEFAULT_DWELL_MINUTES = 2;
+// Drift stays out of the polar caps, as it always has.
+const MAX_LATITUDE = 80;
+// Share of ocean samples kept by land-weighted sampling.
+const OCEAN_ACCEPTANCE = 0.1;
+const MAX_SAMPLES = 200;
+// Candidates whose weather is compared when chasing the storm.
+const STORM_CANDIDATES = 6;
+// Degrees of arc past the terminator: the sun is a few degrees below the horizon.
+const DUSK_DEPTH_DEGREES = 4;
+
+/**
+ * A random point, uniform by area between the polar circles.
+ */
+const samplePoint = (random: () => number): Coordinates => {
+  const limit = Math.sin((MAX_LATITUDE * Math.PI) / 180);
+  return {
+    lat: (Math.asin((random() * 2 - 1) * limit) * 180) / Math.PI,
+    lng: random() * 360 - 180,
+  };
+};
+
+/**
+ * A random point that is nearly always on land: ocean samples are mostly
+ * rejected rather than forbidden, so open water still comes up now and then.
+ */
+export const sampleLandPoint = (random: () => number = Math.random): Coordinates => {
+  let point = samplePoint(random);
+  for (let i = 0; i < MAX_SAMPLES; i++) {
+    if (isOnLandPolygon(point) || random() < OCEAN_ACCEPTANCE) return point;
+    point = samplePoint(random);
+  }
+  return point;
+};
+
+/**
+ * How dramatic the conditions are: storms, heavy precipitation, gales, fog and snow score highest.
+ */
+export const stormScore = (weather: WeatherData): number => {
+  const condition = getWeatherCondition(weather.conditionCode);
+  let score = condition.intensity * 3 + Math.min(weather.precipitation, 20) * 2 + Math.max(0, weather.windGusts - 30) / 5;
+  if (condition.category === 'thunderstorm') score += 15;
+  if (condition.category === 'snow' || condition.precipitation === 'hail') score += 5;
+  if (weather.visibility < 1000) score += 4;
+  return score + weather.cloudCover / 50;
+};
+
+/**
+ * A point just past the evening terminator, where the sun has recently set.
+ * Land is preferred; the terminator is sampled away from the poles.
+ */
+export const sampleDuskPoint = (at: Date = new Date(), random: () => number = Math.random): Coordinates => {
+  const sun = getSubsolarPoint(at);
+  // Bearings between north and south through east reach the side the sun is leaving.
+  const sample = () => destinationPoint(sun, 20 + random() * 140, 90 + DUSK_DEPTH_DEGREES);
+  let point = sample();
+  for (let i = 0; i < MAX_SAMPLES / 10; i++) {
+    if (Math.abs(point.lat) <= MAX_LATITUDE && isOnLandPolygon(point)) return point;
+    point = sample();
+  }
+  return point;
+};
+
+/**
+ * Parses an itinerary written one stop per line as "place | dwell minutes",
+ * where the place is anything the search box accepts (city, coordinates, geohash)
+ * and the dwell is optional. Blank lines and lines starting with # are skipped.
+ *
+ * @returns The waypoints, plus the lines that could not be resolved.
+ */
+export const parseItinerary = (text: string): { waypoints: ItineraryWaypoint[]; unresolved: string[] } => {
+  const waypoints: ItineraryWaypoint[] = [];
+  const unresolved: string[] = [];
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [place, dwell] = line.split('|').map(part => part.trim());
+    // A city name can also spell a geohash ("sydney"), so the gazetteer is asked first.
+    const match = place ? searchCities(place, 1)[0] ?? searchLocations(place, 1)[0] : undefined;
+    const minutes = dwell ? Number(dwell) : DEFAULT_DWELL_MINUTES;
+    if (!match || !Number.isFinite(minutes) || minutes <= 0) {
+      unresolved.push(line);
+      continue;
+    }
+    waypoints.push({ name: match.kind === 'city' ? match.label : place, coords: match.coords, dwellMinutes: minutes });
+  }
+  return { waypoints, unresolved };
+};
+
+/**
+ * Writes waypoints back in the format parseItinerary reads.
+ */
+export const formatItinerary = (waypoints: ItineraryWaypoint[]): string =>
+  waypoints.map(w => `${w.name} | ${w.dwellMinutes}`).join('\n');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isWaypoint = (value: unknown): value is ItineraryWaypoint =>
+  isRecord(value) && typeof value.name === 'string' && typeof value.dwellMinutes === 'number' && value.dwellMinutes > 0
+  && isRecord(value.coords) && typeof value.coords.lat === 'number' && typeof value.coords.lng === 'number';
+
+const isItinerary = (value: unknown): value is Itinerary =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string'
+  && Array.isArray(value.waypoints) && value.waypoints.every(isWaypoint);
+
+/**
+ * Reads the saved itineraries, dropping anything malformed.
+ */
+export const loadItineraries = (): Itinerary[] => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(ITINERARY_STORAGE_KEY) : null;
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isItinerary) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveItineraries = (itineraries: Itinerary[]): void => {
+  try {
+    localStorage.setItem(ITINERARY_STORAGE_KEY, JSON.stringify(itineraries));
+  } catch (e) {
+    console.warn("Itineraries could not be saved", e);
+  }
+};
+
+export interface DriftPlannerOptions {
+  mode: DriftMode;
+  itinerary: Itinerary | null; // Used in itinerary mode
+  /** Compares candidates in storm mode. */
+  weatherProvider: WeatherProvider;
+  /** The hour the broadcast describes; omit for live. */
+  at?: Date;
+  /** Where the itinerary has got to, advanced with advanceItinerary as segments air. */
+  progress: () => ItineraryProgress | null;
+}
+
+/**
+ * The itinerary's current waypoint, starting from the first when the progress
+ * belongs to another itinerary.
+ */
+const currentPosition = (itinerary: Itinerary, progress: ItineraryProgress | null): ItineraryProgress =>
+  progress?.itineraryId === itinerary.id
+    ? { ...progress, index: progress.index % itinerary.waypoints.length }
+    : { itineraryId: itinerary.id, index: 0, airedSeconds: 0 };
+
+/**
+ * Counts a segment's airtime towards the waypoint it was planned for, moving on
+ * (and looping) once the waypoint's dwell has aired. Segments planned for a
+ * waypoint the itinerary has already left, or that never aired, do not count.
+ */
+export const advanceItinerary = (
+  itinerary: Itinerary,
+  progress: ItineraryProgress | null,
+  aired: ItineraryPosition,
+  seconds: number,
+): ItineraryProgress => {
+  if (!itinerary.waypoints.length) return { itineraryId: itinerary.id, index: 0, airedSeconds: 0 };
+  const current = currentPosition(itinerary, progress);
+  if (aired.itineraryId !== current.itineraryId || aired.index !== current.index) return current;
+
+  const airedSeconds = current.airedSeconds + seconds;
+  if (airedSeconds < itinerary.waypoints[current.index].dwellMinutes * 60) return { ...current, airedSeconds };
+  return { itineraryId: itinerary.id, index: (current.index + 1) % itinerary.waypoints.length, airedSeconds: 0 };
+}
+
+/**
+ * Picks broadcast locations one at a time.
+ */
+export interface DriftPlanner {
+  next: (signal: AbortSignal) => Promise<DriftStop>;
+}
+
+/**
+ * Creates a planner for one drift mode. An itinerary plans the waypoint its
+ * progress is at, so it holds each stop until the stop's dwell has aired and a
+ * failed segment is planned again rather than skipped; an empty itinerary
+ * drifts over land instead. Storm mode falls back to a land point when no
+ * candidate's weather can be fetched.
+ */
+export const createDriftPlanner = (options: DriftPlannerOptions): DriftPlanner => {
+  const land = (): DriftStop => ({ coords: sampleLandPoint(), label: DRIFT_MODE_LABELS.land });
+
+  const chaseStorm = async (signal: AbortSignal): Promise<DriftStop> => {
+    const candidates = Array.from({ length: STORM_CANDIDATES }, () => sampleLandPoint());
+    const results = await Promise.allSettled(candidates.map(c => options.weatherProvider.fetchWeatherData(c, options.at, signal)));
+    if (signal.aborted) throw new DOMException('Drift planning cancelled', 'AbortError');
+
+    const scores = results.map(result => (result.status === 'fulfilled' ? stormScore(result.value) : -Infinity));
+    const best = scores.indexOf(Math.max(...scores));
+    const result = results[best];
+    if (result.status !== 'fulfilled') return land();
+    const weather = result.value;
+    return { coords: candidates[best], label: `Storm chase: ${getWeatherCondition(weather.conditionCode).label}` };
+  };
+
+  const followItinerary = (): DriftStop => {
+    const itinerary = options.itinerary;
+    if (!itinerary?.waypoints.length) return land();
+    const { itineraryId, index } = currentPosition(itinerary, options.progress());
+    const waypoint = itinerary.waypoints[index];
+    return { coords: waypoint.coords, label: `${itinerary.name}: ${waypoint.name}`, itineraryPosition: { itineraryId, index } };
+  };
+
+  return {
+    next: async (signal) => {
+      switch (options.mode) {
+        case 'storm':
+          return chaseStorm(signal);
+        case 'dusk':
+          return { coords: sampleDuskPoint(options.at), label: DRIFT_MODE_LABELS.dusk };
+        case 'itinerary':
+          return followItinerary();
+        default:
+          return land();
+      }
+    },
+  };
+};
@@ -0,0 +1,305 @@
+import { Caption, LynchContent, ThemeConfig } from '../types';
+import { getWeatherCondition } from '../constants';
+import { describeTerrain } from './terrainService';
+import { describeAtmosphere } from './weatherService';
+import { buildNarrativePrompt, buildSceneryPrompt } from './geminiService';
+import { SubtitleFormat, captionsForContent, estimateSpeechSeconds, toSrt, toWebVtt } from './captionService';
+import { getThemes } from './themeService';
+import { PostProcessor, createPostProcessor, deriveSceneWeather } from './postProcessingService';
+import { ANALYSER_FFT_SIZE, createVisualizerRenderer } from './visualizerService';
+import { getAudioContext } from './playbackService';
+
+const VIDEO_WIDTH = 1280;
+const VIDEO_HEIGHT = 720;
+const VIDEO_FPS = 30;
+const VISUALIZER_HEIGHT = 90;
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+/**
+ * Builds a download name like "transmission-LYNCH-lisbon-portugal-20251014T1800.webm".
+ */
+export const exportFileName = (content: LynchContent, extension: string): string => {
+  const place = (content.weather.locationName || `${content.location.lat.toFixed(2)}_${content.location.lng.toFixed(2)}`)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_.-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+  const stamp = content.weather.observedAt.slice(0, 16).replace(/[-:]/g, '');
+  return `transmission-${content.themeId}-${place}-${stamp}.${extension}`;
+};
+
+/**
+ * Saves a blob through a temporary object URL.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking.
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
+
+/**
+ * Encodes an AudioBuffer as a 16-bit PCM WAV file.
+ */
+export const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = buffer.numberOfChannels;
+  const bytesPerSample = 2;
+  const dataSize = buffer.length * channels * bytesPerSample;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * bytesPerSample, true);
+  view.setUint16(32, channels * bytesPerSample, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, channelData[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+/**
+ * Describes a transmission as JSON: weather, place, terrain, theme, playback
+ * mode and, for Gemini transmissions, the prompts that produced it.
+ */
+export const buildSidecar = (content: LynchContent): Record<string, unknown> => {
+  const theme = getThemes()[content.themeId];
+  const terrain = describeTerrain(content.location);
+  const condition = getWeatherCondition(content.weather.conditionCode);
+
+  return {
+    format: 'lynchian-transmission',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    narrative: content.narrativeText,
+    location: { ...content.location, name: content.weather.locationName ?? null },
+    terrain,
+    weather: content.weather,
+    condition: { code: condition.code, label: condition.label, category: condition.category, intensity: condition.intensity },
+    atmosphere: describeAtmosphere(content.weather, content.themeId),
+    theme: theme ? { id: theme.id, name: theme.name, voiceName: theme.voiceName } : { id: content.themeId },
+    provider: content.providerId,
+    seed: content.seed ?? null,
+    speechMode: content.speechMode,
+    degraded: content.degraded,
+    prompts: content.providerId === 'GEMINI' && theme
+      ? {
+          system: theme.systemInstruction.trim(),
+          narrative: buildNarrativePrompt(content.weather, theme).trim(),
+          scenery: buildSceneryPrompt(content.narrativeText, terrain, theme, content.weather).trim(),
+        }
+      : null,
+    audio: content.audioBuffer
+      ? { sampleRate: content.audioBuffer.sampleRate, channels: content.audioBuffer.numberOfChannels, durationSeconds: content.audioBuffer.duration }
+      : null,
+  };
+};
+
+export const exportSidecar = (content: LynchContent): void =>
+  downloadBlob(new Blob([JSON.stringify(buildSidecar(content), null, 2)], { type: 'application/json' }), exportFileName(content, 'json'));
+
+export const exportWav = (content: LynchContent): void => {
+  if (!content.audioBuffer) throw new Error('This transmission has no audio track');
+  downloadBlob(encodeWav(content.audioBuffer), exportFileName(content, 'wav'));
+};
+
+/**
+ * Downloads the transmission's timed captions as WebVTT (with word timestamps) or SRT.
+ */
+export const exportSubtitles = (content: LynchContent, format: SubtitleFormat): void => {
+  const captions = captionsForContent(content);
+  const [text, type] = format === 'vtt' ? [toWebVtt(captions), 'text/vtt'] : [toSrt(captions), 'application/x-subrip'];
+  downloadBlob(new Blob([text], { type }), exportFileName(content, format));
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image failed to load'));
+    image.src = src;
+  });
+
+/**
+ * Word-wraps and draws a caption centred above the visualizer band.
+ */
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, theme: ThemeConfig, bottom: number, width: number) => {
+  ctx.font = `28px ${theme.fontClass.includes('mono') ? '"Courier New", monospace' : theme.fontClass.includes('Oswald') ? 'Oswald, sans-serif' : 'sans-serif'}`;
+  const maxWidth = width * 0.8;
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const next = line ? `${line} ${word}` : word;
+    if (ctx.measureText(next).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+
+  const lineHeight = 36;
+  const boxHeight = lines.length * lineHeight + 16;
+  const boxTop = bottom - boxHeight;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+  ctx.fillRect(width * 0.08, boxTop, width * 0.84, boxHeight);
+  ctx.fillStyle = theme.captionColor;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  lines.forEach((l, i) => ctx.fillText(l, width / 2, boxTop + 8 + i * lineHeight));
+};
+
+export interface VideoExportOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Records the transmission as WebM in real time: the image through the theme's
+ * post-processing stack, the theme's visualizer and burned-in subtitles,
+ * over the speech track. Transmissions without an audio buffer
+ * (browser voice, subtitles only) are recorded silent for their caption length.
+ *
+ * @returns The finished recording.
+ */
+export const recordTransmissionVideo = async (content: LynchContent, theme: ThemeConfig, options: VideoExportOptions = {}): Promise<Blob> => {
+  if (typeof MediaRecorder === 'undefined') throw new Error('MediaRecorder is not supported in this browser');
+  const mimeType = VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error('This browser cannot record WebM');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = VIDEO_WIDTH;
+  canvas.height = VIDEO_HEIGHT + VISUALIZER_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+
+  const image = content.imageUrl ? await loadImage(content.imageUrl).catch(() => null) : null;
+  const durationSeconds = content.audioBuffer ? content.audioBuffer.duration : estimateSpeechSeconds(content.narrativeText);
+  const captions: Caption[] = captionsForContent(content);
+  const scenery: PostProcessor | null = image
+    ? createPostProcessor(image, theme.postEffects, deriveSceneWeather(content.weather), { width: VIDEO_WIDTH, height: VIDEO_HEIGHT, readable: true })
+    : null;
+
+  const audioCtx = getAudioContext();
+  const destination = audioCtx.createMediaStreamDestination();
+  const analyser = audioCtx.createAnalyser();
+  analyser.fftSize = ANALYSER_FFT_SIZE;
+  analyser.connect(destination);
+  const frequencyData = new Uint8Array(analyser.frequencyBinCount);
+  const waveformData = new Uint8Array(analyser.fftSize);
+  const visualizer = createVisualizerRenderer(theme.visualizer, theme);
+
+  let source: AudioBufferSourceNode | null = null;
+  if (content.audioBuffer) {
+    source = audioCtx.createBufferSource();
+    source.buffer = content.audioBuffer;
+    source.connect(analyser);
+  }
+
+  const stream = new MediaStream([
+    ...canvas.captureStream(VIDEO_FPS).getVideoTracks(),
+    ...destination.stream.getAudioTracks(),
+  ]);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  let frame = 0;
+  let startedAt = 0;
+
+  const draw = () => {
+    const t = (performance.now() - startedAt) / 1000;
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    if (scenery) {
+      scenery.render(t);
+      ctx.drawImage(scenery.canvas, 0, 0);
+    } else {
+      ctx.fillStyle = theme.primaryColor;
+      ctx.font = 'italic 32px serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('(Visuals obscured... Audio Only)', VIDEO_WIDTH / 2, VIDEO_HEIGHT / 2);
+    }
+
+    const caption = captions.find(c => t >= c.start && t < c.end);
+    if (caption) drawCaption(ctx, caption.text, theme, VIDEO_HEIGHT - 24, VIDEO_WIDTH);
+
+    ctx.fillStyle = theme.backgroundColor;
+    ctx.fillRect(0, VIDEO_HEIGHT, VIDEO_WIDTH, VISUALIZER_HEIGHT);
+    analyser.getByteFrequencyData(frequencyData);
+    analyser.getByteTimeDomainData(waveformData);
+    ctx.save();
+    ctx.translate(0, VIDEO_HEIGHT);
+    ctx.beginPath();
+    ctx.rect(0, 0, VIDEO_WIDTH, VISUALIZER_HEIGHT);
+    ctx.clip();
+    visualizer.draw(ctx, { width: VIDEO_WIDTH, height: VISUALIZER_HEIGHT, pixelRatio: 1, frequency: frequencyData, waveform: waveformData, seconds: t });
+    ctx.restore();
+
+    options.onProgress?.(Math.min(1, t / durationSeconds));
+    if (t < durationSeconds && recorder.state === 'recording') frame = requestAnimationFrame(draw);
+    else if (recorder.state === 'recording') recorder.stop();
+  };
+
+  const abort = () => { if (recorder.state === 'recording') recorder.stop(); };
+  options.signal?.addEventListener('abort', abort, { once: true });
+
+  try {
+    if (audioCtx.state === 'suspended') await audioCtx.resume();
+    recorder.start(1000);
+    startedAt = performance.now();
+    source?.start();
+    frame = requestAnimationFrame(draw);
+    await stopped;
+  } finally {
+    cancelAnimationFrame(frame);
+    options.signal?.removeEventListener('abort', abort);
+    try { source?.stop(); } catch (e) { /* already stopped */ }
+    stream.getTracks().forEach(track => track.stop());
+    // The context is shared with the player, so only this recording's nodes are let go.
+    source?.disconnect();
+    analyser.disconnect();
+    scenery?.dispose();
+  }
+
+  if (options.signal?.aborted) throw new Error('Export cancelled');
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+export const exportVideo = async (content: LynchContent, theme: ThemeConfig, options: VideoExportOptions = {}): Promise<void> => {
+  const blob = await recordTransmissionVideo(content, theme, options);
+  downloadBlob(blob, exportFileName(content, 'webm'));
+};
@@ -1,30 +1,80 @@
 import { GoogleGenAI, Modality } from "@google/genai";
-import { WEATHER_CODES } from "../constants";
-import { WeatherData, ThemeConfig } from "../types";
+import { getWeatherCondition, INTENSITY_LABELS } from "../constants";
+import { WeatherData, ThemeConfig, GenerationProvider, TimeFrame, TerrainDescriptor } from "../types";
 import { decode, decodeAudioData } from "./utils";
+import { describeAtmosphere, describeDaylight, formatLocalTime, formatUtcOffset, getTimeFrame, toCompass } from "./weatherService";
+import { renderPromptTemplate } from "./themeService";
+import { getZoneAbbreviation } from "./timezoneService";
+
+declare global {
+  interface Window {
+    aistudio?: {
+      hasSelectedApiKey?: () => Promise<boolean>;
+    };
+  }
+}
 
 const createClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+const TIME_FRAME_INSTRUCTIONS: Record<TimeFrame, string> = {
+  past: "These conditions are a memory: they already happened. Speak in the past tense, as something recalled.",
+  present: "These conditions are happening right now. Speak in the present tense.",
+  future: "These conditions have not happened yet. Deliver them as a prophecy, in the future tense.",
+};
+
+/**
+ * Builds the user prompt for the narrative model from the weather snapshot.
+ * Exported so exports can record exactly what was asked.
+ */
+export const buildNarrativePrompt = (weather: WeatherData, theme: ThemeConfig): string => {
+  const condition = getWeatherCondition(weather.conditionCode);
+  const daylight = describeDaylight(weather);
+  let zone = weather.timezone;
+  try {
+    zone = `${weather.timezone}, ${getZoneAbbreviation(weather.timezone, new Date(weather.observedAt))}`;
+  } catch (e) { /* Unknown to this runtime's Intl; the IANA name will do */ }
+  return `
+    Location Data:
+    Location: ${weather.locationName || 'an unnamed place'}.
+    Local time: ${formatLocalTime(weather.utcOffsetSeconds, new Date(weather.observedAt), true)} (${zone}, ${formatUtcOffset(weather.utcOffsetSeconds)}), ${weather.isDay ? 'daylight' : 'night'}.${daylight ? `
+    Sun: ${daylight}.` : ''}
+    Temperature: ${weather.temperature}°C.
+    Condition: ${condition.label} (${INTENSITY_LABELS[condition.intensity].toLowerCase()} ${condition.category}, precipitation: ${condition.precipitation}).
+    Mood: ${(condition.moods[theme.id] || []).join(', ')}.
+    Wind: ${weather.windSpeed} km/h from the ${toCompass(weather.windDirection)}, gusting ${weather.windGusts} km/h.
+    Humidity: ${weather.humidity}%.
+    Precipitation: ${weather.precipitation} mm.
+    Cloud cover: ${weather.cloudCover}%.
+    Visibility: ${(weather.visibility / 1000).toFixed(1)} km.
+    Surface pressure: ${weather.pressure} hPa.
+    
+    Time frame: ${TIME_FRAME_INSTRUCTIONS[getTimeFrame(weather)]}
+
+    Task: Write a short monologue based on the system instructions.
+  `;
+};
+
+/**
+ * Builds the scenery prompt shared by the image and video models.
+ *
+ * @param excerptLength - How much of the narrative to fold into the prompt.
+ */
+export const buildSceneryPrompt = (narrative: string, terrain: TerrainDescriptor, theme: ThemeConfig, weather: WeatherData, excerptLength: number = 100): string =>
+  renderPromptTemplate(theme.videoPromptTemplate, `${describeAtmosphere(weather, theme.id)}. ${narrative.substring(0, excerptLength)}`, terrain);
+
 /**
  * Generates a stylistic narrative based on weather data and the selected theme.
  * Uses `gemini-2.5-flash` for fast text generation.
  * 
- * @param weather - The current weather conditions (temp, wind, code).
+ * @param weather - The current weather conditions (temp, wind, sky, pressure, local time).
  * @param theme - The active theme configuration containing system instructions.
+ * @param seed - Sampling seed. Gemini treats it as best-effort, so replays are close but not guaranteed identical.
+ * @param signal - Cancels the request.
  * @returns A string containing the generated monologue.
  */
-export const generateNarrative = async (weather: WeatherData, theme: ThemeConfig): Promise<string> => {
+export const generateNarrative = async (weather: WeatherData, theme: ThemeConfig, seed?: number, signal?: AbortSignal): Promise<string> => {
   const ai = createClient();
-  const weatherDesc = WEATHER_CODES[weather.conditionCode] || "Unknown";
-  
-  const prompt = `
-    Location Data:
-    Temperature: ${weather.temperature}°C.
-    Wind: ${weather.windSpeed} km/h.
-    Condition: ${weatherDesc}.
-    
-    Task: Write a short monologue based on the system instructions.
-  `;
+  const prompt = buildNarrativePrompt(weather, theme);
 
   const response = await ai.models.generateContent({
     model: "gemini-2.5-flash",
@@ -32,6 +82,8 @@ export const generateNarrative = async (weather: WeatherData, theme: ThemeConfig
     config: {
       systemInstruction: theme.systemInstruction,
       temperature: 1.1, 
+      seed,
+      abortSignal: signal,
     },
   });
 
@@ -45,9 +97,10 @@ export const generateNarrative = async (weather: WeatherData, theme: ThemeConfig
  * @param text - The text to speak.
  * @param theme - The active theme (determines voiceName).
  * @param audioCtx - The browser's AudioContext for decoding.
+ * @param signal - Cancels the request.
  * @returns A decoded AudioBuffer ready for playback.
  */
-export const generateSpeech = async (text: string, theme: ThemeConfig, audioCtx: AudioContext): Promise<AudioBuffer> => {
+export const generateSpeech = async (text: string, theme: ThemeConfig, audioCtx: AudioContext, signal?: AbortSignal): Promise<AudioBuffer> => {
   const ai = createClient();
   
   const response = await ai.models.generateContent({
@@ -60,6 +113,7 @@ export const generateSpeech = async (text: string, theme: ThemeConfig, audioCtx:
           prebuiltVoiceConfig: { voiceName: theme.voiceName },
         },
       },
+      abortSignal: signal,
     },
   });
 
@@ -82,13 +136,15 @@ export const generateSpeech = async (text: string, theme: ThemeConfig, audioCtx:
  * Uses `gemini-2.5-flash-image`.
  * 
  * @param narrative - The generated story (used to influence the scene).
- * @param terrain - A crude description of the geography (e.g., "industrial wasteland").
+ * @param terrain - The classified terrain under the coordinates (biome, coast, elevation, nearest city).
  * @param theme - The active theme (determines visual style prompt).
+ * @param weather - The conditions overhead (light, cloud, haze, precipitation).
+ * @param signal - Cancels the request; a cancelled request rejects rather than returning null.
  * @returns A Base64 data URL of the generated image.
  */
-export const generateSceneryImage = async (narrative: string, terrain: string, theme: ThemeConfig): Promise<string | null> => {
+export const generateSceneryImage = async (narrative: string, terrain: TerrainDescriptor, theme: ThemeConfig, weather: WeatherData, signal?: AbortSignal): Promise<string | null> => {
   const ai = createClient();
-  const prompt = theme.videoPromptTemplate(narrative.substring(0, 100), terrain); // Reuse prompt template
+  const prompt = buildSceneryPrompt(narrative, terrain, theme, weather);
 
   try {
     const response = await ai.models.generateContent({
@@ -97,7 +153,8 @@ export const generateSceneryImage = async (narrative: string, terrain: string, t
         parts: [{ text: prompt }]
       },
       config: {
-        // No specific config for basic image gen on 2.5-flash-image
+        // No generation config for basic image gen on 2.5-flash-image
+        abortSignal: signal,
       }
     });
 
@@ -108,6 +165,7 @@ export const generateSceneryImage = async (narrative: string, terrain: string, t
     }
     return null;
   } catch (e) {
+    if (signal?.aborted) throw e;
     console.warn("Image generation failed", e);
     return null;
   }
@@ -116,9 +174,10 @@ export const generateSceneryImage = async (narrative: string, terrain: string, t
 /**
  * Generates a video using Veo.
  * NOTE: Currently unused in the main flow to prioritize immediate playback speed,
- * but kept for future "High Quality" mode implementation.
+ * but kept for future "High Quality" mode implementation. Aborting `signal`
+ * stops polling; the render itself carries on server-side.
  */
-export const generateVideo = async (narrative: string, terrain: string, theme: ThemeConfig): Promise<string | null> => {
+export const generateVideo = async (narrative: string, terrain: TerrainDescriptor, theme: ThemeConfig, weather: WeatherData, signal?: AbortSignal): Promise<string | null> => {
   if (window.aistudio && window.aistudio.hasSelectedApiKey) {
       const hasKey = await window.aistudio.hasSelectedApiKey();
       if (!hasKey) return null; 
@@ -127,7 +186,7 @@ export const generateVideo = async (narrative: string, terrain: string, theme: T
   const ai = createClient();
 
   // Use theme specific template
-  const prompt = theme.videoPromptTemplate(narrative.substring(0, 50), terrain);
+  const prompt = buildSceneryPrompt(narrative, terrain, theme, weather, 50);
 
   let operation = await ai.models.generateVideos({
     model: 'veo-3.1-fast-generate-preview',
@@ -135,13 +194,26 @@ export const generateVideo = async (narrative: string, terrain: string, theme: T
     config: {
       numberOfVideos: 1,
       resolution: '720p',
-      aspectRatio: '16:9'
+      aspectRatio: '16:9',
+      abortSignal: signal,
     }
   });
 
   while (!operation.done) {
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    operation = await ai.operations.getVideosOperation({ operation: operation });
+    signal?.throwIfAborted();
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      // Each wait takes its listener back off, so a long render does not pile them up.
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, 5000);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+    operation = await ai.operations.getVideosOperation({ operation: operation, config: { abortSignal: signal } });
   }
 
   const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
@@ -151,4 +223,17 @@ export const generateVideo = async (narrative: string, terrain: string, theme: T
   }
 
   return `${downloadLink}&key=${process.env.API_KEY}`;
-};
\ No newline at end of file
+};
+
+/**
+ * The Gemini-backed generation provider. Requires `process.env.API_KEY`.
+ */
+export const geminiProvider: GenerationProvider = {
+  id: 'GEMINI',
+  name: 'Gemini',
+  requiresNetwork: true,
+  generateNarrative,
+  generateSpeech,
+  generateSceneryImage,
+  generateVideo,
+};
@@ -0,0 +1,14 @@
+import { GenerationProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockService";
+
+export const GENERATION_PROVIDERS: Record<string, GenerationProvider> = {
+  GEMINI: geminiProvider,
+  MOCK: mockProvider,
+};
+
+/**
+ * Picks Gemini when an API key is configured, otherwise the offline mock.
+ */
+export const getDefaultGenerationProvider = (): GenerationProvider =>
+  process.env.API_KEY ? GENERATION_PROVIDERS.GEMINI : GENERATION_PROVIDERS.MOCK;
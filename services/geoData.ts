@@ -0,0 +1,374 @@
+import { Biome, ElevationBand, Place } from '../types';
+
+/** [longitude, latitude], GeoJSON order. */
+export type LngLat = [number, number];
+
+export interface LandPolygon {
+  name: string;
+  ring: LngLat[];
+}
+
+export interface WaterBody {
+  name: string; // Used in prose, e.g. "the Black Sea"
+  inland: boolean; // Lakes and the Caspian, which sit inside LAND_POLYGONS
+  ring: LngLat[];
+}
+
+export interface TerrainRegion {
+  name: string; // Used in prose, e.g. "the Sahara"
+  biome?: Biome;
+  elevation?: ElevationBand;
+  ring: LngLat[];
+}
+
+/**
+ * Hand-simplified outlines of the continents and major islands, roughly 1° accurate.
+ * Small islands are missing; the terrain lookup treats anything close to a known
+ * city as land to compensate.
+ */
+export const LAND_POLYGONS: LandPolygon[] = [
+  { name: "North America", ring: [[-166, 68.5], [-163, 70.5], [-156.5, 71.3], [-148, 70.3], [-141, 69.7], [-135, 69.3], [-128, 70.2], [-120, 69.5], [-114, 68.5], [-108, 68.3], [-100, 67.8], [-95, 69], [-89, 68.5], [-84, 69.5], [-82, 66.5], [-87, 64], [-93, 61], [-94.5, 58.7], [-92.5, 57], [-87, 55.5], [-82.3, 55], [-82, 52.5], [-79.5, 51.5], [-78.5, 54], [-77, 58], [-78, 61], [-73, 62.3], [-69, 60], [-64.5, 60.3], [-61.5, 56], [-57, 52.5], [-55.7, 52], [-59, 48], [-64.5, 49], [-64.8, 47.5], [-61, 46], [-60, 46.2], [-63.5, 44.5], [-65.8, 43.6], [-66.5, 45], [-70, 43.7], [-70.2, 41.8], [-74, 40.5], [-76, 37], [-75.5, 35.2], [-78.5, 33.8], [-81, 31.5], [-79.9, 27], [-80.05, 25.8], [-80.4, 25.2], [-81.8, 26.5], [-83, 29], [-84.5, 30], [-86.5, 30.4], [-89.5, 30], [-90, 29.2], [-93.8, 29.7], [-97.2, 27.8], [-97.7, 24], [-97.5, 21.5], [-96, 19], [-94.5, 18.2], [-91, 18.7], [-90.5, 21], [-87, 21.5], [-87.5, 18.5], [-88.3, 16], [-84, 15.9], [-83.4, 14.5], [-83.7, 11], [-82, 9], [-79.5, 9.5], [-77.5, 8.5], [-77.9, 7.2], [-79.7, 7.3], [-81, 7.7], [-83.7, 8.5], [-85.7, 10], [-86.2, 12.5], [-88, 13.2], [-91.5, 14], [-94.5, 16.2], [-96.5, 15.7], [-101, 17.2], [-105.5, 20], [-106.4, 23.2], [-108.5, 25.5], [-112.2, 29], [-114.8, 31.7], [-112.8, 28], [-109.9, 22.9], [-112.1, 24.7], [-114.2, 27.7], [-115.8, 30.3], [-117.1, 32.5], [-118.5, 34], [-120.6, 34.6], [-121.9, 36.6], [-123, 38], [-124.3, 40.3], [-124.1, 42.5], [-124, 46.3], [-124.7, 48.4], [-123, 49], [-125, 50], [-128, 51.5], [-130.5, 54.5], [-133, 57.2], [-136.5, 58.3], [-140, 59.7], [-146, 60.5], [-151.5, 59.2], [-154, 57.5], [-158, 56.5], [-163.5, 54.7], [-158.5, 58], [-162, 59.5], [-165, 60.5], [-165, 62.5], [-164.7, 63.4], [-161, 64.5], [-166.2, 65.2], [-164.5, 66.5]] },
+  { name: "Greenland", ring: [[-73, 78.2], [-67, 80.5], [-60, 82], [-40, 83.5], [-25, 83], [-18, 81.5], [-12, 81.5], [-19, 79], [-18, 76.5], [-21, 74], [-22, 71.5], [-24, 70], [-28, 68.3], [-33, 68], [-37.5, 65.7], [-40.5, 64.5], [-42.5, 61], [-44, 60], [-46, 60.8], [-48.5, 61.5], [-50.5, 63.7], [-51.9, 64.2], [-52, 65.5], [-53.5, 67.5], [-51.5, 70], [-54, 71], [-55, 72.5], [-58, 75.5], [-66, 76], [-71, 77.2]] },
+  { name: "Baffin Island", ring: [[-61.5, 66.6], [-65, 63.5], [-68, 62.5], [-71.5, 63.5], [-74, 64.5], [-78, 64.5], [-74, 68], [-78, 70.5], [-84.5, 70.5], [-88, 73.5], [-80, 73.7], [-77, 72.8], [-70, 70.5], [-66.5, 68]] },
+  { name: "Victoria Island", ring: [[-119, 71.5], [-117.5, 73], [-112, 73.2], [-106, 73.3], [-101.5, 71.5], [-104, 69], [-110, 68.5], [-117, 69.5]] },
+  { name: "Banks Island", ring: [[-125, 71.8], [-117, 72.2], [-118, 74.3], [-124, 74.3]] },
+  { name: "Ellesmere Island", ring: [[-96, 76.5], [-90, 76.5], [-80, 76.2], [-78, 78], [-73, 78.8], [-66, 80.3], [-61, 82.2], [-75, 83], [-90, 81.5], [-96, 80], [-92, 78.5], [-96, 77.5]] },
+  { name: "Devon Island", ring: [[-80, 74.5], [-91, 74.5], [-96, 75.5], [-90, 76.3], [-80, 76]] },
+  { name: "Cuba", ring: [[-84.9, 21.9], [-83, 22.9], [-82.3, 23.2], [-80, 23.1], [-77.5, 21.8], [-74.2, 20.2], [-77.5, 19.9], [-78.5, 21.5], [-81.8, 22.2]] },
+  { name: "Hispaniola", ring: [[-74.4, 18.5], [-72.8, 19.9], [-70, 19.7], [-68.4, 18.6], [-70.5, 18.2], [-72.5, 18.1]] },
+  { name: "South America", ring: [[-77.3, 8.6], [-76, 9.4], [-75.5, 10.6], [-74.2, 11.3], [-72, 12.2], [-71, 11.5], [-71.6, 10.8], [-70, 12.2], [-68, 10.6], [-66, 10.6], [-64, 10.7], [-61.9, 10.7], [-60.6, 8.6], [-58, 7], [-55, 6], [-52, 4.9], [-51, 4], [-50, 1.8], [-50, 0], [-48.5, -1], [-44.5, -2.3], [-41, -2.9], [-38.5, -3.7], [-35.3, -5.2], [-34.8, -7.5], [-34.85, -8.1], [-35.1, -9], [-37, -11], [-38.5, -13], [-39, -17.5], [-39.7, -19.5], [-41, -22], [-43.2, -23.1], [-45, -23.7], [-48.5, -26], [-48.7, -28.5], [-50.5, -30.5], [-53, -33.7], [-54.9, -34.9], [-56.2, -34.95], [-57, -34.5], [-58.4, -34.2], [-57.2, -36.2], [-57.6, -38.2], [-62, -38.9], [-62.3, -40.7], [-65, -41], [-63.8, -42], [-65, -45], [-67.5, -46.5], [-65.8, -47.7], [-69, -50.5], [-68.4, -52.4], [-66.5, -55], [-70, -55.2], [-74, -52.5], [-75.5, -48], [-74, -44], [-73.5, -41], [-73.6, -37.5], [-72, -33], [-71.5, -30], [-71.3, -25], [-70.3, -18.5], [-71.5, -17.2], [-76.2, -13.9], [-78, -10.5], [-79.8, -7], [-81.3, -5], [-80.3, -3.4], [-80.9, -1.5], [-80, 1], [-78.8, 1.8], [-77.8, 4], [-77.4, 6.6], [-77.9, 7.2]] },
+  { name: "Eurasia", ring: [[-5.6, 36], [-6.5, 36.9], [-8.9, 37], [-8.8, 38.4], [-9.3, 38.6], [-9.5, 39.5], [-8.8, 42], [-9.3, 43], [-8, 43.7], [-4, 43.5], [-1.8, 43.4], [-1.2, 46], [-2.2, 47.2], [-4.7, 47.9], [-4.8, 48.4], [-3, 48.8], [-1.6, 48.7], [-1.9, 49.7], [0.2, 49.5], [1.6, 50.2], [2.5, 51.1], [4.2, 52], [4.8, 53], [7, 53.5], [8.6, 53.9], [8.6, 55.5], [8.1, 56.8], [10.5, 57.7], [10.5, 56.2], [12.7, 55.8], [12.4, 55.2], [11, 54], [14, 54], [18, 54.8], [21, 55.3], [21, 57], [23.5, 57.2], [24.3, 58.3], [23.5, 59.2], [24.7, 59.5], [28, 59.5], [29.5, 60], [26, 60.35], [24.9, 60.1], [22.5, 59.9], [21.3, 61], [21.5, 63], [25.3, 65], [24, 65.8], [22, 65.5], [21, 64.5], [17.5, 62.3], [18.5, 60], [18.9, 59.5], [16.5, 57], [14.5, 56], [12.8, 55.8], [11.5, 58], [10.5, 59.5], [8, 58], [5.5, 58.8], [5, 61], [6, 62.5], [9, 63.5], [11, 65], [13, 67.5], [15.5, 68.5], [19, 70], [25, 71], [28.5, 70.9], [31, 70], [33, 69.5], [40, 67.8], [41, 66.5], [35.5, 66.2], [34.5, 64.5], [37, 63.8], [40.5, 64.6], [44, 66.2], [43.5, 68.5], [46, 68], [53, 68.6], [60, 68.8], [66, 69.5], [68.5, 72.5], [72.5, 72.8], [73.5, 68.5], [74.5, 72.5], [80, 72.5], [82, 73.5], [87, 74], [95, 76], [104, 77.7], [112, 76], [113, 73.5], [120, 73], [128, 72.8], [131, 70.8], [140, 72.4], [150, 71.5], [159, 70.9], [170, 69.8], [180, 69], [180, 65.5], [178.5, 64.5], [176, 62.5], [173, 61], [170, 60], [164, 59.8], [163, 58], [162, 56], [160, 54], [156.5, 51], [156, 55], [155.5, 57.5], [152, 59], [148, 59.4], [143, 59.3], [137.5, 54], [140.5, 53], [141, 48.5], [138, 45], [133, 42.8], [130, 42.2], [129.5, 40.8], [128, 39], [129.4, 36], [129.3, 35.2], [127.5, 34.6], [126.3, 34.6], [126.5, 37.7], [125, 37.8], [124.3, 39.9], [121.5, 39], [121.5, 40.8], [118, 39.2], [118.5, 38], [122.4, 37.3], [120, 36], [120.5, 34.5], [121.9, 31.7], [121.5, 29.5], [119.5, 25.9], [116.5, 22.9], [114.3, 22.15], [113.5, 22.1], [110.3, 21.2], [109.8, 21.5], [108, 21.5], [106.6, 20.5], [105.8, 19], [106.6, 17.5], [108.8, 15.3], [109.3, 12.5], [107, 10.4], [104.8, 8.6], [105, 10], [103.5, 10.5], [102.5, 12.2], [100.9, 13.4], [100, 13], [99.2, 10.5], [100.3, 8.3], [101.3, 6.8], [103.5, 4.5], [104.2, 1.4], [103.5, 1.3], [101.3, 2.8], [100.3, 5.3], [98.5, 8], [98.3, 10.5], [97.7, 15.5], [97.5, 16.5], [95.3, 15.8], [94.3, 16.2], [94.5, 18.5], [92.5, 20.5], [92, 21.5], [90.5, 22.3], [88.5, 21.6], [87, 21], [86.5, 20], [84.8, 19.2], [82.3, 16.6], [80.2, 15.5], [80.3, 13], [79.8, 10.3], [78.2, 8.9], [77.5, 8.1], [76.6, 8.9], [75.8, 11.5], [74.5, 14.5], [73.4, 16], [72.8, 19], [72.8, 21], [72.6, 22.2], [70.5, 20.8], [69, 22.3], [70.5, 23], [68.5, 23.5], [67, 24.8], [66.5, 25.4], [64.5, 25.2], [61.6, 25.2], [57.3, 25.9], [56.4, 27.1], [54.7, 26.5], [51.5, 27.9], [50, 30.2], [48.5, 30], [48, 29.5], [48.6, 28], [50.2, 26.5], [50.8, 24.8], [51.6, 24.2], [52.5, 24.2], [54, 24.1], [55.5, 25.5], [56.3, 26.2], [56.4, 24.9], [58, 23.75], [58.6, 23.65], [59.8, 22.5], [58.5, 20.5], [57.7, 19], [55.3, 17.7], [52.3, 16.4], [49.5, 14.6], [45.5, 13], [43.5, 12.6], [43, 14.8], [42.7, 16.8], [41.2, 19], [39.1, 21.5], [38.4, 23.9], [35.6, 27.4], [34.6, 28.1], [34.9, 29.5], [34.3, 31.2], [34.9, 32.8], [35.9, 35.5], [36.1, 36.6], [34.6, 36.8], [32.5, 36.1], [30.5, 36.4], [28.5, 36.7], [27.3, 37.5], [26.3, 38.3], [26.2, 39.5], [26.6, 40.4], [29, 41.1], [31.2, 41.1], [33.5, 42], [35.5, 41.6], [38, 40.9], [41.5, 41.5], [41.7, 42.7], [40, 43.5], [38, 44.5], [36.7, 45.2], [35, 45], [33.5, 44.5], [32.5, 45.4], [33.6, 46.1], [31.6, 46.6], [30.8, 46.5], [29.7, 45.3], [28.6, 44.2], [28, 43], [28, 41.9], [26.2, 40.9], [24, 40.7], [22.6, 40.4], [23.8, 39.2], [22.9, 38.8], [24.1, 38.3], [24.1, 37.7], [23.2, 37.5], [22.6, 36.5], [21.7, 36.9], [21.1, 38.3], [19.4, 40.4], [19.4, 41.8], [18.5, 42.4], [16, 43.5], [14.2, 45.2], [13.6, 45.7], [12.3, 45.3], [12.5, 44.2], [13.7, 43.5], [16, 41.4], [18.5, 40.2], [16.8, 38.9], [15.7, 38], [15.6, 40], [14, 40.8], [12.2, 41.7], [10.5, 43], [8.8, 44.4], [6.6, 43.1], [4.5, 43.4], [3.1, 43.1], [3.2, 41.9], [2.2, 41.35], [0.8, 41], [-0.3, 39.4], [0.2, 38.7], [-0.7, 37.6], [-2.1, 36.7], [-4.4, 36.7]] },
+  { name: "Great Britain", ring: [[-5.7, 50.1], [-3.5, 50.3], [-1, 50.7], [1.4, 51.2], [1.7, 52.6], [0.3, 53.3], [-0.1, 54.1], [-1.5, 55], [-2.1, 56], [-1.8, 57.6], [-3.5, 58.6], [-5, 58.6], [-6.2, 56.7], [-5.6, 55.3], [-4.9, 54.8], [-3.3, 54.9], [-3, 53.9], [-3.1, 53.3], [-4.6, 53.3], [-4.1, 52.6], [-5.2, 51.8], [-3.4, 51.4], [-4.5, 51.2]] },
+  { name: "Ireland", ring: [[-6, 52.2], [-6, 53.9], [-5.5, 54.6], [-7, 55.3], [-8.3, 55.2], [-10, 54.2], [-9.9, 53], [-10.4, 51.8], [-8.5, 51.6]] },
+  { name: "Iceland", ring: [[-23, 63.8], [-21, 63.8], [-18.7, 63.4], [-15, 64.3], [-13.6, 65.2], [-14.5, 66.4], [-16.5, 66.5], [-19, 66.2], [-22.4, 66.4], [-24.3, 65.6], [-22.4, 64.6]] },
+  { name: "Svalbard", ring: [[11, 78.5], [16, 80], [27, 80.2], [22, 77.5], [16.5, 76.5]] },
+  { name: "Novaya Zemlya", ring: [[52, 71.5], [55.5, 73.5], [60, 76], [68, 77], [60, 75], [56.5, 72.5], [53.5, 70.7]] },
+  { name: "Sicily", ring: [[12.4, 38.1], [15.6, 38.3], [15.1, 36.7], [12.4, 37.8]] },
+  { name: "Sardinia", ring: [[8.2, 41], [9.8, 41], [9.6, 39.2], [8.4, 39]] },
+  { name: "Corsica", ring: [[8.6, 42.9], [9.5, 43], [9.5, 41.4], [8.8, 41.6]] },
+  { name: "Crete", ring: [[23.5, 35.6], [26.3, 35.3], [26, 35], [24, 35.1]] },
+  { name: "Cyprus", ring: [[32.3, 35], [34.6, 35.7], [33.9, 34.9], [32.8, 34.6]] },
+  { name: "Africa", ring: [[-5.9, 35.8], [-1.5, 35.1], [1, 36.5], [3.1, 36.8], [5, 36.8], [9.8, 37.3], [11, 37], [10.3, 35.5], [11, 33.5], [13.2, 32.95], [15.2, 32.3], [19.5, 30.5], [20.1, 32.2], [23, 32.6], [25, 31.8], [29, 30.9], [29.9, 31.3], [31, 31.6], [32.3, 31.3], [34.2, 31.3], [34.9, 29.5], [34, 27.8], [32.6, 29.9], [33.6, 27], [35.5, 23.9], [37.2, 21], [38.5, 18], [39.7, 15.1], [41.7, 13.3], [43.3, 11.9], [44.5, 10.4], [47.5, 11.1], [51.3, 11.8], [51, 10], [49.5, 6.5], [47.5, 4], [45, 1.7], [42, -1], [40.2, -2.7], [39.2, -4.7], [39.3, -6.8], [39.6, -8.5], [40.4, -10.5], [40.6, -14.5], [39, -17], [35.5, -21.5], [35.4, -24], [32.8, -25.8], [32.6, -28.5], [31, -30], [28.2, -32.8], [25.6, -34], [22.5, -34], [20, -34.8], [18.4, -34.2], [18.2, -32], [16.5, -28.6], [15.2, -27], [14.5, -22.9], [13.2, -20], [11.8, -17.3], [12.3, -13.5], [13.6, -11.5], [13.2, -8.8], [12.3, -6.1], [11.7, -4], [9.3, -1], [9.8, 2.5], [9.5, 4], [8.5, 4.5], [6, 4.3], [4.3, 6.3], [1.5, 6.1], [-2, 4.8], [-4.5, 5.2], [-7.5, 4.4], [-9.5, 5.5], [-11.5, 6.9], [-13.3, 8.5], [-15, 10.9], [-16.7, 12.4], [-17.55, 14.7], [-16.5, 16.2], [-16.2, 19], [-17, 21], [-16, 23.7], [-14.5, 26.1], [-13, 27.7], [-9.8, 29.8], [-9.7, 32.5], [-6.8, 34]] },
+  { name: "Madagascar", ring: [[49.3, -12], [50.5, -15.3], [49.5, -17.5], [48.6, -20.5], [47.5, -24.5], [45.5, -25.5], [44, -24.5], [43.3, -22], [44.4, -20], [44, -17], [46.5, -15.7], [48, -13.5]] },
+  { name: "Sri Lanka", ring: [[79.8, 8], [80, 9.8], [81.9, 7.5], [80.6, 5.9], [79.75, 7]] },
+  { name: "Honshu", ring: [[130.2, 31.3], [131.4, 31.4], [132, 33.8], [134.7, 33.8], [135.8, 33.5], [136.9, 34.3], [139, 34.7], [140.9, 35.7], [141, 38.3], [142, 39.5], [141.4, 41.4], [140, 40.6], [139.9, 39], [138.5, 37.8], [136.8, 37.3], [136, 35.7], [132.6, 35.5], [131, 34.5], [129.7, 33.4]] },
+  { name: "Hokkaido", ring: [[140, 41.5], [141.2, 41.8], [143.3, 42], [145.8, 43.3], [145, 44.3], [141.7, 45.4], [141.4, 43.3], [140, 42.5]] },
+  { name: "Sakhalin", ring: [[142, 46], [143.5, 46.5], [142.7, 49], [143.2, 51.5], [142.7, 54.3], [142, 52]] },
+  { name: "Taiwan", ring: [[120.1, 23], [120.8, 21.9], [121.9, 24.8], [121.5, 25.3]] },
+  { name: "Hainan", ring: [[108.6, 19.2], [110.5, 20.1], [111, 19.6], [109.6, 18.2]] },
+  { name: "Luzon", ring: [[120, 16], [120.6, 18.5], [122.2, 18.5], [122, 16.5], [124, 13], [121.5, 13.8], [120.6, 14.5]] },
+  { name: "Mindanao", ring: [[122, 7], [123.5, 8.5], [125.5, 9.8], [126.6, 7.2], [125.5, 5.6], [124, 6.3]] },
+  { name: "Borneo", ring: [[109, 1.5], [109.6, 2], [111, 1.6], [113.5, 3.3], [115.5, 5.2], [117.2, 7], [119.2, 5.2], [117.7, 4.2], [118.8, 1], [117.5, 0], [116.5, -2.5], [116, -3.9], [114.5, -3.5], [111.7, -3], [110.2, -1.8], [109, -0.5]] },
+  { name: "Sumatra", ring: [[95.3, 5.6], [97.5, 5.2], [100.3, 2.3], [103.7, -1], [106, -3.2], [105.9, -5.8], [104.5, -5.9], [102.3, -4], [100.4, -1], [98.7, 1.7], [97.1, 3.2]] },
+  { name: "Java", ring: [[105.2, -6.8], [106.1, -5.9], [108.3, -6.3], [110.4, -6.9], [112.6, -6.9], [114.6, -7.7], [114.4, -8.7], [111, -8.2], [108.7, -7.8], [106.4, -7.4]] },
+  { name: "Sulawesi", ring: [[119.4, -5.5], [120.4, -5.6], [120.3, -2.9], [121.3, -4.7], [122.8, -4.8], [121.6, -1.9], [123.1, -0.9], [121, -1.3], [120.1, 0.5], [124.9, 1.6], [124.3, 0.4], [120.2, 0.3], [119.6, -0.8], [118.8, -2.8]] },
+  { name: "New Guinea", ring: [[131, -1.3], [134.2, -0.9], [134.5, -2.9], [136.3, -2.2], [138, -1.7], [141, -2.6], [144.5, -3.9], [146, -5.5], [147.6, -6.1], [147.2, -7.4], [150, -10.3], [147.5, -10.1], [146, -8.1], [144.2, -7.7], [143.3, -9], [141, -9.1], [139.1, -8.1], [137.9, -5.4], [135, -4.4], [132.8, -4.1], [131.8, -2.8], [133, -2.3]] },
+  { name: "Australia", ring: [[113.5, -22], [114, -26.5], [115, -30], [115, -34], [117.9, -35.1], [121.9, -33.8], [124, -33], [126.5, -32.3], [131, -31.5], [134, -32.5], [135.8, -34.8], [137.7, -33], [137.8, -35.3], [139.6, -37.2], [140.6, -38], [143.5, -38.8], [146.4, -39.1], [147.9, -37.9], [150, -37.5], [150.8, -34.5], [151.3, -33.9], [152.5, -32], [153.6, -28.5], [153, -25.5], [151, -23.5], [149, -21], [146.2, -19], [145.3, -15], [143.5, -14], [142.5, -10.7], [141.6, -13], [141.5, -17], [140.6, -17.6], [139, -17], [135.5, -15], [136.8, -12.2], [132.5, -11.4], [130.8, -12.3], [130, -13], [129.5, -15], [127, -14], [125, -15], [123, -16.5], [121.9, -19], [118.5, -20.3], [116, -21], [114.2, -21.8]] },
+  { name: "Tasmania", ring: [[144.6, -40.7], [148.3, -40.9], [148.3, -42.2], [147, -43.6], [146, -43.5], [145.2, -42.3]] },
+  { name: "North Island", ring: [[172.7, -34.4], [174.3, -35.5], [175.9, -37.3], [178.5, -37.7], [177.9, -39.2], [176.9, -39.5], [176, -41.2], [175.2, -41.6], [174.6, -41.2], [175, -40], [173.8, -39.2], [174.6, -38], [174.4, -36.5]] },
+  { name: "South Island", ring: [[172.7, -40.5], [174.2, -41.3], [173.9, -42.2], [172.8, -43.5], [171.2, -44.5], [170.6, -45.9], [169, -46.6], [166.5, -46], [166.5, -45.3], [168.3, -44], [170.5, -43], [171.5, -41.8]] },
+  { name: "Chukotka", ring: [[-180, 69], [-177, 68.3], [-174, 67.3], [-171.5, 66.9], [-169.7, 66.1], [-171, 65.5], [-172.3, 64.4], [-174, 64.6], [-176, 65], [-178, 65.4], [-180, 65.5]] },
+  { name: "Hawaii", ring: [[-155.9, 20.25], [-155.1, 19.9], [-154.8, 19.5], [-155.6, 18.9], [-155.9, 19.1], [-156.05, 19.7]] },
+  { name: "Maui", ring: [[-156.7, 20.95], [-156.0, 20.8], [-156.0, 20.6], [-156.45, 20.58], [-156.7, 20.8]] },
+  { name: "Oahu", ring: [[-158.3, 21.6], [-157.95, 21.7], [-157.65, 21.3], [-158.1, 21.3]] },
+  { name: "Kauai", ring: [[-159.8, 22.15], [-159.35, 22.2], [-159.3, 21.9], [-159.6, 21.9]] },
+  { name: "Antarctica", ring: [[-180, -90], [180, -90], [180, -78], [165, -77], [165, -71], [140, -66.5], [110, -66], [90, -66], [75, -69], [70, -68], [55, -66.5], [40, -69], [20, -70], [0, -70.2], [-10, -71], [-20, -73.5], [-30, -77.5], [-45, -78], [-60, -75], [-62, -70], [-58, -63.5], [-65, -66], [-68, -70], [-75, -72.5], [-100, -73], [-120, -74], [-140, -75.5], [-160, -77.5], [-180, -78]] },
+];
+
+/**
+ * Named seas, gulfs and large lakes, most specific first. Open ocean outside
+ * these is named by basin in the geocoding service.
+ */
+export const WATER_BODIES: WaterBody[] = [
+  { name: "the Caspian Sea", inland: true, ring: [[47, 45.5], [50, 47], [53.5, 46.8], [52.5, 42], [54, 40], [53.9, 37.3], [50.4, 37], [49, 38.5], [49.5, 40.3], [47.6, 42.5]] },
+  { name: "Lake Superior", inland: true, ring: [[-92, 46.7], [-89, 48], [-85, 47.9], [-84.5, 46.5], [-88, 46.5]] },
+  { name: "Lake Michigan", inland: true, ring: [[-88, 42], [-87.8, 45.5], [-85, 45.8], [-86.5, 42.5]] },
+  { name: "Lake Huron", inland: true, ring: [[-84.5, 45.9], [-81.5, 46], [-80, 45], [-82, 43], [-83.5, 44.3]] },
+  { name: "Lake Victoria", inland: true, ring: [[31.6, -1], [32, 0.3], [34, 0.3], [34.8, -0.5], [33.5, -2.7], [31.8, -2.5]] },
+  { name: "Lake Baikal", inland: true, ring: [[103.8, 51.5], [105.5, 52], [108.2, 53.5], [109.8, 55.7], [108.5, 55.6], [106, 53], [104, 52]] },
+  { name: "the Adriatic Sea", inland: false, ring: [[12, 45.8], [13.6, 45.8], [19.5, 41.8], [18.5, 40], [16, 41.5], [12.3, 44.2]] },
+  { name: "the Aegean Sea", inland: false, ring: [[22.5, 40.8], [26.5, 41], [26.5, 38.5], [28, 36.5], [23, 35.5], [22.5, 37.5]] },
+  { name: "the Tyrrhenian Sea", inland: false, ring: [[9.5, 41], [10.5, 43], [12, 41.5], [16, 39.5], [15.6, 38.2], [12.5, 38.2], [9.5, 39]] },
+  { name: "the Mediterranean Sea", inland: false, ring: [[-5.6, 36], [-5.6, 35.8], [0, 35], [10, 37.5], [11, 33], [20, 30.5], [30, 31], [36, 36.5], [28, 41], [22, 40.5], [19.5, 40.5], [13, 46], [12, 44], [16, 40], [8, 44.5], [3, 43.5], [0, 40]] },
+  { name: "the Black Sea", inland: false, ring: [[27.5, 41], [28, 46.5], [32, 46.7], [35, 45.5], [38, 47.2], [41.5, 42], [36, 41], [29, 41]] },
+  { name: "the Baltic Sea", inland: false, ring: [[10, 54], [10, 56], [12.5, 56.2], [16, 57], [18, 60.5], [17, 63], [21, 66], [25.5, 65.5], [21.5, 61.5], [30, 60.2], [22, 57.5], [21, 55], [14, 53.8]] },
+  { name: "the North Sea", inland: false, ring: [[-4, 51], [-3, 59], [5, 62], [8.5, 58], [10, 57.5], [8, 53.5], [4, 51.5], [1.5, 51]] },
+  { name: "the Norwegian Sea", inland: false, ring: [[-5, 62], [5, 62], [15, 69], [25, 72], [20, 76], [-10, 72], [-20, 66]] },
+  { name: "the Barents Sea", inland: false, ring: [[20, 70], [55, 68], [60, 70], [60, 76], [45, 80], [20, 78]] },
+  { name: "the Caribbean Sea", inland: false, ring: [[-88, 21], [-84, 22], [-74, 20], [-68, 18.5], [-61, 17], [-60, 11], [-70, 11.5], [-77, 8.5], [-83, 9], [-84, 15], [-88, 16]] },
+  { name: "the Gulf of Mexico", inland: false, ring: [[-98, 19], [-98, 28], [-90, 30.5], [-82.5, 30], [-80.5, 25], [-84, 22], [-88, 21], [-91, 18.5]] },
+  { name: "Hudson Bay", inland: false, ring: [[-95, 59], [-95, 64], [-86, 66], [-78, 63], [-78, 56], [-82, 51], [-88, 55]] },
+  { name: "the Gulf of Alaska", inland: false, ring: [[-160, 55], [-150, 61], [-135, 59], [-130, 54], [-145, 50], [-160, 52]] },
+  { name: "the Bering Sea", inland: false, ring: [[162, 55], [180, 52], [180, 66], [170, 62], [163, 59]] },
+  { name: "the Bering Sea", inland: false, ring: [[-180, 52], [-163, 54.5], [-157, 58], [-165, 66], [-180, 66]] },
+  { name: "the Sea of Okhotsk", inland: false, ring: [[135, 54], [143, 60], [156, 60], [157, 51], [145, 44], [142, 46], [140, 53]] },
+  { name: "the Sea of Japan", inland: false, ring: [[128, 35], [130, 43], [135, 44.5], [141, 48], [142, 46], [140, 42], [137, 37], [133, 35.5]] },
+  { name: "the East China Sea", inland: false, ring: [[117, 23], [120, 30], [121, 37], [125, 38], [127, 34], [130, 31], [127, 26], [121, 24]] },
+  { name: "the South China Sea", inland: false, ring: [[99, 8], [104, 1], [110, -3], [117, 5], [120, 12], [121, 20], [117, 23], [108, 21.5], [106, 17], [109, 12], [105, 8]] },
+  { name: "the Java Sea", inland: false, ring: [[105, -4], [106, -6], [115, -8], [118, -5], [111, -3]] },
+  { name: "the Bay of Bengal", inland: false, ring: [[80, 6], [80, 16], [87, 21.5], [92, 22], [94, 16], [94, 9], [92, 6]] },
+  { name: "the Arabian Sea", inland: false, ring: [[56, 24], [60, 25], [67, 24.5], [73, 20], [76, 9], [72, 5], [60, 8], [52, 12], [57, 18]] },
+  { name: "the Red Sea", inland: false, ring: [[32.3, 30], [34.9, 29.5], [38.5, 23], [43.5, 12.6], [42.5, 13.5], [39, 16.5], [36.5, 22], [33.5, 27]] },
+  { name: "the Persian Gulf", inland: false, ring: [[48, 30], [51, 30], [56.5, 27], [56.3, 26], [54, 24], [51, 24.5], [49, 27]] },
+  { name: "the Gulf of Aden", inland: false, ring: [[43.5, 12.6], [51.5, 11.8], [51, 15], [45, 13]] },
+  { name: "the Tasman Sea", inland: false, ring: [[150, -30], [152, -40], [147, -44], [166, -47], [172, -40], [166, -30], [160, -28]] },
+  { name: "the Coral Sea", inland: false, ring: [[143, -10], [146, -19], [153, -25], [162, -25], [165, -15], [157, -10], [150, -10]] },
+];
+
+/**
+ * Coarse biome and relief regions, checked in order: the first region with a
+ * biome sets the biome, the first with an elevation sets the elevation band.
+ */
+export const TERRAIN_REGIONS: TerrainRegion[] = [
+  { name: "the Himalaya", biome: 'mountain', elevation: 'alpine', ring: [[73, 36], [80, 36], [95, 36], [103, 33], [102, 28], [95, 27], [88, 27], [80, 29], [73, 33]] },
+  { name: "the Pamir and Tian Shan", biome: 'mountain', elevation: 'alpine', ring: [[67, 38], [70, 41], [80, 43], [88, 43], [80, 40], [73, 38]] },
+  { name: "the Andes", biome: 'mountain', elevation: 'alpine', ring: [[-78, 2], [-75, -10], [-70, -14], [-66, -18], [-66, -24], [-69, -33], [-71, -40], [-73, -45], [-71.5, -45], [-70.5, -40], [-70, -33], [-68.5, -24], [-68.5, -18], [-72, -14], [-77, -8], [-80, 2]] },
+  { name: "the Rocky Mountains", biome: 'mountain', elevation: 'highland', ring: [[-124, 60], [-115, 60], [-110, 50], [-104, 40], [-105, 32], [-109, 32], [-112, 40], [-118, 48], [-125, 55]] },
+  { name: "the Alps", biome: 'mountain', elevation: 'alpine', ring: [[5.5, 44], [7, 47], [13, 47.5], [16, 47], [13, 46], [7, 44]] },
+  { name: "the Caucasus", biome: 'mountain', elevation: 'alpine', ring: [[39, 43.5], [47, 42], [49.5, 41], [45, 41.5]] },
+  { name: "the Atlas Mountains", biome: 'mountain', elevation: 'highland', ring: [[-9, 30], [-5, 33], [2, 35], [10, 36], [8, 34], [-5, 31]] },
+  { name: "the Ethiopian Highlands", elevation: 'highland', ring: [[35, 8], [38, 14], [41, 11], [40, 6], [37, 5]] },
+  { name: "the Iranian Plateau", biome: 'desert', elevation: 'upland', ring: [[54, 36], [61, 35], [62, 29], [58, 27.5], [52, 30]] },
+  { name: "the Mexican Plateau", elevation: 'upland', ring: [[-106, 28], [-101, 27], [-97, 20], [-100, 18.5], [-104, 20], [-107, 25]] },
+  { name: "Greenland", biome: 'ice', elevation: 'highland', ring: [[-70, 78], [-40, 83], [-20, 81], [-22, 72], [-40, 65], [-45, 61], [-50, 64], [-55, 72], [-60, 76]] },
+  { name: "Antarctica", biome: 'ice', elevation: 'highland', ring: [[-180, -90], [180, -90], [180, -70], [-180, -70]] },
+  { name: "the Scandinavian Mountains", biome: 'mountain', elevation: 'upland', ring: [[6, 59], [8, 62.5], [13, 66], [17, 68.5], [19, 68], [15, 65], [12, 62], [8, 59]] },
+  { name: "the Appalachians", elevation: 'upland', ring: [[-85, 34], [-80, 38], [-76, 41], [-72, 44], [-70, 46], [-73, 45], [-79, 40], [-83, 36]] },
+  { name: "the Great Dividing Range", elevation: 'upland', ring: [[146, -16], [148, -22], [151, -28], [149, -37], [147, -37.5], [149, -28], [146, -22], [145, -16]] },
+  { name: "the Sahara", biome: 'desert', ring: [[-17, 16], [-17, 28], [-8, 31], [10, 31], [20, 30], [32, 30], [33, 22], [37, 18], [33, 15], [15, 15], [0, 16.5]] },
+  { name: "the Arabian Desert", biome: 'desert', ring: [[35, 30], [47, 30], [50, 26], [55.5, 22], [52, 17.5], [44, 15.5], [40, 20], [35, 28]] },
+  { name: "the Thar Desert", biome: 'desert', ring: [[69, 24], [75, 29], [73, 31], [69, 28]] },
+  { name: "the Karakum", biome: 'desert', ring: [[52, 38], [66, 44], [68, 40], [62, 37]] },
+  { name: "the Gobi and Taklamakan", biome: 'desert', elevation: 'upland', ring: [[75, 37], [75, 41], [90, 44], [105, 45], [114, 44], [110, 40], [100, 38], [90, 37], [80, 36]] },
+  { name: "the Australian Outback", biome: 'desert', ring: [[114, -27], [120, -20], [130, -18], [136, -19], [142, -23], [144, -29], [140, -33], [134, -30], [125, -29], [118, -31]] },
+  { name: "the Kalahari", biome: 'desert', elevation: 'upland', ring: [[12.5, -18], [15, -28], [21, -29], [25, -26], [25, -20], [20, -18]] },
+  { name: "the Sonoran and Mojave", biome: 'desert', ring: [[-120, 38], [-114, 42], [-109, 38], [-105, 32], [-104, 28], [-110, 27], [-112, 29], [-116, 32], [-120, 35]] },
+  { name: "the Atacama", biome: 'desert', ring: [[-71.5, -18], [-68.5, -18], [-68.5, -28], [-71.5, -28]] },
+  { name: "Patagonia", biome: 'grassland', ring: [[-71, -40], [-63, -40], [-66, -48], [-68.5, -52], [-72, -50]] },
+  { name: "the Amazon", biome: 'rainforest', ring: [[-79, 2], [-70, 6], [-60, 6], [-52, 4], [-50, 0], [-46, -2], [-50, -8], [-60, -12], [-70, -12], [-77, -6]] },
+  { name: "the Congo Basin", biome: 'rainforest', ring: [[8, 5], [18, 5], [30, 3], [30, -4], [25, -7], [15, -5], [10, -2]] },
+  { name: "the Guinean forests", biome: 'rainforest', ring: [[-12, 9], [-5, 8], [8, 6.5], [8, 4], [-8, 4], [-12, 7]] },
+  { name: "the Malay Archipelago", biome: 'rainforest', ring: [[95, 7], [120, 7], [152, -2], [150, -11], [130, -9], [105, -9], [95, 2]] },
+  { name: "Central America", biome: 'rainforest', ring: [[-92, 18], [-83, 15], [-77, 8], [-82, 8], [-92, 15]] },
+  { name: "the Great Plains", biome: 'grassland', ring: [[-105, 32], [-104, 50], [-97, 53], [-96, 45], [-97, 32]] },
+  { name: "the Eurasian Steppe", biome: 'grassland', ring: [[30, 47], [40, 51], [55, 52], [75, 54], [85, 52], [80, 47], [60, 45], [45, 46], [35, 46]] },
+  { name: "the Pampas", biome: 'grassland', ring: [[-65, -30], [-58, -30], [-56, -34], [-58, -39], [-65, -38]] },
+  { name: "the North European Plain", biome: 'farmland', ring: [[3, 51], [4.5, 53.5], [8, 55], [10.5, 57.5], [12.5, 56], [14, 54.5], [22, 55], [28, 54.5], [28, 51], [20, 50], [14, 50.5], [8, 51], [4, 50]] },
+  { name: "the Paris Basin", biome: 'farmland', ring: [[-2, 46.5], [-1.5, 49.5], [1.5, 50.5], [4, 50], [5, 48.5], [3.5, 46.5]] },
+  { name: "the Pannonian Plain", biome: 'farmland', ring: [[16.5, 47.8], [22, 48.5], [23, 46.5], [21, 44.5], [18.5, 45], [16.5, 46.3]] },
+  { name: "the British Isles", biome: 'temperate_forest', ring: [[-11, 51.3], [-10.5, 55.5], [-6.5, 58.7], [-2.5, 59.3], [2, 53], [1.8, 50.8], [-6, 49.8]] },
+  { name: "Western and Central Europe", biome: 'temperate_forest', ring: [[-10, 43], [-2, 43.2], [3, 43.5], [8, 44.5], [14, 45.8], [19, 44.5], [28, 44], [32, 47], [31, 51], [32, 56], [30, 60], [25, 61], [18, 61], [12, 59.5], [7, 59], [5, 57.5], [4, 51], [-5, 48.5], [-9, 43.5]] },
+  { name: "the Mediterranean", biome: 'mediterranean', ring: [[-10, 36], [-9, 42], [3, 43.7], [10, 44.5], [18, 42], [28, 41.5], [36, 37], [36, 31], [20, 32], [10, 35], [-6, 34.5]] },
+  { name: "California", biome: 'mediterranean', ring: [[-124, 40], [-121, 40], [-117, 33], [-117.5, 32.3], [-121, 34.5], [-123.5, 38]] },
+];
+
+/**
+ * Cities used for nearest-place lookups. Population in millions (metro area, approximate).
+ */
+export const CITIES: Place[] = [
+  { name: "Los Angeles", country: "United States", lat: 34.05, lng: -118.24, population: 12.5 },
+  { name: "New York", country: "United States", lat: 40.71, lng: -74, population: 18.8 },
+  { name: "London", country: "United Kingdom", lat: 51.5, lng: -0.12, population: 9.5 },
+  { name: "Tokyo", country: "Japan", lat: 35.67, lng: 139.65, population: 37.3 },
+  { name: "Sydney", country: "Australia", lat: -33.86, lng: 151.2, population: 5.3 },
+  { name: "Moscow", country: "Russia", lat: 55.75, lng: 37.61, population: 12.6 },
+  { name: "Rio de Janeiro", country: "Brazil", lat: -22.9, lng: -43.17, population: 13.6 },
+  { name: "Cairo", country: "Egypt", lat: 30.04, lng: 31.23, population: 21.3 },
+  { name: "Mumbai", country: "India", lat: 19.07, lng: 72.87, population: 20.9 },
+  { name: "Paris", country: "France", lat: 48.85, lng: 2.35, population: 11.1 },
+  { name: "Reykjavik", country: "Iceland", lat: 64.15, lng: -21.9, population: 0.2 },
+  { name: "Lisbon", country: "Portugal", lat: 38.72, lng: -9.14, population: 2.9 },
+  { name: "Beijing", country: "China", lat: 39.9, lng: 116.4, population: 21.3 },
+  { name: "Delhi", country: "India", lat: 28.6, lng: 77.2, population: 32.9 },
+  { name: "Nairobi", country: "Kenya", lat: -1.29, lng: 36.82, population: 5.1 },
+  { name: "Cape Town", country: "South Africa", lat: -33.92, lng: 18.42, population: 4.8 },
+  { name: "Singapore", country: "Singapore", lat: 1.35, lng: 103.82, population: 5.9 },
+  { name: "Jakarta", country: "Indonesia", lat: -6.2, lng: 106.82, population: 11.2 },
+  { name: "Hong Kong", country: "China", lat: 22.3, lng: 114.17, population: 7.5 },
+  { name: "Shanghai", country: "China", lat: 31.23, lng: 121.47, population: 29.2 },
+  { name: "Istanbul", country: "Turkey", lat: 41.01, lng: 28.98, population: 15.8 },
+  { name: "Buenos Aires", country: "Argentina", lat: -34.6, lng: -58.38, population: 15.5 },
+  { name: "Lima", country: "Peru", lat: -12.05, lng: -77.04, population: 11 },
+  { name: "Mexico City", country: "Mexico", lat: 19.43, lng: -99.13, population: 22.3 },
+  { name: "Vancouver", country: "Canada", lat: 49.28, lng: -123.12, population: 2.6 },
+  { name: "Seattle", country: "United States", lat: 47.61, lng: -122.33, population: 4 },
+  { name: "San Francisco", country: "United States", lat: 37.77, lng: -122.42, population: 3.3 },
+  { name: "Miami", country: "United States", lat: 25.76, lng: -80.19, population: 6.1 },
+  { name: "Chicago", country: "United States", lat: 41.88, lng: -87.63, population: 8.9 },
+  { name: "Stockholm", country: "Sweden", lat: 59.33, lng: 18.07, population: 1.7 },
+  { name: "Oslo", country: "Norway", lat: 59.91, lng: 10.75, population: 1.1 },
+  { name: "Helsinki", country: "Finland", lat: 60.17, lng: 24.94, population: 1.3 },
+  { name: "Copenhagen", country: "Denmark", lat: 55.68, lng: 12.57, population: 1.4 },
+  { name: "Rome", country: "Italy", lat: 41.9, lng: 12.5, population: 4.3 },
+  { name: "Athens", country: "Greece", lat: 37.98, lng: 23.73, population: 3.2 },
+  { name: "Madrid", country: "Spain", lat: 40.42, lng: -3.7, population: 6.7 },
+  { name: "Dubai", country: "United Arab Emirates", lat: 25.2, lng: 55.27, population: 3.5 },
+  { name: "Karachi", country: "Pakistan", lat: 24.86, lng: 67, population: 17.2 },
+  { name: "Dhaka", country: "Bangladesh", lat: 23.81, lng: 90.41, population: 23.2 },
+  { name: "Bangkok", country: "Thailand", lat: 13.75, lng: 100.5, population: 11 },
+  { name: "Manila", country: "Philippines", lat: 14.6, lng: 120.98, population: 14.7 },
+  { name: "Seoul", country: "South Korea", lat: 37.57, lng: 126.98, population: 9.9 },
+  { name: "Perth", country: "Australia", lat: -31.95, lng: 115.86, population: 2.1 },
+  { name: "Auckland", country: "New Zealand", lat: -36.85, lng: 174.76, population: 1.7 },
+  { name: "Lagos", country: "Nigeria", lat: 6.45, lng: 3.4, population: 15.9 },
+  { name: "Dakar", country: "Senegal", lat: 14.69, lng: -17.45, population: 3.3 },
+  { name: "Casablanca", country: "Morocco", lat: 33.57, lng: -7.59, population: 3.8 },
+  { name: "Anchorage", country: "United States", lat: 61.22, lng: -149.9, population: 0.3 },
+  { name: "Honolulu", country: "United States", lat: 21.31, lng: -157.86, population: 1 },
+  { name: "Edinburgh", country: "United Kingdom", lat: 55.95, lng: -3.19, population: 0.5 },
+  { name: "Dublin", country: "Ireland", lat: 53.35, lng: -6.26, population: 1.4 },
+  { name: "Hamburg", country: "Germany", lat: 53.55, lng: 9.99, population: 1.8 },
+  { name: "Berlin", country: "Germany", lat: 52.52, lng: 13.4, population: 3.6 },
+  { name: "Amsterdam", country: "Netherlands", lat: 52.37, lng: 4.9, population: 1.2 },
+  { name: "Saint Petersburg", country: "Russia", lat: 59.93, lng: 30.34, population: 5.4 },
+  { name: "Vladivostok", country: "Russia", lat: 43.12, lng: 131.89, population: 0.6 },
+  { name: "Osaka", country: "Japan", lat: 34.69, lng: 135.5, population: 19 },
+  { name: "Sapporo", country: "Japan", lat: 43.06, lng: 141.35, population: 2 },
+  { name: "Taipei", country: "Taiwan", lat: 25.03, lng: 121.57, population: 7 },
+  { name: "Ho Chi Minh City", country: "Vietnam", lat: 10.82, lng: 106.63, population: 9.3 },
+  { name: "Hanoi", country: "Vietnam", lat: 21.03, lng: 105.85, population: 5.1 },
+  { name: "Kuala Lumpur", country: "Malaysia", lat: 3.14, lng: 101.69, population: 8.4 },
+  { name: "Colombo", country: "Sri Lanka", lat: 6.93, lng: 79.86, population: 0.8 },
+  { name: "Chennai", country: "India", lat: 13.08, lng: 80.27, population: 11.5 },
+  { name: "Kolkata", country: "India", lat: 22.57, lng: 88.36, population: 15.1 },
+  { name: "Bangalore", country: "India", lat: 12.97, lng: 77.59, population: 13.2 },
+  { name: "Tehran", country: "Iran", lat: 35.69, lng: 51.39, population: 9.5 },
+  { name: "Riyadh", country: "Saudi Arabia", lat: 24.71, lng: 46.68, population: 7.7 },
+  { name: "Jeddah", country: "Saudi Arabia", lat: 21.49, lng: 39.19, population: 4.7 },
+  { name: "Muscat", country: "Oman", lat: 23.59, lng: 58.41, population: 1.6 },
+  { name: "Baghdad", country: "Iraq", lat: 33.31, lng: 44.36, population: 7.5 },
+  { name: "Kabul", country: "Afghanistan", lat: 34.53, lng: 69.17, population: 4.5 },
+  { name: "Tashkent", country: "Uzbekistan", lat: 41.3, lng: 69.24, population: 2.6 },
+  { name: "Almaty", country: "Kazakhstan", lat: 43.24, lng: 76.89, population: 2 },
+  { name: "Ulaanbaatar", country: "Mongolia", lat: 47.89, lng: 106.91, population: 1.6 },
+  { name: "Lhasa", country: "China", lat: 29.65, lng: 91.17, population: 0.9 },
+  { name: "Kathmandu", country: "Nepal", lat: 27.72, lng: 85.32, population: 1.5 },
+  { name: "Chengdu", country: "China", lat: 30.66, lng: 104.07, population: 16 },
+  { name: "Urumqi", country: "China", lat: 43.83, lng: 87.62, population: 4 },
+  { name: "Novosibirsk", country: "Russia", lat: 55.03, lng: 82.92, population: 1.6 },
+  { name: "Yakutsk", country: "Russia", lat: 62.03, lng: 129.73, population: 0.4 },
+  { name: "Norilsk", country: "Russia", lat: 69.35, lng: 88.2, population: 0.2 },
+  { name: "Addis Ababa", country: "Ethiopia", lat: 9.03, lng: 38.74, population: 5.2 },
+  { name: "Mogadishu", country: "Somalia", lat: 2.05, lng: 45.32, population: 2.6 },
+  { name: "Dar es Salaam", country: "Tanzania", lat: -6.79, lng: 39.28, population: 7.4 },
+  { name: "Maputo", country: "Mozambique", lat: -25.97, lng: 32.57, population: 1.1 },
+  { name: "Durban", country: "South Africa", lat: -29.86, lng: 31.02, population: 3.2 },
+  { name: "Johannesburg", country: "South Africa", lat: -26.2, lng: 28.05, population: 6.1 },
+  { name: "Luanda", country: "Angola", lat: -8.84, lng: 13.23, population: 9 },
+  { name: "Kinshasa", country: "DR Congo", lat: -4.32, lng: 15.31, population: 17 },
+  { name: "Accra", country: "Ghana", lat: 5.6, lng: -0.19, population: 2.6 },
+  { name: "Abidjan", country: "Ivory Coast", lat: 5.36, lng: -4.01, population: 5.6 },
+  { name: "Algiers", country: "Algeria", lat: 36.75, lng: 3.06, population: 2.9 },
+  { name: "Tunis", country: "Tunisia", lat: 36.81, lng: 10.18, population: 2.4 },
+  { name: "Tripoli", country: "Libya", lat: 32.89, lng: 13.19, population: 1.2 },
+  { name: "Alexandria", country: "Egypt", lat: 31.2, lng: 29.92, population: 5.5 },
+  { name: "Khartoum", country: "Sudan", lat: 15.5, lng: 32.56, population: 6.2 },
+  { name: "Timbuktu", country: "Mali", lat: 16.77, lng: -3.01, population: 0.03 },
+  { name: "Tamanrasset", country: "Algeria", lat: 22.79, lng: 5.52, population: 0.1 },
+  { name: "Windhoek", country: "Namibia", lat: -22.56, lng: 17.08, population: 0.4 },
+  { name: "Tel Aviv", country: "Israel", lat: 32.08, lng: 34.78, population: 4.2 },
+  { name: "Beirut", country: "Lebanon", lat: 33.89, lng: 35.5, population: 2.4 },
+  { name: "Havana", country: "Cuba", lat: 23.11, lng: -82.37, population: 2.1 },
+  { name: "Santo Domingo", country: "Dominican Republic", lat: 18.47, lng: -69.9, population: 3.5 },
+  { name: "Caracas", country: "Venezuela", lat: 10.48, lng: -66.9, population: 2.9 },
+  { name: "Bogota", country: "Colombia", lat: 4.71, lng: -74.07, population: 11.3 },
+  { name: "Quito", country: "Ecuador", lat: -0.18, lng: -78.47, population: 2 },
+  { name: "La Paz", country: "Bolivia", lat: -16.5, lng: -68.15, population: 1.9 },
+  { name: "Santiago", country: "Chile", lat: -33.45, lng: -70.67, population: 6.9 },
+  { name: "Montevideo", country: "Uruguay", lat: -34.9, lng: -56.16, population: 1.8 },
+  { name: "Sao Paulo", country: "Brazil", lat: -23.55, lng: -46.63, population: 22.6 },
+  { name: "Salvador", country: "Brazil", lat: -12.97, lng: -38.5, population: 3.9 },
+  { name: "Recife", country: "Brazil", lat: -8.05, lng: -34.88, population: 4.1 },
+  { name: "Fortaleza", country: "Brazil", lat: -3.73, lng: -38.52, population: 4.1 },
+  { name: "Belem", country: "Brazil", lat: -1.46, lng: -48.5, population: 2.5 },
+  { name: "Manaus", country: "Brazil", lat: -3.12, lng: -60.02, population: 2.3 },
+  { name: "Panama City", country: "Panama", lat: 8.98, lng: -79.52, population: 2 },
+  { name: "Guatemala City", country: "Guatemala", lat: 14.63, lng: -90.51, population: 3 },
+  { name: "Boston", country: "United States", lat: 42.36, lng: -71.06, population: 4.9 },
+  { name: "Halifax", country: "Canada", lat: 44.65, lng: -63.57, population: 0.4 },
+  { name: "Montreal", country: "Canada", lat: 45.5, lng: -73.57, population: 4.3 },
+  { name: "Toronto", country: "Canada", lat: 43.65, lng: -79.38, population: 6.3 },
+  { name: "Houston", country: "United States", lat: 29.76, lng: -95.37, population: 7.3 },
+  { name: "New Orleans", country: "United States", lat: 29.95, lng: -90.07, population: 1.3 },
+  { name: "Denver", country: "United States", lat: 39.74, lng: -104.99, population: 3 },
+  { name: "Phoenix", country: "United States", lat: 33.45, lng: -112.07, population: 5 },
+  { name: "Las Vegas", country: "United States", lat: 36.17, lng: -115.14, population: 2.3 },
+  { name: "San Diego", country: "United States", lat: 32.72, lng: -117.16, population: 3.3 },
+  { name: "Portland", country: "United States", lat: 45.52, lng: -122.68, population: 2.5 },
+  { name: "Juneau", country: "United States", lat: 58.3, lng: -134.42, population: 0.03 },
+  { name: "Winnipeg", country: "Canada", lat: 49.9, lng: -97.14, population: 0.8 },
+  { name: "Yellowknife", country: "Canada", lat: 62.45, lng: -114.37, population: 0.02 },
+  { name: "Iqaluit", country: "Canada", lat: 63.75, lng: -68.52, population: 0.01 },
+  { name: "Nuuk", country: "Greenland", lat: 64.18, lng: -51.72, population: 0.02 },
+  { name: "Longyearbyen", country: "Svalbard", lat: 78.22, lng: 15.65, population: 0.002 },
+  { name: "Tromso", country: "Norway", lat: 69.65, lng: 18.96, population: 0.08 },
+  { name: "Murmansk", country: "Russia", lat: 68.97, lng: 33.08, population: 0.3 },
+  { name: "Arkhangelsk", country: "Russia", lat: 64.54, lng: 40.54, population: 0.3 },
+  { name: "Magadan", country: "Russia", lat: 59.57, lng: 150.8, population: 0.09 },
+  { name: "Petropavlovsk-Kamchatsky", country: "Russia", lat: 53.02, lng: 158.65, population: 0.2 },
+  { name: "Busan", country: "South Korea", lat: 35.18, lng: 129.08, population: 3.4 },
+  { name: "Hobart", country: "Australia", lat: -42.88, lng: 147.33, population: 0.25 },
+  { name: "Melbourne", country: "Australia", lat: -37.81, lng: 144.96, population: 5.1 },
+  { name: "Brisbane", country: "Australia", lat: -27.47, lng: 153.03, population: 2.6 },
+  { name: "Adelaide", country: "Australia", lat: -34.93, lng: 138.6, population: 1.4 },
+  { name: "Darwin", country: "Australia", lat: -12.46, lng: 130.84, population: 0.15 },
+  { name: "Alice Springs", country: "Australia", lat: -23.7, lng: 133.88, population: 0.03 },
+  { name: "Wellington", country: "New Zealand", lat: -41.29, lng: 174.78, population: 0.4 },
+  { name: "Christchurch", country: "New Zealand", lat: -43.53, lng: 172.64, population: 0.4 },
+  { name: "Port Moresby", country: "Papua New Guinea", lat: -9.44, lng: 147.18, population: 0.4 },
+  { name: "Antananarivo", country: "Madagascar", lat: -18.88, lng: 47.51, population: 3.4 },
+  { name: "Palermo", country: "Italy", lat: 38.12, lng: 13.36, population: 0.6 },
+  { name: "Naples", country: "Italy", lat: 40.85, lng: 14.27, population: 3.1 },
+  { name: "Venice", country: "Italy", lat: 45.44, lng: 12.33, population: 0.6 },
+  { name: "Milan", country: "Italy", lat: 45.46, lng: 9.19, population: 3.2 },
+  { name: "Marseille", country: "France", lat: 43.3, lng: 5.37, population: 1.6 },
+  { name: "Barcelona", country: "Spain", lat: 41.39, lng: 2.17, population: 5.6 },
+  { name: "Valencia", country: "Spain", lat: 39.47, lng: -0.38, population: 1.6 },
+  { name: "Seville", country: "Spain", lat: 37.39, lng: -5.98, population: 1.3 },
+  { name: "Porto", country: "Portugal", lat: 41.15, lng: -8.61, population: 1.3 },
+  { name: "Bordeaux", country: "France", lat: 44.84, lng: -0.58, population: 1 },
+  { name: "Brest", country: "France", lat: 48.39, lng: -4.49, population: 0.2 },
+  { name: "Odesa", country: "Ukraine", lat: 46.48, lng: 30.72, population: 1 },
+  { name: "Kyiv", country: "Ukraine", lat: 50.45, lng: 30.52, population: 3 },
+  { name: "Warsaw", country: "Poland", lat: 52.23, lng: 21.01, population: 1.8 },
+  { name: "Prague", country: "Czechia", lat: 50.08, lng: 14.44, population: 1.3 },
+  { name: "Vienna", country: "Austria", lat: 48.21, lng: 16.37, population: 1.9 },
+  { name: "Zurich", country: "Switzerland", lat: 47.38, lng: 8.54, population: 1.4 },
+  { name: "Munich", country: "Germany", lat: 48.14, lng: 11.58, population: 1.5 },
+  { name: "Budapest", country: "Hungary", lat: 47.5, lng: 19.04, population: 1.8 },
+  { name: "Bucharest", country: "Romania", lat: 44.43, lng: 26.1, population: 1.8 },
+  { name: "Belgrade", country: "Serbia", lat: 44.79, lng: 20.45, population: 1.4 },
+  { name: "Sevastopol", country: "Ukraine", lat: 44.6, lng: 33.52, population: 0.5 },
+  { name: "Batumi", country: "Georgia", lat: 41.64, lng: 41.63, population: 0.2 },
+  { name: "Tbilisi", country: "Georgia", lat: 41.72, lng: 44.79, population: 1.2 },
+  { name: "Baku", country: "Azerbaijan", lat: 40.41, lng: 49.87, population: 2.3 },
+  { name: "Trabzon", country: "Turkey", lat: 41, lng: 39.72, population: 0.3 },
+  { name: "Izmir", country: "Turkey", lat: 38.42, lng: 27.14, population: 3 },
+  { name: "Ankara", country: "Turkey", lat: 39.93, lng: 32.86, population: 5.7 },
+  { name: "Antalya", country: "Turkey", lat: 36.9, lng: 30.7, population: 1.3 },
+  { name: "Thessaloniki", country: "Greece", lat: 40.64, lng: 22.94, population: 0.8 },
+  { name: "Split", country: "Croatia", lat: 43.51, lng: 16.44, population: 0.2 },
+  { name: "Riga", country: "Latvia", lat: 56.95, lng: 24.11, population: 0.6 },
+  { name: "Tallinn", country: "Estonia", lat: 59.44, lng: 24.75, population: 0.4 },
+  { name: "Gdansk", country: "Poland", lat: 54.35, lng: 18.65, population: 0.5 },
+  { name: "Bergen", country: "Norway", lat: 60.39, lng: 5.32, population: 0.3 },
+  { name: "Gothenburg", country: "Sweden", lat: 57.71, lng: 11.97, population: 0.6 },
+  { name: "Aberdeen", country: "United Kingdom", lat: 57.15, lng: -2.1, population: 0.2 },
+  { name: "Cork", country: "Ireland", lat: 51.9, lng: -8.47, population: 0.2 },
+  { name: "Plymouth", country: "United Kingdom", lat: 50.38, lng: -4.14, population: 0.3 },
+  { name: "Galway", country: "Ireland", lat: 53.27, lng: -9.05, population: 0.08 },
+  { name: "Manchester", country: "United Kingdom", lat: 53.48, lng: -2.24, population: 2.8 },
+  { name: "McMurdo Station", country: "Antarctica", lat: -77.85, lng: 166.67, population: 0.001 },
+  { name: "Ushuaia", country: "Argentina", lat: -54.8, lng: -68.3, population: 0.08 },
+  { name: "Punta Arenas", country: "Chile", lat: -53.16, lng: -70.91, population: 0.13 },
+  { name: "Suva", country: "Fiji", lat: -18.14, lng: 178.44, population: 0.2 },
+  { name: "Papeete", country: "French Polynesia", lat: -17.54, lng: -149.57, population: 0.14 },
+  { name: "Noumea", country: "New Caledonia", lat: -22.27, lng: 166.45, population: 0.1 },
+  { name: "Male", country: "Maldives", lat: 4.18, lng: 73.51, population: 0.2 },
+  { name: "Port Louis", country: "Mauritius", lat: -20.16, lng: 57.5, population: 0.15 },
+  { name: "Ponta Delgada", country: "Portugal", lat: 37.74, lng: -25.67, population: 0.07 },
+  { name: "Las Palmas", country: "Spain", lat: 28.12, lng: -15.43, population: 0.4 },
+  { name: "Hamilton", country: "Bermuda", lat: 32.29, lng: -64.78, population: 0.01 },
+  { name: "Nassau", country: "Bahamas", lat: 25.05, lng: -77.35, population: 0.3 },
+  { name: "Kingston", country: "Jamaica", lat: 18.02, lng: -76.8, population: 0.7 },
+];
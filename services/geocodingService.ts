@@ -0,0 +1,146 @@
+import { Coordinates, TerrainDescriptor } from '../types';
+import { CITIES } from './geoData';
+import { describeTerrain, findNearestPlace, pointInRing, urbanRadiusKm } from './terrainService';
+import { NATURAL_EARTH_50M } from './naturalEarthData';
+import { PolygonRings, topologyFeatures } from './topojson';
+
+// Within this, a point counts as the city's outskirts rather than the city itself.
+const OUTSKIRTS_KM = 50;
+// Within this, the nearest city is still a meaningful landmark.
+const NEAR_KM = 300;
+// Offshore points further out than this are named after the water alone.
+const OFFSHORE_KM = 400;
+
+// Natural Earth abbreviates long names; these are the forms the gazetteer uses.
+const COUNTRY_NAMES: Record<string, string> = {
+  "United States of America": "United States",
+  "Dem. Rep. Congo": "DR Congo",
+  "Central African Rep.": "Central African Republic",
+  "Dominican Rep.": "Dominican Republic",
+  "Côte d'Ivoire": "Ivory Coast",
+  "Bosnia and Herz.": "Bosnia and Herzegovina",
+  "Eq. Guinea": "Equatorial Guinea",
+  "S. Sudan": "South Sudan",
+  "W. Sahara": "Western Sahara",
+  "eSwatini": "Eswatini",
+  "Macedonia": "North Macedonia",
+  "N. Cyprus": "Northern Cyprus",
+  "Antigua and Barb.": "Antigua and Barbuda",
+  "St. Kitts and Nevis": "Saint Kitts and Nevis",
+  "St. Vin. and Gren.": "Saint Vincent and the Grenadines",
+  "St-Barthélemy": "Saint Barthélemy",
+  "St-Martin": "Saint Martin",
+  "St. Pierre and Miquelon": "Saint Pierre and Miquelon",
+  "São Tomé and Principe": "São Tomé and Príncipe",
+  "Solomon Is.": "Solomon Islands",
+  "Marshall Is.": "Marshall Islands",
+  "N. Mariana Is.": "Northern Mariana Islands",
+  "Cook Is.": "Cook Islands",
+  "Pitcairn Is.": "Pitcairn Islands",
+  "Wallis and Futuna Is.": "Wallis and Futuna",
+  "Falkland Is.": "Falkland Islands",
+  "Faeroe Is.": "Faroe Islands",
+  "Cayman Is.": "Cayman Islands",
+  "British Virgin Is.": "British Virgin Islands",
+  "U.S. Virgin Is.": "U.S. Virgin Islands",
+  "Turks and Caicos Is.": "Turks and Caicos Islands",
+  "Ashmore and Cartier Is.": "Ashmore and Cartier Islands",
+  "Heard I. and McDonald Is.": "Heard and McDonald Islands",
+  "S. Geo. and the Is.": "South Georgia",
+  "Fr. Polynesia": "French Polynesia",
+  "Fr. S. Antarctic Lands": "French Southern Lands",
+  "Br. Indian Ocean Ter.": "British Indian Ocean Territory",
+  "Indian Ocean Ter.": "Australian Indian Ocean Territories",
+};
+
+// Country names that read with "the" in running prose.
+const NEEDS_ARTICLE = /^(United |DR |Central African|Dominican)|(Netherlands|Philippines|Bahamas|Maldives|Gambia|Islands|Lands|Territory|Territories)$/;
+
+const inProse = (country: string) => (NEEDS_ARTICLE.test(country) ? `the ${country}` : country);
+
+interface CountryShape {
+  name: string;
+  polygon: PolygonRings;
+  bounds: { minLng: number; maxLng: number; minLat: number; maxLat: number };
+}
+
+let countryShapes: CountryShape[] | null = null;
+
+/**
+ * Country polygons with their bounding boxes, decoded on first use.
+ */
+const getCountryShapes = (): CountryShape[] => {
+  if (!countryShapes) {
+    countryShapes = topologyFeatures(NATURAL_EARTH_50M, 'countries').flatMap(feature => {
+      const name = feature.name ? COUNTRY_NAMES[feature.name] ?? feature.name : null;
+      if (!name) return [];
+      return feature.polygons.map(polygon => {
+        const [outer] = polygon;
+        return {
+          name,
+          polygon,
+          bounds: {
+            minLng: Math.min(...outer.map(p => p[0])),
+            maxLng: Math.max(...outer.map(p => p[0])),
+            minLat: Math.min(...outer.map(p => p[1])),
+            maxLat: Math.max(...outer.map(p => p[1])),
+          },
+        };
+      });
+    });
+  }
+  return countryShapes;
+};
+
+/**
+ * The country whose borders (Natural Earth 1:50m) contain a coordinate, or
+ * null at sea. Holes such as Lesotho inside South Africa are respected.
+ */
+export const findCountry = (coords: Coordinates): string | null => {
+  const lng = ((((coords.lng + 180) % 360) + 360) % 360) - 180;
+  const { lat } = coords;
+  const shape = getCountryShapes().find(({ polygon, bounds: b }) =>
+    lng >= b.minLng && lng <= b.maxLng && lat >= b.minLat && lat <= b.maxLat
+    // Even-odd across every ring, so a point in a hole is outside.
+    && polygon.filter(ring => pointInRing(lng, lat, ring)).length % 2 === 1
+  );
+  return shape?.name ?? null;
+};
+
+/**
+ * Resolves a coordinate to a human-readable place name from the bundled gazetteer,
+ * e.g. "Lisbon, Portugal", "somewhere off the coast of Lisbon, Portugal",
+ * "somewhere in Switzerland, near Milan", "the Tyrrhenian Sea, off Palermo" or
+ * "the middle of the South Pacific Ocean". On land the country comes from the
+ * border polygons, so a point across a border from the nearest city is named
+ * after its own country.
+ *
+ * @param coords - Location to name.
+ * @param terrain - Pre-computed terrain for the same location, if the caller has one.
+ */
+export const reverseGeocode = (coords: Coordinates, terrain: TerrainDescriptor = describeTerrain(coords)): string => {
+  const nearest = findNearestPlace(coords, CITIES);
+  const city = nearest?.place;
+  const distance = nearest?.distanceKm ?? Infinity;
+  const cityLabel = city ? `${city.name}, ${city.country}` : '';
+
+  if (!terrain.isLand) {
+    const water = terrain.waterBody || 'open water';
+    if (city && terrain.coastal && distance <= NEAR_KM) return `somewhere off the coast of ${cityLabel}`;
+    if (city && distance <= OFFSHORE_KM) return `${water}, off ${city.name}`;
+    return water.endsWith('Ocean') ? `the middle of ${water}` : water;
+  }
+
+  // Polygons miss a few islands the gazetteer knows, so fall back to the city's country.
+  const country = findCountry(coords) ?? (city && distance <= NEAR_KM ? city.country : null);
+  const abroad = !!city && !!country && country !== city.country;
+
+  if (city && distance <= urbanRadiusKm(city)) return cityLabel;
+  if (city && distance <= OUTSKIRTS_KM) return abroad ? `the outskirts of ${city.name}, across the border in ${inProse(country)}` : `the outskirts of ${cityLabel}`;
+  if (city && distance <= NEAR_KM) return abroad ? `somewhere in ${inProse(country)}, near ${city.name}` : `somewhere near ${cityLabel}`;
+  if (terrain.region) return country ? `deep in ${terrain.region}, ${country}` : `deep in ${terrain.region}`;
+  if (abroad || (country && !city)) {
+    return city ? `the wilderness of ${inProse(country!)}, ${Math.round(distance)} km from ${cityLabel}` : `the wilderness of ${inProse(country!)}`;
+  }
+  return city ? `the wilderness, ${Math.round(distance)} km from ${cityLabel}` : 'the uncharted interior';
+};
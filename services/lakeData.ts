@@ -0,0 +1,8 @@
+import { PolygonRings } from './topojson';
+
+/**
+ * Lake outlines, each an outer ring followed by any islands, in lng/lat.
+ * Vendored unchanged from @geo-maps/earth-lakes-10km 0.6.0 (simplified to about
+ * 10 km); the data is from OpenStreetMap, © OpenStreetMap contributors, ODbL.
+ */
+export const OSM_LAKES: PolygonRings[] = JSON.parse('[[[[-71.4,-48.92],[-71.07,-48.92],[-71.19,-49.03],[-71.4,-48.92]]],[[[-73.83,-49.04],[-74.09,-49.01],[-74.09,-48.92],[-73.83,-49.04]]],[[[-72.55,-48.94],[-72.55,-48.92],[-72.38,-48.92],[-72.22,-49.18],[-72.47,-49.15],[-72.55,-48.94]]],[[[-72.88,-49.41],[-71.96,-49.72],[-72.91,-49.68],[-73.03,-49.51],[-72.88,-49.41]]],[[[-73.32,-49.92],[-72.99,-50.22],[-72.11,-50.11],[-71.98,-50.23],[-72.99,-50.34],[-72.82,-50.28],[-73.12,-50.21],[-73.17,-50.11],[-73.33,-50.23],[-73.32,-49.92]]],[[[-73.21,-50.3],[-73.01,-50.32],[-73.04,-50.36],[-73.02,-50.46],[-73.04,-50.46],[-73.04,-50.48],[-73.21,-50.3]]],[[[-72.77,-50.43],[-72.99,-50.67],[-72.91,-50.54],[-72.93,-50.51],[-73,-50.51],[-73.04,-50.46],[-72.95,-50.5],[-72.91,-50.49],[-72.77,-50.43]]],[[[-72.86,-51.26],[-72.96,-51.18],[-72.55,-51.11],[-72.69,-51.32],[-72.86,-51.26]]],[[[-68.8,-54.5],[-67.72,-54.51],[-67.5,-54.62],[-68.8,-54.5]]],[[[-71.56,-40.98],[-71.16,-41.06],[-71.67,-41.05],[-71.56,-40.98]]],[[[-72.36,-41.08],[-72.03,-41.11],[-72.29,-41.24],[-72.36,-41.08]]],[[[-72.86,-40.98],[-72.55,-41.21],[-72.98,-41.34],[-72.99,-41.11],[-72.86,-40.98]]],[[[-71.81,-43.88],[-71.41,-43.93],[-71.72,-43.99],[-71.81,-43.88]]],[[[-68.96,-45.27],[-68.82,-45.48],[-68.66,-45.4],[-68.69,-45.66],[-68.99,-45.48],[-68.96,-45.27]]],[[[-74.36,-46.5],[-74.52,-46.53],[-74.4,-46.65],[-74.62,-46.44],[-74.4,-46.44],[-74.49,-46.24],[-74.28,-46.59],[-74.36,-46.5]]],[[[-72.64,-46.56],[-72.47,-46.62],[-71.59,-46.29],[-71.67,-46.36],[-71.13,-46.53],[-72.25,-46.55],[-72.77,-46.91],[-72.69,-46.46],[-72.64,-46.56]]],[[[-72.6,-48.85],[-72.53,-48.89],[-72.55,-48.91],[-73.12,-48.91],[-73.01,-48.69],[-72.8,-48.72],[-72.82,-48.43],[-72.77,-48.81],[-72.6,-48.85]]],[[[-72.55,-48.91],[-72.53,-48.89],[-72.55,-48.92],[-72.55,-48.91]]],[[[-71.2,-48.81],[-71.09,-48.92],[-71.38,-48.92],[-71.2,-48.81]]],[[[-69.08,-35.46],[-69.05,-35.92],[-69.25,-35.53],[-69.08,-35.46]]],[[[-67.63,-38.2],[-67.5,-38.27],[-67.68,-38.3],[-67.63,-38.2]]],[[[-68.94,-38.46],[-68.73,-38.46],[-68.46,-38.65],[-68.69,-38.55],[-68.94,-38.65],[-68.94,-38.46]]],[[[-72.18,-39.2],[-71.97,-39.27],[-72.22,-39.3],[-72.18,-39.2]]],[[[-69.04,-39.4],[-68.69,-39.32],[-69.32,-39.64],[-69.04,-39.4]]],[[[-72.25,-39.64],[-72.11,-39.8],[-72.35,-39.71],[-72.25,-39.64]]],[[[-72.33,-40.26],[-72.22,-40.31],[-72.58,-40.28],[-72.33,-40.12],[-72.33,-40.26]]],[[[-70.14,-40.38],[-70.18,-40.53],[-70.31,-40.49],[-70.14,-40.38]]],[[[-71.59,-40.96],[-71.79,-40.71],[-71.67,-40.62],[-71.46,-40.91],[-71.59,-40.86],[-71.59,-40.96]]],[[[-60.44,-32.55],[-60.34,-32.6],[-60.46,-32.64],[-60.44,-32.55]]],[[[-60.16,-32.64],[-59.99,-32.72],[-59.99,-32.86],[-60.18,-32.84],[-60.19,-32.69],[-60.16,-32.79],[-59.99,-32.77],[-60.16,-32.64]]],[[[-56.25,-32.88],[-56.44,-32.81],[-56.38,-32.66],[-56.34,-32.57],[-56.25,-32.88]]],[[[-58.38,-33.06],[-58.1,-33.08],[-58.36,-33.13],[-58.48,-33.9],[-58.38,-33.06]]],[[[-62.36,-35.96],[-62.36,-36.08],[-62.58,-36],[-62.36,-35.96]]],[[[-62.58,-37.02],[-62.38,-36.91],[-62.42,-37.05],[-62.58,-37.02]]],[[[-67.02,-37.34],[-66.97,-37.52],[-67.15,-37.44],[-67.02,-37.34]]],[[[-67.26,-38.13],[-67.21,-38.23],[-67.5,-38.27],[-67.26,-38.13]]],[[[-52.03,-31.97],[-52.12,-32.21],[-52.12,-31.97],[-52.03,-31.97]]],[[[-55.77,-32.66],[-56.19,-32.73],[-56.03,-32.93],[-56.23,-32.88],[-56.22,-32.69],[-55.99,-32.58],[-55.77,-32.66]]],[[[-56.25,-32.88],[-56.23,-32.88],[-56.21,-32.97],[-56.25,-32.88]]],[[[-52.56,-32.77],[-52.75,-33.21],[-53.13,-33.53],[-52.56,-32.77]]],[[[-52.75,-32.18],[-52.6,-32.16],[-52.62,-32.66],[-52.82,-32.92],[-53.14,-32.81],[-53.46,-33.21],[-53.53,-33.6],[-53.68,-33.14],[-52.76,-32.44],[-52.75,-32.18]]],[[[-53.72,-33.98],[-53.57,-34.01],[-53.66,-34.1],[-53.72,-33.98]]],[[[-54.23,-34.67],[-54.38,-34.63],[-54.23,-34.52],[-54.23,-34.67]]],[[[-66.75,-23.37],[-66.62,-23.4],[-66.7,-23.56],[-66.75,-23.37]]],[[[-65.88,-23.56],[-65.96,-23.74],[-66.26,-23.76],[-65.88,-23.56]]],[[[-57.98,-27.25],[-57.61,-27.32],[-57.55,-27.45],[-57.98,-27.25]]],[[[-65.02,-27.45],[-64.89,-27.57],[-65.07,-27.64],[-65.02,-27.45]]],[[[-56.32,-27.29],[-56.25,-27.5],[-56.38,-27.61],[-56.75,-27.49],[-56.32,-27.29]]],[[[-60.09,-30.68],[-59.97,-30.68],[-60.12,-30.82],[-60.09,-30.68]]],[[[-62.38,-30.18],[-62.17,-30.33],[-62.31,-30.9],[-62.89,-30.96],[-62.86,-30.81],[-63.37,-30.45],[-63.37,-30.32],[-63.11,-30.48],[-62.38,-30.18]]],[[[-57.79,-31.2],[-57.94,-31.31],[-58.05,-31.17],[-57.88,-31.07],[-58.05,-30.97],[-57.81,-30.86],[-57.83,-30.68],[-57.79,-30.92],[-57.64,-30.94],[-57.89,-30.98],[-57.79,-31.2]]],[[[-60.11,-31.24],[-59.99,-31.28],[-60.12,-31.34],[-60.11,-31.24]]],[[[-52.29,-21.96],[-52.39,-22.19],[-52.95,-22.49],[-52.91,-22.28],[-52.29,-21.96]]],[[[-51.2,-22.72],[-50.91,-22.76],[-50.93,-23],[-50.94,-22.88],[-51.2,-22.82],[-51.27,-22.67],[-51.35,-22.87],[-51.37,-22.67],[-51.24,-22.65],[-51.2,-22.72]]],[[[-48.82,-23.28],[-49.17,-23.25],[-49.19,-23.4],[-49.25,-23.24],[-48.82,-23.28]]],[[[-49.66,-23.2],[-49.55,-23.44],[-49.77,-23.36],[-49.66,-23.2]]],[[[-54.27,-24.45],[-54.3,-24.45],[-54.28,-24.29],[-54.27,-24.45]]],[[[-55.37,-25.13],[-55.22,-25.17],[-55.15,-25.3],[-55.05,-25.28],[-54.93,-25.4],[-55.28,-25.26],[-55.36,-25.4],[-55.37,-25.24],[-55.24,-25.2],[-55.37,-25.13]]],[[[-54.3,-24.45],[-54.26,-24.73],[-54.39,-24.81],[-54.27,-24.86],[-54.43,-25.01],[-54.28,-25.02],[-54.44,-25.09],[-54.3,-25.28],[-54.47,-25.24],[-54.54,-25.45],[-54.58,-25.2],[-54.45,-25.13],[-54.62,-25.07],[-54.44,-24.93],[-54.6,-24.85],[-54.42,-24.85],[-54.3,-24.45]]],[[[-56.23,-27.45],[-56.2,-27.15],[-55.83,-27.39],[-56.12,-27.31],[-56.23,-27.45]]],[[[-48.75,-28.23],[-48.74,-28.51],[-48.82,-28.51],[-48.89,-28.34],[-48.78,-28.37],[-48.75,-28.23]]],[[[-51.32,-29.99],[-51.02,-30.27],[-51.06,-30.4],[-50.54,-30.2],[-50.58,-30.49],[-50.74,-30.37],[-50.72,-30.82],[-50.96,-30.9],[-50.98,-31.15],[-51,-31.03],[-51.17,-31.07],[-51.28,-31.5],[-51.88,-31.88],[-52.08,-31.82],[-52,-31.95],[-52.12,-31.95],[-52.24,-31.73],[-52.02,-31.69],[-51.96,-31.35],[-51.47,-31.09],[-51.41,-30.64],[-51.12,-30.41],[-51.33,-30.26],[-51.32,-29.99]]],[[[-41.41,-21.94],[-41.25,-21.98],[-41.35,-22.11],[-41.41,-21.94]]],[[[-42.12,-22.84],[-42.1,-22.94],[-42.35,-22.92],[-42.12,-22.84]]],[[[-68.95,-16.43],[-68.85,-16.59],[-69.08,-16.5],[-68.95,-16.17],[-69.13,-16],[-69.08,-16.23],[-69.3,-16.27],[-69.52,-16.2],[-69.48,-15.98],[-69.74,-15.94],[-69.83,-15.78],[-69.79,-15.93],[-70.02,-15.83],[-69.92,-15.56],[-69.7,-15.71],[-69.92,-15.45],[-69.89,-15.28],[-69.68,-15.24],[-69.26,-15.7],[-68.73,-15.94],[-68.93,-16.21],[-68.86,-16.3],[-68.82,-16.17],[-68.64,-16.18],[-68.57,-16.34],[-68.95,-16.43]]],[[[-68.22,-19.19],[-68.08,-19.15],[-67.85,-19.54],[-68.12,-19.54],[-68,-19.44],[-68.22,-19.19]]],[[[-64.91,-12.6],[-64.74,-12.7],[-64.82,-12.79],[-64.91,-12.6]]],[[[-65.59,-12.77],[-65.43,-13.04],[-65.58,-13.03],[-65.59,-12.77]]],[[[-65.87,-13.11],[-65.87,-13.13],[-66.01,-13.11],[-65.96,-12.93],[-65.87,-13.11]]],[[[-65.87,-13.13],[-65.87,-13.11],[-65.7,-13.14],[-65.83,-13.26],[-65.87,-13.13]]],[[[-66.99,-13.92],[-66.89,-13.89],[-67.06,-14.04],[-66.99,-13.92]]],[[[-60.29,-15.48],[-60.17,-15.46],[-60.28,-15.58],[-60.29,-15.48]]],[[[-57.79,-17.6],[-57.88,-17.43],[-57.73,-17.43],[-57.62,-17.68],[-57.79,-17.6]]],[[[-57.7,-17.73],[-57.54,-17.7],[-57.57,-17.84],[-57.7,-17.73]]],[[[-48.39,-12.25],[-48.23,-12.3],[-48.21,-12.55],[-48.39,-12.25]]],[[[-48.42,-13.76],[-48.19,-14.01],[-48.21,-14.33],[-48.43,-14.02],[-48.6,-14.26],[-48.69,-14.18],[-48.34,-13.94],[-48.42,-13.76]]],[[[-48.88,-14.14],[-48.8,-14.18],[-48.91,-14.32],[-48.88,-14.14]]],[[[-47.65,-17.69],[-47.64,-18.02],[-47.75,-17.98],[-47.65,-17.69]]],[[[-48.87,-18.23],[-48.82,-18.42],[-48.96,-18.34],[-49.09,-18.47],[-48.87,-18.23]]],[[[-47.84,-18.35],[-47.66,-18.48],[-48,-18.52],[-47.84,-18.35]]],[[[-45.33,-18.23],[-45.2,-18.31],[-45.31,-18.54],[-45.33,-18.23]]],[[[-45.26,-18.5],[-45.18,-18.7],[-45.3,-18.69],[-45.26,-18.5]]],[[[-50.07,-18.6],[-49.88,-18.6],[-49.84,-18.65],[-50.03,-18.6],[-50.05,-18.77],[-50.07,-18.6]]],[[[-45.2,-18.9],[-45.09,-18.82],[-45.12,-18.98],[-45.2,-18.9]]],[[[-50.27,-18.64],[-50.43,-18.85],[-50.35,-18.9],[-50.49,-18.94],[-50.33,-18.98],[-50.52,-19.02],[-50.49,-18.78],[-50.27,-18.64]]],[[[-50.14,-19.93],[-50.34,-19.81],[-50.1,-19.75],[-50.05,-19.92],[-49.54,-19.93],[-50.14,-19.93]]],[[[-49.09,-20.13],[-48.98,-20.18],[-49.11,-20.26],[-49.09,-20.13]]],[[[-51.04,-20.1],[-50.91,-20.3],[-51.39,-20.39],[-51.04,-20.1]]],[[[-46.98,-20.43],[-47.02,-20.23],[-46.87,-20.3],[-46.98,-20.43]]],[[[-46.82,-20.43],[-46.85,-20.55],[-46.93,-20.4],[-46.82,-20.43]]],[[[-51.3,-20.63],[-51.11,-20.66],[-51.26,-20.65],[-51.28,-20.74],[-51.3,-20.63]]],[[[-45.75,-20.61],[-45.7,-20.76],[-45.63,-20.69],[-45.66,-20.83],[-45.75,-20.76],[-45.75,-20.61]]],[[[-51.6,-20.59],[-51.5,-20.61],[-51.67,-20.79],[-51.6,-20.59]]],[[[-46.01,-20.63],[-45.83,-20.78],[-45.97,-20.79],[-46.01,-20.63]]],[[[-46.19,-20.8],[-46.1,-20.59],[-46.04,-20.84],[-46.19,-20.8]]],[[[-50.98,-20.8],[-51.15,-20.67],[-50.78,-20.84],[-50.98,-20.8]]],[[[-50.58,-20.98],[-50.76,-20.92],[-50.71,-20.83],[-50.58,-20.98]]],[[[-45.92,-21.08],[-45.89,-21.21],[-46.05,-20.87],[-45.92,-21.08]]],[[[-50.14,-21.08],[-49.99,-21.25],[-50.14,-21.31],[-50.14,-21.08]]],[[[-49.44,-21.49],[-49.1,-21.73],[-49.57,-21.45],[-49.79,-21.31],[-49.7,-21.2],[-49.44,-21.49]]],[[[-52.29,-21.94],[-52.41,-21.94],[-52.29,-21.64],[-52.03,-21.51],[-52,-21.7],[-52.29,-21.94]]],[[[-171.87,-9.1],[-171.74,-9.23],[-171.87,-9.23],[-171.87,-9.1]]],[[[-59.55,-1.23],[-59.65,-1.63],[-59.55,-1.56],[-59.55,-1.74],[-59.28,-1.83],[-59.48,-1.92],[-59.85,-1.68],[-59.9,-1.8],[-59.85,-1.62],[-59.94,-1.76],[-60.29,-1.21],[-59.77,-1.51],[-59.63,-1.44],[-59.85,-1.42],[-59.9,-1.27],[-59.6,-1.28],[-59.59,-1.4],[-59.55,-1.23]]],[[[-56.47,-2.09],[-56.33,-2.15],[-56.43,-2.2],[-56.36,-2.28],[-56.6,-2.34],[-56.64,-2.17],[-56.47,-2.09]]],[[[-56.27,-2.2],[-56.32,-2.42],[-56.56,-2.38],[-56.36,-2.33],[-56.27,-2.2]]],[[[-57.96,-2.55],[-57.86,-2.59],[-57.96,-2.67],[-58.2,-2.59],[-57.96,-2.55]]],[[[-61.37,-2.99],[-61.28,-3.03],[-61.39,-3.11],[-61.61,-3.07],[-61.37,-2.99]]],[[[-58.27,-2.81],[-58.17,-2.94],[-58.36,-3.11],[-58.27,-2.81]]],[[[-59.74,-3.12],[-59.59,-3.13],[-59.82,-3.16],[-59.74,-3.12]]],[[[-59.04,-3.29],[-59.02,-3.44],[-59.18,-3.38],[-59.04,-3.29]]],[[[-58.49,-3.25],[-58.32,-3.24],[-58.34,-3.38],[-58.54,-3.4],[-58.49,-3.25]]],[[[-60.6,-3.38],[-60.52,-3.43],[-60.69,-3.47],[-60.6,-3.38]]],[[[-64.76,-3.29],[-65,-3.76],[-64.98,-3.47],[-64.76,-3.29]]],[[[-63.21,-4],[-63.14,-4.08],[-63.33,-4.1],[-63.59,-4.64],[-63.39,-4.13],[-63.76,-4.26],[-63.5,-4.13],[-63.63,-4.08],[-63.21,-4]]],[[[-62.17,-4.39],[-62.06,-4.41],[-62.13,-4.7],[-62.27,-4.48],[-62.17,-4.39]]],[[[-63.45,-8.71],[-63.26,-8.8],[-63.28,-9.13],[-63.45,-8.71]]],[[[-55,-1.89],[-54.74,-1.93],[-55.23,-2.06],[-55,-1.89]]],[[[-51.34,-1.67],[-51.11,-1.86],[-51.3,-1.76],[-51.46,-2.13],[-51.5,-1.8],[-51.34,-1.67]]],[[[-53.75,-2.04],[-53.83,-2.19],[-53.9,-2.11],[-53.75,-2.04]]],[[[-56.23,-1.85],[-55.84,-1.76],[-56.09,-2.02],[-55.84,-2.02],[-56.2,-2.28],[-56.08,-1.91],[-56.23,-1.85]]],[[[-53.96,-2.1],[-53.84,-2.2],[-53.92,-2.34],[-53.96,-2.1]]],[[[-55.53,-1.98],[-55.06,-2.25],[-55.37,-2.32],[-55.91,-2.15],[-55.53,-1.98]]],[[[-54.74,-2.15],[-54.56,-2.2],[-54.67,-2.39],[-54.74,-2.15]]],[[[-54.12,-2.06],[-54.1,-2.3],[-54.51,-2.33],[-54.12,-2.06]]],[[[-45.19,-3.29],[-45.1,-3.29],[-45.28,-3.34],[-45.19,-3.29]]],[[[-49.86,-3.73],[-49.5,-3.78],[-49.54,-4.21],[-49.39,-4.25],[-49.42,-4.52],[-49.22,-4.57],[-49.45,-4.65],[-49.7,-4.57],[-49.57,-4.37],[-49.83,-4.42],[-49.83,-4.11],[-49.72,-4.17],[-49.77,-4],[-49.64,-3.91],[-49.83,-4.03],[-49.94,-3.91],[-49.75,-3.82],[-49.86,-3.73]]],[[[-38.5,-5.47],[-38.41,-5.59],[-38.65,-5.69],[-38.5,-5.47]]],[[[-38.86,-8.75],[-38.76,-8.78],[-38.95,-8.8],[-38.86,-8.75]]],[[[-38.67,-8.75],[-38.63,-8.99],[-38.78,-8.84],[-38.67,-8.75]]],[[[-38.59,-8.8],[-38.43,-8.8],[-38.5,-8.97],[-38.52,-8.84],[-38.62,-8.93],[-38.59,-8.8]]],[[[-38.34,-8.97],[-38.21,-9.02],[-38.29,-9.15],[-38.34,-8.97]]],[[[-40.89,-9.32],[-40.81,-9.41],[-41.09,-9.43],[-41.18,-9.71],[-41.75,-9.81],[-41.98,-9.71],[-42.27,-10.05],[-42.21,-9.71],[-41.62,-9.67],[-41.31,-9.64],[-41.17,-9.36],[-40.89,-9.32]]],[[[-84.95,11.16],[-84.77,11.07],[-85.47,11.18],[-84.95,11.16]]],[[[-79.85,9.32],[-79.8,9.05],[-79.94,9.16],[-80.04,9.02],[-79.85,9.32]]],[[[-79.98,0.35],[-79.93,0.22],[-80.02,0.21],[-79.98,0.35]]],[[[-74.5,10.96],[-74.24,10.96],[-74.58,10.7],[-74.5,10.96]]],[[[-67.73,10.27],[-67.6,10.1],[-67.88,10.1],[-67.73,10.27]]],[[[-73.82,9.27],[-73.74,9.04],[-73.92,9],[-73.82,9.27]]],[[[-74.71,8.89],[-74.75,9.02],[-74.53,8.97],[-74.71,8.89]]],[[[-74.92,9.06],[-74.76,9.06],[-74.88,8.8],[-74.92,9.06]]],[[[-74.22,8.94],[-74.22,8.82],[-74.48,8.89],[-74.22,8.94]]],[[[-74.4,8.75],[-74.36,8.66],[-74.46,8.84],[-74.4,8.75]]],[[[-75.16,8.62],[-75.1,8.54],[-75.26,8.54],[-75.16,8.62]]],[[[-75.52,2.68],[-75.41,2.7],[-75.45,2.59],[-75.52,2.68]]],[[[-62.67,7.28],[-62.8,7.19],[-62.69,7.1],[-62.93,6.97],[-62.84,6.86],[-63.15,6.74],[-63.36,6.84],[-62.95,6.9],[-63.23,7.06],[-63.2,7.19],[-63.06,7.08],[-62.85,7.32],[-62.91,7.49],[-62.97,7.39],[-63.08,7.49],[-63.06,7.76],[-62.52,7.8],[-62.72,7.67],[-62.56,7.54],[-62.67,7.28]]],[[[-55.15,4.63],[-55.24,4.74],[-55.13,5],[-54.84,4.92],[-54.84,4.77],[-54.96,4.83],[-54.93,4.59],[-55.02,4.68],[-55.06,4.5],[-55.22,4.57],[-55.15,4.63]]],[[[-13.27,8.67],[-13.16,8.52],[-12.95,8.58],[-13.27,8.48],[-13.27,8.67]]],[[[-2.41,8.58],[-2.25,8.48],[-2.29,8.29],[-2.19,8.32],[-2.29,8.22],[-2.46,8.45],[-2.41,8.58]]],[[[-5.73,7.54],[-5.6,7.17],[-5.51,7.23],[-5.37,6.98],[-5.49,7.17],[-5.67,7.13],[-5.73,7.54]]],[[[-7.08,6.38],[-7.03,6.66],[-6.97,6.36],[-7.2,6.23],[-7.08,6.38]]],[[[-4.45,5.31],[-4.02,5.27],[-4.83,5.14],[-4.45,5.31]]],[[[-3.23,5.37],[-3.16,5.17],[-2.85,5.18],[-2.94,5.07],[-3.3,5.11],[-3.23,5.37]]],[[[-5.33,5.22],[-5.17,5.13],[-5.42,5.13],[-5.33,5.22]]],[[[-103.16,20.3],[-102.66,20.22],[-102.83,20.1],[-103.44,20.23],[-103.16,20.3]]],[[[-101.73,18.65],[-101.61,18.57],[-101.91,18.51],[-101.73,18.65]]],[[[-101.16,20.06],[-101.07,19.9],[-101.25,19.9],[-101.16,20.06]]],[[[-96.59,18.23],[-96.61,18.31],[-96.35,18.19],[-96.42,18.1],[-96.59,18.23]]],[[[-93.78,17.18],[-93.48,17.17],[-93.38,17.02],[-93.69,17.16],[-93.82,17.04],[-93.78,17.18]]],[[[-94.9,16.43],[-94.76,16.34],[-94.88,16.3],[-94.61,16.36],[-94.53,16.21],[-95.11,16.26],[-94.9,16.43]]],[[[-84.65,15.88],[-84.43,15.83],[-84.64,15.77],[-84.65,15.88]]],[[[-89.03,15.63],[-89,15.5],[-89.32,15.33],[-89.42,15.5],[-89.03,15.63]]],[[[-84.04,15.33],[-83.85,15.36],[-83.82,15.24],[-84.04,15.33]]],[[[-83.59,15.24],[-83.5,15.2],[-83.67,15.17],[-83.59,15.24]]],[[[-86.32,12.51],[-86.1,12.32],[-86.12,12.17],[-86.61,12.3],[-86.62,12.41],[-86.32,12.51]]],[[[-85.89,12.08],[-85.17,11.78],[-84.79,11.18],[-85.48,11.18],[-85.74,11.31],[-85.94,11.74],[-85.89,12.08]],[[-85.62,11.49],[-85.45,11.44],[-85.69,11.57],[-85.62,11.49]]],[[[-73.38,21.13],[-73.32,21.04],[-73.64,21],[-73.38,21.13]]],[[[-71.72,18.57],[-71.48,18.44],[-71.72,18.41],[-71.85,18.52],[-71.72,18.57]]],[[[-16.58,13.45],[-16.22,13.35],[-16.44,13.26],[-16.58,13.45]]],[[[-16.58,12.68],[-16.4,12.55],[-16.76,12.55],[-16.58,12.68]]],[[[-10.39,13.24],[-10.24,13.24],[-10.28,12.93],[-10.43,13.03],[-10.39,13.24]]],[[[-0.76,11.65],[-0.63,11.52],[-0.53,11.6],[-0.52,11.48],[-0.75,11.5],[-0.76,11.65]]],[[[-8.26,11.62],[-8.09,11.52],[-8.13,11.42],[-8.26,11.62]]],[[[-107.07,31.32],[-106.79,31.01],[-106.96,31.04],[-107.07,31.32]]],[[[-105.56,27.57],[-105.45,27.49],[-105.71,27.53],[-105.56,27.57]]],[[[-102.76,25.96],[-101.99,25.8],[-102.77,25.8],[-102.76,25.96]]],[[[-93.91,31.91],[-93.6,31.41],[-93.6,31.16],[-93.79,31.28],[-93.65,31.39],[-93.83,31.5],[-93.91,31.91]]],[[[-94.37,31.28],[-94,31.12],[-94.26,31.12],[-94.37,31.28]]],[[[-95.1,30.73],[-95.01,30.63],[-95.21,30.71],[-95.2,30.86],[-95.1,30.73]]],[[[-90.5,30.33],[-90.41,30.26],[-90.57,30.17],[-90.5,30.33]]],[[[-90.23,30.37],[-90,30.32],[-90,30.03],[-90.4,30.05],[-90.23,30.37]]],[[[-92.86,29.97],[-92.64,29.86],[-92.84,29.84],[-92.86,29.97]]],[[[-92.61,29.8],[-92.38,29.8],[-92.41,29.69],[-92.61,29.8]]],[[[-90.26,29.9],[-90.07,29.57],[-90.35,29.67],[-90.26,29.9]]],[[[-90.24,29.46],[-90,29.57],[-90,29.44],[-90.06,29.46],[-90.07,29.42],[-90.05,29.34],[-90.13,29.37],[-90.13,29.34],[-90.04,29.34],[-90.12,29.31],[-90.05,29.16],[-90.24,29.19],[-90.13,29.25],[-90.18,29.34],[-90.09,29.42],[-90.13,29.49],[-90.22,29.28],[-90.24,29.46]]],[[[-96.86,28.42],[-96.68,28.32],[-96.4,28.42],[-96.88,28.07],[-96.77,28.21],[-96.86,28.42]]],[[[-96.96,28.23],[-96.92,28.07],[-97.12,27.88],[-97.02,28.07],[-97.23,28.07],[-96.96,28.23]]],[[[-99,26.3],[-98.97,26.12],[-99.12,26.19],[-99,26.3]]],[[[-97.53,27.88],[-97.08,27.86],[-97.39,27.18],[-97.16,26.13],[-97.33,26.01],[-97.57,26.86],[-97.44,27.25],[-97.71,27.25],[-97.4,27.33],[-97.25,27.68],[-97.53,27.88]]],[[[-97.91,22.33],[-97.82,22.05],[-98,22.27],[-97.91,22.33]]],[[[-89.74,30.15],[-89.6,30.15],[-90,30.05],[-89.98,30.26],[-89.74,30.15]]],[[[-89.17,29.23],[-89.08,29.08],[-89.23,29.08],[-89.25,29.28],[-89.17,29.23]]],[[[-81.69,28.67],[-81.5,28.61],[-81.69,28.54],[-81.69,28.67]]],[[[-80.87,28.96],[-80.64,28.73],[-80.8,28.65],[-80.68,28.36],[-80.8,28.5],[-80.87,28.96]]],[[[-80.6,28.61],[-80.6,28.16],[-80.72,28.3],[-80.66,28.3],[-80.6,28.61]]],[[[-80.82,27.81],[-80.69,27.83],[-80.73,27.7],[-80.82,27.81]]],[[[-80.82,27.22],[-80.62,26.98],[-80.73,26.69],[-81.12,26.96],[-80.82,27.22]]],[[[-112.5,40.98],[-112.59,40.75],[-112.81,40.98],[-112.5,40.98]]],[[[-122.41,40.85],[-122.3,40.75],[-122.47,40.73],[-122.41,40.85]]],[[[-120.3,40.31],[-120.3,40.15],[-120.46,40.28],[-120.3,40.31]]],[[[-119.67,40.18],[-119.51,40.18],[-119.47,39.85],[-119.67,40.18]]],[[[-120.08,39.23],[-119.93,39.18],[-120.1,38.93],[-120.08,39.23]]],[[[-122.89,39.13],[-122.61,38.96],[-122.92,39.02],[-122.89,39.13]]],[[[-113.23,38.89],[-113.1,38.89],[-113.2,38.72],[-113.23,38.89]]],[[[-119.03,38.07],[-118.9,38.03],[-119,37.94],[-119.15,38],[-119.03,38.07]]],[[[-114.71,36.14],[-114.59,36.14],[-114.74,36.02],[-114.83,36.14],[-114.71,36.14]]],[[[-116.08,33.5],[-115.63,33.32],[-115.66,33.12],[-116.08,33.5]]],[[[-112.5,40.98],[-112.25,40.98],[-112.19,40.85],[-112.18,40.98],[-111.95,40.98],[-112.02,40.88],[-112.39,40.65],[-112.5,40.98]]],[[[-111.91,40.35],[-111.71,40.23],[-111.93,40.01],[-111.91,40.35]]],[[[-111.29,37.16],[-111.05,37.08],[-111.49,36.94],[-111.56,37.06],[-111.29,37.16]]],[[[-92.78,38.2],[-92.62,38.2],[-92.74,38.1],[-92.78,38.2]]],[[[-94.88,36.56],[-95.05,36.48],[-94.78,36.7],[-94.88,36.56]]],[[[-93.91,36.42],[-93.91,36.3],[-94.07,36.38],[-93.91,36.42]]],[[[-92.22,35.53],[-92.03,35.57],[-92.09,35.46],[-92.22,35.53]]],[[[-94.94,35.32],[-95.02,35.42],[-94.77,35.35],[-94.94,35.32]]],[[[-93.41,34.67],[-93.16,34.63],[-93.43,34.55],[-93.41,34.67]]],[[[-96.79,33.76],[-96.9,33.87],[-96.57,33.98],[-96.58,33.8],[-96.79,33.76]]],[[[-94.22,33.25],[-94.45,33.25],[-94.17,33.34],[-94.22,33.25]]],[[[-96.06,32.86],[-96.02,33],[-95.89,32.82],[-96.06,32.86]]],[[[-90.02,32.4],[-90,32.51],[-90,32.44],[-90.02,32.4]]],[[[-96.24,31.97],[-96.24,31.95],[-96.36,31.95],[-96.24,31.97]]],[[[-89.65,34.45],[-89.81,34.42],[-89.53,34.56],[-89.65,34.45]]],[[[-82.91,34.49],[-82.79,34.52],[-82.84,34.34],[-82.91,34.49]]],[[[-81.36,34.13],[-81.24,34.02],[-81.61,34.08],[-81.36,34.13]]],[[[-82.33,33.76],[-82.2,33.65],[-82.37,33.65],[-82.33,33.76]]],[[[-80.09,33.39],[-79.95,33.28],[-80.07,33.21],[-80.09,33.39]]],[[[-74.27,40.96],[-74.27,40.98],[-74.22,40.98],[-74.27,40.96]]],[[[-76.31,38.72],[-76,38.58],[-76.33,38.58],[-76.31,38.72]]],[[[-75.98,38.4],[-75.98,38.25],[-75.81,38.23],[-76.03,38.17],[-75.98,38.4]]],[[[-78.48,36.63],[-78.27,36.56],[-78.35,36.44],[-78.48,36.63]]],[[[-76.26,35.53],[-76.07,35.53],[-76.2,35.44],[-76.26,35.53]]],[[[-7.63,32.51],[-7.4,32.47],[-7.6,32.39],[-7.63,32.51]]],[[[-116.46,48.31],[-116.19,48.14],[-116.57,47.94],[-116.35,48.22],[-116.63,48.23],[-116.46,48.31]]],[[[-114.2,48.08],[-114.05,47.69],[-114.35,47.81],[-114.2,48.08]]],[[[-119.63,45.92],[-119.37,45.92],[-119.81,45.83],[-119.63,45.92]]],[[[-118.76,43.42],[-118.63,43.29],[-118.97,43.29],[-118.76,43.42]]],[[[-119.19,43.26],[-118.96,43.28],[-119.09,43.17],[-119.19,43.26]]],[[[-112.73,43.04],[-112.62,42.94],[-112.9,42.79],[-112.73,43.04]]],[[[-121.98,42.59],[-121.83,42.26],[-122.05,42.42],[-121.98,42.59]]],[[[-120.41,42.1],[-120.32,41.96],[-120.5,41.72],[-120.41,42.1]]],[[[-112.52,41.34],[-112.5,41.31],[-112.5,40.98],[-112.81,40.98],[-112.83,41.21],[-113.08,41.28],[-113.1,41.64],[-112.79,41.7],[-112.81,41.53],[-112.52,41.34]]],[[[-103.01,48.17],[-102.73,48.14],[-102.57,47.95],[-102.83,48.12],[-103.56,48.02],[-103.01,48.17]]],[[[-102.61,47.81],[-102.48,47.75],[-102.61,47.78],[-102.61,47.81]]],[[[-106.28,47.81],[-106.3,47.65],[-106.48,47.91],[-106.87,47.62],[-106.95,47.75],[-106.39,48.02],[-106.28,47.81]]],[[[-101.91,47.46],[-102.3,47.61],[-102.47,47.53],[-102.28,47.64],[-102.48,47.75],[-102.39,47.98],[-102.25,47.64],[-102,47.54],[-101.25,47.62],[-101.91,47.46]]],[[[-110.39,44.56],[-110.2,44.31],[-110.55,44.37],[-110.39,44.56]]],[[[-112.19,41.2],[-111.94,40.98],[-112.19,41],[-112.5,40.98],[-112.48,41.21],[-112.26,41.53],[-112.26,41.41],[-112.05,41.41],[-112.19,41.2]]],[[[-109.64,41],[-109.6,41],[-109.6,40.98],[-109.64,41]]],[[[-93.38,48.92],[-93.18,48.79],[-93.25,48.65],[-92.94,48.71],[-92.57,48.55],[-93.19,48.55],[-93.37,48.63],[-93.38,48.92]]],[[[-92.78,48.46],[-92.46,48.47],[-92.43,48.32],[-92.5,48.45],[-92.78,48.46]]],[[[-92.13,48.37],[-91.95,48.31],[-92.29,48.34],[-92.13,48.37]]],[[[-99.2,48.17],[-98.75,48.05],[-99.12,48],[-99.2,48.17]]],[[[-91.51,48.14],[-91.49,47.96],[-91.67,48],[-91.51,48.14]]],[[[-94.81,48.2],[-94.5,48.17],[-94.99,48.06],[-94.76,47.9],[-95.27,47.89],[-94.81,48.2]]],[[[-94.66,47.44],[-94.49,47.52],[-94.6,47.31],[-94.66,47.44]]],[[[-94.13,47.55],[-94.03,47.46],[-94.29,47.37],[-94.13,47.55]]],[[[-94.27,47.31],[-94.24,47.1],[-94.57,47.05],[-94.66,47.22],[-94.27,47.31]]],[[[-95.76,46.66],[-95.76,46.65],[-95.85,46.59],[-95.76,46.66]]],[[[-90.06,47.81],[-90,46.68],[-90.92,46.58],[-90.75,46.97],[-91.82,46.69],[-92.09,46.74],[-90.88,47.56],[-90.06,47.81]]],[[[-94.37,46.41],[-94.35,46.56],[-94.21,46.44],[-94.37,46.41]]],[[[-93.72,46.35],[-93.51,46.35],[-93.52,46.11],[-93.78,46.14],[-93.72,46.35]]],[[[-95.45,46.04],[-95.32,46.07],[-95.33,45.92],[-95.45,46.04]]],[[[-100.42,45.68],[-100.28,45.44],[-100.58,45.58],[-100.42,45.68]]],[[[-97.38,45.52],[-97.34,45.22],[-97.51,45.43],[-97.38,45.52]]],[[[-100.63,44.76],[-100.5,44.5],[-100.68,44.76],[-101.03,44.75],[-100.68,44.86],[-100.53,44.78],[-100.44,45.03],[-100.24,45.05],[-100.4,45],[-100.35,44.87],[-100.55,44.74],[-100.63,44.76]]],[[[-86.18,48.92],[-86.13,48.92],[-86.13,48.91],[-86.18,48.92]]],[[[-84.37,48.92],[-84.29,48.92],[-84.37,48.91],[-84.37,48.92]]],[[[-84.37,48.91],[-84.5,48.79],[-84.46,48.91],[-84.37,48.91]]],[[[-80.11,48.92],[-80.07,48.92],[-79.98,48.92],[-79.82,48.86],[-79.94,48.69],[-79.63,48.68],[-79.55,48.83],[-79.26,48.66],[-79.94,48.63],[-80.22,48.81],[-80.11,48.92]]],[[[-79.59,47.55],[-79.45,47.57],[-79.41,47.09],[-79.59,47.55]]],[[[-88.52,47.1],[-88.37,47.12],[-88.54,47.01],[-88.52,47.1]]],[[[-80.05,47.01],[-80.16,46.78],[-80.11,46.94],[-80.09,47.1],[-80.05,47.01]]],[[[-80.78,46.8],[-80.61,46.74],[-80.77,46.65],[-80.78,46.8]]],[[[-87.85,48.92],[-87.28,48.76],[-86.4,48.77],[-85.91,47.98],[-84.86,47.96],[-85.02,47.59],[-84.57,47.31],[-84.81,46.97],[-84.39,46.92],[-84.51,46.83],[-84.46,46.43],[-85.03,46.49],[-84.99,46.78],[-86.15,46.67],[-86.62,46.41],[-86.64,46.56],[-86.84,46.43],[-87.4,46.5],[-87.67,46.82],[-87.89,46.91],[-88.2,46.97],[-88.48,46.74],[-88.24,47.2],[-87.71,47.43],[-88.07,47.48],[-89.21,46.9],[-90,46.69],[-90,47.83],[-89.32,48.11],[-89.17,48.47],[-88.73,48.56],[-88.92,48.31],[-88.76,48.34],[-88.5,48.86],[-88.31,48.76],[-88.42,48.63],[-88.55,48.41],[-88.33,48.65],[-88.07,48.66],[-87.76,48.83],[-87.61,48.75],[-87.65,48.85],[-87.94,48.86],[-88.11,48.73],[-88.24,48.85],[-87.85,48.92]],[[-88.77,48.09],[-89.24,47.84],[-88.91,47.87],[-88.44,48.18],[-88.77,48.09]]],[[[-80.03,46.35],[-79.5,46.33],[-79.37,46.2],[-80.28,46.2],[-80.03,46.35]]],[[[-81.96,45.8],[-81.84,45.74],[-82.09,45.67],[-82.13,45.8],[-81.96,45.8]]],[[[-80.2,45.34],[-80.01,45.34],[-80.1,45.24],[-80.2,45.34]]],[[[-79.58,45.12],[-79.37,45.03],[-79.41,44.91],[-79.58,45.12]]],[[[-79.43,44.59],[-79.15,44.45],[-79.54,44.19],[-79.52,44.4],[-79.7,44.37],[-79.43,44.59]]],[[[-88.45,44.18],[-88.29,44.17],[-88.42,43.79],[-88.45,44.18]]],[[[-78.82,43.87],[-78.75,43.33],[-79.34,43.18],[-79.88,43.26],[-79.46,43.64],[-78.82,43.87]]],[[[-82.73,42.68],[-82.41,42.47],[-82.49,42.29],[-82.97,42.33],[-82.73,42.68]]],[[[-80.2,45.34],[-80.22,45.27],[-80.07,45.18],[-79.8,45.15],[-80.09,45.07],[-79.66,44.75],[-80.11,44.83],[-79.97,44.65],[-80.09,44.47],[-80.68,44.73],[-80.95,44.58],[-80.97,44.96],[-81.27,45],[-81.29,45.24],[-81.74,45.22],[-81.37,45],[-81.26,44.68],[-81.75,44.09],[-81.74,43.31],[-82.18,43.05],[-82.47,43.07],[-82.74,43.99],[-83.02,44.06],[-83.41,43.83],[-83.67,43.59],[-83.95,43.71],[-83.87,43.96],[-83.34,44.34],[-83.39,45.27],[-84.29,45.66],[-84.97,45.77],[-85.12,45.55],[-84.92,45.4],[-85.4,45.21],[-85.3,44.8],[-85.43,44.91],[-85.65,44.76],[-85.53,45.21],[-85.65,45.18],[-86.24,44.72],[-86.09,44.65],[-86.26,44.66],[-86.18,44.37],[-86.5,44.09],[-86.54,43.61],[-86.19,42.84],[-86.34,42.26],[-86.88,41.73],[-87.19,41.62],[-87.53,41.71],[-87.83,42.28],[-87.92,43.25],[-87.47,44.56],[-86.96,45.27],[-87.93,44.52],[-87.84,44.93],[-87.63,44.98],[-87,45.92],[-86.97,45.67],[-86.53,45.89],[-86.7,45.59],[-86.28,45.95],[-85.65,45.97],[-85.42,46.1],[-84.9,46.01],[-84.73,45.84],[-84.64,46.06],[-83.94,45.96],[-83.83,46.16],[-83.76,46.3],[-82.79,46.19],[-82.84,46.32],[-82.57,46.12],[-82.44,46.22],[-82.31,46.09],[-81.87,46.08],[-81.87,46.19],[-81.76,46.07],[-82,46.01],[-81.83,45.97],[-81.67,46.06],[-80.77,45.95],[-80.2,45.34]],[[-81.87,45.92],[-82.18,45.84],[-82.31,45.95],[-82.73,45.95],[-82.56,45.77],[-82.84,46],[-83.23,45.87],[-81.87,45.51],[-81.58,45.77],[-81.69,45.9],[-81.81,45.71],[-81.87,45.92]],[[-83.74,46.1],[-83.87,45.97],[-83.5,45.92],[-83.74,46.1]],[[-85.62,45.68],[-85.56,45.56],[-85.5,45.74],[-85.62,45.68]]],[[[-80.09,42.16],[-81.39,41.74],[-81.74,41.49],[-83.01,41.42],[-82.72,41.53],[-83.46,41.67],[-83.19,42.07],[-82.62,42.05],[-82.53,41.92],[-82.4,42.12],[-81.3,42.66],[-80.51,42.57],[-80.2,42.79],[-78.88,42.89],[-79.15,42.56],[-80.09,42.16]]],[[[-74.62,48.72],[-74.58,48.86],[-74.64,48.6],[-74.62,48.72]]],[[[-72.11,48.76],[-71.77,48.47],[-72.22,48.49],[-72.37,48.72],[-72.11,48.76]]],[[[-74.62,48.72],[-74.69,48.49],[-74.49,48.61],[-74.31,48.44],[-74.53,48.54],[-74.62,48.37],[-74.88,48.65],[-75.06,48.62],[-75.15,48.52],[-75.19,48.39],[-75.37,48.43],[-75.19,48.65],[-74.88,48.72],[-74.62,48.72]]],[[[-78.4,48.38],[-78.31,48.26],[-78.55,48.28],[-78.4,48.38]]],[[[-77.08,47.52],[-76.87,47.6],[-76.9,47.41],[-77.08,47.52]]],[[[-76.64,47.5],[-76.55,47.26],[-76.8,47.4],[-76.64,47.5]]],[[[-70.8,47.01],[-70.73,47.1],[-70.61,46.98],[-71.02,46.83],[-70.8,47.01]]],[[[-75.98,46.79],[-75.76,46.97],[-75.81,46.68],[-75.98,46.79]]],[[[-69.32,45.95],[-69.35,45.95],[-69.36,46.13],[-69.32,45.95]]],[[[-69.32,45.95],[-69.3,45.95],[-69.17,45.87],[-69.3,45.84],[-69.32,45.95]]],[[[-68.83,45.8],[-68.95,45.58],[-69.04,45.71],[-68.83,45.8]]],[[[-69.7,45.58],[-69.57,45.72],[-69.5,45.58],[-69.7,45.58]]],[[[-73.83,45.45],[-73.68,45.4],[-73.96,45.33],[-73.83,45.45]]],[[[-70.87,45],[-70.74,44.84],[-70.88,44.82],[-70.87,45]]],[[[-78.38,44.47],[-78.53,44.38],[-78.51,44.53],[-78.38,44.47]]],[[[-73.26,44.84],[-73.34,45.01],[-73.12,44.78],[-73.38,44.21],[-73.46,44.65],[-73.39,44.87],[-73.26,44.84]],[[-73.34,44.68],[-73.3,44.6],[-73.25,44.75],[-73.34,44.68]]],[[[-77.26,44.19],[-77.12,44.15],[-77.43,44.13],[-77.26,44.19]]],[[[-71.41,43.71],[-71.19,43.55],[-71.5,43.56],[-71.41,43.71]]],[[[-76.09,44.28],[-76.11,44.28],[-76.09,44.28],[-76.36,44.12],[-76.1,43.96],[-76.31,43.87],[-76.21,43.55],[-76.82,43.28],[-78.75,43.33],[-78.75,43.88],[-77.61,44.05],[-77.54,43.96],[-77.12,43.85],[-76.77,44.18],[-76.46,44.25],[-76.42,44.11],[-76.2,44.21],[-76.38,44.26],[-76.09,44.28]]],[[[-57.26,48.37],[-57.11,48.34],[-57.39,48.21],[-57.26,48.37]]],[[[-56.65,48.34],[-56.32,48.28],[-56.73,48.12],[-56.84,48.22],[-56.65,48.34]]],[[[-66.02,46.04],[-66.02,45.86],[-66.23,45.84],[-66.02,46.04]]],[[[-64.35,45.86],[-64.27,45.83],[-64.28,45.74],[-64.34,45.83],[-64.42,45.71],[-64.51,45.72],[-64.35,45.86]]],[[[-64.29,45.14],[-64.36,45.24],[-63.99,45.27],[-64.29,45.14]]],[[[-65.66,44.72],[-65.52,44.74],[-65.77,44.59],[-65.66,44.72]]],[[[-125.09,54.88],[-124.96,54.83],[-125.42,54.76],[-125.09,54.88]]],[[[-124.94,54.68],[-124.24,54.42],[-125.14,54.62],[-124.94,54.68]]],[[[-125.75,54.57],[-125.18,54.5],[-125.51,54.44],[-125.75,54.57]]],[[[-125.79,54.06],[-124.98,53.98],[-126.28,53.98],[-125.79,54.06]]],[[[-126.69,53.67],[-126.78,53.63],[-126.69,53.76],[-126.34,53.86],[-125.73,53.63],[-126.43,53.82],[-126.69,53.67]]],[[[-126.93,53.44],[-126.69,53.33],[-126.78,53.24],[-126.8,53.36],[-127.12,53.3],[-126.93,53.44]]],[[[-115.21,55.53],[-114.92,55.53],[-114.77,55.3],[-116.1,55.45],[-115.21,55.53]]],[[[-113.29,55.3],[-113.23,55.18],[-113.43,55.25],[-113.29,55.3]]],[[[-120.95,52.7],[-121.04,52.54],[-120.72,52.5],[-121.4,52.48],[-120.95,52.7]]],[[[-118.46,52.19],[-118.24,52.16],[-118.33,52.05],[-118.55,52.08],[-118.46,52.19]]],[[[-119.45,50.26],[-119.36,50.27],[-119.5,49.81],[-119.74,49.75],[-119.62,49.51],[-119.76,49.75],[-119.49,49.92],[-119.45,50.26]]],[[[-122.05,49.67],[-121.76,49.53],[-121.77,49.31],[-122.05,49.67]]],[[[-116.95,50.18],[-116.62,49.21],[-116.98,49.61],[-116.95,50.18]]],[[[-115.27,49.15],[-115.25,49.15],[-115.27,49.12],[-115.27,49.15]]],[[[-106.57,55.6],[-106.57,55.31],[-106.78,55.39],[-106.57,55.6]]],[[[-105.21,55.3],[-105.6,55.25],[-105.29,55.45],[-105.41,55.3],[-105.21,55.3]]],[[[-108.37,55.26],[-108.02,55.15],[-108.36,55.08],[-108.37,55.26]]],[[[-101.25,55.25],[-101.25,55.18],[-101.27,55.13],[-101.38,55.06],[-101.49,55.23],[-101.25,55.25]]],[[[-104.68,55.3],[-104.66,55.18],[-104.41,55.27],[-104.37,55.17],[-104.71,55.18],[-105.12,54.88],[-105.32,55.08],[-105.12,55.24],[-104.68,55.3]]],[[[-109.73,55.03],[-109.57,54.88],[-110.04,54.75],[-109.73,55.03]]],[[[-112.1,54.9],[-111.9,54.93],[-111.9,54.8],[-112.3,54.88],[-112.1,54.9]]],[[[-107.45,54.65],[-107.59,54.72],[-107.38,54.92],[-106.99,54.75],[-107.45,54.65]]],[[[-106.92,54.72],[-106.67,54.7],[-106.92,54.56],[-106.92,54.72]]],[[[-101.47,54.6],[-101.73,54.46],[-101.88,54.55],[-101.47,54.6]]],[[[-107.21,54.57],[-107.05,54.53],[-107.22,54.45],[-107.21,54.57]]],[[[-109.4,54.47],[-109.25,54.44],[-109.55,54.4],[-109.4,54.47]]],[[[-107.45,54.54],[-107.32,54.4],[-107.51,54.42],[-107.45,54.54]]],[[[-110.13,54.65],[-109.83,54.55],[-110.04,54.43],[-110.25,54.52],[-110.13,54.65]]],[[[-101.53,54.5],[-101.38,54.41],[-101.7,54.39],[-101.53,54.5]]],[[[-102.72,54.42],[-102.49,54.32],[-102.89,54.32],[-102.72,54.42]]],[[[-102.04,54.29],[-101.75,54.24],[-101.99,54.09],[-102.04,54.29]]],[[[-105.73,54.51],[-105.53,54.37],[-105.73,54.05],[-105.73,54.51]]],[[[-106.19,54.16],[-106.03,54.09],[-106.27,54.01],[-106.19,54.16]]],[[[-102.34,54.14],[-102.17,53.95],[-102.44,54.01],[-102.34,54.14]]],[[[-107.05,53.94],[-107.13,54.11],[-106.87,53.88],[-107.05,53.94]]],[[[-103.6,53.64],[-103.45,53.53],[-103.62,53.62],[-103.97,53.44],[-103.6,53.64]]],[[[-106.16,50.15],[-105.82,50.13],[-105.81,50.01],[-106.16,50.15]]],[[[-98,55.5],[-97.8,55.53],[-98.09,55.41],[-98,55.5]]],[[[-97.91,55],[-97.49,55.18],[-97.73,55.05],[-97.51,55.01],[-97.91,55]]],[[[-98.16,54.9],[-98.07,54.8],[-98.3,54.81],[-98.16,54.9]]],[[[-98.94,54.78],[-98.92,54.85],[-98.7,54.83],[-98.94,54.78]]],[[[-100.59,54.7],[-100.24,54.67],[-100.5,54.57],[-100.59,54.7]]],[[[-94.26,54.87],[-93.59,54.75],[-93.93,54.76],[-94.13,54.59],[-94.04,54.69],[-94.31,54.66],[-94.75,54.41],[-94.26,54.87]]],[[[-100.99,54.31],[-100.73,54.32],[-100.69,54.14],[-101.03,54.2],[-100.99,54.31]]],[[[-98.03,54.42],[-97.78,54.28],[-98.17,54.1],[-98.02,54.37],[-98.35,54.09],[-98.48,54.2],[-98.31,54.29],[-98.73,54.24],[-98.03,54.42]]],[[[-100.68,54.09],[-100.5,54.03],[-100.7,53.98],[-100.68,54.09]]],[[[-101.11,54.16],[-100.9,54.16],[-100.9,53.99],[-101.16,53.96],[-101.11,54.16]]],[[[-100.2,54.25],[-100.04,54.12],[-99.8,54.19],[-100.27,54.03],[-100.15,53.88],[-100.41,54.16],[-100.2,54.25]]],[[[-94.77,53.93],[-94.5,53.96],[-94.73,53.9],[-94.64,53.8],[-94.82,53.85],[-94.49,53.75],[-94.83,53.75],[-94.92,53.89],[-94.77,53.93]]],[[[-92.16,53.88],[-91.85,53.76],[-92.2,53.73],[-92.16,53.88]]],[[[-90.02,53.83],[-90,53.65],[-90.4,53.75],[-90.18,53.83],[-90.02,53.83]]],[[[-99.68,54.03],[-99.73,53.8],[-100.13,53.66],[-100.48,53.8],[-99.89,53.83],[-99.68,54.03]]],[[[-100.59,53.51],[-100.42,53.47],[-100.28,53.64],[-100,53.54],[-99.89,53.19],[-99.76,53.32],[-99.57,53.2],[-99.4,53.37],[-99.4,53.04],[-99.62,53.2],[-99.85,53.07],[-100.32,53.13],[-100.93,53.45],[-100.59,53.51]]],[[[-93.34,53.01],[-92.67,53.17],[-92.53,53.07],[-92.74,52.96],[-93.34,53.01]]],[[[-90.79,52.79],[-90.91,52.93],[-90.48,52.68],[-91.05,52.75],[-90.79,52.79]]],[[[-100.59,53.19],[-99.65,52.88],[-99.67,52.38],[-99.87,52.24],[-99.8,51.73],[-99.65,51.86],[-99.76,51.56],[-100,52.05],[-100.05,51.73],[-100.23,52.21],[-100.02,52.82],[-100.28,52.9],[-100.37,52.65],[-100.4,52.96],[-100.76,52.99],[-100.68,52.75],[-101.04,52.88],[-101.1,53.12],[-100.68,53.08],[-100.59,53.19]],[[-99.98,52.46],[-99.91,52.3],[-99.84,52.54],[-99.98,52.46]]],[[[-99.91,51.45],[-99.62,51.11],[-99.85,51.15],[-99.91,51.45]]],[[[-93.3,51.1],[-93.5,51.21],[-93.38,51.33],[-93.05,51.15],[-93.3,51.1]]],[[[-99.46,51.81],[-99.23,51.62],[-99.2,51.75],[-99.05,51.69],[-99.08,51.67],[-98.92,51.31],[-99.05,51.65],[-98.96,51.71],[-98.83,51.71],[-98.81,51.39],[-98.55,51.26],[-98.66,51.09],[-98.88,51.07],[-98.86,51.26],[-99.07,51.26],[-99.32,51.64],[-99.58,51.51],[-99.46,51.81]]],[[[-93.93,51.07],[-93.76,51.04],[-94.2,50.99],[-93.93,51.07]]],[[[-98.57,51.13],[-98.4,50.96],[-98.64,50.99],[-98.57,51.13]]],[[[-96,50.43],[-95.98,50.43],[-95.76,50.37],[-96.02,50.27],[-96,50.43]]],[[[-97.56,53.25],[-97.08,52.34],[-96.9,51.85],[-96.33,51.29],[-96.64,51.18],[-96.28,51.26],[-96.46,51.08],[-96.33,50.63],[-96.59,50.67],[-96.56,50.41],[-96.88,50.3],[-96.97,51.04],[-96.65,51.34],[-97.01,51.21],[-96.72,51.6],[-96.96,51.73],[-97.27,51.43],[-97.36,52.05],[-97.56,51.91],[-97.51,52.13],[-97.73,52.16],[-97.78,51.88],[-97.93,51.89],[-98.81,52.7],[-98.93,52.91],[-98.41,53.04],[-99.03,53.03],[-99.27,53.19],[-98.96,53.86],[-97.87,53.69],[-98.32,53.98],[-98.19,54.09],[-98.04,53.9],[-97.73,54.05],[-97.98,53.85],[-97.56,53.25]]],[[[-92.64,50.23],[-92.94,50.4],[-93.16,50.64],[-92.92,50.47],[-92.7,50.6],[-92.72,50.37],[-91.84,50.43],[-92.02,50.25],[-92.17,50.37],[-92.2,50.16],[-92.29,50.3],[-92.41,50.15],[-92.42,50.3],[-92.64,50.23]]],[[[-98.5,50.88],[-98,50.3],[-98.44,50.13],[-99.01,51.16],[-98.75,50.89],[-98.5,50.88]]],[[[-91.93,50.1],[-91.84,49.9],[-92.02,49.97],[-91.93,50.1]]],[[[-92.7,49.78],[-92.64,49.65],[-92.84,49.74],[-92.7,49.78]]],[[[-94.31,49.47],[-94.61,49.45],[-94.61,49.64],[-94.83,49.61],[-94.48,49.77],[-94.31,49.47]]],[[[-93.77,49.61],[-93.7,49.5],[-93.96,49.55],[-93.77,49.61]]],[[[-95.05,49.64],[-94.86,49.53],[-95.12,49.44],[-95.05,49.64]]],[[[-94.13,49.44],[-94.09,49.28],[-94.31,49.43],[-94.13,49.44]]],[[[-93.96,49.21],[-93.91,49.31],[-93.67,49.19],[-93.96,49.21]]],[[[-94.79,49.42],[-94.88,49.38],[-94.5,49.27],[-94.77,49.18],[-94.57,49.01],[-94.39,49.29],[-94.11,49.15],[-94.61,48.94],[-94.92,48.94],[-95.32,48.94],[-95.26,49.15],[-94.95,49.21],[-95.12,49.35],[-94.71,49.55],[-94.79,49.42]]],[[[-89.96,53.81],[-89.71,53.67],[-90,53.65],[-89.96,53.81]]],[[[-88.29,53.64],[-88.11,53.5],[-88.35,53.54],[-88.29,53.64]]],[[[-87.39,53.12],[-87.36,53.12],[-87.32,53.04],[-87.39,53.12]]],[[[-89.01,53.01],[-89.03,52.86],[-89.25,52.86],[-89.3,52.99],[-89.01,53.01]]],[[[-87.32,53.04],[-87.34,52.96],[-87.5,53.07],[-87.32,53.04]]],[[[-87.63,52.93],[-87.54,52.84],[-87.85,52.85],[-87.63,52.93]]],[[[-87.34,52.96],[-87.14,52.86],[-87.54,52.86],[-87.34,52.96]]],[[[-87.98,52.96],[-87.81,52.98],[-87.89,52.81],[-87.98,52.96]]],[[[-88.7,52.88],[-88.51,52.85],[-88.95,52.86],[-88.7,52.88]]],[[[-85.28,52.4],[-85.08,52.23],[-85.32,52.27],[-85.28,52.4]]],[[[-87.76,52.24],[-88.15,52.21],[-87.93,52.35],[-87.76,52.24]]],[[[-88.29,52.24],[-88.2,52.19],[-88.48,52.19],[-88.29,52.24]]],[[[-88.52,52.03],[-88.33,52.03],[-88.7,51.94],[-88.52,52.03]]],[[[-87.85,51.05],[-87.77,50.93],[-87.98,50.9],[-87.85,51.05]]],[[[-86.85,50.37],[-86.69,50.35],[-86.98,50.32],[-86.85,50.37]]],[[[-80.24,50.44],[-80.08,50.42],[-80.33,50.26],[-80.24,50.44]]],[[[-88.07,49.94],[-88.14,49.38],[-88.33,49.47],[-88.42,49.34],[-88.55,49.57],[-88.53,49.44],[-88.77,49.41],[-88.59,49.61],[-88.98,49.47],[-89.05,49.55],[-88.89,49.61],[-89.1,49.84],[-88.77,49.92],[-88.96,50.04],[-88.68,50.28],[-88.27,50.12],[-88.33,50.21],[-88.44,50.29],[-88.2,50.23],[-88.26,49.98],[-88.07,49.94]]],[[[-87.85,48.92],[-88.15,48.94],[-88.24,48.94],[-88.02,49.02],[-87.85,48.92]]],[[[-80.68,48.92],[-80.64,48.94],[-80.64,48.92],[-80.68,48.92]]],[[[-72.35,55.25],[-72.33,55.1],[-72.95,54.9],[-73.54,55.03],[-72.35,55.25]]],[[[-67.87,54.85],[-67.59,54.81],[-67.81,54.75],[-67.87,54.85]]],[[[-70.71,54.83],[-70.49,54.55],[-70.91,54.67],[-70.71,54.83]]],[[[-71.59,54.6],[-71.41,54.57],[-71.67,54.5],[-71.59,54.6]]],[[[-72.42,54.3],[-72.54,54.39],[-72.33,54.47],[-71.7,54.52],[-72.16,54.16],[-72.26,54.29],[-72.6,54.15],[-72.85,54.26],[-72.42,54.3]]],[[[-67.52,53.98],[-67.5,53.98],[-67.5,53.96],[-67.52,53.98]]],[[[-69.04,54.78],[-68.95,54.42],[-69.22,54.39],[-69.21,54.55],[-69.52,54.65],[-69.88,54.72],[-69.59,54.35],[-69.92,54.42],[-69.63,54.27],[-69.83,54.17],[-69.48,54.06],[-69.67,54.01],[-69.87,53.92],[-69.87,54.1],[-69.92,54.33],[-70.18,54.06],[-70.05,54.29],[-70.22,54.32],[-70.22,54.44],[-70.31,54.33],[-70.58,54.4],[-70.4,54.39],[-70.4,54.44],[-69.99,54.44],[-70.21,54.72],[-69.86,54.84],[-69.04,54.78]]],[[[-72.69,53.85],[-72.5,53.83],[-72.69,53.76],[-72.69,53.85]]],[[[-73.21,54.19],[-73.28,54.05],[-72.97,54.06],[-73.14,53.98],[-72.82,53.91],[-73.06,53.93],[-73.26,53.76],[-73.41,53.94],[-73.67,53.93],[-73.21,54.19]],[[-73.28,53.96],[-73.11,53.96],[-73.39,54.02],[-73.28,53.96]]],[[[-74.95,53.72],[-74.5,53.7],[-74.96,53.62],[-74.95,53.72]]],[[[-75.23,53.71],[-75.21,53.62],[-75.59,53.64],[-75.41,53.74],[-76.04,53.7],[-75.56,53.92],[-75.06,53.94],[-74.95,53.81],[-74.44,53.99],[-74.28,53.9],[-75.23,53.71]]],[[[-76.16,54.09],[-76.31,54.09],[-76.16,54.06],[-76.41,53.9],[-76.57,53.98],[-76.33,53.85],[-76.76,53.72],[-76.25,53.75],[-76.49,53.64],[-76.16,53.6],[-76.66,53.52],[-76.77,53.61],[-77.38,53.49],[-77.56,53.64],[-77.58,53.77],[-77.12,53.76],[-76.52,54.03],[-76.85,54.11],[-76.51,54.09],[-76.29,54.11],[-76.33,54.25],[-76.16,54.09]]],[[[-75.61,53.57],[-75.78,53.55],[-75.68,53.44],[-76,53.46],[-75.84,53.64],[-75.61,53.57]]],[[[-76.58,53.46],[-76.45,53.38],[-76.73,53.35],[-76.58,53.46]]],[[[-68,53.25],[-68.09,53.07],[-68.4,53.12],[-68,53.25]]],[[[-76.75,53.28],[-76.69,53.15],[-76.78,53.2],[-76.89,53.07],[-76.65,52.99],[-76.86,52.96],[-76.66,52.96],[-76.86,52.95],[-76.93,53.04],[-76.86,53.2],[-76.93,53.25],[-76.77,53.25],[-76.92,53.33],[-76.84,53.41],[-76.75,53.28]]],[[[-67.98,52.8],[-67.76,52.74],[-67.9,52.63],[-67.98,52.8]]],[[[-76.54,52.7],[-76.04,52.51],[-76.71,52.27],[-76.73,52.41],[-76.29,52.54],[-76.72,52.54],[-76.54,52.7]]],[[[-76.55,52.28],[-76.37,52.24],[-76.59,52.2],[-76.55,52.28]]],[[[-75.89,52.21],[-75.76,52.09],[-75.23,52.13],[-76.03,51.99],[-76.13,52.16],[-75.89,52.21]]],[[[-67.52,51.7],[-67.81,51.93],[-67.5,51.85],[-67.52,51.7]]],[[[-70.4,51.88],[-70.16,51.73],[-70.05,51.86],[-69.99,51.56],[-70.11,51.67],[-70.2,51.51],[-70.4,51.88]]],[[[-68.67,50.99],[-68.73,50.86],[-68.76,51.12],[-69.13,51.31],[-68.77,51.14],[-68.42,51.23],[-68.58,51.48],[-68.42,51.34],[-68.35,51.51],[-68.61,51.65],[-68.98,51.56],[-69.18,51.29],[-69.09,51.75],[-69.04,51.6],[-68.48,51.78],[-68.55,51.67],[-68.25,51.56],[-68.15,51.29],[-68.33,51.12],[-68.69,51.11],[-68.67,50.99]]],[[[-72.84,51.23],[-72.61,51.23],[-73.45,50.76],[-72.84,51.23]]],[[[-73.05,51.37],[-73.08,51.28],[-72.76,51.32],[-73.64,50.82],[-73.85,50.43],[-74.09,50.45],[-73.83,51.01],[-73.05,51.37]]],[[[-76.73,49.99],[-76.55,49.94],[-76.73,49.88],[-76.73,49.99]]],[[[-68.69,50.06],[-68.6,50.25],[-68.61,49.81],[-68.69,50.06]]],[[[-77.7,49.92],[-77.36,49.84],[-77.7,49.8],[-77.7,49.92]]],[[[-77.19,49.87],[-77.04,49.77],[-77.27,49.75],[-77.19,49.87]]],[[[-74.25,49.92],[-74.03,49.92],[-74.29,49.72],[-74.44,49.81],[-74.25,49.92]]],[[[-76.82,49.89],[-76.71,49.72],[-76.9,49.65],[-76.82,49.89]]],[[[-70.62,49.53],[-70.49,49.7],[-70.09,49.69],[-70.13,49.53],[-70.27,49.65],[-70.49,49.42],[-70.62,49.53]]],[[[-76.52,49.64],[-76.32,49.5],[-76.68,49.47],[-76.45,49.5],[-76.52,49.64]]],[[[-75.27,49.49],[-75.07,49.41],[-75.28,49.36],[-75.27,49.49]]],[[[-75.41,49.41],[-75.26,49.35],[-75.5,49.31],[-75.41,49.41]]],[[[-71.02,48.94],[-71.02,48.92],[-71.06,48.92],[-71.02,48.94]]],[[[-63.02,55.54],[-63.17,55.6],[-62.97,55.64],[-63.02,55.54]]],[[[-63.7,55.13],[-63.63,54.91],[-63.93,55.04],[-63.7,55.13]]],[[[-66.67,55],[-66.4,55.09],[-66.36,54.83],[-66.67,55]]],[[[-65.39,54.83],[-65.17,54.8],[-65.28,54.7],[-65.39,54.83]]],[[[-61.66,54.58],[-61.26,54.56],[-61.52,54.46],[-61.66,54.58]]],[[[-66.4,54.75],[-66.27,54.65],[-66.27,54.6],[-66.49,54.65],[-66.37,54.44],[-66.67,54.57],[-66.43,54.7],[-66.58,54.81],[-66.4,54.75]]],[[[-60.32,54.57],[-60.13,54.52],[-60.47,54.51],[-60.32,54.57]]],[[[-65.28,54.55],[-65.11,54.47],[-65.3,54.43],[-65.28,54.55]]],[[[-63.55,54.52],[-63.53,54.34],[-63.54,54.42],[-63.79,54.37],[-63.55,54.52]]],[[[-66.27,54.34],[-66.47,54.37],[-66.45,54.2],[-66.49,54.39],[-66.27,54.34]]],[[[-66.55,54.27],[-66.58,54.27],[-66.79,54.52],[-66.55,54.27]]],[[[-63.33,54.44],[-63.26,54.24],[-63.66,54.29],[-63.48,54.33],[-63.49,54.42],[-63.41,54.35],[-63.33,54.44]]],[[[-63.57,54.27],[-63.15,54.23],[-63.46,54.15],[-63.57,54.27]]],[[[-60.73,54.29],[-60.82,54.09],[-60.95,54.16],[-60.73,54.29]]],[[[-66.55,54.27],[-66.53,54.27],[-66.47,54.06],[-66.55,54.27]]],[[[-63.59,54.11],[-63.02,54.14],[-63.68,54.09],[-63.7,54.09],[-63.59,54.11]]],[[[-58.93,54.14],[-58.78,54.14],[-59.11,54.1],[-58.93,54.14]]],[[[-63.19,54.09],[-63.08,53.98],[-63.28,53.93],[-63.19,54.09]]],[[[-63.72,54.09],[-63.7,54.09],[-63.46,53.89],[-64.12,53.8],[-64.18,54.11],[-64.36,54.01],[-64.56,54.06],[-64.49,53.93],[-64.75,53.88],[-64.6,53.83],[-64.86,53.88],[-64.69,53.8],[-65.04,53.88],[-65.3,53.75],[-65.47,53.96],[-65.65,53.91],[-65.45,54.01],[-65.39,53.96],[-65.3,54.26],[-65.21,54.1],[-65.08,54.19],[-64.82,54.07],[-64.82,54.19],[-64.69,54.06],[-64.49,54.11],[-64.73,54.12],[-64.79,54.32],[-64.56,54.36],[-64.48,54.21],[-64.42,54.77],[-64.12,54.27],[-64.01,54.37],[-63.72,54.09]]],[[[-62.45,53.84],[-62.49,53.8],[-62.72,53.8],[-62.45,53.84]]],[[[-64.82,53.77],[-64.52,53.7],[-64.86,53.67],[-64.82,53.77]]],[[[-65.57,53.79],[-65.43,53.74],[-65.7,53.66],[-65.57,53.79]]],[[[-65.46,53.59],[-64.97,53.41],[-65.62,53.51],[-65.46,53.59]]],[[[-66.6,53.2],[-66.49,53.35],[-66.2,53.33],[-66.6,53.2]]],[[[-66.75,53.07],[-66.71,53.17],[-66.51,53.07],[-66.75,53.07]]],[[[-65.32,52.91],[-64.97,52.64],[-65.13,52.76],[-65.45,52.7],[-65.32,52.91]]],[[[-64.78,52.78],[-64.64,52.96],[-64.34,52.54],[-64.78,52.78]]],[[[-65.87,52.55],[-66.4,52.56],[-66.17,52.56],[-66.2,52.88],[-66.05,52.56],[-65.86,52.7],[-65.72,52.59],[-65.87,52.55]]],[[[-63.11,52.13],[-62.97,52.05],[-63.28,52.17],[-63.11,52.13]]],[[[-56.6,51.21],[-56.53,51.1],[-56.73,51.1],[-56.6,51.21]]],[[[-59.28,50.71],[-59.19,50.57],[-59.41,50.64],[-59.28,50.71]]],[[[-57,49.38],[-56.87,49.27],[-57.06,49.18],[-57,49.38]]],[[[-54.01,49.24],[-53.9,49.18],[-54.1,49.17],[-54.01,49.24]]],[[[-6.53,54.72],[-6.23,54.7],[-6.37,54.48],[-6.61,54.55],[-6.53,54.72]]],[[[-163.79,61.23],[-163.51,61.23],[-163.83,61.09],[-163.79,61.23]]],[[[-158.86,60.29],[-158.73,60.16],[-159.15,60.2],[-158.86,60.29]]],[[[-163.83,60.45],[-163.49,60.26],[-163.78,60.15],[-163.71,60.31],[-164.15,60.28],[-163.83,60.45]]],[[[-158.92,60.06],[-158.55,60.04],[-159.13,60],[-158.92,60.06]]],[[[-150.95,60.17],[-151.06,60.3],[-150.66,60.04],[-150.95,60.17]]],[[[-154.32,59.8],[-154.16,59.81],[-154.25,59.78],[-154.16,59.7],[-153.85,59.78],[-154.25,59.65],[-154.67,59.6],[-154.53,59.51],[-154.75,59.48],[-154.47,59.43],[-155.89,59.33],[-155.7,59.61],[-154.32,59.8]]],[[[-155.35,59.22],[-155.05,59.14],[-155.54,59.13],[-155.35,59.22]]],[[[-155.3,58.97],[-155.35,58.98],[-155.59,59.03],[-154.96,58.96],[-155.3,58.97]]],[[[-156.34,58.72],[-155.39,58.66],[-155.79,58.61],[-155.3,58.5],[-156.33,58.61],[-156.34,58.72]]],[[[-156.73,58.08],[-156.01,57.95],[-155.98,57.7],[-156.13,57.84],[-156.88,57.91],[-156.73,58.08]]],[[[-154.34,57.16],[-154.11,57.14],[-154.49,57.06],[-154.34,57.16]]],[[[-138.65,61.46],[-138.45,61],[-139.05,61.42],[-138.65,61.46]]],[[[-134.31,60.26],[-134.17,60.05],[-134.43,60.13],[-134.31,60.26]]],[[[-132.36,59.83],[-133.1,60.33],[-132.5,60.11],[-132.14,59.66],[-132.36,59.83]]],[[[-133.77,59.33],[-133.86,59.14],[-134.06,59.31],[-133.68,59.41],[-133.85,60.03],[-133.58,59.45],[-133.77,59.33]]],[[[-124.08,56.12],[-123.77,56.05],[-123.77,55.85],[-123.75,55.85],[-123.75,55.78],[-123.79,55.79],[-124.04,56.02],[-124.5,56.11],[-124.13,56.1],[-124.94,56.91],[-124.3,56.28],[-123.94,56.29],[-124.08,56.12]]],[[[-112.5,61.52],[-112.52,61.52],[-112.76,61.39],[-113.45,61.44],[-113.77,61],[-115.42,60.83],[-117.2,61.07],[-117.47,61.22],[-116.98,61.11],[-116.51,61.33],[-115.97,61.17],[-115.83,61.29],[-116.08,61.38],[-115.84,61.4],[-115.62,61.61],[-112.5,61.52]],[[-116.75,61.19],[-116.76,61.07],[-116.44,61.12],[-116.75,61.19]]],[[[-117.56,60.65],[-117.25,60.59],[-117.38,60.42],[-118.04,60.45],[-117.56,60.65]]],[[[-121.35,60.76],[-121.05,60.53],[-121.42,60.39],[-121.55,60.48],[-121.18,60.57],[-121.35,60.76]]],[[[-115.16,60.37],[-115.31,60.08],[-115.92,60.17],[-115.16,60.37]]],[[[-118.67,59.84],[-118.5,59.71],[-118.7,59.64],[-119.21,59.76],[-118.67,59.84]]],[[[-122.64,56.15],[-122.16,56.02],[-122.95,56.07],[-122.64,56.15]]],[[[-115.54,55.95],[-115.16,55.92],[-115.4,55.78],[-115.54,55.95]]],[[[-102.4,60.63],[-101.94,60.35],[-101.95,60.01],[-102.24,60.26],[-102.66,60.23],[-102.32,60.39],[-102.4,60.63]]],[[[-104.68,60.01],[-104.61,60.2],[-104.33,60.22],[-104.21,59.93],[-104.33,59.84],[-104.3,60.01],[-104.41,59.94],[-104.68,60.01]]],[[[-106.33,59.82],[-106.4,60.11],[-106.13,59.96],[-106.15,60.13],[-105.72,60.04],[-106.33,59.82]]],[[[-109.35,59.91],[-108.69,59.71],[-109.2,59.78],[-109.29,59.65],[-109.56,59.78],[-109.26,59.71],[-109.35,59.91]]],[[[-106.35,59.18],[-106.15,59.09],[-106.66,59.08],[-106.35,59.18]]],[[[-105.27,59.29],[-104.92,59.22],[-105.82,59.04],[-105.27,59.29]]],[[[-108.28,58.94],[-108.1,58.93],[-108.29,58.79],[-108.28,58.94]]],[[[-109.18,59.6],[-108.76,59.5],[-108.96,59.39],[-108.28,59.5],[-107.82,59.4],[-106.57,59.25],[-107.71,59.34],[-108.19,59.15],[-109.34,59.16],[-110.21,58.91],[-110.39,58.6],[-111.19,58.7],[-109.73,59.52],[-109.18,59.6]]],[[[-111.53,58.68],[-111.38,58.56],[-111.65,58.57],[-111.53,58.68]]],[[[-112.1,58.71],[-111.83,58.75],[-111.84,58.61],[-111.8,58.37],[-112.15,58.34],[-112.49,58.68],[-112.17,58.84],[-112.1,58.71]]],[[[-104.28,58.17],[-104.46,58.01],[-104.5,58.22],[-104.28,58.17]]],[[[-103.05,58.22],[-102.86,58.19],[-103.01,58.1],[-103.25,58.11],[-103.32,57.93],[-103.45,58.16],[-103.47,58.01],[-103.71,58],[-103.49,58.03],[-103.58,58.19],[-103.61,58.44],[-103.27,58.49],[-102.92,58.56],[-102.76,58.4],[-103.05,58.22]]],[[[-106.22,57.59],[-106.13,57.38],[-107.2,57.35],[-106.3,57.71],[-106.08,57.68],[-106.22,57.59]]],[[[-107.64,56.85],[-107.8,56.85],[-107.71,56.98],[-107.64,56.85]]],[[[-108.83,56.8],[-108.62,56.8],[-108.85,56.64],[-108.83,56.8]]],[[[-108.5,56.41],[-108.72,56.62],[-108.41,56.55],[-108.5,56.41]]],[[[-109.69,56.58],[-109.38,56.5],[-109.44,56.34],[-109.69,56.58]]],[[[-101.87,57.54],[-102.12,57.48],[-101.82,57.25],[-102.06,57.2],[-102,57.05],[-102.22,57.09],[-102.28,56.92],[-102.09,56.9],[-102.44,56.78],[-102.26,56.74],[-102.5,56.7],[-102.39,56.6],[-103.27,56.33],[-103.31,56.61],[-103.14,56.52],[-103.03,56.7],[-103.1,56.47],[-102.54,56.78],[-102.83,57.38],[-101.98,58.14],[-102.08,57.98],[-101.8,58.12],[-101.9,57.87],[-101.6,57.93],[-101.51,57.82],[-101.87,57.54]]],[[[-108.22,56.41],[-107.98,56.32],[-108.24,56.27],[-108.24,56.38],[-108.28,56.24],[-108.41,56.32],[-108.22,56.41]]],[[[-108.46,55.79],[-108.68,55.79],[-109.1,55.97],[-109.12,56.15],[-108.63,56],[-108.63,55.82],[-108.43,56.12],[-108.15,56.13],[-108.46,55.79]]],[[[-106.04,55.79],[-106,55.78],[-106.04,55.78],[-106.04,55.79]]],[[[-96.15,61.6],[-96.24,61.61],[-96.15,61.61],[-96.15,61.6]]],[[[-97.51,61.61],[-97.29,61.61],[-97.25,61.27],[-97.51,61.61]]],[[[-98.76,60.89],[-98.53,60.82],[-98.79,60.77],[-98.76,60.89]]],[[[-99.45,60.22],[-99.8,60.26],[-99.81,60.61],[-99.54,60.49],[-99.36,60.69],[-99.25,60.52],[-99.57,60.31],[-99.27,60.36],[-99.1,60.09],[-99.45,60.22]]],[[[-99.67,60.09],[-99.67,59.98],[-99.69,59.98],[-99.67,59.81],[-99.42,59.82],[-99.71,59.78],[-99.76,59.8],[-100.06,59.83],[-100.06,59.72],[-100.13,59.84],[-99.71,59.88],[-100.05,59.98],[-99.89,60.13],[-99.67,60.09]]],[[[-97.81,59.67],[-97.58,59.67],[-97.78,59.49],[-97.81,59.67]]],[[[-97.98,58.84],[-97.78,58.76],[-98.13,58.78],[-97.98,58.84]]],[[[-98.72,58.88],[-98.35,58.85],[-98.64,58.75],[-98.72,58.88]]],[[[-98.26,58.72],[-98.13,58.48],[-98.51,58.61],[-98.26,58.72]]],[[[-93.8,58.24],[-93.58,58.22],[-93.78,58.23],[-93.68,58.12],[-93.8,58.24]]],[[[-99.36,57.02],[-99.18,56.92],[-99.05,57.04],[-98.96,56.89],[-98.67,57.16],[-98.33,57.14],[-98.7,57.23],[-98.47,57.26],[-98.63,57.53],[-98.17,57.68],[-98.39,57.5],[-98.13,57.34],[-98.23,57.11],[-98.61,57.06],[-98.8,56.82],[-99.1,56.9],[-99.23,56.72],[-99.57,56.73],[-99.36,57.02]]],[[[-99.05,56.7],[-98.92,56.79],[-98.82,56.61],[-99.05,56.7]]],[[[-100.37,56.41],[-100.32,56.24],[-100.5,56.25],[-100.37,56.41]]],[[[-96.15,56.22],[-95.95,56.29],[-95.86,56.22],[-96.11,56.23],[-95.98,56.17],[-96.21,56.08],[-96.63,56.15],[-96.15,56.22]]],[[[-99.56,56.32],[-99.51,56.12],[-99.76,56.05],[-99.8,56.23],[-99.67,56.15],[-99.56,56.32]]],[[[-79.41,56.15],[-79.39,56.15],[-79.38,56.05],[-79.41,56.15]]],[[[-73.65,60.52],[-73.46,60.46],[-73.99,60.57],[-73.65,60.52]]],[[[-74.53,59.53],[-73.96,59.43],[-74.75,59.47],[-74.53,59.53]]],[[[-73.8,59.45],[-73.33,59.29],[-73.7,59.3],[-73.8,59.45]]],[[[-71.89,58.95],[-71.94,59.2],[-71.61,58.95],[-71.89,58.95]]],[[[-76.13,58.77],[-75.87,58.68],[-76.16,58.66],[-76.13,58.77]]],[[[-74.66,57.42],[-74.44,57.34],[-74.71,57.27],[-74.66,57.42]]],[[[-74.9,57.23],[-74.75,57.23],[-74.6,57.18],[-75.15,57.14],[-75.58,57.17],[-75.1,57.17],[-75.21,57.3],[-74.9,57.23]]],[[[-73.44,56.66],[-73.55,56.56],[-73.21,56.5],[-73.74,56.52],[-74,56.32],[-74.27,56.46],[-73.44,56.66]]],[[[-74.75,56.32],[-74.31,56.32],[-74.34,56.15],[-73.96,56.15],[-73.91,56],[-74.82,56.1],[-74.75,56.32]]],[[[-63.02,57.18],[-62.82,57.16],[-62.97,57.08],[-63.02,57.18]]],[[[-62.54,56.85],[-62.07,56.82],[-62.5,56.75],[-62.54,56.85]]],[[[-64.25,56.17],[-64.33,56.08],[-64.31,56.24],[-64.25,56.17]]],[[[-64.24,56.1],[-64.08,56.12],[-64.2,56],[-64.24,56.1]]],[[[-63.96,55.92],[-63.94,55.92],[-63.94,55.9],[-63.96,55.92]]],[[[-174.71,64.92],[-174.68,64.73],[-174.99,64.82],[-174.71,64.92]]],[[[-160.09,66.51],[-159.57,66.41],[-160.02,66.5],[-160.14,66.4],[-160.09,66.51]]],[[[-165.43,65.2],[-165.64,65.04],[-165.95,65.15],[-165.43,65.2]]],[[[-123.82,66.37],[-123.75,66.12],[-124.64,66.14],[-124.85,65.92],[-124.99,66.3],[-124.5,66.24],[-123.82,66.37]]],[[[-134.82,62.21],[-134.37,62.19],[-135,62.17],[-134.82,62.21]]],[[[-112.81,66.5],[-112.74,66.36],[-112.84,66.07],[-112.97,66],[-113.61,66.27],[-113.01,66.28],[-112.93,66.05],[-112.92,66.3],[-113.39,66.48],[-112.81,66.5]]],[[[-117.92,65.82],[-118.04,65.66],[-118.45,65.68],[-117.92,65.82]]],[[[-113.03,65.55],[-112.54,65.57],[-112.76,65.45],[-113.03,65.55]]],[[[-113.99,65.4],[-114.02,65.4],[-113.73,65.44],[-113.99,65.4]]],[[[-114.02,65.4],[-113.1,65.4],[-112.94,65.36],[-113.42,65.31],[-112.76,65.23],[-113.29,65.28],[-113.55,65.28],[-113.65,65.39],[-113.77,65.23],[-114.02,65.4]]],[[[-112.52,65.2],[-112.5,65.15],[-112.52,65.15],[-112.57,65.18],[-112.83,65.16],[-112.52,65.2]]],[[[-114.7,64.98],[-114.74,65.1],[-114.37,65.07],[-114.7,64.98]]],[[[-123.18,66.51],[-120.41,66.5],[-120.47,66.37],[-119.62,66.3],[-117.82,66.5],[-117.91,66.4],[-117.46,66.44],[-117.95,66.36],[-117.84,66.27],[-117.6,66.23],[-118.48,65.66],[-119.73,65.78],[-119.58,65.7],[-120.12,65.62],[-119.49,65.32],[-119.93,65.34],[-121.2,64.8],[-121.53,64.87],[-121.33,64.96],[-120.57,65.26],[-120.41,65.57],[-121.53,65.4],[-121.6,65.07],[-122.06,64.93],[-123.52,65.13],[-122.87,65.25],[-122.96,65.48],[-122.15,65.78],[-122.81,65.96],[-121.51,65.92],[-121.23,66.05],[-122.08,66.25],[-123.05,66.25],[-123.12,66.04],[-123.25,66.16],[-123.75,66.12],[-123.75,66.39],[-123.18,66.51]]],[[[-118.34,65.22],[-118.19,65.15],[-118.45,65.07],[-118.13,64.98],[-118.38,65],[-118.39,64.83],[-118.07,64.77],[-118.26,64.71],[-118.83,65.18],[-118.34,65.22]]],[[[-117.84,64.62],[-117.4,64.53],[-117.51,64.38],[-117.51,64.52],[-117.78,64.44],[-118.08,64.54],[-117.84,64.62]]],[[[-123.31,63.92],[-123.01,64.19],[-122.9,63.84],[-123.31,63.92]]],[[[-121.61,64.07],[-121.32,63.86],[-121.77,63.83],[-121.61,64.07]]],[[[-118.09,63.57],[-117.25,63.13],[-117.75,63.09],[-118.12,63.3],[-118.7,63.33],[-118.09,63.57]]],[[[-118.28,63.04],[-118.26,63.02],[-118.52,63.15],[-118.17,63.16],[-118.28,63.04]]],[[[-115.66,63.09],[-116.15,62.77],[-116.36,63.05],[-115.99,62.88],[-115.71,63.2],[-115.66,63.09]]],[[[-119.36,62.24],[-118.92,62.17],[-119.27,62.1],[-119.36,62.24]]],[[[-114.43,62.39],[-114.39,62.39],[-114.3,62.5],[-114.28,62.29],[-113.64,62.04],[-113.42,62],[-112.5,62.08],[-112.79,61.92],[-112.52,61.9],[-113.01,61.71],[-112.66,61.61],[-115.62,61.61],[-115.53,61.76],[-114.83,61.76],[-114.64,61.94],[-115.34,62.23],[-115.25,62.47],[-115.84,62.53],[-115.97,62.82],[-115.8,62.64],[-115.27,62.61],[-114.7,62.34],[-114.43,62.39]]],[[[-102.61,66.5],[-102.61,66.41],[-102.7,66.5],[-102.61,66.5]]],[[[-107.16,66.25],[-107.05,66.17],[-107.4,66.37],[-107.16,66.25]]],[[[-112.43,65.96],[-112.15,65.8],[-112.44,65.8],[-112.43,65.96]]],[[[-110.21,65.43],[-109.95,65.3],[-110.61,65.43],[-110.7,65.66],[-111.27,65.83],[-111.51,65.77],[-111.39,66.02],[-111.01,65.76],[-110.68,65.82],[-110.83,65.71],[-110.48,65.68],[-110.21,65.43]]],[[[-110.55,65.42],[-110.3,65.16],[-110.55,65.17],[-110.55,65.42]]],[[[-112.5,65.15],[-112.46,65.25],[-112.12,65.19],[-112.5,65.15]]],[[[-103.1,65.05],[-102.73,65.04],[-103.23,64.98],[-103.1,65.05]]],[[[-109.64,65.07],[-109.38,64.98],[-109.78,64.94],[-109.75,65.18],[-109.34,65.15],[-109.64,65.07]]],[[[-110.83,64.86],[-110.92,64.79],[-110.98,64.79],[-110.83,64.86]]],[[[-110.43,64.54],[-110,64.56],[-110.79,64.34],[-110.68,64.45],[-111.18,64.59],[-110.59,64.5],[-110.39,64.73],[-110.43,64.54]]],[[[-111.59,64.28],[-110.98,64.15],[-111.46,64.13],[-111.59,64.28]]],[[[-111.97,64.17],[-111.71,64.13],[-112.19,64.14],[-111.97,64.17]]],[[[-108.46,64.34],[-108.43,64.11],[-108.06,64.09],[-108.59,63.99],[-109.16,64.1],[-108.6,64.09],[-108.46,64.34]]],[[[-109.82,64.15],[-110.7,63.84],[-110.14,64.24],[-109.82,64.15]]],[[[-107.31,63.86],[-107.16,63.88],[-107.27,63.74],[-107.8,64.01],[-107.84,64.03],[-107.67,64.07],[-107.38,64.07],[-107.31,63.86]]],[[[-109.33,63.92],[-109.16,63.85],[-109.47,63.73],[-109.33,63.92]]],[[[-111.23,64],[-110.83,63.83],[-111.45,63.91],[-111.28,63.76],[-111.73,63.65],[-111.95,63.76],[-111.65,63.74],[-111.49,64.03],[-111.23,64]]],[[[-111.42,63.65],[-111.02,63.63],[-111.43,63.51],[-111.23,63.63],[-111.58,63.64],[-111.42,63.65]]],[[[-108.87,63.7],[-108.61,63.53],[-108.91,63.53],[-108.87,63.7]]],[[[-108.68,63.49],[-108.35,63.37],[-108.88,63.45],[-108.68,63.49]]],[[[-107.69,63.45],[-107.6,63.25],[-108.13,62.96],[-107.69,63.45]]],[[[-101.25,63.47],[-101.29,62.63],[-101.38,62.95],[-101.51,62.69],[-101.82,62.89],[-102.2,63.17],[-101.38,63.44],[-101.25,63.47]]],[[[-109.16,62.65],[-110.65,62.84],[-111.53,62.62],[-110.43,62.96],[-108.94,62.81],[-109.16,62.65]]],[[[-103.25,62.69],[-103.08,62.57],[-103.38,62.46],[-103.58,62.57],[-103.25,62.69]]],[[[-107.89,62.49],[-107.89,62.36],[-108.1,62.41],[-107.89,62.49]]],[[[-101.96,62.49],[-101.73,62.34],[-101.38,62.42],[-101.49,62.19],[-101.6,62.28],[-101.94,62.14],[-101.96,62.49]]],[[[-107.64,62.33],[-107.62,62.12],[-107.86,62.23],[-107.64,62.33]]],[[[-108.98,61.86],[-109.14,61.84],[-109.27,61.88],[-108.98,61.86]]],[[[-109.69,61.79],[-109.26,61.75],[-109.56,61.62],[-109.82,61.63],[-109.67,61.73],[-110.02,61.65],[-109.69,61.79]]],[[[-110.39,62.5],[-110.79,62.53],[-110.48,62.5],[-111.31,62.3],[-111.65,62.12],[-111.42,62.06],[-112.24,61.62],[-112.46,61.61],[-112.26,61.79],[-112.46,61.7],[-112.5,61.73],[-112.48,61.73],[-112.5,61.79],[-112.38,61.79],[-112.5,61.81],[-111.93,61.97],[-112.1,62.03],[-112.5,61.88],[-112.03,62.1],[-112.48,62.08],[-111.53,62.61],[-111.62,62.37],[-111.31,62.63],[-109.72,62.71],[-109.86,62.51],[-110.39,62.5]],[[-111.75,62.02],[-111.53,62.08],[-111.88,62.11],[-112,62.04],[-111.88,61.94],[-112.17,61.84],[-111.86,61.93],[-111.84,62.05],[-111.75,62.02]],[[-111.67,62.33],[-111.69,62.33],[-111.88,62.16],[-111.67,62.33]]],[[[-108.06,61.62],[-108.06,61.61],[-108.11,61.67],[-107.87,61.79],[-108.06,61.62]]],[[[-100.72,65.91],[-100.42,65.9],[-100.42,66.18],[-100.13,65.89],[-100.72,65.91]]],[[[-99.32,65.97],[-99.8,65.79],[-100.11,65.92],[-99.32,65.97]]],[[[-98.59,65.71],[-98.57,65.69],[-98.82,65.77],[-98.59,65.71]]],[[[-99.67,65.29],[-99.45,65.26],[-99.68,65.16],[-99.67,65.29]]],[[[-95.19,65],[-95.54,64.93],[-95.41,64.77],[-95.62,64.81],[-95.58,64.87],[-96.05,64.92],[-95.93,65.03],[-95.19,65]]],[[[-97.49,64.81],[-97.04,64.77],[-97.08,64.65],[-98.09,64.68],[-97.49,64.81]]],[[[-100.15,64.66],[-100.28,64.53],[-100.81,64.6],[-100.15,64.66]]],[[[-95.84,64.55],[-96.06,64.45],[-96.14,64.64],[-95.84,64.55]]],[[[-98.31,64.66],[-98.37,64.51],[-98.01,64.43],[-98.57,64.54],[-98.5,64.36],[-99.8,64.61],[-98.96,64.53],[-98.31,64.66]]],[[[-95.49,64.01],[-96.19,64.28],[-95.36,64.3],[-94.18,64.05],[-94.29,63.94],[-94.97,64.12],[-95.49,64.01]]],[[[-99.87,63.88],[-100,64.09],[-99.72,64.16],[-99.87,63.88]]],[[[-96.71,64.09],[-96.31,63.96],[-96.64,63.81],[-96.71,64.09]]],[[[-98.33,64.13],[-98.31,63.91],[-98.05,63.94],[-98.35,63.82],[-98.66,64.02],[-98.33,64.13]]],[[[-97.51,63.9],[-97.47,63.77],[-98,64.07],[-97.24,64],[-97.51,63.9]]],[[[-99.07,63.9],[-98.7,63.85],[-98.7,63.63],[-99.23,63.63],[-99.24,63.82],[-98.92,63.72],[-99.07,63.9]]],[[[-96.93,63.68],[-95.99,63.63],[-96.59,63.57],[-96.93,63.68]]],[[[-97.31,63.49],[-97.11,63.23],[-97.47,63.14],[-97.31,63.49]]],[[[-92.72,63.19],[-92.86,63.01],[-92.9,63.15],[-93.02,63.25],[-92.72,63.19]]],[[[-97.99,63.15],[-97.81,63],[-98.04,62.9],[-98,63.02],[-98.4,63],[-98.26,63.12],[-97.95,63.03],[-97.99,63.15]]],[[[-99.32,62.85],[-99.76,62.83],[-99.27,63.18],[-99.32,62.85]]],[[[-95.49,62.98],[-95.84,62.92],[-95.68,62.73],[-96.15,62.9],[-95.82,62.98],[-95.62,63.04],[-95.54,63.21],[-95.49,62.98]]],[[[-101.05,63.39],[-101.12,63.05],[-100.81,63.01],[-101.25,62.68],[-101.23,63.47],[-101.08,63.39],[-100.72,63.59],[-100.7,63.31],[-101.05,63.39]]],[[[-100.27,62.65],[-100.11,62.56],[-100.46,62.54],[-100.27,62.65]]],[[[-97.34,62.43],[-97.91,62.43],[-98.53,62.82],[-97.73,62.83],[-97.65,62.97],[-97.34,62.43]]],[[[-101.08,62.43],[-100.79,62.35],[-101.14,62.37],[-101.16,62.25],[-101.25,62.43],[-101.08,62.43]]],[[[-94.66,62.27],[-95.01,62.26],[-94.88,62.37],[-94.66,62.27]]],[[[-99.69,62.35],[-99.67,62.12],[-100.28,62.21],[-99.69,62.35]]],[[[-97.78,62.05],[-97.55,62],[-97.87,61.94],[-97.78,62.05]]],[[[-97.73,61.81],[-97.5,61.69],[-97.69,61.63],[-97.73,61.81]]],[[[-70.53,66.5],[-70.4,66.51],[-70.05,66.5],[-69.79,66.34],[-69.7,66.5],[-69.68,66.5],[-69.7,66.5],[-69.35,66.46],[-69.13,66.39],[-69.48,66.45],[-69.55,66.36],[-69.28,66.34],[-69.48,66.27],[-69.74,66.14],[-69.87,66.28],[-70.31,66.15],[-70.58,66.33],[-71.06,66.01],[-71.28,65.93],[-71.3,65.93],[-71.03,66.05],[-71.29,66.09],[-71.28,66.5],[-70.53,66.5]]],[[[-71.77,65.4],[-70.71,65.05],[-70.4,64.56],[-70.81,64.62],[-70.58,64.7],[-70.8,64.8],[-71.17,64.63],[-71.84,64.66],[-72.04,64.92],[-71.76,64.8],[-71.39,64.89],[-71.77,65.4]]],[[[-50.53,66.21],[-50.08,66.2],[-50.76,66.21],[-50.53,66.21]]],[[[-49.57,62.56],[-49.33,62.49],[-49.77,62.51],[-49.57,62.56]]],[[[-178.74,68.67],[-177.65,68.32],[-178.07,68.24],[-178,68.42],[-178.74,68.67]]],[[[-176.73,68.04],[-176.17,67.89],[-176.96,67.97],[-176.73,68.04]]],[[[-175.89,67.64],[-176.49,67.68],[-176.04,67.86],[-175.89,67.64]]],[[[-175.18,67.53],[-174.98,67.41],[-175.34,67.3],[-175.18,67.53]]],[[[-173.32,67.06],[-172.37,66.93],[-172.97,66.91],[-173.32,67.06]]],[[[-173.31,66.98],[-173.07,66.84],[-173.31,66.81],[-173.31,66.98]]],[[[-159.17,66.52],[-159.17,66.51],[-159.21,66.51],[-159.17,66.52]]],[[[-153.9,70.61],[-152.89,70.55],[-153.76,70.45],[-153.9,70.61]]],[[[-140.38,68.25],[-140.01,68.13],[-140.1,68.01],[-140.41,68.02],[-140.1,68.08],[-140.38,68.25]]],[[[-131.92,69.16],[-132.1,69.04],[-132.14,69.02],[-132.19,69.07],[-131.92,69.16]]],[[[-132.82,68.67],[-132.46,68.57],[-132.78,68.4],[-132.82,68.67]]],[[[-125.02,67.58],[-124.62,67.51],[-124.89,67.35],[-125.02,67.58]]],[[[-126.43,67.25],[-126.83,67.56],[-126.04,67.32],[-126.43,67.25]]],[[[-125.73,67.34],[-125.82,67.08],[-126.17,67.03],[-126.3,67.22],[-125.73,67.34]]],[[[-126.39,67.02],[-126.08,66.9],[-126.26,66.73],[-126.39,67.02]]],[[[-125.38,67],[-124.85,66.66],[-125.52,66.79],[-125.38,67]]],[[[-112.5,69.93],[-112.5,69.87],[-112.76,69.98],[-112.5,69.93]]],[[[-119.7,68.64],[-119.49,68.34],[-119.82,68.23],[-119.7,68.64]]],[[[-122.26,67.54],[-122.24,67.44],[-122.81,67.47],[-122.26,67.54]]],[[[-122.96,66.51],[-119.82,67.04],[-119.21,66.93],[-120.34,66.51],[-122.96,66.51]]],[[[-118.21,66.51],[-117.61,66.69],[-117.75,66.51],[-118.21,66.51]]],[[[-112.46,69.94],[-112.48,69.93],[-112.5,69.93],[-112.46,69.94]]],[[[-108.29,69.85],[-108.15,69.76],[-108.5,69.79],[-108.29,69.85]]],[[[-106.14,69.49],[-104.24,69.46],[-104.77,69.31],[-106.26,69.39],[-106.14,69.49]]],[[[-105.82,69.26],[-105.55,69.32],[-105.45,69.21],[-105.82,69.26]]],[[[-111.69,68.93],[-111.42,68.86],[-112.05,68.88],[-111.69,68.93]]],[[[-106.04,67.24],[-106.06,67.24],[-105.78,67.26],[-106.04,67.24]]],[[[-102.61,66.51],[-102.74,66.52],[-103.06,66.71],[-102.61,66.51]]],[[[-92.99,69.57],[-92.77,69.63],[-92.74,69.49],[-93.2,69.46],[-92.99,69.57]]],[[[-93.25,69.43],[-92.77,69.39],[-93.08,69.06],[-93.25,69.43]]],[[[-92.81,69.02],[-92.42,69.25],[-92.1,69.21],[-92.81,69.02]]],[[[-98.48,67.44],[-98.16,67.36],[-98.39,67.16],[-98.48,67.44]]],[[[-95.36,67.1],[-95.27,66.9],[-95.87,66.92],[-95.32,66.97],[-95.36,67.1]]],[[[-96.44,67.08],[-96.15,66.95],[-95.94,67.05],[-95.82,66.77],[-96.44,67.08]]],[[[-82.09,68.65],[-82.66,68.58],[-82.71,68.7],[-82.18,68.74],[-82.31,68.93],[-82.16,68.81],[-81.96,68.88],[-82.09,68.65]]],[[[-73.09,70.5],[-72.7,70.38],[-73.3,70.26],[-73.56,70.34],[-73.09,70.5]]],[[[-77.1,69.3],[-77.3,69.43],[-76.99,69.43],[-77.1,69.3]]],[[[-70.75,66.91],[-70.31,66.67],[-70.31,66.71],[-70.31,66.72],[-69.61,66.6],[-69.36,66.55],[-69.59,66.53],[-69.96,66.52],[-70.09,66.52],[-70.4,66.52],[-70.4,66.51],[-70.62,66.52],[-70.71,66.52],[-71.31,66.51],[-71.15,66.96],[-70.75,66.91]]],[[[-153.9,70.61],[-154.29,70.67],[-153.59,70.73],[-153,70.61],[-153.9,70.61]]],[[[-95.16,72.88],[-94.37,72.7],[-94.88,72.64],[-95.16,72.88]]],[[[-21.04,77.1],[-20.19,76.96],[-21.91,77.07],[-21.04,77.1]]],[[[68.73,-70.61],[68.64,-70.61],[68.61,-70.44],[68.73,-70.61]]],[[[101.23,-66],[101.25,-66.05],[101.27,-66.05],[101.25,-66.05],[100.84,-66.11],[101.21,-66.1],[101.25,-66.11],[101.25,-66.12],[100.81,-66.26],[100.59,-66.11],[101.23,-66]]],[[[98.92,-66.2],[99.1,-66.42],[98.62,-66.37],[98.92,-66.2]]],[[[146.25,-42.75],[146.25,-42.81],[146.21,-42.6],[146.25,-42.75]]],[[[146.68,-41.8],[146.83,-41.84],[146.78,-41.98],[146.68,-41.8]]],[[[168.73,-45.09],[168.73,-45.24],[168.66,-45.07],[168.51,-45.12],[168.42,-45.09],[168.35,-44.84],[168.47,-45.09],[168.66,-45.02],[168.73,-45.09]]],[[[167.7,-45.35],[167.48,-45.31],[167.74,-45.32],[167.61,-45.12],[167.83,-45.18],[167.7,-45.44],[167.7,-45.35]]],[[[167.54,-45.55],[167.39,-45.52],[167.38,-45.43],[167.54,-45.55]]],[[[172.41,-43.74],[172.67,-43.8],[172.35,-43.86],[172.41,-43.74]]],[[[169.15,-44.33],[169.15,-44.71],[168.99,-44.65],[169.15,-44.33]]],[[[121.71,-31.95],[121.86,-32.01],[121.77,-32.16],[121.71,-31.95]]],[[[121.84,-32.44],[121.86,-32.74],[121.68,-32.52],[121.84,-32.44]]],[[[120.76,-32.95],[120.81,-33.05],[120.66,-33.03],[120.76,-32.95]]],[[[118.39,-32.96],[118.53,-32.99],[118.43,-33.14],[118.39,-32.96]]],[[[119.16,-33.39],[119.26,-33.49],[119.15,-33.58],[119.16,-33.39]]],[[[136.59,-31.95],[136.84,-31.95],[136.64,-32.1],[136.59,-31.95]]],[[[135.36,-31.95],[135.51,-31.95],[135.5,-32.1],[135.36,-31.95]]],[[[136.32,-31.97],[136.25,-32.25],[136.05,-32.12],[135.87,-32.29],[136.01,-31.95],[136.32,-31.97]]],[[[142.69,-32.11],[142.84,-32.14],[142.6,-32.3],[142.69,-32.11]]],[[[139.17,-35.32],[139.31,-35.44],[139.35,-35.32],[139.36,-35.5],[139.09,-35.52],[139.09,-35.66],[138.89,-35.53],[139.17,-35.32]]],[[[139.22,-35.56],[139.39,-35.57],[139.35,-35.7],[139.22,-35.56]]],[[[143.56,-38.03],[143.65,-38.13],[143.46,-38.13],[143.44,-38.32],[143.36,-38.03],[143.56,-38.03]]],[[[149.14,-32.62],[149.33,-32.62],[149.16,-32.73],[149.14,-32.62]]],[[[148.62,-36.08],[148.67,-35.98],[148.82,-36.14],[148.62,-36.08]]],[[[147.61,-38.03],[147.45,-38.07],[147.66,-37.85],[148.01,-37.89],[147.61,-38.03]]],[[[147.2,-38.07],[147.42,-38.07],[147.3,-38.18],[147.2,-38.07]]],[[[146.25,-39.03],[146.38,-39.14],[146.5,-39.06],[146.47,-39.16],[146.29,-39.2],[146.25,-39.03]]],[[[175.77,-38.69],[176.09,-38.7],[175.85,-38.96],[175.77,-38.69]]],[[[20.5,-29.92],[20.82,-29.95],[20.49,-30.07],[20.5,-29.92]]],[[[32.56,-27.92],[32.52,-28.09],[32.36,-28.07],[32.39,-27.9],[32.56,-27.92]]],[[[25.56,-30.56],[25.75,-30.69],[25.59,-30.71],[25.7,-30.68],[25.56,-30.56]]],[[[35.07,-24.47],[35.11,-24.59],[34.99,-24.55],[35.07,-24.47]]],[[[122.92,-21.94],[123,-22.08],[123.13,-22.02],[123.08,-22.19],[122.83,-21.96],[122.92,-21.94]]],[[[122.7,-23.27],[122.93,-23.28],[122.83,-23.71],[122.6,-23.52],[122.7,-23.27]]],[[[113.85,-23.6],[113.73,-23.98],[113.97,-24.05],[113.83,-24.24],[113.8,-24.11],[113.54,-24.61],[113.53,-23.97],[113.85,-23.6]]],[[[122.3,-26.04],[122.3,-26.16],[122.27,-26.27],[122.17,-26.16],[122.17,-25.99],[122.3,-26.04]]],[[[122.43,-26],[122.48,-26.18],[122.74,-26.16],[122.65,-26.3],[122.35,-26.25],[122.43,-26]]],[[[122.76,-26.16],[123.1,-26.27],[123.12,-26.51],[122.76,-26.16]]],[[[123.16,-26.63],[123.4,-26.84],[122.97,-26.63],[123.16,-26.63]]],[[[118.39,-26.86],[118.43,-26.97],[118.3,-26.97],[118.39,-26.86]]],[[[119.6,-28.42],[119.27,-28.79],[119.05,-28.6],[119.6,-28.42]]],[[[122.26,-29],[122.13,-28.85],[122.38,-28.86],[122.5,-29.31],[122.26,-29]]],[[[119.73,-28.88],[119.99,-28.92],[119.69,-29.08],[119.79,-29.42],[119.61,-29.38],[119.69,-29.23],[119.58,-29.18],[119.4,-29.55],[119.46,-29.15],[119.19,-29.38],[119.26,-29.19],[119.05,-29.15],[119.36,-28.98],[119.62,-29.06],[119.73,-28.88]]],[[[120.66,-29.34],[121.23,-29.5],[120.97,-29.6],[120.56,-29.42],[120.66,-29.34]]],[[[121.35,-29.57],[121.63,-29.75],[121.46,-29.92],[121.35,-29.57]]],[[[122.12,-29.8],[122.29,-29.99],[122.02,-29.84],[122.12,-29.8]]],[[[116.85,-29.95],[117.04,-29.95],[117.03,-30.22],[116.85,-29.95]]],[[[117.72,-29.38],[117.73,-29.67],[117.6,-29.63],[117.47,-29.86],[117.66,-29.88],[117.5,-29.92],[117.49,-30.33],[117.38,-30.25],[117.53,-29.57],[117.38,-29.47],[117.64,-29.51],[117.72,-29.38]]],[[[122.08,-30.56],[122.17,-30.71],[121.9,-30.84],[122.08,-30.56]]],[[[119.31,-30.64],[119.49,-30.66],[119.53,-30.79],[119.46,-30.68],[119.27,-30.73],[119.31,-30.64]]],[[[119.09,-30.71],[119.13,-30.83],[118.87,-30.95],[119.09,-30.71]]],[[[119.75,-30.86],[119.66,-31.03],[119.53,-30.98],[119.75,-30.86]]],[[[117.42,-30.83],[117.47,-30.94],[117.25,-31.04],[117.42,-30.83]]],[[[121.84,-31.13],[121.93,-31.24],[121.68,-31.3],[121.64,-31.5],[121.6,-31.3],[121.84,-31.13]]],[[[121.9,-31.93],[121.9,-31.95],[121.77,-31.93],[121.82,-31.72],[122.17,-31.57],[121.9,-31.93]]],[[[123.75,-22.15],[123.84,-22.39],[123.75,-22.23],[123.75,-22.15]]],[[[129.02,-22.19],[129.29,-22.41],[128.89,-22.7],[128.3,-22.59],[128.28,-22.47],[128.8,-22.24],[129.02,-21.96],[129.24,-22.03],[129.02,-22.19]]],[[[132.38,-22.8],[132.53,-22.8],[132.54,-22.93],[132.38,-22.8]]],[[[129.01,-23.4],[129.02,-23.6],[128.89,-23.52],[129.01,-23.4]]],[[[130.49,-24.57],[130.91,-24.66],[131.33,-24.97],[131.04,-24.94],[130.49,-24.57]]],[[[124.32,-27.94],[124.58,-28.03],[124.08,-27.99],[124.32,-27.94]]],[[[130.9,-29.34],[131.09,-29.34],[131.04,-29.55],[130.84,-29.46],[130.9,-29.34]]],[[[134.91,-31.62],[134.81,-31.35],[135,-31.41],[134.91,-31.62]]],[[[145.75,-22.35],[145.85,-22.42],[145.7,-22.43],[145.75,-22.35]]],[[[139.73,-24.77],[139.89,-24.81],[139.7,-24.89],[139.73,-24.77]]],[[[141.61,-26.16],[141.52,-26.43],[141.32,-26.43],[141.26,-26.27],[141.61,-26.16]]],[[[137.59,-26.57],[137.86,-26.68],[137.88,-26.86],[137.59,-26.57]]],[[[138.02,-26.78],[138.02,-26.92],[137.9,-26.83],[138.02,-26.78]]],[[[137.29,-26.94],[137.2,-26.82],[137.44,-26.98],[137.37,-27.11],[137.29,-26.94]]],[[[135.4,-28.84],[135.61,-28.84],[135.6,-28.96],[135.4,-28.84]]],[[[136.95,-27.88],[137.5,-27.98],[137.53,-28.23],[137.61,-28.11],[137.61,-28.29],[137.79,-28.3],[137.58,-28.34],[137.72,-28.5],[137.59,-28.67],[137.81,-28.82],[137.75,-29],[137.59,-29.05],[137.33,-28.85],[137.33,-29.08],[137.2,-28.84],[137.35,-28.84],[137.31,-28.67],[137.11,-28.88],[137.13,-29],[136.91,-28.96],[136.99,-28.23],[136.8,-27.96],[136.95,-27.88]]],[[[137.77,-28.97],[138.02,-29.08],[137.77,-29.09],[137.77,-28.97]]],[[[139.81,-29.42],[139.48,-29.19],[139.79,-29.19],[139.81,-29.42]]],[[[137.67,-29.11],[137.68,-29.28],[137.14,-29.46],[137.13,-29.23],[137.67,-29.11]]],[[[140.1,-29.69],[140.2,-29.8],[139.96,-29.73],[140,-29.57],[140.18,-29.57],[140.1,-29.69]]],[[[143.64,-30.64],[143.7,-30.83],[143.86,-30.79],[143.64,-30.89],[143.64,-30.64]]],[[[139.93,-30.26],[140.07,-30.45],[139.83,-31.16],[139.51,-30.83],[139.93,-30.26]]],[[[135.24,-31.02],[135.38,-31.02],[135.33,-31.13],[135.09,-31.3],[135.24,-31.02]]],[[[144.01,-31.5],[144.05,-31.71],[143.9,-31.62],[144.01,-31.5]]],[[[135.08,-31.34],[135.35,-31.41],[135.4,-31.63],[135.13,-31.44],[135,-31.53],[135.08,-31.34]]],[[[136.45,-31.28],[136.54,-31.43],[136.58,-31.27],[136.93,-31.41],[136.8,-31.67],[136.54,-31.54],[136.45,-31.28]]],[[[137.68,-31.73],[137.79,-31.28],[137.43,-31.13],[137.72,-31.1],[137.71,-30.94],[137.33,-30.63],[137.44,-30.52],[137.21,-30.15],[137.87,-30.56],[138.11,-31.13],[138.13,-31.35],[137.77,-31.93],[137.55,-31.8],[137.68,-31.73]]],[[[136.32,-31.95],[135.97,-31.84],[135.77,-31.54],[135.6,-31.58],[135.75,-31.39],[135.42,-31.24],[135.4,-31.03],[135.62,-31.23],[136.1,-31.25],[136.32,-31.95]]],[[[136.78,-31.91],[136.85,-31.93],[136.61,-31.95],[136.6,-31.73],[136.78,-31.91]]],[[[150.88,-23.48],[150.99,-23.56],[150.78,-23.52],[150.88,-23.48]]],[[[153.15,-26.82],[153.37,-26.9],[153.35,-27.06],[153.15,-26.82]]],[[[15.89,-13.28],[15.96,-13.45],[15.8,-13.41],[15.89,-13.28]]],[[[15.7,-18.85],[15.73,-19],[15.56,-18.92],[15.7,-18.85]]],[[[16.61,-18.43],[16.8,-18.48],[16.73,-18.73],[16.83,-18.62],[16.76,-18.73],[16.9,-18.85],[15.91,-19.14],[15.92,-18.73],[16.61,-18.43]]],[[[29.84,-11.18],[29.84,-11.2],[29.93,-11.18],[29.84,-11.44],[29.58,-11.42],[29.57,-11.18],[29.84,-11.18]]],[[[27.19,-15.75],[27.3,-15.75],[27.2,-15.86],[27.19,-15.75]]],[[[26,-15.54],[26.01,-15.83],[25.8,-15.9],[26,-15.54]]],[[[32.12,-15.52],[32.51,-15.55],[32.12,-15.8],[31.26,-15.71],[31.11,-15.97],[31.07,-15.73],[30.55,-15.67],[32.04,-15.64],[32.12,-15.52]]],[[[28.64,-16.47],[28.99,-16.68],[28.71,-16.84],[28.56,-16.74],[28.43,-16.88],[28.11,-16.85],[28.06,-17.1],[27.71,-17.18],[27.6,-17.45],[27.09,-17.9],[27.41,-17.48],[27.29,-17.47],[27.38,-17.27],[27.77,-16.83],[27.91,-16.75],[28.06,-16.87],[27.99,-16.76],[28.32,-16.59],[28.26,-16.52],[28.39,-16.59],[28.64,-16.47]]],[[[33.13,-19.06],[33.13,-19.17],[33.01,-19.1],[33.13,-19.06]]],[[[25.58,-20.5],[25.65,-20.63],[25.52,-20.59],[25.58,-20.5]]],[[[25.35,-20.72],[25.56,-20.76],[25.55,-21],[25.31,-20.87],[25.35,-20.72]]],[[[25.99,-20.51],[26.12,-20.63],[25.97,-20.81],[26.28,-20.9],[26.08,-21.16],[25.84,-21.02],[25.99,-20.51]]],[[[34.72,-11.18],[34.97,-11.67],[34.89,-12.06],[34.69,-12.21],[34.83,-12.73],[34.78,-13.33],[34.89,-13.38],[34.85,-13.72],[35.07,-13.73],[35.3,-14.35],[35.2,-14.43],[34.85,-13.99],[34.78,-14.26],[34.59,-14.21],[34.62,-13.73],[34.3,-13.37],[34.28,-12.75],[34.02,-12.28],[34.33,-11.65],[34.2,-11.18],[34.72,-11.18]]],[[[35.24,-14.52],[35.29,-14.77],[35.18,-14.73],[35.24,-14.52]]],[[[35.85,-14.69],[35.92,-14.82],[35.82,-14.87],[35.85,-14.69]]],[[[35.63,-15.07],[35.83,-15.07],[35.85,-15.47],[35.74,-15.54],[35.54,-15.33],[35.63,-15.07]]],[[[48.54,-17.31],[48.64,-17.42],[48.47,-17.64],[48.54,-17.31]]],[[[49.25,-18.44],[49.35,-18.43],[49.29,-18.56],[49.25,-18.44]]],[[[128.91,-16.13],[129.02,-16.21],[128.87,-16.26],[128.88,-16.42],[128.72,-16.38],[128.8,-16.43],[128.63,-16.65],[128.64,-16.17],[128.91,-16.13]]],[[[133.51,-17.62],[133.61,-17.94],[133.42,-18.04],[133.29,-17.88],[133.51,-17.62]]],[[[134.9,-18.27],[135,-18.25],[134.93,-18.51],[134.81,-18.44],[134.9,-18.27]]],[[[127.4,-20.1],[127.53,-20.15],[127.44,-20.3],[127.31,-20.28],[127.4,-20.1]]],[[[135.04,-18.29],[135.15,-18.35],[135.02,-18.44],[135.04,-18.29]]],[[[135.46,-18.56],[135.75,-18.59],[135.75,-18.84],[135.92,-18.8],[135.97,-18.91],[135.83,-18.98],[135.78,-18.85],[135.49,-19.02],[135.34,-18.65],[135.46,-18.56]]],[[[135.6,-19.02],[135.65,-19.14],[135.49,-19.02],[135.6,-19.02]]],[[[147,-20.55],[147.14,-20.63],[146.91,-20.82],[147,-20.55]]],[[[160.43,-11.7],[160.65,-11.82],[160.49,-11.84],[160.43,-11.7]]],[[[10.01,-0.88],[10.14,-0.88],[10.11,-1.07],[9.98,-1.03],[10.01,-0.88]]],[[[9.14,-1.35],[9.34,-1.41],[9.18,-1.48],[9.3,-1.63],[9.14,-1.53],[9.14,-1.35]]],[[[9.41,-1.54],[9.56,-1.63],[9.27,-1.68],[9.41,-1.54]]],[[[9.83,-2.46],[10.14,-2.68],[10.02,-2.71],[9.83,-2.46]]],[[[17.96,-0.62],[18.14,-0.66],[18.19,-1.01],[17.83,-0.7],[17.96,-0.62]]],[[[18.18,-1.58],[18.51,-1.58],[18.27,-1.98],[18.45,-1.93],[18.41,-2.14],[18.59,-2.2],[18.43,-2.24],[18.26,-2.67],[18.3,-2.11],[18.04,-1.76],[18.11,-1.61],[18.22,-1.67],[18.18,-1.58]]],[[[15.41,-4.13],[15.56,-4.24],[15.45,-4.34],[15.29,-4.3],[15.3,-4.17],[15.49,-4.26],[15.41,-4.13]]],[[[14.01,-8.93],[14.1,-8.97],[13.91,-8.97],[14.01,-8.93]]],[[[29.69,-0.09],[29.88,-0.18],[29.85,-0.35],[29.36,-0.68],[29.46,-0.22],[29.69,-0.09]]],[[[30.29,-2.33],[30.41,-2.37],[30.28,-2.47],[30.29,-2.33]]],[[[29.11,-1.63],[29.38,-2.06],[29.08,-2.41],[29.07,-1.93],[29,-2.41],[28.86,-2.5],[29,-2.33],[28.85,-2.15],[28.97,-2.02],[28.88,-2.05],[29.11,-1.63]]],[[[32.65,-0.02],[32.76,0],[32.67,-0.09],[32.76,-0.12],[32.92,0],[33.66,0],[33.66,-0.02],[33.75,0],[33.71,-1.67],[33.53,-1.67],[33.66,-1.76],[33.56,-1.84],[33.31,-1.85],[33.55,-2.02],[33.4,-1.96],[33.19,-2.11],[33.62,-2.18],[33.75,-2.06],[33.75,-2.29],[33.51,-2.37],[33.45,-2.55],[33.13,-2.39],[32.89,-2.44],[32.84,-2.59],[33,-2.87],[32.67,-2.39],[32.52,-2.56],[32.26,-2.26],[32.04,-2.42],[32.12,-2.55],[32,-2.5],[31.98,-2.72],[31.88,-2.64],[31.77,-2.84],[31.86,-2.61],[31.74,-2.64],[31.75,-2.33],[31.62,-2.33],[31.89,-1.05],[31.77,-1.07],[31.68,-0.83],[32.05,-0.31],[31.93,-0.13],[32.21,-0.02],[32.65,-0.02]],[[32.05,-0.26],[32.28,-0.48],[32.34,-0.35],[32.05,-0.26]],[[32.85,-2.02],[33.17,-2.15],[32.93,-1.89],[32.85,-2.02]],[[31.82,-2.28],[31.82,-2.48],[31.93,-2.42],[31.82,-2.28]]],[[[31.02,-4.96],[31.11,-5],[30.93,-5],[31.02,-4.96]]],[[[31.14,-5.18],[31.21,-5.27],[31.04,-5.22],[31.14,-5.18]]],[[[31.74,-7.45],[31.86,-7.42],[32.61,-8.06],[32.93,-8.49],[32.65,-8.48],[32.34,-8.17],[32.19,-8.27],[32.01,-8.19],[31.83,-7.8],[31.52,-7.58],[31.74,-7.45]]],[[[26.48,-8.18],[26.59,-8.38],[26.34,-8.32],[26.48,-8.18]]],[[[26.31,-8.49],[26.56,-8.54],[26.35,-8.78],[26.31,-8.49]]],[[[29.18,-3.34],[29.36,-3.36],[29.32,-3.78],[29.66,-4.37],[29.6,-4.92],[29.79,-5],[29.75,-5.46],[29.95,-5.79],[29.71,-6.28],[29.97,-6.5],[30.15,-6.46],[30.57,-6.97],[30.56,-7.45],[31.14,-8.41],[31.16,-8.77],[31.03,-8.81],[30.67,-8.49],[30.45,-8.53],[30.59,-8.15],[30.3,-7.89],[30.15,-7.28],[29.71,-7],[29.21,-6.1],[29.42,-5.62],[29.1,-5.07],[29.27,-4.15],[29.22,-4.04],[29.17,-4.34],[29.06,-4.3],[29.18,-3.34]]],[[[25.93,-9.02],[25.93,-8.86],[26.03,-8.89],[25.93,-9.02]]],[[[29.68,-8.49],[30.01,-8.54],[29.66,-8.97],[29.45,-8.97],[29.68,-8.49]]],[[[28.43,-9.02],[28.92,-8.47],[29.14,-8.61],[28.74,-9.42],[28.48,-9.43],[28.54,-9.58],[28.34,-9.49],[28.43,-9.02]]],[[[25.71,-10.63],[25.75,-10.77],[25.63,-10.7],[25.71,-10.63]]],[[[26.98,-10.82],[27.16,-10.85],[27.03,-11.02],[26.98,-10.82]]],[[[29.84,-11.18],[29.6,-11.18],[29.62,-11.03],[29.93,-10.83],[30.03,-11.09],[29.84,-11.18]]],[[[33.75,0],[34.15,-0.08],[34.06,-0.13],[34.27,-0.22],[34.32,-0.41],[34.37,-0.19],[34.67,-0.1],[34.87,-0.26],[34.45,-0.35],[34.48,-0.51],[34.13,-0.4],[34.06,-0.82],[34.2,-0.88],[33.87,-1.19],[34,-1.32],[33.77,-1.41],[33.75,0]]],[[[33.77,-2.06],[33.85,-2.24],[33.75,-2.28],[33.77,-2.06]]],[[[35.82,-3.4],[35.89,-3.67],[35.74,-3.86],[35.82,-3.4]]],[[[35.23,-3.38],[35.35,-3.47],[35.24,-3.62],[34.79,-3.82],[34.8,-3.6],[35.23,-3.38]]],[[[34.32,-3.98],[34.39,-4.04],[34.19,-4.13],[34.32,-3.98]]],[[[35.04,-5.97],[35.24,-5.99],[35.35,-6.18],[35.16,-6.25],[35.04,-5.97]]],[[[35.95,-6.88],[35.88,-7.08],[35.98,-7.14],[35.64,-7.16],[35.95,-6.88]]],[[[34.72,-11.18],[34.2,-11.18],[34.15,-10.6],[34.26,-10.4],[33.88,-9.87],[34.04,-9.49],[34.52,-10.01],[34.72,-11.18]]],[[[103.9,-4.8],[104.02,-4.84],[103.93,-4.94],[103.9,-4.8]]],[[[116.44,-0.18],[116.54,-0.26],[116.41,-0.27],[116.44,-0.18]]],[[[116.1,-0.39],[116.28,-0.44],[116.19,-0.51],[116.1,-0.39]]],[[[120.59,-1.76],[120.67,-2.08],[120.5,-1.83],[120.59,-1.76]]],[[[121.41,-2.68],[121.7,-2.68],[121.39,-2.94],[121.41,-2.68]]],[[[141.48,-7.1],[141.55,-6.87],[141.55,-7.25],[141.48,-7.1]]],[[[6.88,10.14],[7.09,10.06],[6.92,10.06],[6.99,9.83],[6.86,9.79],[6.88,10.14]]],[[[4.48,10.66],[4.67,10.44],[4.55,10.14],[4.61,9.84],[4.45,10.13],[4.48,10.66]]],[[[1.29,7.58],[1.41,7.45],[1.45,7.57],[1.45,7.43],[1.41,7.43],[1.29,7.58]]],[[[4.14,6.58],[4.13,6.4],[3.9,6.49],[4.14,6.58]]],[[[3.72,6.62],[3.87,6.62],[3.38,6.47],[3.43,6.61],[3.52,6.53],[3.72,6.62]]],[[[2.42,6.52],[2.52,6.4],[2.35,6.4],[2.42,6.52]]],[[[10.57,5.88],[10.68,5.91],[10.55,5.68],[10.47,5.81],[10.57,5.88]]],[[[1.01,6.05],[0.96,5.8],[0.79,5.85],[1.01,6.05]]],[[[11.48,10.66],[11.6,10.57],[11.47,10.37],[11.48,10.66]]],[[[13.63,9.02],[14.06,8.89],[14.04,8.71],[13.71,8.8],[13.82,8.91],[13.63,9.02]]],[[[12.63,6.49],[12.85,6.49],[12.83,6.3],[12.63,6.49]]],[[[11.38,6.27],[11.47,6.1],[11.32,6.04],[11.38,6.27]]],[[[33,2.08],[33.16,1.93],[33.02,1.93],[33,2.08]]],[[[33.09,1.67],[33.27,1.63],[33.41,1.8],[33.49,1.67],[33.08,1.54],[33.28,1.49],[33.18,1.41],[33.46,1.41],[33.23,1.19],[32.96,1.43],[32.61,1.36],[32.34,1.58],[32.96,1.91],[33,1.7],[32.83,1.82],[32.56,1.49],[33,1.53],[33.09,1.67]]],[[[31.33,2.28],[31.42,1.92],[31.29,1.67],[30.96,1.54],[30.63,1.02],[30.5,1.04],[30.36,1.27],[30.52,1.54],[31.33,2.28]]],[[[31.9,0.41],[32.01,0.35],[31.79,0.22],[31.9,0.41]]],[[[33.35,0.31],[33.2,0.31],[33.31,0.1],[33.35,0.31],[33.44,0.38],[33.55,0.18],[33.71,0.28],[33.75,0],[33.66,0],[33.66,0.02],[32.96,0.02],[32.92,0],[32.3,0.02],[32.56,0.07],[32.7,0.3],[32.7,0.08],[32.87,0.2],[33,0.1],[33.27,0.48],[33.35,0.31]]],[[[41.68,11.18],[41.92,11.18],[41.79,11.07],[41.68,11.18]]],[[[37.22,9.61],[37.32,9.54],[37.2,9.37],[37.22,9.61]]],[[[38.79,8.1],[38.96,8.1],[38.85,7.85],[38.73,7.95],[38.79,8.1]]],[[[38.79,7.71],[38.84,7.54],[38.72,7.52],[38.79,7.71]]],[[[38.54,7.68],[38.66,7.67],[38.63,7.54],[38.54,7.68]]],[[[38.52,7.54],[38.63,7.4],[38.36,7.42],[38.52,7.54]]],[[[37.44,7.1],[37.44,6.86],[37.31,6.85],[37.44,7.1]]],[[[37.86,6.58],[38.06,6.48],[37.79,6.07],[37.62,5.99],[37.66,6.16],[37.82,6.18],[37.86,6.58]]],[[[37.55,5.94],[37.63,5.79],[37.51,5.71],[37.55,5.94]]],[[[36.76,4.78],[37,4.82],[37.01,4.7],[36.74,4.42],[36.76,4.78]]],[[[36.15,4.65],[36.28,3.75],[36.21,3.29],[36.39,2.98],[36.71,2.86],[36.61,2.4],[35.83,3.62],[35.95,4.6],[35.99,4.39],[36.15,4.65]]],[[[34.01,1.71],[33.97,1.6],[33.84,1.67],[34.01,1.71]]],[[[33.75,0],[33.77,0.09],[33.79,0.24],[34.01,0.25],[34.01,0],[33.75,0]]],[[[80.11,9.78],[80.29,9.73],[80.11,9.67],[80.11,9.78]]],[[[98.75,9.02],[98.54,9.1],[98.61,9.17],[98.75,9.02]]],[[[100.33,7.41],[100.17,7.54],[100.15,7.82],[100.28,7.81],[100.25,7.58],[100.38,7.58],[100.44,7.36],[100.33,7.41]]],[[[98.53,2.9],[98.69,2.9],[98.93,2.59],[98.72,2.76],[98.66,2.59],[98.53,2.9]]],[[[99.05,2.44],[99.16,2.42],[98.83,2.32],[98.75,2.48],[98.96,2.44],[98.94,2.58],[99.05,2.44]]],[[[107.18,11.16],[107.11,11.05],[106.97,11.14],[107.18,11.16]]],[[[102.61,5.09],[102.74,4.85],[102.56,4.96],[102.61,5.09]]],[[[111.92,1.23],[111.93,1.13],[111.8,1.16],[111.92,1.23]]],[[[114.5,2.77],[114.63,2.72],[114.43,2.57],[114.5,2.77]]],[[[113.92,2.67],[113.99,2.62],[113.84,2.5],[113.92,2.67]]],[[[124.26,7.97],[124.36,8.02],[124.33,7.8],[124.1,7.82],[124.26,7.97]]],[[[8.39,11.35],[8.37,11.48],[8.51,11.35],[8.39,11.35]]],[[[13.94,13.02],[14.06,12.93],[13.94,12.78],[13.94,13.02]]],[[[14.49,13.24],[14.71,13.23],[14.78,13.07],[14.66,12.9],[14.41,12.92],[14.49,12.77],[14.3,12.85],[14.27,13.03],[14.49,13.24]]],[[[31.38,21.94],[31.33,21.74],[31.16,21.7],[31.17,21.86],[31.38,21.94]]],[[[32.37,18.98],[32,18.65],[32.08,18.96],[32.37,18.98]]],[[[40.85,13.28],[40.96,13.31],[40.91,13.17],[40.85,13.28]]],[[[37.47,12.3],[37.62,12.08],[37.4,11.6],[37.31,11.8],[37,11.91],[37.16,12.3],[37.27,12.19],[37.47,12.3]]],[[[41.73,11.26],[41.92,11.18],[41.69,11.18],[41.73,11.26]]],[[[75.03,19.6],[75.21,19.62],[75.39,19.52],[75.19,19.44],[75.19,19.58],[75.03,19.6]]],[[[78.12,19.06],[78.36,18.94],[78.05,18.86],[78.12,19.06]]],[[[75.15,18.19],[75.06,18.13],[75.06,18.25],[75.15,18.19]]],[[[75.72,16.4],[75.94,16.37],[75.74,16.27],[75.72,16.4]]],[[[76.3,16.25],[76.29,16.12],[76.11,16.17],[76.3,16.25]]],[[[77.99,16.13],[78.15,15.96],[78.34,16.08],[78.46,15.92],[78.31,15.99],[78.16,15.88],[77.99,16.13]]],[[[76.28,15.28],[76.33,15.17],[76.09,15.16],[76.28,15.28]]],[[[74.87,14.18],[75.09,14.01],[74.88,13.98],[74.76,14.09],[74.87,14.18]]],[[[77.74,11.94],[77.89,11.91],[77.83,11.79],[77.74,11.94]]],[[[83.54,21.76],[83.89,21.6],[83.98,21.72],[84.01,21.6],[83.8,21.49],[83.54,21.76]]],[[[84.98,21.53],[84.95,21.35],[85.14,21.45],[85.12,21.26],[84.86,21.37],[84.98,21.53]]],[[[85.43,19.92],[85.58,19.85],[85.47,19.62],[85.25,19.66],[85.12,19.49],[85.43,19.92]]],[[[80.1,13.8],[80.33,13.43],[80.07,13.5],[80.1,13.8]]],[[[98.53,14.77],[98.42,14.82],[98.53,14.85],[98.48,15.17],[98.63,14.99],[98.6,14.66],[98.53,14.77]]],[[[99.03,14.86],[99.16,14.48],[99.06,14.4],[99.03,14.86]]],[[[102.5,18.77],[102.74,18.67],[102.66,18.43],[102.5,18.77]]],[[[103.45,16.59],[103.37,16.68],[103.49,16.74],[103.45,16.59]]],[[[102.59,16.85],[102.57,16.55],[102.41,16.8],[102.59,16.85]]],[[[104.06,15.45],[104.11,15.35],[103.99,15.37],[104.06,15.45]]],[[[107.2,15.07],[107.26,14.94],[107.14,14.98],[107.2,15.07]]],[[[103.69,13.24],[104.02,13.18],[104.24,12.74],[104.47,12.73],[104.46,12.54],[104.19,12.58],[104.11,12.79],[103.78,12.94],[103.69,13.24]]],[[[106.17,11.52],[106.41,11.44],[106.35,11.33],[106.17,11.52]]],[[[107.27,11.2],[107.18,11.18],[107.18,11.29],[107.27,11.2]]],[[[121.09,14.52],[121.2,14.4],[121.29,14.5],[121.33,14.28],[121.42,14.41],[121.5,14.32],[121.19,14.18],[121.09,14.52]]],[[[121.01,14.09],[121.11,14.04],[120.98,13.88],[121.01,14.09]]],[[[31,31.58],[30.89,31.41],[30.57,31.43],[31,31.58]]],[[[31.82,31.42],[32.28,31.2],[31.86,31.23],[31.82,31.42]]],[[[30.53,23.48],[30.76,23.51],[30.67,23.31],[30.53,23.48]]],[[[32.04,22.63],[32.06,22.8],[32.27,22.8],[32.31,22.63],[32.54,22.76],[32.62,23.16],[32.83,23.32],[32.87,23.51],[32.49,23.48],[32.7,23.71],[32.84,23.6],[32.89,23.85],[32.76,23.89],[32.91,24.04],[33.03,23.64],[32.92,23.48],[33.1,23.36],[32.93,23.2],[33,23.11],[32.88,23.12],[33.15,22.8],[32.75,23],[32.34,22.5],[32.17,22.71],[32.04,22.63]]],[[[31.38,21.96],[31.38,21.94],[31.26,21.94],[31.31,22.19],[31.69,22.43],[31.51,22.73],[31.77,22.58],[31.96,22.72],[31.89,22.31],[31.71,22.35],[31.38,21.96]]],[[[35.33,31.2],[35.52,31.2],[35.41,30.95],[35.33,31.2]]],[[[47.29,31.95],[47.37,31.88],[47.22,31.88],[47.29,31.95]]],[[[48.73,30.9],[48.82,30.84],[48.65,30.83],[48.73,30.9]]],[[[46.71,30.9],[46.76,30.76],[46.41,30.79],[46.71,30.9]]],[[[47.38,30.71],[47.53,30.68],[47.5,30.55],[47.38,30.71]]],[[[48.56,30.58],[48.6,30.49],[48.34,30.47],[48.62,30.86],[48.56,30.58]]],[[[53.6,29.8],[53.76,29.73],[53.35,29.58],[53.6,29.8]]],[[[53.46,29.54],[53.66,29.55],[53.83,29.35],[54.1,29.44],[54.18,29.26],[53.95,29.27],[53.46,29.54]]],[[[61.34,31.58],[61.35,31.24],[61.22,31.47],[61.34,31.58]]],[[[62.39,29.99],[62.27,29.79],[62.12,29.88],[62.39,29.99]]],[[[61.56,29.84],[62.19,29.73],[61.61,29.66],[61.56,29.84]]],[[[65.77,29.73],[65.55,29.38],[65.48,29.46],[65.77,29.73]]],[[[64.88,29.54],[64.86,29.36],[65.52,29.37],[64.82,29.1],[64.75,29.36],[64.88,29.54]]],[[[62.96,28.5],[63.43,28.19],[63.41,28.09],[63.13,28.19],[63.41,27.96],[62.73,28.07],[62.96,28.5]]],[[[58.76,27.67],[59.13,27.57],[58.93,27.2],[58.71,27.25],[58.76,27.67]]],[[[68.01,25.01],[68.11,25.01],[68.03,24.87],[68.01,25.01]]],[[[75.56,24.89],[75.66,24.77],[75.39,24.73],[75.56,24.89]]],[[[78.21,24.77],[78.32,24.65],[78.23,24.54],[78.21,24.77]]],[[[75.63,24.61],[75.63,24.43],[75.41,24.45],[75.63,24.61]]],[[[71,24.57],[71.28,24.27],[71.05,24.33],[71,24.57]]],[[[75.43,24.41],[75.54,24.42],[75.37,24.23],[75.43,24.41]]],[[[70,23.73],[69.96,23.88],[70.14,23.63],[69.92,23.64],[70,23.73]]],[[[70.34,23.64],[70.22,23.48],[70.06,23.56],[70.34,23.64]]],[[[73.82,23.36],[74,23.4],[73.92,23.29],[73.82,23.36]]],[[[76.82,22.31],[76.66,22.15],[76.82,22.08],[76.61,21.94],[76.61,22.35],[76.82,22.41],[76.82,22.31]]],[[[87.5,31.95],[87.64,31.91],[87.54,31.82],[87.5,31.95]]],[[[83.1,31.66],[83.3,31.43],[82.83,31.54],[83.1,31.66]]],[[[88.98,31.95],[89.36,31.84],[89.12,31.51],[88.9,31.51],[88.95,31.74],[88.73,31.7],[88.77,31.5],[88.53,31.62],[88.73,31.64],[88.59,31.89],[88.81,31.82],[88.98,31.95]]],[[[84.04,31.5],[84.14,31.32],[83.98,31.25],[84.04,31.5]]],[[[84.93,31.28],[85.12,31.28],[84.91,31.17],[84.93,31.28]]],[[[84,31.2],[84.33,31.17],[83.94,31.05],[84,31.2]]],[[[87.14,31.13],[87.35,30.98],[86.98,30.86],[87.14,31.13]]],[[[85.39,31.07],[85.87,30.97],[85.84,30.75],[85.34,30.87],[85.39,31.07]]],[[[83.56,30.94],[83.67,30.86],[83.54,30.79],[83.56,30.94]]],[[[86.64,31.35],[86.81,31.13],[86.62,31.07],[86.47,30.75],[86.38,30.83],[86.64,31.35]]],[[[81.37,30.75],[81.62,30.71],[81.43,30.56],[81.37,30.75]]],[[[81.21,30.86],[81.25,30.59],[81.11,30.68],[81.21,30.86]]],[[[85.51,29],[85.64,29.03],[85.65,28.79],[85.5,28.81],[85.51,29]]],[[[82.78,24.17],[83.04,24.17],[82.63,24.01],[82.78,24.17]]],[[[79.94,22.96],[80.16,22.74],[79.91,22.84],[79.94,22.96]]],[[[90.53,31.37],[90.68,31.32],[90.62,31.15],[90.49,31.18],[90.53,31.37]]],[[[90.26,30.91],[90.62,30.81],[90.99,30.93],[91.05,30.77],[90.35,30.51],[90.26,30.91]]],[[[90.46,28.96],[90.58,28.96],[90.48,28.82],[90.46,28.96]]],[[[90.65,29.19],[90.75,29],[91.03,28.92],[90.74,28.96],[90.79,28.84],[90.49,28.77],[90.7,28.91],[90.65,29.19]]],[[[95.41,23.36],[95.26,23.32],[95.36,23.59],[95.49,23.52],[95.41,23.36]]],[[[112.5,30.49],[112.48,30.41],[112.3,30.41],[112.5,30.49]]],[[[112.28,28.81],[112.11,28.92],[112.24,29.02],[112.38,28.88],[112.28,28.81]]],[[[102.64,25.01],[102.78,24.87],[102.66,24.67],[102.64,25.01]]],[[[102.83,24.61],[102.94,24.53],[102.78,24.29],[102.83,24.61]]],[[[117.31,31.73],[117.83,31.58],[117.53,31.43],[117.31,31.73]]],[[[119.79,31.69],[119.89,31.62],[119.75,31.49],[119.79,31.69]]],[[[118.93,31.54],[118.83,31.39],[118.67,31.53],[118.93,31.54]]],[[[118.85,31.13],[119,31.15],[119,31.03],[118.85,31.13]]],[[[114.52,30.37],[114.65,30.25],[114.48,30.1],[114.37,30.18],[114.52,30.37]]],[[[116.4,30.22],[116.56,30.18],[116.47,30.08],[116.4,30.22]]],[[[116.31,30.11],[116.52,29.95],[116.29,29.97],[116.31,30.11]]],[[[114.21,30.11],[114.29,30.01],[114.13,29.97],[114.21,30.11]]],[[[114.08,29.99],[114.13,29.91],[113.96,29.95],[114.08,29.99]]],[[[116.21,29.99],[116.2,29.88],[115.99,29.95],[116.21,29.99]]],[[[113.37,29.95],[113.47,29.91],[113.25,29.73],[113.21,29.92],[113.36,29.84],[113.37,29.95]]],[[[115.22,29.32],[115.53,29.3],[115.39,29.19],[115.22,29.32]]],[[[112.8,29.5],[113.17,29.34],[112.94,28.97],[112.98,29.25],[112.81,29.22],[112.94,29.38],[112.8,29.5]]],[[[112.85,28.96],[112.89,28.81],[112.72,28.77],[112.85,28.96]]],[[[116.24,29.73],[116.13,29.25],[116.4,29.27],[116.37,29.1],[116.5,29.3],[116.67,29.15],[116.47,29],[116.63,29.05],[116.73,28.84],[116.5,28.92],[116.46,28.78],[116.41,28.89],[116.22,28.54],[116.32,28.78],[116.2,29],[115.85,29.15],[116.24,29.73]]],[[[116.32,28.61],[116.44,28.52],[116.35,28.44],[116.32,28.61]]],[[[7.15,35.75],[7.24,35.64],[7.03,35.63],[7.15,35.75]]],[[[4.77,35.46],[4.9,35.42],[4.66,35.37],[4.77,35.46]]],[[[2.94,35.03],[2.86,34.88],[2.61,34.92],[2.94,35.03]]],[[[6.15,34.34],[6.37,34.32],[6.44,34.16],[6.12,34.17],[6.15,34.34]]],[[[6.06,34.2],[6.2,34.02],[6.06,33.86],[5.93,34.14],[6.06,34.2]]],[[[8.42,34.02],[9.22,33.97],[9.4,33.83],[8.61,33.92],[8.57,33.76],[8.9,33.72],[8.5,33.44],[7.76,33.8],[8.42,34.02]]],[[[20.92,40.98],[21.05,40.98],[21.11,40.85],[20.92,40.77],[20.92,40.98]]],[[[11.56,33.15],[11.67,33.03],[11.51,33.09],[11.51,32.99],[11.44,33.03],[11.56,33.15]]],[[[27.92,40.25],[28.06,40.15],[27.83,40.18],[27.92,40.25]]],[[[33.32,39.13],[33.52,38.7],[33.38,38.58],[33.17,38.79],[33.37,38.93],[33.32,39.13]]],[[[33.56,38.82],[33.73,38.62],[33.62,38.5],[33.56,38.82]]],[[[30.2,37.79],[30.34,37.79],[30.07,37.65],[30.2,37.79]]],[[[31.32,37.96],[31.71,37.65],[31.43,37.61],[31.32,37.96]]],[[[38.88,38.99],[39.27,38.86],[38.76,38.81],[38.88,38.99]]],[[[43.52,38.74],[43.65,38.69],[43.55,38.59],[43.52,38.74]]],[[[39.47,38.72],[39.73,38.63],[39.33,38.59],[39.47,38.72]]],[[[43.39,38.99],[43.66,38.93],[43.1,38.65],[43.32,38.48],[43.12,38.31],[42.87,38.48],[42.29,38.48],[42.45,38.74],[43.07,38.78],[43.18,38.89],[43.04,38.93],[43.39,38.99]]],[[[38.85,37.72],[38.58,37.42],[38.36,37.46],[38.25,37.58],[38.45,37.63],[38.36,37.6],[38.41,37.5],[38.85,37.72]]],[[[37.44,36.09],[37.66,36.09],[37.66,35.9],[37.44,36.09]]],[[[38.17,36.35],[38.1,36.06],[38.57,35.92],[38.45,35.8],[38.03,36.07],[38.17,36.35]]],[[[42.13,34.38],[42.42,34.34],[42.4,34.2],[42.1,34.28],[42.13,34.38]]],[[[44.98,34.27],[45,34.27],[44.98,34.13],[44.98,34.27]]],[[[43.51,33.87],[43.48,33.69],[43.23,33.72],[43.06,33.98],[43.11,34.36],[43.51,33.87]]],[[[43.4,33.36],[43.59,33.27],[43.46,33.2],[43.4,33.36]]],[[[43.77,32.69],[43.89,32.68],[43.81,32.53],[43.49,32.62],[43.48,33.03],[43.77,32.69]]],[[[46.54,40.98],[46.76,40.98],[47.12,40.78],[46.54,40.98]]],[[[53,40.96],[54.8,40.95],[54.62,40.81],[54.33,40.88],[54.54,40.7],[53.72,40.61],[53.62,40.88],[53.53,40.74],[53.03,40.71],[53,40.96]]],[[[45.02,40.61],[45.44,40.48],[45.64,40.21],[45.25,40.18],[45,40.58],[45.02,40.61]]],[[[47.58,40.04],[47.74,40.01],[47.64,39.92],[47.58,40.04]]],[[[45.2,38.24],[45.45,38.2],[45.56,37.96],[45.4,37.78],[45.77,37.72],[45.66,37.61],[45.95,37.37],[45.66,37.27],[45.59,37.07],[45.31,37.25],[45.27,37.75],[45.05,37.94],[45.2,38.24]]],[[[53.55,39.3],[54.03,38.89],[53.83,38.56],[53.81,37.79],[54.03,36.81],[53.38,36.81],[53.92,36.89],[53.49,36.88],[51.9,36.57],[50.98,36.77],[50.33,37.13],[50.19,37.39],[49.31,37.45],[49.09,37.63],[48.8,38.89],[48.96,39.3],[49.15,39.13],[49.31,39.37],[49.39,39.3],[49.27,39.52],[49.48,40.19],[49.83,40.37],[50.36,40.29],[50.36,40.38],[50.05,40.59],[49.57,40.62],[49.26,40.98],[52.92,40.98],[52.71,40.28],[52.91,39.85],[52.87,40.02],[53.42,40.04],[54.14,39.81],[53.53,39.92],[53.44,39.67],[53.75,39.56],[53.57,39.47],[53.21,39.57],[53.09,39.39],[53.17,39.28],[53.24,39.4],[53.55,39.3]]],[[[54.74,36],[54.84,35.87],[54.46,35.86],[54.74,36]]],[[[51.85,34.78],[52.16,34.4],[51.68,34.33],[51.56,34.45],[51.85,34.78]]],[[[52.84,32.25],[52.96,32.06],[52.75,31.99],[52.84,32.25]]],[[[66.88,40.96],[67.06,40.96],[67.5,40.86],[67.46,40.72],[65.96,40.96],[66.88,40.98],[66.88,40.96]]],[[[64.82,39.92],[64.95,39.8],[64.72,39.81],[64.82,39.92]]],[[[64.03,39.24],[64.41,38.99],[63.96,39.14],[64.03,39.24]]],[[[65.11,37.54],[65.4,37.41],[65.08,37.37],[65.11,37.54]]],[[[61.26,37.25],[61.44,37.23],[61.3,37.15],[61.26,37.25]]],[[[75.31,40.68],[75.35,40.56],[75.17,40.58],[75.31,40.68]]],[[[70.2,40.41],[70.31,40.3],[69.82,40.25],[70.2,40.41]]],[[[73.32,39.13],[73.56,39.02],[73.3,38.88],[73.32,39.13]]],[[[73.68,33.21],[73.71,33.31],[73.82,33.21],[73.68,33.21]]],[[[75.96,32.1],[76.13,31.95],[75.97,31.95],[75.96,32.1]]],[[[88.09,39.57],[88.21,39.54],[87.89,39.44],[88.09,39.57]]],[[[88.4,39.61],[88.39,39.44],[88.15,39.44],[88.4,39.61]]],[[[89.27,37.61],[89.95,37.47],[89.19,37.44],[89.06,37.58],[89.27,37.61]]],[[[88.37,37.18],[88.57,37.13],[88.55,36.97],[88.29,37.05],[88.37,37.18]]],[[[89.46,35.85],[89.57,35.82],[89.28,35.78],[89.46,35.85]]],[[[89.22,35.45],[89.38,35.2],[89.03,35.32],[89.22,35.45]]],[[[87.01,35.1],[87.14,35.05],[86.9,35.03],[87.01,35.1]]],[[[80.99,35.07],[81.23,35.01],[80.95,34.97],[80.99,35.07]]],[[[83.19,35.11],[83.27,35.03],[83.04,34.99],[83.19,35.11]]],[[[88.71,34.67],[89.23,34.56],[89.01,34.49],[88.71,34.67]]],[[[87.13,34.63],[87.36,34.58],[87.15,34.49],[87.13,34.63]]],[[[81.43,33.96],[81.61,34.13],[81.82,33.95],[81.43,33.96]]],[[[79.69,33.65],[79.93,33.58],[79.89,33.46],[79.72,33.48],[79.69,33.65]]],[[[88.72,33.61],[88.76,33.43],[88.6,33.39],[88.72,33.61]]],[[[89.86,33.5],[89.99,33.49],[89.82,33.23],[89.71,33.47],[89.86,33.5]]],[[[88.96,33.17],[89.14,33.17],[89.11,33.03],[88.96,33.17]]],[[[89.74,33.06],[89.87,32.99],[89.78,32.91],[89.74,33.06]]],[[[89.93,32.47],[90,32.4],[89.86,32.4],[89.93,32.47]]],[[[88.86,31.99],[89.08,32.12],[89.1,31.95],[88.86,31.99]]],[[[93.89,38.89],[94,38.89],[93.75,38.86],[93.89,38.89]]],[[[97.5,38.41],[97.79,38.2],[97.4,38.24],[97.5,38.41]]],[[[90.77,38.17],[90.88,38.05],[90.69,38.1],[90.77,38.17]]],[[[96.88,37.2],[97.03,37.11],[96.86,37.09],[96.88,37.2]]],[[[95.84,36.91],[96,36.91],[95.77,36.81],[95.84,36.91]]],[[[94.99,37.06],[95.23,37.04],[95.31,36.85],[95.14,36.81],[95.21,36.91],[94.99,37.06]]],[[[99.98,37.23],[100.33,37.2],[100.54,36.91],[100.42,36.84],[100.74,36.84],[100.75,36.56],[99.8,36.73],[99.62,36.92],[99.9,36.99],[99.75,37.16],[99.98,37.23]]],[[[100.72,36.17],[100.9,36.17],[100.85,35.98],[100.79,36.12],[100.67,35.9],[100.42,35.85],[100.68,35.96],[100.72,36.17]]],[[[90.31,35.82],[90.26,35.69],[90.02,35.75],[90.31,35.82]]],[[[92.61,35.82],[93.05,35.68],[92.9,35.63],[92.61,35.82]]],[[[90.64,35.64],[90.77,35.64],[90.49,35.63],[90.64,35.64]]],[[[91.83,35.6],[92.11,35.5],[91.84,35.5],[91.83,35.6]]],[[[90.3,35.28],[90.65,35.19],[90.14,35.14],[90.11,35.25],[90.3,35.28]]],[[[97.34,35.03],[97.51,34.97],[97.38,34.81],[97.06,34.92],[97.34,35.03]]],[[[97.71,35.07],[97.9,34.81],[97.54,34.79],[97.71,35.07]]],[[[90.29,34.89],[90.65,34.92],[90.38,34.81],[90.44,34.68],[90.29,34.89]]],[[[90.02,33.47],[90.31,33.45],[90.31,33.68],[90.42,33.36],[90.13,33.34],[90.02,33.47]]],[[[90.83,32.15],[90.92,32],[90.72,32.06],[90.83,32.15]]],[[[116.85,40.59],[117.08,40.55],[116.94,40.43],[116.85,40.59]]],[[[116.19,36.13],[116.28,35.91],[116.1,35.96],[116.19,36.13]]],[[[117.2,34.74],[117.36,34.6],[117.25,34.45],[117.09,34.67],[117.2,34.74]]],[[[118.1,34.2],[118.32,34.13],[118.26,34.01],[118.1,34.2]]],[[[118.65,33.21],[118.19,33.21],[118.21,33.37],[118.41,33.23],[118.65,33.34],[118.52,33.63],[118.86,33.34],[118.72,33.07],[118.65,33.21]]],[[[119.14,32.95],[119.27,32.85],[119.26,32.99],[119.44,33.01],[119.42,32.77],[119.17,32.73],[119.14,32.95]]],[[[119.47,32.55],[119.44,32.55],[119.44,32.68],[119.47,32.55]]],[[[116.81,32.55],[116.99,32.4],[116.85,32.23],[116.81,32.55]]],[[[113.91,32.12],[114.03,32.13],[113.99,31.95],[113.91,32.12]]],[[[126.58,37.34],[126.78,37.3],[126.61,37.23],[126.58,37.34]]],[[[140.39,36.1],[140.51,35.96],[140.21,36.07],[140.39,36.1]]],[[[136.14,35.5],[136.25,35.28],[135.88,35.01],[136.14,35.5]]],[[[8.93,47.75],[9.11,47.67],[8.88,47.66],[8.93,47.75]]],[[[9.03,47.81],[9.76,47.51],[9.49,47.48],[9.03,47.81]]],[[[6.92,46.98],[7.05,46.98],[6.64,46.79],[6.92,46.98]]],[[[6.48,46.5],[6.94,46.38],[6.15,46.27],[6.48,46.5]]],[[[8.74,46.04],[8.57,45.75],[8.5,45.95],[8.74,46.04]]],[[[10.82,45.86],[10.71,45.43],[10.57,45.46],[10.5,45.61],[10.82,45.86]]],[[[4.46,43.55],[4.82,43.36],[4.58,43.33],[4.46,43.55]]],[[[18.02,47.06],[18.15,46.94],[17.26,46.71],[17.89,46.89],[18.02,47.06]]],[[[13.12,45.77],[13.47,45.71],[13.06,45.68],[13.12,45.77]]],[[[12.48,45.55],[12.65,45.54],[12.28,45.44],[12.23,45.18],[12.13,45.39],[12.48,45.55]]],[[[12.16,44.65],[12.3,44.62],[12.17,44.54],[12.16,44.65]]],[[[20.64,41.15],[20.8,40.98],[20.64,40.98],[20.64,41.15]]],[[[33.73,47.01],[33.73,46.92],[33.44,46.8],[33.66,47.09],[33.73,47.01]]],[[[30.13,46.38],[30.34,46.35],[30.45,46.06],[30.13,46.38]]],[[[29.97,45.93],[30.15,45.82],[29.84,45.67],[29.97,45.93]]],[[[29.79,45.64],[29.6,45.55],[29.66,45.84],[29.79,45.64]]],[[[28.9,45],[29.09,45.02],[29.05,44.82],[29.24,44.87],[28.74,44.48],[28.9,45]]],[[[43.42,48.55],[43.04,48.05],[43.2,48.03],[43.05,48.02],[43.07,47.72],[42.98,47.85],[42.14,47.54],[42.31,47.96],[42.5,47.8],[42.8,47.86],[42.83,48.17],[43.11,48.33],[43.03,48.51],[43.42,48.55]]],[[[35.18,47.72],[35.29,47.47],[34.94,47.39],[34.6,47.55],[34.06,47.43],[33.75,47.02],[33.93,47.56],[34.28,47.61],[34.98,47.56],[35.18,47.72]]],[[[42.41,46.38],[42.73,46.44],[43.13,46.23],[43.02,46.13],[42.41,46.38]]],[[[38.29,46.29],[38.58,46.03],[38.25,46.16],[38.29,46.29]]],[[[33.78,46.26],[34.15,46.01],[33.79,46.12],[33.78,46.26]]],[[[43.51,46.01],[43.77,45.97],[43.4,45.95],[43.51,46.01]]],[[[38.12,45.83],[38.14,45.92],[38.32,45.8],[38.19,45.72],[38.12,45.83]]],[[[39.42,44.96],[39.08,44.93],[39.38,45.08],[39.42,44.96]]],[[[43.24,41],[43.13,41.08],[43.29,41.1],[43.24,41]]],[[[47.42,48.92],[47.59,48.85],[47.37,48.83],[47.42,48.92]]],[[[46.98,44.34],[46.7,44.43],[46.71,44.68],[46.98,44.95],[47.08,44.84],[47.56,45.61],[47.76,45.4],[47.72,45.63],[47.94,45.52],[47.97,45.37],[47.99,45.67],[48.12,45.4],[48.25,45.72],[48.71,45.6],[48.74,45.91],[48.87,45.84],[49.04,46.12],[49.22,45.99],[49.33,46.28],[49.84,46.2],[49.92,46.57],[50.49,46.96],[50.54,46.88],[51.2,47.12],[51.83,46.93],[52.33,47.07],[52.91,47],[53.41,46.44],[52.97,45.74],[53.09,45.4],[53.7,45.31],[51.72,45.4],[51.27,45.21],[51.2,44.89],[51.32,44.59],[51.59,44.51],[50.32,44.64],[50.25,44.37],[50.84,44.19],[51.37,43.45],[51.28,43.15],[51.68,43.18],[51.9,42.83],[52.75,42.71],[52.42,42.1],[52.58,41.51],[52.82,41.38],[52.87,41.67],[52.73,41.61],[52.73,41.74],[53.13,42.11],[53.83,42.15],[54.01,41.57],[54.76,41.15],[54.77,40.98],[52.99,40.98],[52.87,41.15],[52.95,40.98],[49.24,40.98],[49.12,41.34],[48.37,41.93],[47.47,43],[47.72,43.91],[47.49,43.8],[46.98,44.34]]],[[[46.54,41],[46.75,40.98],[46.54,40.98],[46.54,41]]],[[[60.53,46.77],[60.82,46.75],[60.79,46.65],[60.53,46.77]]],[[[61.44,46.68],[61.27,46.47],[61.17,46.59],[61.44,46.68]]],[[[59.5,46.33],[59.79,46.29],[59.77,46.08],[59.5,46.33]]],[[[60.21,46.68],[60.42,46.48],[60.47,46.63],[60.75,46.64],[60.82,46.49],[61.26,46.48],[61.24,46.26],[60.8,46.09],[60.72,46.38],[60.12,46.36],[59.97,46.5],[60.21,46.68]]],[[[60.27,46.1],[60.75,46.04],[60.42,45.83],[59.81,45.95],[59.68,45.68],[59.72,46.05],[60.27,46.1]],[[60.19,46.01],[60.05,45.95],[60.4,45.9],[60.48,46.01],[60.19,46.01]]],[[[59.28,46.01],[58.69,45.44],[58.53,44.57],[58.27,44.41],[58.21,44.87],[58.67,45.78],[59.28,46.01]]],[[[59.69,43.64],[59.92,43.52],[59.71,43.52],[59.69,43.64]]],[[[57.33,42.36],[57.59,42.26],[57.66,41.93],[57.87,41.82],[57.35,41.56],[57.18,41.77],[57.03,41.74],[57.33,42.36]]],[[[66.88,41],[65.92,40.98],[65.92,41],[66.17,41.1],[66.88,41]]],[[[66.88,41],[67.11,40.98],[66.88,40.98],[66.88,41]]],[[[78.75,46.74],[78.75,46.38],[78.05,46.31],[77.43,46.51],[76.29,46.58],[75.63,46.48],[75.47,46.62],[75.67,46.65],[75.5,46.68],[75.37,46.57],[75.45,46.52],[74.9,46.41],[74.75,46.09],[74.23,45.98],[74.27,45.61],[74.05,45.32],[74.17,45.06],[73.43,45.58],[73.57,45.77],[73.39,45.8],[73.72,45.98],[73.63,46.13],[74,46.18],[74.02,46.41],[74.84,46.85],[75.32,46.7],[76.16,46.81],[76.38,46.62],[76.72,46.68],[76.9,46.55],[76.85,46.71],[77.12,46.54],[77.87,46.66],[78.31,46.45],[78.35,46.62],[78.75,46.74]]],[[[77.3,43.93],[78.18,43.83],[77.89,43.71],[77.11,43.8],[77.3,43.93]]],[[[68.48,42.49],[68.61,42.39],[68.33,42.25],[68.48,42.49]]],[[[78.13,42.75],[78.09,42.6],[78.33,42.59],[77.83,42.44],[77.52,42.16],[76.92,42.16],[76.29,42.31],[76.18,42.46],[78.13,42.75]]],[[[75.04,41.9],[75.34,41.8],[75.1,41.76],[75.04,41.9]]],[[[72.75,41.84],[73.06,41.77],[72.74,41.74],[72.75,41.84]]],[[[67.91,41.24],[68.2,41.21],[68.17,41.11],[67.98,41.08],[67.91,41.24]]],[[[85.68,48.81],[86.03,48.81],[85.78,48.66],[85.52,48.71],[85.68,48.81]]],[[[84.68,47.78],[84.33,47.69],[83.04,48.17],[83.03,48.27],[83.5,48.24],[83.6,48.37],[83.38,48.5],[83.49,48.92],[83.54,48.45],[83.97,48.34],[83.52,48.25],[84.77,47.88],[84.68,47.78]]],[[[87.39,47.4],[87.58,47.42],[87.58,47.22],[87.37,47.25],[87.28,47.01],[87.03,47.31],[87.39,47.4]]],[[[87.33,46.98],[87.58,46.89],[87.36,46.85],[87.33,46.98]]],[[[80.6,46.69],[81.19,46.67],[81.21,46.51],[80.82,46.49],[80.6,46.69]]],[[[78.75,46.38],[78.77,46.71],[78.75,46.74],[79.15,46.82],[79.24,46.65],[78.75,46.38]]],[[[81.55,46.5],[81.97,46.32],[82.13,45.73],[81.37,46.01],[81.55,46.5]]],[[[82.64,45.12],[83.13,44.9],[83.1,44.77],[82.7,44.87],[82.64,45.12]]],[[[81.11,44.72],[81.39,44.58],[81.09,44.5],[81.11,44.72]]],[[[86.69,42.23],[87.36,42.01],[87.45,41.81],[87.12,41.93],[86.31,41.8],[86.75,41.88],[86.69,42.23]]],[[[97.36,48.89],[97.51,48.8],[97.14,48.81],[97.36,48.89]]],[[[92.57,48.31],[92.83,48.22],[92.55,48.07],[92.57,48.31]]],[[[93.13,48.2],[93.43,48.21],[93.23,47.96],[93.01,48.03],[93.13,48.2]]],[[[92.24,48.37],[92.5,48.31],[92.44,48.03],[92.07,47.74],[91.95,47.99],[92.31,48.14],[92.24,48.37]]],[[[93.25,47.81],[93.61,47.64],[93.47,47.56],[93.25,47.81]]],[[[99.13,45.68],[99.23,45.51],[98.95,45.58],[99.13,45.68]]],[[[100.63,42.49],[100.89,42.44],[100.55,42.34],[100.63,42.49]]],[[[117.6,48.91],[117.2,48.57],[116.94,48.81],[117.6,48.91]]],[[[117.71,47.96],[117.88,47.81],[117.57,47.64],[117.71,47.96]]],[[[117.57,45.58],[117.79,45.58],[117.64,45.42],[117.22,45.4],[117.57,45.58]]],[[[116.6,43.39],[116.72,43.25],[116.48,43.23],[116.6,43.39]]],[[[132.1,47.38],[132.1,47.37],[132.01,47.29],[132.1,47.38]]],[[[124.41,46.86],[124.43,46.63],[124.29,46.75],[124.41,46.86]]],[[[124.02,46.83],[124.19,46.81],[124.26,46.53],[124.02,46.83]]],[[[124.19,45.38],[124.43,45.27],[124.37,45.17],[124.02,45.27],[124.19,45.38]]],[[[132.33,45.37],[132.67,45.35],[132.86,45.06],[132.45,44.52],[132.05,44.75],[131.97,45.16],[132.33,45.37]]],[[[127.22,42.68],[127.32,42.62],[127.09,42.61],[127.22,42.68]]],[[[5.27,53.07],[5.84,52.58],[5.58,52.6],[5.01,52.33],[5.01,52.63],[5.29,52.7],[5,52.94],[5.27,53.07]]],[[[3.95,51.81],[4.31,51.65],[3.82,51.74],[3.95,51.81]]],[[[4.04,51.86],[4.61,51.7],[4.34,51.65],[4.04,51.86]]],[[[3.52,51.75],[3.67,51.62],[4.11,51.65],[4,51.55],[4.28,51.45],[3.67,51.61],[3.43,51.45],[3.52,51.75]]],[[[3.54,51.45],[3.91,51.37],[2.94,51.37],[3.54,51.45]]],[[[21.75,53.8],[21.8,53.69],[21.61,53.75],[21.75,53.8]]],[[[13.92,53.85],[14.57,53.85],[14.61,53.59],[13.92,53.85]]],[[[12.54,53.51],[12.77,53.44],[12.7,53.32],[12.54,53.51]]],[[[30.54,50.63],[30.28,51.04],[30.54,51.22],[30.54,50.63]]],[[[30.74,50.18],[31.11,50],[31.51,50.02],[31.55,49.81],[31.41,49.78],[31.42,49.99],[31.07,49.97],[30.74,50.18]]],[[[32.89,49.44],[33.22,49.05],[32.81,49.07],[31.77,49.64],[32.7,49.34],[32.72,49.58],[32.89,49.44]]],[[[49.06,55.5],[49.26,55.25],[49.44,55.3],[49.35,55.47],[49.88,55.35],[50.05,55.46],[50.84,55.45],[49.92,55.33],[49.39,54.99],[48.93,54.95],[49.1,54.62],[48.47,54.32],[49,53.93],[49.5,54.16],[49.17,53.93],[49.26,53.81],[49.07,53.85],[49.01,53.54],[49.77,53.44],[49.09,53.37],[48.86,53.59],[48.96,53.84],[48.35,54.25],[48.43,54.6],[48.82,54.64],[48.86,55],[49.32,55.18],[49.03,55.4],[49.06,55.5]]],[[[45.1,53.09],[45.48,53.05],[45.35,52.91],[45.1,53.09]]],[[[48.08,52.35],[48.14,52.24],[47.9,52.18],[48.08,52.35]]],[[[47.37,52.01],[47.37,52],[47.29,51.99],[47.37,52.01]]],[[[47.29,51.99],[47.29,51.97],[47.15,51.93],[47.29,51.99]]],[[[46.7,49.21],[46.79,49.1],[46.63,49.08],[46.7,49.21]]],[[[64.81,52.8],[64.93,52.68],[64.6,52.5],[64.81,52.8]]],[[[58.79,51.86],[59.14,51.78],[58.67,51.69],[58.79,51.86]]],[[[64.12,50.15],[64.07,50.08],[64.02,50.37],[64.29,50.47],[64.12,50.15]]],[[[78.53,55.05],[78.75,55],[78.53,54.87],[78.53,55.05]]],[[[77.06,54.88],[77.17,54.79],[76.85,54.78],[77.06,54.88]]],[[[77.78,54.65],[77.43,54.56],[77.29,54.67],[77.45,54.75],[77.29,54.95],[77.52,55.05],[78.11,54.98],[78,54.87],[77.83,54.87],[77.83,54.96],[77.58,54.93],[77.78,54.9],[77.62,54.78],[77.78,54.65]]],[[[78.05,54.62],[78,54.49],[77.78,54.55],[78.05,54.62]]],[[[71.91,54.03],[72.07,53.96],[72.03,53.93],[71.98,53.97],[71.85,53.98],[71.89,53.82],[71.83,53.93],[71.84,53.98],[71.91,54.03]]],[[[72.95,53.93],[72.99,53.74],[72.82,53.83],[72.95,53.93]]],[[[77.42,53.33],[77.48,53.21],[77.29,53.25],[77.42,53.33]]],[[[73.03,53.38],[73.39,53.37],[73.39,53.11],[73.03,53.38]]],[[[69.48,50.56],[69.57,50.45],[69.39,50.43],[69.48,50.56]]],[[[69.17,50.58],[69.17,50.57],[68.99,50.4],[69.21,50.32],[69.13,50.19],[68.64,50.25],[68.79,50.54],[69.17,50.58]]],[[[75.39,49.95],[75.59,49.86],[75.2,49.79],[75.39,49.95]]],[[[80.09,55.53],[80.16,55.44],[79.85,55.42],[80.09,55.53]]],[[[81.56,54.12],[81.7,54.31],[83.08,54.83],[81.56,54.12]]],[[[81.56,54.12],[81.56,54.11],[81.21,53.96],[81.56,54.12]]],[[[79.58,53.15],[79.76,52.82],[79.38,52.94],[79.58,53.15]]],[[[81.25,52.48],[81.45,52.56],[81.25,52.38],[81.25,52.48]]],[[[87.63,51.78],[87.83,51.34],[87.63,51.73],[87.36,51.75],[87.63,51.78]]],[[[83.94,49.41],[83.67,49.42],[83.39,49.64],[83.85,49.65],[83.66,49.53],[83.94,49.41]]],[[[83.58,48.94],[84.16,49.12],[84.11,49.3],[84.49,49.21],[83.58,48.94]]],[[[92.29,55.78],[92.33,55.78],[92.33,55.76],[92.29,55.78]]],[[[100.97,55.4],[101.25,55.33],[100.88,55.33],[100.97,55.4]]],[[[92.46,55.33],[92.64,55.3],[92.33,55.34],[92.29,55.23],[91.85,55.05],[91.14,55.04],[90.95,54.83],[91.08,54.57],[90.9,54.62],[90.98,55.03],[92.02,55.2],[92.37,55.52],[92.46,55.33]]],[[[91.1,54.59],[91.3,54.52],[91.32,54.38],[91.49,54.31],[91.61,54.07],[91.54,53.95],[91.72,53.98],[91.45,53.79],[91.55,54.09],[91.17,54.39],[91.24,54.5],[91.1,54.59]]],[[[100.37,51.43],[100.59,51.62],[100.81,51.38],[100.75,51.04],[100.46,50.55],[100.15,50.5],[100.37,51.43]]],[[[92.88,50.68],[93.42,50.26],[92.55,49.99],[92.23,50.43],[92.88,50.68]]],[[[90.92,50.21],[91.14,50.11],[90.97,50.08],[90.92,50.21]]],[[[90.53,49.59],[90.73,49.55],[90.6,49.38],[90.4,49.5],[90.53,49.59]]],[[[92.86,49.34],[93.8,49.1],[93.36,48.95],[93.3,49.12],[92.79,49.24],[92.86,49.34]]],[[[101.82,55.78],[102.43,55.55],[102.29,55.33],[102.3,55.54],[101.86,55.38],[101.58,55.48],[102.14,55.53],[101.8,55.6],[101.82,55.78]]],[[[103.05,55.78],[103.32,55.63],[103.4,55.2],[103.18,54.96],[103.35,55.25],[103.05,55.78]]],[[[103.38,53.46],[103.27,53.71],[102.79,53.76],[103.25,53.75],[102.92,54.09],[103.19,54.67],[103.49,54.11],[103.27,54.39],[103.01,54.12],[103.76,53.46],[103.45,53.58],[103.38,53.46]]],[[[111.64,52.7],[111.48,52.54],[111.4,52.63],[111.64,52.7]]],[[[106.96,53.04],[106.74,53.03],[108.18,53.9],[109.09,55.03],[109.2,55.57],[109.57,55.78],[109.91,55.76],[109.56,54.15],[109.12,53.53],[109.03,53.87],[108.76,53.77],[108.52,53.5],[108.85,53.6],[108.98,53.38],[108.28,53.11],[108.16,52.78],[108.11,52.91],[107.97,52.73],[107.51,52.71],[106.79,52.31],[106.35,52.33],[105.91,51.72],[104.77,51.45],[103.73,51.65],[105.22,51.92],[106.89,53.01],[107.73,53.23],[107.8,53.4],[106.96,53.04]],[[104.48,52.13],[104.63,52.04],[104.37,52.26],[104.48,52.13]]],[[[113.05,55.25],[113.07,55.15],[112.85,55.17],[113.05,55.25]]],[[[115.6,50.23],[115.62,50.05],[115.75,50.16],[115.95,50.06],[115.36,49.92],[115.6,50.23]]],[[[117.62,49.33],[117.79,49.14],[117.62,48.92],[117.11,48.92],[117.62,49.33]]],[[[128.54,54.65],[128.76,54.46],[128.28,54.62],[128.37,54.42],[127.95,54.56],[128.05,54.35],[127.84,54.32],[128.23,54.25],[127.94,54.24],[128.03,54.11],[127.53,54.29],[127.41,54.55],[127.62,54.64],[127.66,54.53],[128.09,54.75],[128.41,54.61],[128.54,54.72],[129.07,54.72],[128.54,54.65]]],[[[132.41,51.06],[132.3,50.82],[132.03,50.79],[132.41,51.06]]],[[[130.33,50.43],[130.82,50.27],[130.43,50.22],[130.33,50.43]]],[[[139.82,53.57],[139.79,53.33],[139.61,53.46],[139.82,53.57]]],[[[141,53.51],[141.42,53.28],[140.93,53.42],[141,53.51]]],[[[136.66,52.11],[136.76,51.97],[136.45,51.88],[136.43,52.05],[136.66,52.11]]],[[[139.98,52.21],[140.16,52.21],[139.66,51.96],[139.98,52.21]]],[[[140.21,51.7],[140.6,51.62],[140.14,51.53],[140.21,51.7]]],[[[137.41,50.37],[137.37,50.26],[137.11,50.32],[137.41,50.37]]],[[[136.4,49.95],[136.58,49.88],[136.23,49.71],[136.4,49.95]]],[[[160.28,54.9],[160.36,54.72],[159.99,54.75],[160.28,54.9]]],[[[10.89,60.87],[11.25,60.6],[11.25,60.4],[10.7,60.78],[11.02,60.72],[10.89,60.87]]],[[[10.24,60.05],[10.33,59.96],[10.02,60],[10.24,60.05]]],[[[16.79,61.27],[16.83,61.18],[16.58,61.21],[16.79,61.27]]],[[[14.58,61.02],[15.12,60.89],[14.99,60.74],[14.58,61.02]]],[[[12.79,59.58],[12.7,59.47],[12.44,59.67],[12.79,59.58]]],[[[17.05,59.51],[16.33,59.45],[16.57,59.61],[17.26,59.49],[17.05,59.51]]],[[[17.36,59.6],[17.71,59.45],[17.45,59.41],[17.59,59.24],[17.28,59.24],[17.35,59.4],[17.09,59.45],[17.43,59.47],[17.36,59.6]]],[[[15.46,59.31],[16.22,59.24],[15.82,59.13],[15.28,59.27],[15.46,59.31]]],[[[15.57,58.54],[15.97,58.52],[15.6,58.44],[15.57,58.54]]],[[[13.97,59.01],[13.95,58.81],[13.64,58.84],[13.91,58.77],[13.58,58.68],[13.25,58.49],[13.14,58.71],[12.35,58.37],[12.67,58.65],[12.46,58.79],[12.83,59.1],[13.28,58.9],[13.18,59.36],[13.23,59.26],[13.32,59.37],[13.51,59.25],[13.58,59.4],[14.02,59.34],[13.97,59.01]]],[[[14.85,58.81],[15.01,58.52],[14.17,57.78],[14.28,58.3],[14.85,58.81]]],[[[28.39,61.61],[28.3,61.6],[28.3,61.61],[28.39,61.61]]],[[[33.53,61.59],[33.55,61.59],[33.53,61.57],[33.53,61.59]]],[[[24.83,61.6],[24.87,61.6],[24.87,61.59],[24.83,61.6]]],[[[28.43,61.59],[28.68,61.5],[28.28,61.48],[28.43,61.59]]],[[[23.82,61.6],[23.51,61.47],[23.69,61.6],[23.82,61.6]]],[[[24.35,61.61],[24.65,61.5],[24.3,61.52],[24.11,61.33],[24.35,61.61]]],[[[25.66,61.19],[25.58,61.22],[25.51,61.19],[25.31,61.6],[25.4,61.6],[25.66,61.19]]],[[[28.17,61.5],[28.13,61.44],[28.28,61.38],[28.61,61.2],[28.65,61.37],[28.85,61.25],[28.13,61.05],[27.82,61.17],[28.39,61.17],[27.69,61.25],[27.77,61.35],[27.35,61.46],[27.93,61.37],[27.93,61.61],[28.17,61.5]]],[[[30.76,61.6],[30.94,61.61],[30.98,61.61],[31.29,61.59],[31.33,61.6],[31.33,61.61],[31.68,61.33],[32.56,61.12],[32.96,60.63],[32.58,60.5],[32.63,60.22],[32.21,60.12],[31.73,60.25],[31.55,59.93],[31.09,59.91],[30.5,60.82],[30.06,61.1],[29.88,61.23],[30.03,61.14],[30.28,61.33],[30.22,61.52],[30.54,61.54],[30.63,61.6],[30.76,61.6]]],[[[28.97,59.93],[28.85,59.78],[28.52,59.86],[28.97,59.93]]],[[[31.55,58.4],[31.73,58.14],[30.91,58.22],[31.27,58.47],[31.55,58.4]]],[[[27.82,58.48],[27.51,58.23],[27.86,58.15],[28.13,58.05],[28.07,57.85],[27.58,58.03],[27.03,58.93],[27.73,58.99],[27.82,58.48]]],[[[36.17,61.61],[36.25,61.46],[36.44,61.52],[36.49,61.14],[35.64,60.87],[35.48,61.38],[34.7,61.61],[36.17,61.61]]],[[[37.29,60.95],[37.47,60.81],[37.2,60.84],[37.29,60.95]]],[[[38.86,60.77],[39.18,60.65],[39.11,60.38],[38.86,60.77]]],[[[37.75,60.33],[38.01,60.05],[37.31,60.09],[37.13,60.32],[37.75,60.33]]],[[[38.5,59.58],[38.33,59.77],[38.61,59.78],[38.5,59.58]]],[[[37.88,58.98],[37.57,58.96],[37.71,59.12],[37.92,59.11],[37.78,59.06],[38.63,58.56],[39.01,58.49],[38.85,58.09],[38.58,58.24],[38.59,58.08],[38.28,58.08],[38.41,58.2],[37.45,58.54],[37.66,58.48],[37.64,58.62],[38.1,58.5],[38.08,58.84],[37.63,58.95],[37.88,58.98]]],[[[55.1,57.4],[55.33,57.3],[55.55,57.4],[55.59,57.22],[55.11,57.34],[55.04,57.09],[54.8,57.01],[54.58,57.05],[54.4,56.95],[54.23,56.96],[54.27,56.75],[54.1,56.78],[54.14,57.01],[54.54,57.11],[54.76,57.03],[55.1,57.4]]],[[[64.92,60.72],[65.19,60.63],[65,60.58],[64.92,60.72]]],[[[60.64,55.83],[60.69,55.79],[60.69,55.78],[60.64,55.83]]],[[[68.2,60.45],[68.12,60.38],[67.93,60.39],[68.2,60.45]]],[[[71.89,56.19],[72.01,56.05],[71.78,56.13],[71.72,56.04],[71.62,56.19],[71.89,56.19]]],[[[101.23,59],[100.37,58.31],[100.37,58.61],[100.85,58.76],[101.02,59.04],[101.23,59]]],[[[99.93,58.47],[100.37,58.3],[99.98,58.3],[99.54,58.53],[99.33,58.45],[99.49,58.53],[99.16,58.56],[99.37,58.61],[99.14,58.7],[99.93,58.47]]],[[[92.26,55.8],[92.29,55.8],[92.29,55.79],[92.26,55.8]]],[[[92.29,55.79],[92.33,55.78],[92.29,55.78],[92.29,55.79]]],[[[101.31,59.02],[102.74,58.78],[102.89,58.29],[102.52,58.76],[101.31,59.02]]],[[[103.3,57.66],[102.96,57.31],[103.49,57.25],[103.36,57.15],[103.62,56.98],[102.79,57.36],[103.3,57.66]]],[[[101.34,57.02],[101.7,57.02],[101.34,56.92],[101.34,57.02]]],[[[102.44,57.56],[102.34,56.88],[102.13,57.33],[102.66,57.98],[102.83,57.88],[102.44,57.56]]],[[[101.69,57.01],[102.14,56.9],[101.87,56.86],[101.69,57.01]]],[[[102.35,56.05],[101.98,56.05],[102.12,55.97],[101.82,55.78],[101.43,55.96],[101.73,55.91],[101.69,56.28],[101.88,56.07],[102.29,56.22],[102.18,56.29],[102.58,56.34],[102.77,56.22],[102.79,56.36],[102.83,56.18],[103.07,56.27],[102.92,56.11],[103.16,55.78],[102.89,56.12],[102.44,56.16],[102.35,56.05]]],[[[162.98,56.54],[163.08,56.45],[162.55,56.23],[162.41,56.39],[162.98,56.54]]],[[[14.55,66.15],[14.88,66.04],[14.34,66.05],[14.55,66.15]]],[[[18.02,66.06],[17.75,66.12],[18.23,66.04],[18.02,66.06]]],[[[17.71,66.08],[17.99,65.95],[17.8,65.83],[17.71,66.08]]],[[[18.19,65.78],[18.5,65.65],[18.06,65.68],[18,65.82],[18.19,65.78]]],[[[14.36,65.91],[14.16,65.68],[13.84,65.68],[14.36,65.91]]],[[[13.38,64.79],[13.65,64.7],[13.23,64.69],[13.38,64.79]]],[[[12.91,63.69],[13.22,63.61],[13.1,63.51],[12.91,63.69]]],[[[14.09,63.31],[14.81,63.11],[14.43,63.13],[14.5,62.79],[14.09,63.31]]],[[[11.91,62.43],[11.94,61.92],[11.71,62.1],[11.91,62.43]]],[[[30.54,66.51],[30.59,66.5],[30.54,66.5],[30.54,66.51]]],[[[32.26,66.51],[31.77,66.48],[32.06,66.5],[32.26,66.51]]],[[[32.04,66.36],[32.08,66.19],[31.6,66.24],[31.64,66.36],[32.04,66.36]]],[[[28.84,66.28],[29.18,66.25],[28.43,66.1],[28.84,66.28]]],[[[30.83,66.27],[31.14,66.23],[31.33,65.86],[30.61,66.04],[30.83,66.27]]],[[[29.9,65.89],[30.05,65.81],[29.2,65.96],[29.9,65.89]]],[[[33.03,65.91],[33.07,65.8],[32.7,65.74],[32.96,65.8],[32.7,66],[32.95,66.07],[33.03,65.91]]],[[[31.86,65.9],[32.2,65.87],[31.96,65.82],[32.7,65.36],[31.58,65.68],[31.44,65.8],[31.86,65.9]]],[[[30.98,65.11],[30.72,64.92],[30.59,65.05],[30.72,65.07],[30.98,65.11]]],[[[29.05,65.04],[29.14,65.07],[29.36,65.11],[28.96,64.87],[29.05,65.04]]],[[[30.88,65.2],[31.55,65.16],[32.02,64.85],[30.88,65.2]]],[[[31.72,64.57],[32.04,64.39],[31.33,64.45],[31.8,64.45],[31.72,64.57]]],[[[30.1,64.55],[30.33,64.49],[30.11,64.33],[30.1,64.55]]],[[[27.69,64.38],[28.01,64.36],[27.25,64.12],[26.72,64.44],[27.16,64.55],[27.38,64.31],[27.69,64.38]]],[[[29.49,64.3],[29.79,64.26],[29.53,64.11],[29.49,64.3]]],[[[31.03,64.01],[31.03,64],[30.87,64.03],[31.03,64.01]]],[[[33.11,63.9],[33.64,63.74],[33.47,63.67],[33.11,63.9]]],[[[30.76,63.96],[31.19,63.61],[30.85,63.69],[30.76,63.96]]],[[[30.41,63.59],[30.45,63.63],[30.73,63.53],[30.41,63.59]]],[[[26.44,63.37],[26.77,63.25],[26.63,62.96],[26.44,63.37]]],[[[30.04,62.98],[29.81,63.19],[29.25,63.25],[29.09,63.58],[29.84,63.24],[30.01,63.32],[30.04,62.98]]],[[[30.59,62.98],[30.87,63.05],[30.81,62.89],[30.59,62.98]]],[[[26.76,62.96],[27.07,62.85],[26.78,62.82],[26.94,62.71],[26.7,62.79],[26.76,62.96]]],[[[28.81,62.86],[28.7,62.76],[28.54,62.9],[28.81,62.86]]],[[[26.38,62.86],[26.62,62.86],[26.59,62.66],[26.38,62.86]]],[[[29.56,62.96],[29.88,62.78],[29.71,62.68],[29.56,62.96]]],[[[27.77,62.65],[27.73,62.92],[27.55,62.85],[27.29,63.05],[27.25,63.17],[27.69,62.94],[27.73,63.11],[28.27,63],[27.75,62.92],[28.01,62.79],[27.77,62.65]]],[[[28.13,62.77],[28.39,62.59],[28.21,62.48],[28.13,62.77]]],[[[28.81,62.27],[28.78,62.27],[28.7,62.29],[28.81,62.27]]],[[[28.81,62.27],[28.83,62.27],[28.83,62.23],[28.81,62.23],[28.81,62.27]]],[[[29.88,62.08],[29.58,62.18],[29.4,62.04],[29.27,62.19],[29.19,62.43],[29.44,62.52],[29.64,62.38],[29.62,62.63],[29.82,62.35],[29.36,62.31],[29.98,62.17],[29.88,62.08]]],[[[32.99,62.04],[33.39,61.92],[33.13,61.85],[32.99,62.04]]],[[[28.83,62.14],[29.09,62.16],[28.61,62.13],[28.87,61.92],[28.63,61.9],[28.39,62.17],[27.92,62.19],[28.17,62.27],[28.56,62.11],[28.65,62.3],[28.83,62.14]]],[[[29.9,62.04],[30.16,61.86],[30.03,61.7],[30.09,61.86],[29.93,61.73],[29.79,61.81],[29.9,62.04]]],[[[29.36,61.73],[29.38,61.69],[29.19,61.75],[29.22,62],[29.58,62.02],[29.78,61.88],[29.58,61.91],[29.4,61.72],[29.29,61.81],[29.36,61.73]]],[[[26.54,61.94],[26.93,61.83],[26.94,61.66],[26.46,61.81],[26.54,61.94]]],[[[28.61,61.84],[28.92,61.87],[28.96,61.71],[28.43,61.7],[28.61,61.84]]],[[[27.91,61.62],[27.91,61.61],[27.6,61.63],[27.77,61.67],[27.91,61.62]]],[[[25.64,61.63],[25.18,61.83],[25.42,61.77],[25.88,62.2],[25.64,61.63]]],[[[28.96,61.62],[29.09,61.72],[29.05,61.61],[28.96,61.62]]],[[[30.81,61.63],[30.83,61.63],[30.72,61.61],[30.81,61.63]]],[[[30.98,61.63],[30.98,61.61],[30.94,61.61],[30.94,61.62],[30.81,61.77],[30.98,61.63]]],[[[33.75,66.23],[33.77,66.23],[33.77,66.21],[33.75,66.23]]],[[[35.24,64.01],[35.22,63.9],[35.16,64],[35.24,64.01]]],[[[33.75,63.47],[33.77,63.45],[33.75,63.45],[33.75,63.47]]],[[[34.89,63.67],[35.02,63.48],[35.58,63.41],[35.09,63.39],[34.8,63.46],[35,63.13],[34.67,63.39],[34.2,63.88],[34.89,63.67]]],[[[34.32,62.25],[33.97,62.36],[33.97,62.56],[34.32,62.25]]],[[[36.85,62.21],[36.91,62.49],[37.11,62.25],[36.85,62.21]]],[[[38.32,62.1],[38.28,62.02],[38.06,62.05],[38.32,62.1]]],[[[34.72,62.19],[34.45,62.42],[34.76,62.27],[34.67,62.41],[34.46,62.57],[34.78,62.39],[35.11,61.93],[35.18,62.04],[35.02,62.25],[35.38,62.13],[35.61,62.27],[35.39,62.51],[34.89,62.61],[34.77,62.49],[34.49,62.92],[35.77,62.53],[35.69,62.03],[36.17,61.61],[34.65,61.61],[34.3,61.81],[34.56,61.79],[34.64,61.98],[34.2,62.19],[34.72,62.01],[34.72,62.19]],[[35.31,61.98],[35.29,62.09],[35.18,61.89],[35.31,61.98]]],[[[65.02,66.09],[65.35,65.92],[65.02,65.91],[65.02,66.09]]],[[[73.33,61.75],[73.54,61.69],[73.21,61.62],[73.33,61.75]]],[[[101.23,66.2],[101.25,66.2],[101.25,66.18],[101.23,66.2]]],[[[110.06,63.55],[110.21,63.48],[109.91,63.42],[110.06,63.55]]],[[[110.39,63.21],[110.79,63.19],[110.57,62.99],[110.65,63.17],[110.39,63.21]]],[[[111.18,63.11],[111.45,63.06],[111.04,62.86],[111.11,63.31],[111.18,63.11]]],[[[111.45,62.94],[111.98,63.11],[111.75,62.85],[111.45,62.94]]],[[[112.3,63.04],[112.15,62.75],[111.99,62.86],[112.3,63.04]]],[[[111.19,62.85],[111.56,62.73],[111.27,62.37],[110.71,62.52],[111.2,62.61],[111.19,62.85]]],[[[123.77,63.8],[123.79,63.8],[123.79,63.79],[123.77,63.8]]],[[[128.95,63.57],[129.46,63.52],[129.56,63.37],[128.72,63.49],[128.95,63.57]]],[[[150.07,62.1],[150.24,62.04],[149.65,61.88],[149.42,61.61],[149.6,61.9],[150.07,62.1]]],[[[174.49,64.57],[174.78,64.57],[174.59,64.4],[174.08,64.49],[174.49,64.57]]],[[[178.52,64.07],[178.68,63.93],[178.32,63.98],[178.52,64.07]]],[[[178.35,63.63],[178.68,63.58],[178.37,63.51],[178.35,63.63]]],[[[178.61,63.67],[178.79,63.63],[178.9,63.4],[178.61,63.41],[178.8,63.51],[178.61,63.67]]],[[[177.03,62.86],[177.23,62.69],[177.52,62.82],[177.41,62.56],[176.97,62.65],[177.03,62.86]]],[[[176.7,62.61],[176.9,62.57],[176.66,62.52],[176.7,62.61]]],[[[16.48,67.42],[16.32,67.51],[16.88,67.51],[16.48,67.42]]],[[[18.42,67.08],[18.58,66.97],[18.13,67.07],[18.42,67.08]]],[[[28.43,69.22],[28.59,69.19],[28.39,69.15],[28.43,69.07],[28.11,69.07],[28.28,68.85],[28.04,68.88],[27.91,68.93],[27.88,68.9],[27.84,68.82],[27.42,68.77],[27.33,68.88],[27.31,68.93],[27.01,68.91],[27.47,69.01],[27.69,69.03],[27.6,69.03],[28.43,69.22]]],[[[31.16,68.64],[31.77,68.62],[30.81,68.35],[30.94,68.58],[30.59,68.66],[31.16,68.64]]],[[[26.65,68.07],[26.87,67.97],[26.27,68.16],[26.65,68.07]]],[[[27.39,68.06],[27.9,67.96],[27.76,67.81],[27.26,67.89],[27.39,68.06]]],[[[32.78,67.53],[32.12,67.39],[31.85,67.54],[32.08,67.52],[32.12,67.56],[31.99,67.55],[31.57,67.68],[32.21,67.7],[32.21,67.57],[31.91,67.68],[31.77,67.63],[32.17,67.57],[32.29,67.47],[32.8,67.54],[32.5,67.66],[32.98,67.58],[32.8,67.81],[33.13,67.83],[33.31,68.11],[33.02,67.59],[33.37,67.53],[33.13,67.43],[32.78,67.53]]],[[[32.29,66.84],[32.2,66.58],[31.52,66.74],[32.29,66.84]]],[[[30.85,66.67],[31.31,66.58],[30.74,66.58],[30.85,66.67]]],[[[27.86,66.58],[27.42,66.52],[27.38,66.71],[27.86,66.58]]],[[[35.38,68.63],[35.42,68.56],[35.31,68.43],[35.31,68.75],[35.58,68.83],[35.38,68.63]]],[[[34.98,66.93],[35.29,66.75],[34.85,66.83],[34.98,66.93]]],[[[53.09,68.72],[53.13,68.59],[52.85,68.67],[53.09,68.72]]],[[[71.06,69.96],[70.73,70.11],[70.16,70.04],[70.84,70.21],[71.06,69.96]]],[[[71.32,67.88],[71.06,67.94],[71.82,67.97],[71.32,67.88]]],[[[78.75,70.51],[78.77,70.5],[78.75,70.5],[78.75,70.51]]],[[[87.69,70.08],[88.04,70.07],[87.64,69.95],[88.13,69.61],[87.89,69.5],[87.39,69.89],[87.69,70.08]]],[[[89.38,69.43],[89.62,69.38],[88.82,69.31],[89.38,69.43]]],[[[90,68.24],[90,68.22],[89.87,68.38],[90,68.24]]],[[[89.03,68.43],[88.05,68.12],[87.76,67.85],[88.53,67.99],[87.65,67.74],[87.81,67.63],[87.36,67.44],[87.22,67.84],[87.83,68.11],[87.42,68.24],[88.77,68.43],[89.3,68.57],[89.03,68.43]]],[[[83.54,67.22],[83.74,67.17],[83.39,67.15],[83.54,67.22]]],[[[85.22,66.88],[85.54,66.77],[85.2,66.76],[85.22,66.88]]],[[[90.18,69.6],[91.6,69.4],[90.7,69.42],[90,69.53],[90.18,69.6]]],[[[91.58,68.66],[91.89,68.77],[91.36,68.57],[91.58,68.66]]],[[[91.93,68.37],[90,68.22],[90,68.24],[90,68.35],[91.85,68.39],[92.2,68.52],[92.02,68.41],[92.41,68.41],[91.93,68.37]]],[[[93.94,67.1],[93.82,66.76],[94.15,66.51],[93.72,66.79],[93.94,67.1]]],[[[102.3,68.53],[102.63,68.46],[102.48,68.33],[102.3,68.53]]],[[[124.19,67.85],[124.4,67.78],[124.06,67.74],[124.19,67.85]]],[[[146.27,70.24],[146.25,70.29],[146.47,70.36],[146.27,70.24]]],[[[147.17,69.63],[147.17,69.6],[147.08,69.61],[147.17,69.63]]],[[[155.81,69.47],[155.82,69.36],[155.55,69.41],[155.81,69.47]]],[[[146.63,69.3],[146.82,69.22],[146.45,69.22],[146.63,69.3]]],[[[154.76,68.72],[155.08,68.66],[154.7,68.62],[154.85,68.67],[154.6,68.69],[154.76,68.72]]],[[[151.96,68.53],[151.92,68.39],[151.61,68.42],[151.96,68.53]]],[[[154.67,68.48],[154.6,68.45],[154.45,68.64],[154.59,68.64],[154.56,68.6],[155,68.63],[155.17,68.61],[155.21,68.66],[155.21,68.58],[154.73,68.61],[154.56,68.53],[154.67,68.48]]],[[[151.79,68.37],[152.23,68.29],[151.66,68.26],[151.79,68.37]]],[[[154.89,68.27],[155.08,68.11],[154.79,68.12],[154.89,68.27]]],[[[155.92,67.79],[155.65,67.8],[155.83,67.91],[155.92,67.79]]],[[[159.04,70.1],[158.84,69.93],[158.51,70.01],[159.04,70.1]]],[[[159.43,69.75],[159.21,69.59],[159.53,69.89],[159.43,69.75]]],[[[159.82,69.41],[160.51,69.21],[159.83,69.23],[159.82,69.41]]],[[[158.74,69.16],[159.04,69.14],[158.55,69.03],[158.74,69.16]]],[[[159.61,69.01],[159.7,68.99],[159.65,68.93],[159.61,69.01]]],[[[160.09,68.96],[160.18,68.91],[159.7,68.9],[160.09,68.96]]],[[[83.99,72.91],[84.42,72.81],[83.8,72.81],[83.99,72.91]]],[[[79.23,71.3],[79.61,71.22],[79.32,71.1],[79.23,71.3]]],[[[101.23,73.06],[101.25,73.05],[101.05,72.91],[101.23,73.06]]],[[[99.07,72.22],[98.79,72.15],[98.84,72.29],[99.07,72.22]]],[[[99.29,72.17],[99.18,72.15],[99.25,72.24],[99.44,72.42],[100.02,72.35],[99.29,72.17]]],[[[135,71.43],[135,71.41],[134.98,71.41],[135,71.43]]],[[[142.29,72.55],[141.66,72.45],[141.88,72.61],[142.29,72.55]]],[[[138.52,71.39],[138.65,71.55],[138.87,71.32],[138.52,71.39]]],[[[137.6,71.1],[138.1,71.06],[137.68,70.98],[137.6,71.1]]],[[[146.27,72.29],[146.34,72.17],[146.25,72.26],[146.27,72.29]]],[[[148.99,72.15],[149.37,72.04],[149.11,71.88],[148.99,72.15]]],[[[146.95,71.03],[146.54,71.12],[146.72,71.23],[146.95,71.03]]],[[[146.54,71.05],[146.87,71.01],[146.58,70.92],[146.54,71.05]]],[[[101.23,74.48],[100.61,74.4],[101.23,74.39],[101.25,74.02],[100.55,74.37],[99.8,74.3],[100.08,74.02],[99.71,74.03],[99.73,74.25],[99.62,74.26],[99.91,74.34],[99.17,74.41],[100.23,74.38],[100.64,74.59],[100.36,74.95],[101.23,74.48]]],[[[106.99,74.71],[107.49,74.5],[106.97,74.53],[106.99,74.71]]],[[[104.19,75.14],[104.77,74.92],[105.86,74.83],[104.02,74.73],[104.02,74.6],[102.83,74.48],[102,74.53],[102,74.2],[101.32,74.38],[101.25,74.64],[103.07,74.63],[104.24,74.78],[104.48,74.88],[103.86,74.93],[104.19,75.14]]],[[[107.12,74.26],[107.27,74.04],[106.48,74.17],[107.12,74.26]]],[[[101.47,74.03],[101.25,74.02],[101.25,74.17],[101.47,74.03]]]]');
@@ -0,0 +1,200 @@
+import { Coordinates, LocationSearchResult, Place } from '../types';
+import { CITIES } from './geoData';
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+const MAX_GEOHASH_LENGTH = 12;
+const DEFAULT_LIMIT = 8;
+
+// Anything outside digits, hemisphere letters, signs and the usual degree/minute/second marks.
+const COORDINATE_CHARS = /^[\s\d.+\-NSEW°º˚'′’"″”,;:]+$/;
+
+interface CoordinateComponent {
+  parts: number[];
+  negative: boolean;
+  hemisphere: string | null;
+}
+
+const formatCoordinate = (coords: Coordinates): string =>
+  `${Math.abs(coords.lat).toFixed(4)}°${coords.lat < 0 ? 'S' : 'N'} ${Math.abs(coords.lng).toFixed(4)}°${coords.lng < 0 ? 'W' : 'E'}`;
+
+/**
+ * Folds case and diacritics so "sao paulo" matches "São Paulo".
+ */
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+/**
+ * Converts [degrees, minutes?, seconds?] plus a hemisphere into signed decimal degrees.
+ * Returns null when minutes or seconds are out of range.
+ */
+const toDecimalDegrees = ({ parts, negative, hemisphere }: CoordinateComponent): number | null => {
+  const [degrees, minutes = 0, seconds = 0] = parts;
+  if (parts.length > 3 || minutes >= 60 || seconds >= 60) return null;
+  if (parts.length > 1 && !Number.isInteger(degrees)) return null;
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return negative || hemisphere === 'S' || hemisphere === 'W' ? -value : value;
+};
+
+/**
+ * Parses a coordinate pair in decimal or DMS notation. Accepts, among others:
+ * "48.8566, 2.3522", "48.8566 2.3522", "-33.86;151.2", "48.8566N 2.3522E",
+ * "N 48° 51' 24\" E 2° 21' 8\"" and "48 51 24 N 2 21 8 E".
+ * Without hemisphere letters the first value is latitude.
+ *
+ * @param query - Raw search text.
+ * @returns The coordinates, or null when the text is not a valid pair.
+ */
+export const parseCoordinates = (query: string): Coordinates | null => {
+  const text = query.toUpperCase().trim();
+  if (!text || !COORDINATE_CHARS.test(text) || !/\d/.test(text)) return null;
+
+  const tokens = text.match(/[NSEW]|[,;]|[+-]?\d+(?:\.\d+)?/g) || [];
+  const hasHemispheres = tokens.some(t => /^[NSEW]$/.test(t));
+  const components: CoordinateComponent[] = [];
+  let current: CoordinateComponent = { parts: [], negative: false, hemisphere: null };
+
+  const close = () => {
+    if (current.parts.length) components.push(current);
+    current = { parts: [], negative: false, hemisphere: null };
+  };
+
+  for (const token of tokens) {
+    if (token === ',' || token === ';') {
+      close();
+    } else if (/^[NSEW]$/.test(token)) {
+      // A trailing letter ends its component; a leading one starts the next.
+      if (current.hemisphere) close();
+      current.hemisphere = token;
+      if (current.parts.length) close();
+    } else {
+      const value = parseFloat(token);
+      if (current.parts.length === 0) current.negative = value < 0;
+      else if (value < 0) return null;
+      current.parts.push(Math.abs(value));
+    }
+  }
+  close();
+
+  // Separator-free input such as "48 51 24 2 21 8": split the numbers evenly.
+  if (components.length === 1 && !hasHemispheres) {
+    const { parts, negative } = components[0];
+    if (parts.length !== 2 && parts.length !== 4 && parts.length !== 6) return null;
+    const half = parts.length / 2;
+    const signs = text.match(/[+-]?\d+(?:\.\d+)?/g)!.map(t => t.startsWith('-'));
+    components.splice(0, 1,
+      { parts: parts.slice(0, half), negative, hemisphere: null },
+      { parts: parts.slice(half), negative: signs[half], hemisphere: null });
+  }
+
+  if (components.length !== 2) return null;
+
+  let [first, second] = components;
+  if ((first.hemisphere === 'E' || first.hemisphere === 'W') && (!second.hemisphere || second.hemisphere === 'N' || second.hemisphere === 'S')) {
+    [first, second] = [second, first];
+  }
+  if (first.hemisphere === 'E' || first.hemisphere === 'W' || second.hemisphere === 'N' || second.hemisphere === 'S') return null;
+
+  const lat = toDecimalDegrees(first);
+  const lng = toDecimalDegrees(second);
+  if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  return { lat, lng };
+};
+
+/**
+ * Decodes a geohash to the centre of its cell.
+ *
+ * @param hash - Base-32 geohash, 1–12 characters, case-insensitive.
+ * @returns The cell centre, or null when the text is not a geohash.
+ */
+export const decodeGeohash = (hash: string): Coordinates | null => {
+  const text = hash.trim().toLowerCase();
+  if (!text || text.length > MAX_GEOHASH_LENGTH) return null;
+
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let evenBit = true; // Bits alternate, starting with longitude.
+
+  for (const char of text) {
+    const index = GEOHASH_ALPHABET.indexOf(char);
+    if (index === -1) return null;
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = evenBit ? lng : lat;
+      const mid = (range[0] + range[1]) / 2;
+      if ((index >> bit) & 1) range[0] = mid;
+      else range[1] = mid;
+      evenBit = !evenBit;
+    }
+  }
+
+  return { lat: (lat[0] + lat[1]) / 2, lng: (lng[0] + lng[1]) / 2 };
+};
+
+/**
+ * Ranks a city against a normalized query: 0 for a name prefix, 1 for a word
+ * prefix inside the name, 2 for a country match, 3 for any substring, null otherwise.
+ */
+const matchRank = (place: Place, query: string): number | null => {
+  const name = normalize(place.name);
+  if (name.startsWith(query)) return 0;
+  if (name.split(/[\s\-']+/).some(word => word.startsWith(query))) return 1;
+  if (normalize(place.country).startsWith(query)) return 2;
+  if (name.includes(query)) return 3;
+  return null;
+};
+
+/**
+ * Autocompletes city names from the bundled gazetteer. Better matches come
+ * first, then larger cities.
+ *
+ * @param query - Partial city or country name.
+ * @param limit - Maximum number of results.
+ */
+export const searchCities = (query: string, limit: number = DEFAULT_LIMIT): LocationSearchResult[] => {
+  const needle = normalize(query);
+  if (!needle) return [];
+
+  return CITIES
+    .map(place => ({ place, rank: matchRank(place, needle) }))
+    .filter((m): m is { place: Place; rank: number } => m.rank !== null)
+    .sort((a, b) => a.rank - b.rank || b.place.population - a.place.population)
+    .slice(0, limit)
+    .map(({ place }) => ({
+      kind: 'city' as const,
+      label: place.name,
+      detail: place.country,
+      coords: { lat: place.lat, lng: place.lng },
+    }));
+};
+
+/**
+ * Resolves free-form search text to candidate locations. Coordinates win
+ * outright; otherwise city matches are listed, followed by the geohash reading
+ * when the text is also a valid geohash (e.g. "u09tvw").
+ *
+ * @param query - Raw search text.
+ * @param limit - Maximum number of results.
+ */
+export const searchLocations = (query: string, limit: number = DEFAULT_LIMIT): LocationSearchResult[] => {
+  const coords = parseCoordinates(query);
+  if (coords) {
+    return [{ kind: 'coordinates', label: formatCoordinate(coords), detail: 'Coordinates', coords }];
+  }
+
+  const results = searchCities(query, limit);
+  const text = query.trim();
+  // Very short hashes cover thousands of kilometres and are more likely a typed word.
+  const geohash = text.length >= 4 && !/\s/.test(text) ? decodeGeohash(text) : null;
+  // It takes the last slot, but never the only one a city already holds.
+  const slot = Math.min(results.length, limit - 1);
+  if (geohash && (slot > 0 || results.length === 0)) {
+    results.splice(slot, 1, {
+      kind: 'geohash',
+      label: formatCoordinate(geohash),
+      detail: `Geohash ${text.toLowerCase()}`,
+      coords: geohash,
+    });
+  }
+
+  return results;
+};
@@ -0,0 +1,336 @@
+import { getWeatherCondition } from "../constants";
+import { WeatherData, ThemeConfig, GenerationProvider, TimeFrame, TerrainDescriptor } from "../types";
+import { decodeAudioData, hashString, createSeededRandom } from "./utils";
+import { getTimeFrame } from "./weatherService";
+
+const SAMPLE_RATE = 24000;
+
+interface NarrativeTemplate {
+  /** Lead-in sentence announcing a memory or a prophecy. Empty for the present. */
+  frames: Record<TimeFrame, string>;
+  openers: string[];
+  middles: string[];
+  closers: string[];
+}
+
+// Fragments are stitched together with the weather values substituted in.
+// Placeholders: {temp}, {wind}, {condition}, {humidity}, {light}, {mood}, {place}.
+const NARRATIVE_TEMPLATES: Record<string, NarrativeTemplate> = {
+  LYNCH: {
+    frames: {
+      past: "This is a memory. It has already happened, but it is still happening somewhere.",
+      present: "",
+      future: "This has not happened yet. But the owls already know.",
+    },
+    openers: [
+      "{place}. It is {temp} degrees, and the {condition} is humming like a refrigerator in an empty house.",
+      "{condition}. The air is {temp} degrees and it knows your name.",
+      "There is a wind, {wind} kilometers an hour, moving through the pines like a slow secret.",
+      "The {light} is {humidity} percent water. You can feel it behind your eyes.",
+    ],
+    middles: [
+      "Somewhere a log is listening. The curtains are red, but the light behind them is not.",
+      "A highway unrolls into the dark, and the coffee is black as midnight on a moonless night.",
+      "The electricity in the wires sounds like a voice you almost remember.",
+      "Everything out there is {mood}. Everything.",
+    ],
+    closers: [
+      "Keep your eye on the doughnut, not the hole.",
+      "The owls are not what they seem.",
+      "Go inside. Something is coming, and it is beautiful.",
+    ],
+  },
+  WES: {
+    frames: {
+      past: "The following took place, according to the archive, some days earlier.",
+      present: "",
+      future: "What follows is a forecast, typed in advance and filed under 'pending'.",
+    },
+    openers: [
+      "At precisely {temp} degrees, the {condition} arrived, as scheduled.",
+      "Location: {place}. The wind measured {wind} kilometers per hour, according to the brass anemometer on the roof.",
+      "Conditions: {condition}. Temperature: {temp} degrees. Mood: cautiously optimistic.",
+      "Relative humidity stood at {humidity} percent, which the concierge found acceptable for the {light}.",
+    ],
+    middles: [
+      "A yellow canary observed this from a pale pink windowsill, unimpressed.",
+      "The lighthouse keeper adjusted his vintage binoculars and made a note in the ledger.",
+      "Seven identical umbrellas stood in a row, none of them open.",
+      "The guidebook described the scene, quite correctly, as {mood}.",
+    ],
+    closers: [
+      "It was, all things considered, a perfectly adequate afternoon.",
+      "Nobody mentioned it again.",
+      "Chapter three would begin shortly.",
+    ],
+  },
+  BLADE: {
+    frames: {
+      past: "Pulled this off an old weather log. Already history.",
+      present: "",
+      future: "Prediction net says this is coming. Nobody listens to prediction nets.",
+    },
+    openers: [
+      "{temp} degrees and the {condition} tastes like battery acid.",
+      "Wind's pushing {wind} clicks an hour through the canyons between the arcologies.",
+      "{condition} again. The forecast is a corporate lie, like everything else.",
+      "Humidity at {humidity} percent. The {light} sticks to you like a bad contract.",
+    ],
+    middles: [
+      "Neon bleeds into the puddles. The holograms keep smiling at nobody.",
+      "Locator pings back: {place}. Means nothing. Everywhere looks the same from down here.",
+      "Steam crawls out of the vents like it's trying to escape the city.",
+      "Somewhere above the smog, the off-world shuttles blink like dying stars.",
+      "Street's gone {mood}. Same as yesterday. Same as tomorrow.",
+    ],
+    closers: [
+      "All of it will be lost, like rain.",
+      "I've seen worse. I just can't remember where.",
+      "Another night. Another job. Another lie.",
+    ],
+  },
+};
+
+// Base pitch (Hz) of the synthesized voice, roughly matching each prebuilt voice.
+const VOICE_PITCH: Record<string, number> = {
+  Fenrir: 95,
+  Charon: 85,
+  Kore: 190,
+  Puck: 210,
+  Zephyr: 170,
+};
+
+const pick = <T,>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+/**
+ * Produces a templated monologue. The same weather, theme and seed always yield the same text.
+ */
+export const generateNarrative = async (weather: WeatherData, theme: ThemeConfig, seed?: number): Promise<string> => {
+  const template = NARRATIVE_TEMPLATES[theme.id] || NARRATIVE_TEMPLATES.LYNCH;
+  const random = createSeededRandom(hashString(`${seed ?? ''}|${theme.id}|${weather.temperature}|${weather.windSpeed}|${weather.conditionCode}|${weather.humidity}|${weather.isDay}`));
+  const condition = getWeatherCondition(weather.conditionCode);
+  const moods = condition.moods[theme.id] || condition.moods.LYNCH;
+
+  const frame = template.frames[getTimeFrame(weather)];
+
+  return [frame, pick(template.openers, random), pick(template.middles, random), pick(template.closers, random)]
+    .filter(Boolean)
+    .join(' ')
+    .replace(/\{temp\}/g, String(Math.round(weather.temperature)))
+    .replace(/\{wind\}/g, String(Math.round(weather.windSpeed)))
+    .replace(/\{condition\}/g, condition.label.toLowerCase())
+    .replace(/\{humidity\}/g, String(Math.round(weather.humidity)))
+    .replace(/\{light\}/g, weather.isDay ? 'day' : 'night')
+    .replace(/\{mood\}/g, pick(moods, random))
+    .replace(/\{place\}/g, weather.locationName || 'here')
+    .replace(/^./, c => c.toUpperCase());
+};
+
+/**
+ * Synthesizes a speech-like tone sequence as 16-bit PCM: one pitched burst per word,
+ * with pauses at punctuation. The PCM is decoded through the same path as Gemini TTS output.
+ */
+export const generateSpeech = async (text: string, theme: ThemeConfig, audioCtx: AudioContext): Promise<AudioBuffer> => {
+  const random = createSeededRandom(hashString(`${theme.voiceName}|${text}`));
+  const basePitch = VOICE_PITCH[theme.voiceName] || 140;
+  const words = text.split(/\s+/).filter(Boolean);
+
+  const segments = words.map(word => {
+    const letters = word.replace(/[^\p{L}\p{N}]/gu, '').length;
+    return {
+      duration: Math.min(0.45, Math.max(0.12, letters * 0.055)),
+      pause: /[.!?]$/.test(word) ? 0.35 : /[,;:]$/.test(word) ? 0.18 : 0.06,
+      pitch: basePitch * (0.85 + random() * 0.3),
+      glide: (random() - 0.5) * 0.2,
+    };
+  });
+
+  const totalSeconds = segments.reduce((sum, s) => sum + s.duration + s.pause, 0.25);
+  const pcm = new Int16Array(Math.ceil(totalSeconds * SAMPLE_RATE));
+
+  let offset = Math.floor(0.1 * SAMPLE_RATE);
+  for (const segment of segments) {
+    const length = Math.floor(segment.duration * SAMPLE_RATE);
+    let phase = 0;
+    for (let i = 0; i < length && offset + i < pcm.length; i++) {
+      const progress = i / length;
+      const frequency = segment.pitch * (1 + segment.glide * progress);
+      phase += (2 * Math.PI * frequency) / SAMPLE_RATE;
+      // Fast attack, gentle release so bursts read as syllables rather than clicks.
+      const envelope = Math.min(1, progress * 12) * Math.pow(1 - progress, 1.5);
+      const sample = Math.sin(phase) * 0.6 + Math.sin(phase * 2) * 0.25 + Math.sin(phase * 3) * 0.1;
+      pcm[offset + i] = Math.round(sample * envelope * 0.5 * 32767);
+    }
+    offset += length + Math.floor(segment.pause * SAMPLE_RATE);
+  }
+
+  return await decodeAudioData(new Uint8Array(pcm.buffer), audioCtx, SAMPLE_RATE, 1);
+};
+
+/**
+ * Procedurally paints a themed landscape onto an offscreen canvas.
+ * Night darkens the sky, cloud cover and low visibility wash it out, and precipitation draws streaks.
+ *
+ * @returns A PNG data URL, or null when no DOM canvas is available.
+ */
+export const generateSceneryImage = async (narrative: string, terrain: TerrainDescriptor, theme: ThemeConfig, weather: WeatherData): Promise<string | null> => {
+  if (typeof document === 'undefined') return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = 640;
+  canvas.height = 360;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const { width, height } = canvas;
+  const random = createSeededRandom(hashString(`${theme.id}|${terrain.description}|${narrative}`));
+  const horizon = height * (0.55 + random() * 0.15);
+
+  // Sky
+  const sky = ctx.createLinearGradient(0, 0, 0, horizon);
+  sky.addColorStop(0, theme.backgroundColor);
+  sky.addColorStop(1, theme.secondaryColor);
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, width, height);
+
+  // Sun or moon
+  ctx.globalAlpha = 0.7;
+  ctx.fillStyle = theme.primaryColor;
+  ctx.beginPath();
+  const discX = theme.id === 'WES' ? width / 2 : width * (0.2 + random() * 0.6);
+  ctx.arc(discX, horizon * (0.3 + random() * 0.3), 18 + random() * 30, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.globalAlpha = 1;
+
+  // Ground
+  ctx.fillStyle = theme.backgroundColor;
+  ctx.fillRect(0, horizon, width, height - horizon);
+
+  // Silhouette shaped by the terrain: skyline blocks for cities (and BLADE), peaks,
+  // dunes, tree lines, or nothing but waves at sea. WES is mirrored around the centre for symmetry.
+  ctx.fillStyle = theme.id === 'WES' ? theme.primaryColor : '#000000';
+  const half = theme.id === 'WES' ? width / 2 : width;
+  const style = terrain.biome === 'ocean' ? 'waves'
+    : terrain.biome === 'urban' || theme.id === 'BLADE' ? 'skyline'
+    : terrain.biome === 'mountain' || terrain.elevationBand === 'alpine' ? 'peaks'
+    : terrain.biome === 'desert' ? 'dunes'
+    : 'trees';
+
+  const drawShape = (left: number, shapeWidth: number, shapeHeight: number) => {
+    if (style === 'skyline') {
+      ctx.fillRect(left, horizon - shapeHeight, shapeWidth, shapeHeight);
+      return;
+    }
+    ctx.beginPath();
+    if (style === 'dunes') {
+      ctx.ellipse(left + shapeWidth / 2, horizon, shapeWidth / 2, shapeHeight / 3, 0, Math.PI, 0);
+    } else {
+      const peak = style === 'trees' ? shapeHeight / 2 : shapeHeight;
+      ctx.moveTo(left, horizon);
+      ctx.lineTo(left + shapeWidth / 2, horizon - peak);
+      ctx.lineTo(left + shapeWidth, horizon);
+    }
+    ctx.fill();
+  };
+
+  if (style === 'waves') {
+    ctx.strokeStyle = theme.primaryColor;
+    ctx.globalAlpha = 0.3;
+    for (let y = horizon + 6; y < height; y += 8 + (y - horizon) * 0.15) {
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      for (let wx = 0; wx <= width; wx += 20) {
+        ctx.lineTo(wx, y + Math.sin(wx * 0.05 + random() * 2) * 2);
+      }
+      ctx.stroke();
+    }
+    ctx.globalAlpha = 1;
+  } else {
+    let x = 0;
+    while (x < half) {
+      const shapeWidth = style === 'peaks' ? 80 + random() * 120 : style === 'trees' ? 8 + random() * 14 : 20 + random() * 50;
+      const shapeHeight = 20 + random() * (style === 'skyline' && theme.id === 'BLADE' ? 140 : style === 'peaks' ? 120 : 60);
+      drawShape(x, shapeWidth, shapeHeight);
+      if (theme.id === 'WES') {
+        drawShape(width - x - shapeWidth, shapeWidth, shapeHeight);
+      }
+      if (theme.id === 'BLADE' && style === 'skyline') {
+        ctx.fillStyle = theme.primaryColor;
+        for (let w = 0; w < 6; w++) {
+          ctx.fillRect(x + random() * shapeWidth, horizon - random() * shapeHeight, 2, 2);
+        }
+        ctx.fillStyle = '#000000';
+      }
+      x += style === 'peaks' ? shapeWidth * 0.6 : shapeWidth + random() * 10;
+    }
+  }
+
+  // Night and cloud cover dim the whole frame; poor visibility adds a fog wash.
+  if (!weather.isDay) {
+    ctx.fillStyle = '#000010';
+    ctx.globalAlpha = 0.45;
+    ctx.fillRect(0, 0, width, height);
+  }
+  if (weather.cloudCover > 0) {
+    ctx.fillStyle = '#808080';
+    ctx.globalAlpha = (weather.cloudCover / 100) * 0.25;
+    ctx.fillRect(0, 0, width, horizon);
+  }
+  if (weather.visibility < 5000) {
+    ctx.fillStyle = '#c0c0c0';
+    ctx.globalAlpha = Math.min(0.6, (5000 - weather.visibility) / 8000);
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.globalAlpha = 1;
+
+  // Snow and hail as flakes, rain streaks when it is wet (always for BLADE), grain for everyone else
+  const condition = getWeatherCondition(weather.conditionCode);
+  if (condition.precipitation === 'snow' || condition.precipitation === 'hail') {
+    ctx.fillStyle = '#ffffff';
+    ctx.globalAlpha = 0.6;
+    for (let i = 0; i < 120 * condition.intensity; i++) {
+      const size = condition.precipitation === 'hail' ? 3 : 2;
+      ctx.fillRect(random() * width, random() * height, size, size);
+    }
+  } else if (theme.id === 'BLADE' || condition.precipitation !== 'none') {
+    ctx.strokeStyle = theme.primaryColor;
+    ctx.globalAlpha = 0.25;
+    const streaks = 150 + condition.intensity * 150;
+    for (let i = 0; i < streaks; i++) {
+      const rx = random() * width;
+      const ry = random() * height;
+      ctx.beginPath();
+      ctx.moveTo(rx, ry);
+      ctx.lineTo(rx - 3, ry + 12);
+      ctx.stroke();
+    }
+  } else {
+    ctx.fillStyle = theme.id === 'WES' ? '#ffffff' : '#888888';
+    ctx.globalAlpha = 0.08;
+    for (let i = 0; i < 2000; i++) {
+      ctx.fillRect(random() * width, random() * height, 1, 1);
+    }
+  }
+  ctx.globalAlpha = 1;
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * The mock provider never produces video; the player falls back to the image.
+ */
+export const generateVideo = async (): Promise<string | null> => null;
+
+/**
+ * Deterministic, fully offline generation provider.
+ * Lets the whole pipeline run without network access or an API key.
+ */
+export const mockProvider: GenerationProvider = {
+  id: 'MOCK',
+  name: 'Offline Simulator',
+  requiresNetwork: false,
+  generateNarrative,
+  generateSpeech,
+  generateSceneryImage,
+  generateVideo,
+};
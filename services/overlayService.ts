@@ -0,0 +1,114 @@
+import { ColorStop, OverlayLayer, ThemeConfig } from '../types';
+import { OVERLAY_RAMPS } from '../constants';
+
+const OVERLAY_STORAGE_KEY = 'lynchian-overlays';
+
+export const OVERLAY_LAYERS: OverlayLayer[] = ['temperature', 'wind', 'precipitation', 'cloud'];
+
+export const OVERLAY_LAYER_LABELS: Record<OverlayLayer, string> = {
+  temperature: 'Temp',
+  wind: 'Wind',
+  precipitation: 'Rain',
+  cloud: 'Cloud',
+};
+
+export const OVERLAY_UNITS: Record<OverlayLayer, string> = {
+  temperature: '°C',
+  wind: 'km/h',
+  precipitation: 'mm',
+  cloud: '%',
+};
+
+/**
+ * Builds a ramp from the theme's own colours, for themes without one in OVERLAY_RAMPS.
+ */
+const deriveRamp = (theme: ThemeConfig, layer: OverlayLayer): ColorStop[] => {
+  switch (layer) {
+    case 'temperature':
+      return [
+        { value: -40, color: theme.secondaryColor, alpha: 1 },
+        { value: 10, color: theme.textColor, alpha: 1 },
+        { value: 40, color: theme.primaryColor, alpha: 1 },
+      ];
+    case 'wind':
+      return [{ value: 0, color: theme.textColor, alpha: 0.5 }, { value: 80, color: theme.primaryColor, alpha: 1 }];
+    case 'precipitation':
+      return [
+        { value: 0, color: theme.primaryColor, alpha: 0 },
+        { value: 0.5, color: theme.primaryColor, alpha: 0.5 },
+        { value: 10, color: theme.primaryColor, alpha: 0.85 },
+      ];
+    case 'cloud':
+      return [{ value: 0, color: theme.textColor, alpha: 0 }, { value: 100, color: theme.textColor, alpha: 0.5 }];
+  }
+};
+
+/**
+ * The theme's colour ramp for a layer, low values first.
+ */
+export const getOverlayRamp = (theme: ThemeConfig, layer: OverlayLayer): ColorStop[] =>
+  OVERLAY_RAMPS[theme.id]?.[layer] ?? deriveRamp(theme, layer);
+
+const parseHex = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+
+// Ramps are sampled per pixel and per particle, so their colours are parsed once.
+const parsedRamps = new WeakMap<ColorStop[], [number, number, number][]>();
+
+const parseRamp = (ramp: ColorStop[]) => {
+  let parsed = parsedRamps.get(ramp);
+  if (!parsed) {
+    parsed = ramp.map(stop => parseHex(stop.color));
+    parsedRamps.set(ramp, parsed);
+  }
+  return parsed;
+};
+
+/**
+ * The ramp's colour at `value` as [r, g, b, a], channels 0-255. Values past either end take the end colour.
+ */
+export const rampColor = (ramp: ColorStop[], value: number): [number, number, number, number] => {
+  let i = 0;
+  while (i < ramp.length - 2 && value > ramp[i + 1].value) i++;
+  const j = Math.min(i + 1, ramp.length - 1);
+  const low = ramp[i];
+  const high = ramp[j];
+  const t = high.value === low.value ? 0 : Math.max(0, Math.min(1, (value - low.value) / (high.value - low.value)));
+  const [r0, g0, b0] = parseRamp(ramp)[i];
+  const [r1, g1, b1] = parseRamp(ramp)[j];
+  return [r0 + (r1 - r0) * t, g0 + (g1 - g0) * t, b0 + (b1 - b0) * t, (low.alpha + (high.alpha - low.alpha) * t) * 255];
+};
+
+/**
+ * A left-to-right CSS gradient of the ramp, for legends. Stops sit at their value's share of the range.
+ */
+export const rampGradient = (ramp: ColorStop[]): string => {
+  const min = ramp[0].value;
+  const span = ramp[ramp.length - 1].value - min || 1;
+  const stops = ramp.map(({ value, color, alpha }) => {
+    const [r, g, b] = parseHex(color);
+    return `rgba(${r}, ${g}, ${b}, ${alpha}) ${(((value - min) / span) * 100).toFixed(1)}%`;
+  });
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+};
+
+/**
+ * Reads the overlay layers left on last time.
+ */
+export const loadOverlayLayers = (): OverlayLayer[] => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(OVERLAY_STORAGE_KEY) : null;
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? OVERLAY_LAYERS.filter(layer => parsed.includes(layer)) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveOverlayLayers = (layers: OverlayLayer[]): void => {
+  try {
+    localStorage.setItem(OVERLAY_STORAGE_KEY, JSON.stringify(layers));
+  } catch (e) {
+    console.warn("Overlay layers could not be saved", e);
+  }
+};
@@ -0,0 +1,86 @@
+import { Coordinates } from '../types';
+
+/**
+ * Everything needed to reopen a transmission from a link. With the same
+ * providers, coordinates, timestamp and seed, the offline engines reproduce a
+ * transmission exactly and Gemini comes close.
+ */
+export interface PermalinkState {
+  coords: Coordinates;
+  themeId: string;
+  at: string | null; // ISO 8601 hour the weather describes; null = live at the time of opening
+  seed: number | null;
+  providerId: string | null; // GenerationProvider id
+  weatherProviderId: string | null; // WeatherProvider id
+}
+
+export const COORD_DECIMALS = 4; // ~11 m, finer than any data source we use
+
+/**
+ * A fresh 32-bit generation seed.
+ */
+export const createSeed = (): number =>
+  typeof crypto !== 'undefined' && crypto.getRandomValues
+    ? crypto.getRandomValues(new Uint32Array(1))[0]
+    : Math.floor(Math.random() * 0x100000000);
+
+/**
+ * Serialises state as a query string, e.g.
+ * "?lat=38.7223&lng=-9.1393&theme=LYNCH&at=2025-10-14T18%3A00Z&seed=1xk9q2&engine=MOCK&wx=SYNTHETIC".
+ */
+export const encodePermalink = (state: PermalinkState): string => {
+  const params = new URLSearchParams();
+  params.set('lat', state.coords.lat.toFixed(COORD_DECIMALS));
+  params.set('lng', state.coords.lng.toFixed(COORD_DECIMALS));
+  params.set('theme', state.themeId);
+  if (state.at) params.set('at', `${state.at.slice(0, 16)}Z`);
+  if (state.seed !== null) params.set('seed', state.seed.toString(36));
+  if (state.providerId) params.set('engine', state.providerId);
+  if (state.weatherProviderId) params.set('wx', state.weatherProviderId);
+  return `?${params.toString()}`;
+};
+
+/**
+ * Parses a query string produced by encodePermalink.
+ *
+ * @returns The state, or null when the query does not describe a location.
+ */
+export const decodePermalink = (search: string): PermalinkState | null => {
+  const params = new URLSearchParams(search);
+  const lat = Number(params.get('lat'));
+  const lng = Number(params.get('lng'));
+  if (!params.has('lat') || !params.has('lng') || !Number.isFinite(lat) || !Number.isFinite(lng)
+    || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+
+  const at = params.get('at');
+  const atMs = at ? Date.parse(at) : NaN;
+  const rawSeed = params.get('seed') || '';
+  const seed = /^[0-9a-z]{1,7}$/i.test(rawSeed) ? parseInt(rawSeed, 36) : NaN;
+
+  return {
+    coords: { lat, lng },
+    themeId: params.get('theme') || 'LYNCH',
+    at: Number.isFinite(atMs) ? new Date(atMs).toISOString() : null,
+    seed: Number.isFinite(seed) && seed >= 0 && seed <= 0xffffffff ? seed : null,
+    providerId: params.get('engine'),
+    weatherProviderId: params.get('wx'),
+  };
+};
+
+/**
+ * The state in the address bar right now, if any.
+ */
+export const readPermalink = (): PermalinkState | null =>
+  typeof window === 'undefined' ? null : decodePermalink(window.location.search);
+
+/**
+ * Writes state to the address bar. 'push' adds a back/forward step; 'replace'
+ * amends the current one. The state object rides along for popstate.
+ */
+export const writePermalink = (state: PermalinkState, mode: 'push' | 'replace'): void => {
+  const url = `${window.location.pathname}${encodePermalink(state)}${window.location.hash}`;
+  if (mode === 'push') window.history.pushState(state, '', url);
+  else window.history.replaceState(state, '', url);
+};
@@ -0,0 +1,250 @@
+import { TransportSettings } from '../types';
+import { encodeWav } from './exportService';
+
+const SETTINGS_STORAGE_KEY = 'lynchian-transport';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export const DEFAULT_TRANSPORT_SETTINGS: TransportSettings = { volume: 1, rate: 1, loop: false };
+
+const MEDIA_SESSION_ALBUM = 'Lynchian Weather Dreams';
+const MEDIA_SESSION_SEEK_SECONDS = 10;
+
+let sharedContext: AudioContext | null = null;
+
+/**
+ * The app's one AudioContext. Speech is decoded into it, and the player,
+ * soundscape and visualizer all run on it. Created on first use.
+ */
+export const getAudioContext = (): AudioContext => {
+  if (!sharedContext) sharedContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  return sharedContext;
+};
+
+/**
+ * Reads the saved transport settings, falling back to the defaults.
+ */
+export const loadTransportSettings = (): TransportSettings => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    const parsed = stored ? JSON.parse(stored) : {};
+    return {
+      volume: typeof parsed.volume === 'number' ? Math.max(0, Math.min(1, parsed.volume)) : DEFAULT_TRANSPORT_SETTINGS.volume,
+      rate: PLAYBACK_RATES.includes(parsed.rate) ? parsed.rate : DEFAULT_TRANSPORT_SETTINGS.rate,
+      loop: typeof parsed.loop === 'boolean' ? parsed.loop : DEFAULT_TRANSPORT_SETTINGS.loop,
+    };
+  } catch (e) {
+    return { ...DEFAULT_TRANSPORT_SETTINGS };
+  }
+};
+
+export const saveTransportSettings = (settings: TransportSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Transport settings could not be saved", e);
+  }
+};
+
+/**
+ * Pausable, seekable playback of one transmission. Times are in seconds of
+ * the transmission, independent of playback rate.
+ */
+export interface Transport {
+  duration: number;
+  /** Carries the transmission's track into the audio graph; null when there is nothing to hear. */
+  output: AudioNode | null;
+  currentTime: () => number;
+  isPlaying: () => boolean;
+  /** Starts or resumes; from the top when already at the end. */
+  play: () => Promise<void>;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  setRate: (rate: number) => void;
+  setVolume: (volume: number) => void;
+  /** Ramps the track to silence over `seconds`, e.g. to crossfade into the next one. Playing again restores the volume. */
+  fadeOut: (seconds: number) => void;
+  dispose: () => void;
+}
+
+const clamp = (seconds: number, duration: number) => Math.max(0, Math.min(duration, seconds));
+
+/**
+ * Plays an AudioBuffer through a media element, which gives pause, seek and
+ * pitch-preserving rate changes for free, routed into `audioCtx` so the
+ * soundscape and visualizer can hear it. Connect `output` somewhere to hear it.
+ */
+export const createBufferTransport = (audioCtx: AudioContext, buffer: AudioBuffer, onEnded: () => void): Transport => {
+  const url = URL.createObjectURL(encodeWav(buffer));
+  const element = new Audio(url);
+  element.preload = 'auto';
+  element.preservesPitch = true;
+  (element as any).webkitPreservesPitch = true;
+  element.addEventListener('ended', onEnded);
+
+  const source = audioCtx.createMediaElementSource(element);
+  const volume = audioCtx.createGain();
+  source.connect(volume);
+  let level = 1;
+
+  return {
+    duration: buffer.duration,
+    output: volume,
+    currentTime: () => clamp(element.currentTime, buffer.duration),
+    isPlaying: () => !element.paused && !element.ended,
+    play: async () => {
+      if (element.ended || element.currentTime >= buffer.duration) element.currentTime = 0;
+      volume.gain.cancelScheduledValues(audioCtx.currentTime);
+      volume.gain.setValueAtTime(level, audioCtx.currentTime);
+      await element.play();
+    },
+    pause: () => element.pause(),
+    seek: (seconds) => { element.currentTime = clamp(seconds, buffer.duration); },
+    setRate: (rate) => { element.playbackRate = rate; },
+    setVolume: (next) => {
+      level = next;
+      volume.gain.setTargetAtTime(level, audioCtx.currentTime, 0.02);
+    },
+    fadeOut: (seconds) => {
+      const now = audioCtx.currentTime;
+      volume.gain.cancelScheduledValues(now);
+      volume.gain.setValueAtTime(volume.gain.value, now);
+      volume.gain.linearRampToValueAtTime(0, now + Math.max(0.01, seconds));
+    },
+    dispose: () => {
+      element.removeEventListener('ended', onEnded);
+      element.pause();
+      element.removeAttribute('src');
+      element.load();
+      source.disconnect();
+      volume.disconnect();
+      URL.revokeObjectURL(url);
+    },
+  };
+};
+
+/**
+ * A silent transport: a clock that runs for `duration` seconds, for
+ * transmissions that are only on-screen text (or a browser voice the page
+ * cannot pause or seek, which the player restarts from the clock instead).
+ */
+export const createClockTransport = (duration: number, onEnded: () => void): Transport => {
+  let offset = 0;
+  let startedAt: number | null = null;
+  let rate = 1;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const now = () => performance.now() / 1000;
+  const currentTime = () => (startedAt === null ? offset : clamp(offset + (now() - startedAt) * rate, duration));
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+  const scheduleEnd = () => {
+    clearTimer();
+    if (startedAt === null) return;
+    timer = setTimeout(() => {
+      offset = duration;
+      startedAt = null;
+      timer = null;
+      onEnded();
+    }, ((duration - currentTime()) / rate) * 1000);
+  };
+  // Re-anchors the clock at its current reading, e.g. before a rate change.
+  const rebase = (seconds: number) => {
+    offset = clamp(seconds, duration);
+    if (startedAt !== null) startedAt = now();
+  };
+
+  return {
+    duration,
+    output: null,
+    currentTime,
+    isPlaying: () => startedAt !== null,
+    play: async () => {
+      if (startedAt !== null) return;
+      if (offset >= duration) offset = 0;
+      startedAt = now();
+      scheduleEnd();
+    },
+    pause: () => {
+      offset = currentTime();
+      startedAt = null;
+      clearTimer();
+    },
+    seek: (seconds) => {
+      rebase(seconds);
+      scheduleEnd();
+    },
+    setRate: (next) => {
+      rebase(currentTime());
+      rate = next;
+      scheduleEnd();
+    },
+    setVolume: () => {},
+    fadeOut: () => {},
+    dispose: clearTimer,
+  };
+};
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  seekTo: (seconds: number) => void;
+  seekBy: (seconds: number) => void;
+}
+
+/**
+ * Publishes the transmission to the operating system's media controls (lock
+ * screen, headset buttons, media keys).
+ *
+ * @returns A function that clears the session again.
+ */
+export const bindMediaSession = (
+  metadata: { title: string; artist: string; artwork: string | null },
+  handlers: MediaSessionHandlers,
+): (() => void) => {
+  if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) return () => {};
+  const session = navigator.mediaSession;
+  session.metadata = new MediaMetadata({
+    title: metadata.title,
+    artist: metadata.artist,
+    album: MEDIA_SESSION_ALBUM,
+    artwork: metadata.artwork ? [{ src: metadata.artwork }] : [],
+  });
+
+  const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+    ['play', () => handlers.play()],
+    ['pause', () => handlers.pause()],
+    ['stop', () => handlers.stop()],
+    ['seekto', (details) => { if (details.seekTime !== undefined) handlers.seekTo(details.seekTime); }],
+    ['seekbackward', (details) => handlers.seekBy(-(details.seekOffset ?? MEDIA_SESSION_SEEK_SECONDS))],
+    ['seekforward', (details) => handlers.seekBy(details.seekOffset ?? MEDIA_SESSION_SEEK_SECONDS)],
+  ];
+  const setHandlers = (enabled: boolean) =>
+    actions.forEach(([action, callback]) => {
+      try {
+        session.setActionHandler(action, enabled ? callback : null);
+      } catch (e) { /* Action not supported by this browser */ }
+    });
+
+  setHandlers(true);
+  return () => {
+    setHandlers(false);
+    session.metadata = null;
+    session.playbackState = 'none';
+  };
+};
+
+/**
+ * Keeps the media controls' play state and progress bar in step with the player.
+ */
+export const updateMediaSessionState = (playing: boolean, duration: number, position: number, rate: number): void => {
+  if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) return;
+  navigator.mediaSession.playbackState = playing ? 'playing' : 'paused';
+  try {
+    navigator.mediaSession.setPositionState({ duration, position: clamp(position, duration), playbackRate: rate });
+  } catch (e) { /* Position state not supported, or duration is zero */ }
+};
@@ -0,0 +1,460 @@
+import { PostEffectId, PostEffectSettings, WeatherData } from '../types';
+import { getWeatherCondition } from '../constants';
+
+export const POST_EFFECT_IDS: PostEffectId[] = ['kenBurns', 'chromaticAberration', 'bloom', 'rain', 'grain', 'scanlines', 'vignette'];
+
+export const POST_EFFECT_LABELS: Record<PostEffectId, string> = {
+  kenBurns: 'Ken Burns',
+  chromaticAberration: 'Aberration',
+  bloom: 'Neon bloom',
+  rain: 'Rain streaks',
+  grain: 'Film grain',
+  scanlines: 'Scanlines',
+  vignette: 'Vignette',
+};
+
+/**
+ * The weather as the effects see it.
+ */
+export interface SceneWeather {
+  precipitation: number; // 0-1 streak density
+  snow: boolean; // Streaks fall as slow flakes
+  drift: number; // 0-1 from wind speed: camera drift and streak slant
+  windX: number; // -1 to 1, the horizontal direction the wind carries things
+}
+
+export interface PostProcessor {
+  canvas: HTMLCanvasElement;
+  backend: 'webgl2' | 'canvas2d';
+  /** Draws the frame for `seconds` since the scene started. */
+  render: (seconds: number) => void;
+  resize: (width: number, height: number) => void;
+  dispose: () => void;
+}
+
+/**
+ * What the stack draws: a still image, or a video whose current frame is
+ * taken afresh on every render.
+ */
+export type SceneSource = HTMLImageElement | HTMLVideoElement;
+
+const sourceSize = (source: SceneSource): { width: number; height: number } =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+
+export interface PostProcessorOptions {
+  width: number;
+  height: number;
+  readable?: boolean; // Keep the WebGL frame around so it can be copied with drawImage
+}
+
+const KEN_BURNS_PERIOD_SECONDS = 30;
+const MAX_WIND_KMH = 60; // Wind at or above this drifts at full speed
+
+/**
+ * Maps a weather snapshot to effect inputs: heavier precipitation codes give
+ * denser streaks and the wind sets how fast and which way the scene drifts.
+ */
+export const deriveSceneWeather = (weather: WeatherData): SceneWeather => {
+  const condition = getWeatherCondition(weather.conditionCode);
+  const falling = condition.precipitation !== 'none' && condition.category !== 'fog';
+  const fromCode = condition.intensity / 4 * (condition.category === 'drizzle' ? 0.6 : 1);
+  const fromGauge = Math.min(1, weather.precipitation / 8);
+  const direction = (weather.windDirection * Math.PI) / 180;
+
+  return {
+    precipitation: falling ? Math.max(fromCode, fromGauge, 0.15) : 0,
+    snow: condition.precipitation === 'snow',
+    drift: Math.min(1, weather.windSpeed / MAX_WIND_KMH),
+    // windDirection is where the wind comes from, so things move the other way.
+    windX: -Math.sin(direction),
+  };
+};
+
+/**
+ * Zoom and pan (each axis -1 to 1, scaled by the headroom the zoom leaves)
+ * for the Ken Burns move, shared by both backends.
+ */
+const kenBurnsAt = (seconds: number, strength: number, scene: SceneWeather) => {
+  const breath = 0.5 - 0.5 * Math.cos((2 * Math.PI * seconds) / KEN_BURNS_PERIOD_SECONDS);
+  const zoom = 1 + strength * (0.06 + 0.08 * breath);
+  const pace = 0.3 + scene.drift;
+  const panX = Math.max(-1, Math.min(1, 0.6 * Math.sin(seconds * 0.05 * pace) + 0.4 * scene.windX * scene.drift));
+  const panY = 0.6 * Math.cos(seconds * 0.037 * pace);
+  return { zoom, panX, panY };
+};
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 aPosition;
+out vec2 vUv;
+void main() {
+  vUv = aPosition * 0.5 + 0.5;
+  gl_Position = vec4(aPosition, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+in vec2 vUv;
+out vec4 outColor;
+
+uniform sampler2D uImage;
+uniform vec2 uResolution;
+uniform vec2 uImageSize;
+uniform float uTime;
+uniform float uZoom;
+uniform vec2 uPan;
+uniform float uAberration;
+uniform float uBloom;
+uniform float uRain;
+uniform float uGrain;
+uniform float uScanlines;
+uniform float uVignette;
+uniform float uPrecipitation;
+uniform float uSnow;
+uniform float uDrift;
+uniform float uWindX;
+
+float hash12(vec2 p) {
+  vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+  p3 += dot(p3, p3.yzx + 33.33);
+  return fract((p3.x + p3.y) * p3.z);
+}
+
+// object-cover, then the Ken Burns zoom and pan.
+vec2 sceneUv(vec2 uv) {
+  float canvasAspect = uResolution.x / uResolution.y;
+  float imageAspect = uImageSize.x / uImageSize.y;
+  vec2 cover = canvasAspect > imageAspect ? vec2(1.0, imageAspect / canvasAspect) : vec2(canvasAspect / imageAspect, 1.0);
+  vec2 headroom = (1.0 - 1.0 / uZoom) * 0.5 * cover;
+  return (uv - 0.5) * cover / uZoom + 0.5 + uPan * headroom;
+}
+
+vec3 sampleScene(vec2 uv) {
+  vec2 offset = (uv - 0.5) * uAberration * 0.015;
+  return vec3(
+    texture(uImage, uv + offset).r,
+    texture(uImage, uv).g,
+    texture(uImage, uv - offset).b
+  );
+}
+
+// Bright-pass of two rings of taps around uv.
+vec3 bloomAt(vec2 uv) {
+  vec3 sum = vec3(0.0);
+  for (int i = 0; i < 12; i++) {
+    float angle = float(i) * 0.5236;
+    float radius = i % 2 == 0 ? 0.012 : 0.024;
+    vec3 tap = texture(uImage, uv + vec2(cos(angle), sin(angle)) * radius).rgb;
+    sum += max(tap - 0.55, 0.0);
+  }
+  return sum / 12.0;
+}
+
+float rainLayer(vec2 uv, float columns, float speed, float seed) {
+  vec2 p = uv;
+  p.x += p.y * uWindX * (0.05 + 0.35 * uDrift);
+  float column = floor(p.x * columns);
+  float columnHash = hash12(vec2(column, seed));
+  float y = p.y * columns * 0.25 + uTime * speed * (0.7 + 0.6 * columnHash) + columnHash * 10.0;
+  float present = step(hash12(vec2(column, floor(y) + seed)), uPrecipitation * 0.6);
+  float fx = fract(p.x * columns) - 0.5;
+  float fy = fract(y);
+  float streak = smoothstep(0.12, 0.0, abs(fx)) * smoothstep(0.0, 0.7, fy) * smoothstep(1.0, 0.85, fy);
+  float flake = smoothstep(0.25, 0.0, length(vec2(fx, (fy - 0.5) * 0.25)));
+  return present * mix(streak, flake, uSnow);
+}
+
+void main() {
+  vec2 uv = sceneUv(vUv);
+  vec3 color = sampleScene(uv);
+  color += bloomAt(uv) * uBloom * 2.5;
+
+  if (uRain > 0.0 && uPrecipitation > 0.0) {
+    float aspect = uResolution.x / uResolution.y;
+    vec2 screen = vec2(vUv.x * aspect, vUv.y);
+    float speed = mix(1.6, 0.25, uSnow);
+    float drops = rainLayer(screen, 70.0, speed, 1.0) + 0.6 * rainLayer(screen, 120.0, speed * 0.7, 7.0);
+    color += vec3(0.75, 0.8, 0.85) * drops * uRain * 0.35;
+  }
+
+  float line = step(0.5, fract(gl_FragCoord.y * 0.5));
+  color *= 1.0 - uScanlines * 0.3 * line;
+  float fringe = mod(floor(gl_FragCoord.x), 3.0);
+  color *= 1.0 + uScanlines * 0.06 * vec3(fringe == 0.0 ? 1.0 : -0.5, fringe == 1.0 ? 0.3 : -0.2, fringe == 2.0 ? 1.0 : -0.5);
+
+  float noise = hash12(gl_FragCoord.xy + fract(uTime * 24.0) * vec2(113.0, 71.0)) - 0.5;
+  color += noise * uGrain * 0.2;
+
+  float distanceFromCentre = length(vUv - 0.5) * 1.4142;
+  color *= 1.0 - uVignette * 0.85 * smoothstep(0.35, 1.1, distanceFromCentre);
+
+  outColor = vec4(clamp(color, 0.0, 1.0), 1.0);
+}`;
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Could not create shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader failed to compile: ${log}`);
+  }
+  return shader;
+};
+
+const createWebGlProcessor = (
+  source: SceneSource,
+  effects: PostEffectSettings,
+  scene: SceneWeather,
+  options: PostProcessorOptions,
+): PostProcessor | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = options.width;
+  canvas.height = options.height;
+  const gl = canvas.getContext('webgl2', { preserveDrawingBuffer: options.readable ?? false, antialias: false });
+  if (!gl) return null;
+
+  try {
+    const program = gl.createProgram()!;
+    gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(`Shader failed to link: ${gl.getProgramInfoLog(program)}`);
+    gl.useProgram(program);
+
+    const quad = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'aPosition');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    const uniform = (name: string) => gl.getUniformLocation(program, name);
+    const imageSize = uniform('uImageSize');
+    const initialSize = sourceSize(source);
+    gl.uniform2f(imageSize, initialSize.width, initialSize.height);
+    gl.uniform1f(uniform('uAberration'), effects.chromaticAberration ?? 0);
+    gl.uniform1f(uniform('uBloom'), effects.bloom ?? 0);
+    gl.uniform1f(uniform('uRain'), effects.rain ?? 0);
+    gl.uniform1f(uniform('uGrain'), effects.grain ?? 0);
+    gl.uniform1f(uniform('uScanlines'), effects.scanlines ?? 0);
+    gl.uniform1f(uniform('uVignette'), effects.vignette ?? 0);
+    gl.uniform1f(uniform('uPrecipitation'), scene.precipitation);
+    gl.uniform1f(uniform('uSnow'), scene.snow ? 1 : 0);
+    gl.uniform1f(uniform('uDrift'), scene.drift);
+    gl.uniform1f(uniform('uWindX'), scene.windX);
+    const resolution = uniform('uResolution');
+    const time = uniform('uTime');
+    const zoom = uniform('uZoom');
+    const pan = uniform('uPan');
+
+    return {
+      canvas,
+      backend: 'webgl2',
+      render: (seconds) => {
+        // HAVE_CURRENT_DATA: the video has a frame to show.
+        if (source instanceof HTMLVideoElement && source.readyState >= 2) {
+          const { width, height } = sourceSize(source);
+          gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+          gl.uniform2f(imageSize, width, height);
+        }
+        const move = kenBurnsAt(seconds, effects.kenBurns ?? 0, scene);
+        gl.viewport(0, 0, canvas.width, canvas.height);
+        gl.uniform2f(resolution, canvas.width, canvas.height);
+        gl.uniform1f(time, seconds);
+        gl.uniform1f(zoom, move.zoom);
+        gl.uniform2f(pan, move.panX, move.panY);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+      },
+      resize: (width, height) => {
+        canvas.width = width;
+        canvas.height = height;
+      },
+      dispose: () => {
+        gl.deleteTexture(texture);
+        gl.deleteBuffer(quad);
+        gl.deleteProgram(program);
+        gl.getExtension('WEBGL_lose_context')?.loseContext();
+      },
+    };
+  } catch (e) {
+    console.warn("WebGL2 post-processing unavailable, using Canvas2D", e);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+    return null;
+  }
+};
+
+interface Drop {
+  x: number; // 0-1 across
+  y: number; // 0-1 down
+  speed: number; // Screen heights per second
+  length: number; // Fraction of the screen height
+}
+
+const createNoiseTile = (size: number): HTMLCanvasElement => {
+  const tile = document.createElement('canvas');
+  tile.width = tile.height = size;
+  const ctx = tile.getContext('2d')!;
+  const data = ctx.createImageData(size, size);
+  for (let i = 0; i < data.data.length; i += 4) {
+    const v = Math.random() * 255;
+    data.data[i] = data.data[i + 1] = data.data[i + 2] = v;
+    data.data[i + 3] = 255;
+  }
+  ctx.putImageData(data, 0, 0);
+  return tile;
+};
+
+/**
+ * The same stack drawn with Canvas2D: everything except chromatic aberration,
+ * with particle rain and a blurred additive pass standing in for bloom.
+ */
+const createCanvasProcessor = (
+  source: SceneSource,
+  effects: PostEffectSettings,
+  scene: SceneWeather,
+  options: PostProcessorOptions,
+): PostProcessor => {
+  const canvas = document.createElement('canvas');
+  canvas.width = options.width;
+  canvas.height = options.height;
+  const ctx = canvas.getContext('2d')!;
+  const noise = (effects.grain ?? 0) > 0 ? createNoiseTile(128) : null;
+  const rainStrength = (effects.rain ?? 0) * scene.precipitation;
+  const drops: Drop[] = Array.from({ length: Math.round(rainStrength * 260) }, () => ({
+    x: Math.random(),
+    y: Math.random(),
+    speed: scene.snow ? 0.08 + Math.random() * 0.06 : 0.9 + Math.random() * 0.7,
+    length: scene.snow ? 0 : 0.03 + Math.random() * 0.04,
+  }));
+  let lastSeconds = 0;
+
+  const render = (seconds: number) => {
+    const { width, height } = canvas;
+    const dt = Math.max(0, Math.min(0.1, seconds - lastSeconds));
+    lastSeconds = seconds;
+
+    // object-cover source rectangle, shrunk by the zoom and shifted by the pan.
+    const move = kenBurnsAt(seconds, effects.kenBurns ?? 0, scene);
+    const image = sourceSize(source);
+    const scale = Math.max(width / image.width, height / image.height) * move.zoom;
+    const sw = width / scale;
+    const sh = height / scale;
+    const sx = (image.width - sw) / 2 + move.panX * (image.width - sw) / 2;
+    const sy = (image.height - sh) / 2 - move.panY * (image.height - sh) / 2;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    ctx.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+
+    const bloom = effects.bloom ?? 0;
+    if (bloom > 0) {
+      ctx.globalCompositeOperation = 'lighter';
+      ctx.globalAlpha = 0.35 * bloom;
+      ctx.filter = `blur(${Math.round(width / 80)}px) brightness(1.2)`;
+      ctx.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+      ctx.filter = 'none';
+    }
+
+    if (drops.length) {
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.globalAlpha = 0.35 * (effects.rain ?? 0);
+      ctx.strokeStyle = ctx.fillStyle = 'rgb(190, 205, 215)';
+      ctx.lineWidth = Math.max(1, width / 900);
+      const lean = scene.windX * (0.05 + 0.35 * scene.drift);
+      ctx.beginPath();
+      for (const drop of drops) {
+        drop.y += drop.speed * dt;
+        drop.x += drop.speed * dt * lean * (height / width);
+        if (drop.y > 1) {
+          drop.y -= 1 + drop.length;
+          drop.x = Math.random();
+        }
+        drop.x = (drop.x + 1) % 1;
+        const x = drop.x * width;
+        const y = drop.y * height;
+        if (scene.snow) {
+          ctx.moveTo(x + 2, y);
+          ctx.arc(x, y, 2, 0, Math.PI * 2);
+        } else {
+          ctx.moveTo(x, y);
+          ctx.lineTo(x - lean * drop.length * height, y - drop.length * height);
+        }
+      }
+      if (scene.snow) ctx.fill();
+      else ctx.stroke();
+    }
+
+    const scanlines = effects.scanlines ?? 0;
+    if (scanlines > 0) {
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.globalAlpha = 0.3 * scanlines;
+      ctx.fillStyle = '#000';
+      for (let y = 1; y < height; y += 2) ctx.fillRect(0, y, width, 1);
+    }
+
+    const grain = effects.grain ?? 0;
+    if (noise && grain > 0) {
+      ctx.globalCompositeOperation = 'overlay';
+      ctx.globalAlpha = 0.25 * grain;
+      const pattern = ctx.createPattern(noise, 'repeat');
+      if (pattern) {
+        ctx.save();
+        ctx.translate(-Math.random() * noise.width, -Math.random() * noise.height);
+        ctx.fillStyle = pattern;
+        ctx.fillRect(0, 0, width + noise.width, height + noise.height);
+        ctx.restore();
+      }
+    }
+
+    const vignette = effects.vignette ?? 0;
+    if (vignette > 0) {
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.globalAlpha = 1;
+      const radius = Math.hypot(width, height) / 2;
+      const gradient = ctx.createRadialGradient(width / 2, height / 2, radius * 0.35, width / 2, height / 2, radius * 1.1);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+      gradient.addColorStop(1, `rgba(0, 0, 0, ${0.85 * vignette})`);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+  };
+
+  return {
+    canvas,
+    backend: 'canvas2d',
+    render,
+    resize: (width, height) => {
+      canvas.width = width;
+      canvas.height = height;
+    },
+    dispose: () => { drops.length = 0; },
+  };
+};
+
+/**
+ * Builds the post-processing stack for one scenery image or video: WebGL2 when
+ * the browser can, Canvas2D otherwise. The processor owns its canvas; callers
+ * place it on the page or copy frames out of it.
+ */
+export const createPostProcessor = (
+  source: SceneSource,
+  effects: PostEffectSettings,
+  scene: SceneWeather,
+  options: PostProcessorOptions,
+): PostProcessor =>
+  createWebGlProcessor(source, effects, scene, options) ?? createCanvasProcessor(source, effects, scene, options);
@@ -0,0 +1,316 @@
+import { Coordinates, MapProjection, MapView } from '../types';
+
+const RAD = Math.PI / 180;
+const DEG = 180 / Math.PI;
+const VIEW_STORAGE_KEY = 'lynchian-map';
+
+export const MAP_PROJECTIONS: MapProjection[] = ['equirectangular', 'robinson', 'orthographic'];
+
+export const MAP_PROJECTION_LABELS: Record<MapProjection, string> = {
+  equirectangular: 'Flat',
+  robinson: 'Robinson',
+  orthographic: 'Globe',
+};
+
+export const MIN_ZOOM = 1;
+// Past this the 1:50m coastlines start to show their corners.
+export const MAX_ZOOM = 8;
+
+export const DEFAULT_MAP_VIEW: MapView = {
+  projection: 'equirectangular',
+  zoom: 1,
+  pan: { x: 0, y: 0 },
+  rotation: { lat: 20, lng: 0 },
+};
+
+// Robinson's table: parallel length and distance from the equator every 5° of latitude.
+const ROBINSON_X = [1, 0.9986, 0.9954, 0.99, 0.9822, 0.973, 0.96, 0.9427, 0.9216, 0.8962, 0.8679, 0.835, 0.7986, 0.7597, 0.7186, 0.6732, 0.6213, 0.5722, 0.5322];
+const ROBINSON_Y = [0, 0.062, 0.124, 0.186, 0.248, 0.31, 0.372, 0.434, 0.4958, 0.5571, 0.6176, 0.6769, 0.7346, 0.7903, 0.8435, 0.8936, 0.9394, 0.9761, 1];
+const ROBINSON_WIDTH = 0.8487;
+const ROBINSON_HEIGHT = 1.3523;
+
+// Extent of each projection's plane, in radii.
+const PLANE_SIZE: Record<MapProjection, { width: number; height: number }> = {
+  equirectangular: { width: 2 * Math.PI, height: Math.PI },
+  robinson: { width: 2 * Math.PI * ROBINSON_WIDTH, height: 2 * ROBINSON_HEIGHT },
+  orthographic: { width: 2, height: 2 },
+};
+
+/** A point in pixels from the top left of the map. */
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+/** A point on a projection's plane, in radii from its centre, y up. */
+interface PlanePoint {
+  x: number;
+  y: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const normalizeLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Linear interpolation in Robinson's table at `lat` degrees.
+ */
+const robinsonRow = (lat: number) => {
+  const index = Math.min(Math.abs(lat) / 5, ROBINSON_X.length - 1.000001);
+  const i = Math.floor(index);
+  const f = index - i;
+  return {
+    x: ROBINSON_X[i] + (ROBINSON_X[i + 1] - ROBINSON_X[i]) * f,
+    y: ROBINSON_Y[i] + (ROBINSON_Y[i + 1] - ROBINSON_Y[i]) * f,
+  };
+};
+
+/**
+ * Latitude in degrees whose Robinson distance from the equator is `y` (0-1).
+ */
+const robinsonLatitude = (y: number) => {
+  let i = 0;
+  while (i < ROBINSON_Y.length - 2 && ROBINSON_Y[i + 1] < y) i++;
+  return (i + (y - ROBINSON_Y[i]) / (ROBINSON_Y[i + 1] - ROBINSON_Y[i])) * 5;
+};
+
+/**
+ * Cosine of the angle between a point and the centre of the globe: positive on the near side.
+ */
+const facing = (coords: Coordinates, rotation: Coordinates) =>
+  Math.sin(rotation.lat * RAD) * Math.sin(coords.lat * RAD)
+  + Math.cos(rotation.lat * RAD) * Math.cos(coords.lat * RAD) * Math.cos((coords.lng - rotation.lng) * RAD);
+
+/**
+ * Projects onto the plane. The globe's far side still projects (onto the near
+ * side's mirror image), so check `facing` first.
+ */
+const toPlane = (projection: MapProjection, coords: Coordinates, rotation: Coordinates): PlanePoint => {
+  switch (projection) {
+    case 'robinson': {
+      const row = robinsonRow(coords.lat);
+      return { x: ROBINSON_WIDTH * row.x * coords.lng * RAD, y: Math.sign(coords.lat) * ROBINSON_HEIGHT * row.y };
+    }
+    case 'orthographic': {
+      const lat = coords.lat * RAD;
+      const dLng = (coords.lng - rotation.lng) * RAD;
+      const centreLat = rotation.lat * RAD;
+      return {
+        x: Math.cos(lat) * Math.sin(dLng),
+        y: Math.cos(centreLat) * Math.sin(lat) - Math.sin(centreLat) * Math.cos(lat) * Math.cos(dLng),
+      };
+    }
+    default:
+      return { x: coords.lng * RAD, y: coords.lat * RAD };
+  }
+};
+
+/**
+ * Inverse of toPlane; null off the edge of the map.
+ */
+const fromPlane = (projection: MapProjection, point: PlanePoint, rotation: Coordinates): Coordinates | null => {
+  switch (projection) {
+    case 'robinson': {
+      const y = Math.abs(point.y) / ROBINSON_HEIGHT;
+      if (y > 1) return null;
+      const lat = Math.sign(point.y) * robinsonLatitude(y);
+      const lng = (point.x / (ROBINSON_WIDTH * robinsonRow(lat).x)) * DEG;
+      return Math.abs(lng) > 180 ? null : { lat, lng };
+    }
+    case 'orthographic': {
+      const rho = Math.hypot(point.x, point.y);
+      if (rho > 1) return null;
+      if (rho === 0) return { ...rotation };
+      const c = Math.asin(rho);
+      const centreLat = rotation.lat * RAD;
+      const lat = Math.asin(Math.cos(c) * Math.sin(centreLat) + (point.y * Math.sin(c) * Math.cos(centreLat)) / rho);
+      const lng = rotation.lng * RAD + Math.atan2(point.x * Math.sin(c), rho * Math.cos(c) * Math.cos(centreLat) - point.y * Math.sin(c) * Math.sin(centreLat));
+      return { lat: lat * DEG, lng: normalizeLng(lng * DEG) };
+    }
+    default: {
+      const lng = point.x * DEG;
+      const lat = point.y * DEG;
+      return Math.abs(lng) > 180 || Math.abs(lat) > 90 ? null : { lat, lng };
+    }
+  }
+};
+
+/**
+ * Where an edge from a visible point to a hidden one crosses the globe's horizon.
+ */
+const horizonCrossing = (from: Coordinates, to: Coordinates, rotation: Coordinates): Coordinates => {
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 12; i++) {
+    const mid = (lo + hi) / 2;
+    const point = { lat: from.lat + (to.lat - from.lat) * mid, lng: from.lng + (to.lng - from.lng) * mid };
+    if (facing(point, rotation) >= 0) lo = mid;
+    else hi = mid;
+  }
+  return { lat: from.lat + (to.lat - from.lat) * lo, lng: from.lng + (to.lng - from.lng) * lo };
+};
+
+/**
+ * The map as framed by a view in a frame of a given size. Everything drawn on
+ * the map or read back from the pointer goes through one of these, so
+ * markers, overlays and clicks always agree.
+ */
+export interface Viewport {
+  view: MapView;
+  width: number;
+  height: number;
+  /** Pixels per radius. */
+  scale: number;
+  /** The map's centre on screen. */
+  centre: ScreenPoint;
+  /** Null on the far side of the globe. */
+  project: (coords: Coordinates) => ScreenPoint | null;
+  /** Null off the edge of the map. */
+  invert: (point: ScreenPoint) => Coordinates | null;
+  /** A line as screen polylines, broken where it wraps round the antimeridian or passes behind the globe. */
+  projectLine: (path: Coordinates[]) => ScreenPoint[][];
+  /** A closed ring as a screen polygon, clipped to the globe's near side; null when none of it shows. */
+  projectRing: (ring: Coordinates[]) => ScreenPoint[] | null;
+}
+
+export const createViewport = (view: MapView, width: number, height: number): Viewport => {
+  const { projection, rotation } = view;
+  const plane = PLANE_SIZE[projection];
+  const scale = Math.min(width / plane.width, height / plane.height) * view.zoom;
+  const centre = { x: width / 2 + view.pan.x, y: height / 2 + view.pan.y };
+  const globe = projection === 'orthographic';
+
+  const toScreen = (point: PlanePoint): ScreenPoint => ({ x: centre.x + point.x * scale, y: centre.y - point.y * scale });
+
+  const project = (coords: Coordinates) =>
+    globe && facing(coords, rotation) < 0 ? null : toScreen(toPlane(projection, coords, rotation));
+
+  const invert = (point: ScreenPoint) =>
+    fromPlane(projection, { x: (point.x - centre.x) / scale, y: (centre.y - point.y) / scale }, rotation);
+
+  const projectLine = (path: Coordinates[]) => {
+    const lines: ScreenPoint[][] = [];
+    let line: ScreenPoint[] = [];
+    path.forEach((coords, i) => {
+      const point = project(coords);
+      const wraps = !globe && i > 0 && Math.abs(coords.lng - path[i - 1].lng) > 180;
+      if (!point || wraps) {
+        if (line.length > 1) lines.push(line);
+        line = [];
+      }
+      if (point) line.push(point);
+    });
+    if (line.length > 1) lines.push(line);
+    return lines;
+  };
+
+  // Runs along the horizon from one angle to another, the short way round.
+  const limbArc = (from: number, to: number): ScreenPoint[] => {
+    let sweep = to - from;
+    while (sweep > Math.PI) sweep -= 2 * Math.PI;
+    while (sweep < -Math.PI) sweep += 2 * Math.PI;
+    const steps = Math.ceil(Math.abs(sweep) / (5 * RAD));
+    return Array.from({ length: steps }, (_, i) => {
+      const angle = from + (sweep * (i + 1)) / (steps + 1);
+      return toScreen({ x: Math.cos(angle), y: Math.sin(angle) });
+    });
+  };
+
+  const projectRing = (ring: Coordinates[]) => {
+    if (!globe) return ring.map(coords => toScreen(toPlane(projection, coords, rotation)));
+
+    const start = ring.findIndex(coords => facing(coords, rotation) >= 0);
+    if (start < 0) return null;
+    const points: ScreenPoint[] = [];
+    let exitAngle = 0;
+    for (let i = 0; i < ring.length; i++) {
+      const from = ring[(start + i) % ring.length];
+      const to = ring[(start + i + 1) % ring.length];
+      const fromVisible = facing(from, rotation) >= 0;
+      const toVisible = facing(to, rotation) >= 0;
+      if (fromVisible !== toVisible) {
+        const crossing = toPlane(projection, fromVisible ? horizonCrossing(from, to, rotation) : horizonCrossing(to, from, rotation), rotation);
+        const angle = Math.atan2(crossing.y, crossing.x);
+        if (fromVisible) {
+          exitAngle = angle;
+        } else {
+          points.push(...limbArc(exitAngle, angle));
+        }
+        points.push(toScreen(crossing));
+      }
+      if (toVisible) points.push(toScreen(toPlane(projection, to, rotation)));
+    }
+    return points;
+  };
+
+  return { view, width, height, scale, centre, project, invert, projectLine, projectRing };
+};
+
+/**
+ * Keeps the map covering the frame: it can only be dragged as far as it overhangs.
+ */
+export const clampView = (view: MapView, width: number, height: number): MapView => {
+  const zoom = clamp(view.zoom, MIN_ZOOM, MAX_ZOOM);
+  const plane = PLANE_SIZE[view.projection];
+  const scale = Math.min(width / plane.width, height / plane.height) * zoom;
+  const overhangX = Math.max(0, (plane.width * scale - width) / 2);
+  const overhangY = Math.max(0, (plane.height * scale - height) / 2);
+  return {
+    ...view,
+    zoom,
+    pan: { x: clamp(view.pan.x, -overhangX, overhangX), y: clamp(view.pan.y, -overhangY, overhangY) },
+    rotation: { lat: clamp(view.rotation.lat, -90, 90), lng: normalizeLng(view.rotation.lng) },
+  };
+};
+
+/**
+ * Zooms by `factor`, keeping the point under `anchor` (e.g. the cursor) where it is.
+ */
+export const zoomView = (view: MapView, factor: number, anchor: ScreenPoint, width: number, height: number): MapView => {
+  const zoom = clamp(view.zoom * factor, MIN_ZOOM, MAX_ZOOM);
+  const k = zoom / view.zoom;
+  const centre = { x: width / 2 + view.pan.x, y: height / 2 + view.pan.y };
+  return clampView({
+    ...view,
+    zoom,
+    pan: {
+      x: anchor.x - (anchor.x - centre.x) * k - width / 2,
+      y: anchor.y - (anchor.y - centre.y) * k - height / 2,
+    },
+  }, width, height);
+};
+
+/**
+ * Follows a drag of (dx, dy) pixels: the flat maps slide, the globe turns.
+ */
+export const dragView = (view: MapView, dx: number, dy: number, width: number, height: number): MapView => {
+  if (view.projection !== 'orthographic') {
+    return clampView({ ...view, pan: { x: view.pan.x + dx, y: view.pan.y + dy } }, width, height);
+  }
+  const scale = createViewport(view, width, height).scale;
+  return clampView({
+    ...view,
+    rotation: { lat: view.rotation.lat + (dy / scale) * DEG, lng: view.rotation.lng - (dx / scale) * DEG },
+  }, width, height);
+};
+
+/**
+ * Reads the saved projection, falling back to the flat map.
+ */
+export const loadMapProjection = (): MapProjection => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(VIEW_STORAGE_KEY) : null;
+    const parsed = stored ? JSON.parse(stored) : {};
+    return MAP_PROJECTIONS.includes(parsed.projection) ? parsed.projection : DEFAULT_MAP_VIEW.projection;
+  } catch (e) {
+    return DEFAULT_MAP_VIEW.projection;
+  }
+};
+
+export const saveMapProjection = (projection: MapProjection): void => {
+  try {
+    localStorage.setItem(VIEW_STORAGE_KEY, JSON.stringify({ projection }));
+  } catch (e) {
+    console.warn("Map projection could not be saved", e);
+  }
+};
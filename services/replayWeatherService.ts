@@ -0,0 +1,55 @@
+import { Coordinates, CityWeather, WeatherGrid, WeatherProvider } from '../types';
+import { MAJOR_CITIES } from '../constants';
+import { parseOpenMeteoCurrent } from './weatherService';
+import { FIXTURE_WEATHER, WeatherRecording } from './weatherFixtures';
+import { distanceKm } from './utils';
+import { GRID_POINTS, buildWeatherGrid } from './weatherGridService';
+
+const findNearestRecording = (recordings: WeatherRecording[], coords: Coordinates): WeatherRecording => {
+  let nearest = recordings[0];
+  let best = Infinity;
+  for (const recording of recordings) {
+    const d = distanceKm(coords, recording.coords);
+    if (d < best) {
+      best = d;
+      nearest = recording;
+    }
+  }
+  return nearest;
+};
+
+/**
+ * Creates a provider that replays stored Open-Meteo responses.
+ * Every lookup resolves to the recording nearest to the requested coordinates,
+ * so results are stable and no request ever leaves the browser. Recordings are
+ * snapshots, so a time-travel request replays the same snapshot stamped with the requested time.
+ *
+ * @param recordings - Responses to serve. Defaults to the bundled synthetic fixtures.
+ */
+export const createReplayWeatherProvider = (recordings: WeatherRecording[] = FIXTURE_WEATHER): WeatherProvider => {
+  if (recordings.length === 0) {
+    throw new Error("Replay weather provider needs at least one recording");
+  }
+
+  return {
+    id: 'REPLAY',
+    name: 'Synthetic Fixtures',
+    requiresNetwork: false,
+    fetchWeatherData: async (coords, at) => ({
+      ...parseOpenMeteoCurrent(findNearestRecording(recordings, coords).response),
+      observedAt: (at || new Date()).toISOString(),
+    }),
+    fetchGlobalTemperatures: async (): Promise<CityWeather[]> =>
+      MAJOR_CITIES.map(city => {
+        const weather = parseOpenMeteoCurrent(findNearestRecording(recordings, city).response);
+        return { ...city, temperature: weather.temperature, conditionCode: weather.conditionCode };
+      }),
+    fetchWeatherGrid: async (at?: Date): Promise<WeatherGrid> =>
+      buildWeatherGrid(GRID_POINTS.map(point => {
+        const { temperature, windSpeed, windDirection, precipitation, cloudCover } = parseOpenMeteoCurrent(findNearestRecording(recordings, point).response);
+        return { temperature, windSpeed, windDirection, precipitation, cloudCover };
+      }), new Date(), at),
+  };
+};
+
+export const replayWeatherProvider = createReplayWeatherProvider();
@@ -0,0 +1,356 @@
+import { SoundscapeChannel, SoundscapeMix, SoundscapeStyle, ThemeConfig, WeatherData } from '../types';
+import { getWeatherCondition } from '../constants';
+import { hashString, createSeededRandom } from './utils';
+import { deriveSceneWeather } from './postProcessingService';
+
+const MIX_STORAGE_KEY = 'lynchian-mix';
+
+export const SOUNDSCAPE_STYLES: SoundscapeStyle[] = ['industrial', 'music-box', 'synth-pad', 'none'];
+
+export const SOUNDSCAPE_CHANNELS: SoundscapeChannel[] = ['master', 'voice', 'drone', 'texture', 'rain', 'wind'];
+
+export const DEFAULT_MIX: SoundscapeMix = {
+  master: 0.9,
+  voice: 1,
+  drone: 0.6,
+  texture: 0.5,
+  rain: 0.6,
+  wind: 0.5,
+};
+
+const FADE_IN_SECONDS = 3;
+const FADE_OUT_SECONDS = 1.5;
+const DUCK_LEVEL = 0.3; // Bed gain while the voice is speaking
+const DUCK_ATTACK_SECONDS = 0.08;
+const DUCK_RELEASE_SECONDS = 0.6;
+const DUCK_THRESHOLD = 0.02; // Voice RMS that counts as speech
+const SCHEDULE_AHEAD_SECONDS = 0.3;
+const SCHEDULER_INTERVAL_MS = 100;
+
+// Tonal bed of each style: root (Hz), chord (semitones), oscillator and filter cutoff (Hz).
+const DRONE_VOICINGS: Record<Exclude<SoundscapeStyle, 'none'>, { root: number; intervals: number[]; type: OscillatorType; cutoff: number }> = {
+  'industrial': { root: 55, intervals: [0, 1, 7], type: 'sawtooth', cutoff: 320 }, // Low, dissonant machine drone
+  'music-box': { root: 261.63, intervals: [0, 4, 7, 12], type: 'sine', cutoff: 2400 }, // Soft major pad
+  'synth-pad': { root: 73.42, intervals: [0, 7, 10, 15, 19], type: 'sawtooth', cutoff: 900 }, // Brooding minor seventh
+};
+
+const MUSIC_BOX_SCALE = [0, 2, 4, 7, 9, 12, 14, 16, 19, 24]; // Major pentatonic over two octaves
+
+/**
+ * Reads the saved mixer levels, falling back to the defaults.
+ */
+export const loadMix = (): SoundscapeMix => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(MIX_STORAGE_KEY) : null;
+    const parsed = stored ? JSON.parse(stored) : {};
+    return Object.fromEntries(SOUNDSCAPE_CHANNELS.map(channel => [
+      channel,
+      typeof parsed[channel] === 'number' ? Math.max(0, Math.min(1, parsed[channel])) : DEFAULT_MIX[channel],
+    ])) as SoundscapeMix;
+  } catch (e) {
+    return { ...DEFAULT_MIX };
+  }
+};
+
+export const saveMix = (mix: SoundscapeMix): void => {
+  try {
+    localStorage.setItem(MIX_STORAGE_KEY, JSON.stringify(mix));
+  } catch (e) {
+    console.warn("Mixer levels could not be saved", e);
+  }
+};
+
+/**
+ * A running soundscape. Narration connects to `voiceInput` so it shares the
+ * mixer and ducks the bed whenever it is audible.
+ */
+export interface Soundscape {
+  voiceInput: AudioNode;
+  setMix: (mix: SoundscapeMix) => void;
+  /** Holds the bed down for speech Web Audio cannot hear, like the browser voice. */
+  setDucked: (ducked: boolean) => void;
+  /** Fades out, then releases every node. */
+  stop: (fadeSeconds?: number) => Promise<void>;
+}
+
+const createNoiseBuffer = (audioCtx: AudioContext, random: () => number): AudioBuffer => {
+  const buffer = audioCtx.createBuffer(1, audioCtx.sampleRate * 4, audioCtx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = random() * 2 - 1;
+  return buffer;
+};
+
+/**
+ * Starts a soundscape for a theme and weather snapshot, fading in over a few
+ * seconds. Wind sets the wind layer's level and gusting, precipitation the
+ * rain layer (muffled for snow, with thunder in storms), and temperature the
+ * brightness of the drone and the pace of the texture layer.
+ *
+ * @param audioCtx - Context the narration plays in.
+ * @param mix - Initial mixer levels.
+ * @param autoDuck - Duck under whatever reaches `voiceInput`. Off when that is not speech.
+ */
+export const createSoundscape = (
+  audioCtx: AudioContext,
+  theme: ThemeConfig,
+  weather: WeatherData,
+  mix: SoundscapeMix,
+  autoDuck: boolean = true,
+): Soundscape => {
+  const style = theme.soundscape;
+  const condition = getWeatherCondition(weather.conditionCode);
+  const scene = deriveSceneWeather(weather);
+  const warmth = Math.max(0, Math.min(1, (weather.temperature + 10) / 45)); // -10°C → 0, 35°C → 1
+  const random = createSeededRandom(hashString(`${style}|${weather.conditionCode}|${weather.windSpeed}|${weather.temperature}`));
+  const now = audioCtx.currentTime;
+  const silent = style === 'none'; // Still a mixer for the voice, just no bed
+
+  const sources: AudioScheduledSourceNode[] = [];
+  const nodes: AudioNode[] = [];
+  const track = <T extends AudioNode>(node: T): T => {
+    nodes.push(node);
+    if (node instanceof AudioScheduledSourceNode) sources.push(node);
+    return node;
+  };
+  const gain = (value: number) => {
+    const node = track(audioCtx.createGain());
+    node.gain.value = value;
+    return node;
+  };
+  const filter = (type: BiquadFilterType, frequency: number, q = 1) => {
+    const node = track(audioCtx.createBiquadFilter());
+    node.type = type;
+    node.frequency.value = frequency;
+    node.Q.value = q;
+    return node;
+  };
+  const lfo = (rate: number, depth: number, target: AudioParam) => {
+    const osc = track(audioCtx.createOscillator());
+    osc.frequency.value = rate;
+    const amount = gain(depth);
+    osc.connect(amount).connect(target);
+    osc.start(now);
+  };
+
+  // Mixer: every layer → bed (fade × duck) → master; voice → master.
+  const master = gain(mix.master);
+  master.connect(audioCtx.destination);
+  const voice = gain(mix.voice);
+  voice.connect(master);
+  const fade = gain(0);
+  const duck = gain(1);
+  fade.connect(duck).connect(master);
+  const channels: Record<Exclude<SoundscapeChannel, 'master' | 'voice'>, GainNode> = {
+    drone: gain(mix.drone),
+    texture: gain(mix.texture),
+    rain: gain(mix.rain),
+    wind: gain(mix.wind),
+  };
+  Object.values(channels).forEach(channel => channel.connect(fade));
+  fade.gain.setValueAtTime(0, now);
+  fade.gain.linearRampToValueAtTime(1, now + FADE_IN_SECONDS);
+
+  const noiseBuffer = createNoiseBuffer(audioCtx, random);
+  const noise = () => {
+    const source = track(audioCtx.createBufferSource());
+    source.buffer = noiseBuffer;
+    source.loop = true;
+    source.start(now, random() * noiseBuffer.duration);
+    return source;
+  };
+
+  // Wind: band-passed noise whose centre and level gust with the wind speed.
+  if (!silent && scene.drift > 0.02) {
+    const band = filter('bandpass', 400 + 500 * scene.drift, 0.8);
+    const level = gain(0.05 + 0.25 * scene.drift);
+    noise().connect(band).connect(level).connect(channels.wind);
+    lfo(0.05 + 0.3 * scene.drift, 200 + 300 * scene.drift, band.frequency);
+    lfo(0.07 + 0.25 * scene.drift, 0.04 + 0.12 * scene.drift, level.gain);
+  }
+
+  // Rain: bright hiss scaled by precipitation; snow is a faint, muffled version.
+  if (!silent && scene.precipitation > 0) {
+    const high = filter('highpass', scene.snow ? 300 : 900);
+    const low = filter('lowpass', scene.snow ? 1200 : 7000);
+    const level = gain((scene.snow ? 0.05 : 0.22) * scene.precipitation);
+    noise().connect(high).connect(low).connect(level).connect(channels.rain);
+  }
+
+  // Drone: detuned chord through a slowly sweeping low-pass, brighter when warm.
+  if (!silent) {
+    const voicing = DRONE_VOICINGS[style];
+    const cutoff = filter('lowpass', voicing.cutoff * (0.6 + 0.8 * warmth), 2);
+    const level = gain(style === 'music-box' ? 0.05 : 0.08);
+    cutoff.connect(level).connect(channels.drone);
+    lfo(0.03 + 0.04 * warmth, voicing.cutoff * 0.3, cutoff.frequency);
+    voicing.intervals.forEach((semitones, i) => {
+      for (const detune of [-6, 6]) {
+        const osc = track(audioCtx.createOscillator());
+        osc.type = voicing.type;
+        osc.frequency.value = voicing.root * Math.pow(2, semitones / 12);
+        osc.detune.value = detune * (1 + i * 0.3);
+        osc.connect(cutoff);
+        osc.start(now);
+      }
+    });
+    if (style === 'industrial') {
+      // Mains hum and its first harmonic.
+      for (const [frequency, amount] of [[60, 0.5], [120, 0.2]]) {
+        const hum = track(audioCtx.createOscillator());
+        hum.frequency.value = frequency;
+        hum.connect(gain(amount)).connect(level);
+        hum.start(now);
+      }
+    }
+  }
+
+  // Texture: one-shot events scheduled slightly ahead of the audio clock.
+  const click = (at: number, frequency: number, length: number, amount: number) => {
+    const source = audioCtx.createBufferSource();
+    source.buffer = noiseBuffer;
+    const band = audioCtx.createBiquadFilter();
+    band.type = 'bandpass';
+    band.frequency.value = frequency;
+    band.Q.value = 3;
+    const env = audioCtx.createGain();
+    env.gain.setValueAtTime(amount, at);
+    env.gain.exponentialRampToValueAtTime(0.0001, at + length);
+    source.connect(band).connect(env).connect(channels.texture);
+    source.start(at, random() * 3, length + 0.02);
+  };
+  const tone = (at: number, frequency: number, type: OscillatorType, length: number, amount: number, channel: GainNode = channels.texture) => {
+    const osc = audioCtx.createOscillator();
+    osc.type = type;
+    osc.frequency.value = frequency;
+    const env = audioCtx.createGain();
+    env.gain.setValueAtTime(0.0001, at);
+    env.gain.exponentialRampToValueAtTime(amount, at + 0.005);
+    env.gain.exponentialRampToValueAtTime(0.0001, at + length);
+    osc.connect(env).connect(channel);
+    osc.start(at);
+    osc.stop(at + length + 0.05);
+  };
+  const thunder = (at: number) => {
+    const source = audioCtx.createBufferSource();
+    source.buffer = noiseBuffer;
+    const low = audioCtx.createBiquadFilter();
+    low.type = 'lowpass';
+    low.frequency.value = 160;
+    const env = audioCtx.createGain();
+    env.gain.setValueAtTime(0.0001, at);
+    env.gain.exponentialRampToValueAtTime(0.8, at + 0.3);
+    env.gain.exponentialRampToValueAtTime(0.0001, at + 4);
+    source.connect(low).connect(env).connect(channels.rain);
+    source.start(at, random() * 3, 4.1);
+  };
+
+  // Each call returns the gap (seconds) to the next event of that kind.
+  const events: { next: number; fire: (at: number) => number }[] = [];
+  const pace = 0.6 + 0.8 * warmth;
+  if (style === 'industrial') {
+    events.push({ next: now + 1, fire: (at) => {
+      const burst = 1 + Math.floor(random() * 4);
+      for (let i = 0; i < burst; i++) click(at + i * 0.03 * random(), 2500 + random() * 3000, 0.02, 0.3);
+      if (random() < 0.15) tone(at, 45, 'sine', 0.6, 0.4); // A distant thump in the walls
+      return (0.8 + random() * 3) / pace;
+    } });
+  } else if (style === 'music-box') {
+    events.push({ next: now + 0.5, fire: (at) => {
+      const note = MUSIC_BOX_SCALE[Math.floor(random() * MUSIC_BOX_SCALE.length)];
+      const frequency = 523.25 * Math.pow(2, note / 12);
+      tone(at, frequency, 'triangle', 1.8, 0.12);
+      tone(at, frequency * 4, 'sine', 0.4, 0.03); // Tine overtone
+      return (0.35 + random() * 0.9) / pace;
+    } });
+    events.push({ next: now + 2, fire: (at) => {
+      // A typed line: a run of keystrokes, now and then a carriage-return bell.
+      const keys = 4 + Math.floor(random() * 10);
+      let t = at;
+      for (let i = 0; i < keys; i++) {
+        click(t, 3000 + random() * 1500, 0.025, 0.35);
+        t += 0.08 + random() * 0.1;
+      }
+      if (random() < 0.3) tone(t + 0.1, 2093, 'sine', 1.2, 0.08);
+      return t - at + (2 + random() * 5) / pace;
+    } });
+  } else if (style === 'synth-pad') {
+    events.push({ next: now + 1.5, fire: (at) => {
+      // A failing neon tube: buzzy stutters.
+      const flickers = 2 + Math.floor(random() * 5);
+      for (let i = 0; i < flickers; i++) tone(at + i * (0.05 + random() * 0.08), 120, 'sawtooth', 0.06, 0.05);
+      return (2 + random() * 6) / pace;
+    } });
+  }
+  if (!silent && condition.category === 'thunderstorm') {
+    events.push({ next: now + 4 + random() * 6, fire: (at) => { thunder(at); return 8 + random() * 16; } });
+  }
+
+  const scheduler = setInterval(() => {
+    const horizon = audioCtx.currentTime + SCHEDULE_AHEAD_SECONDS;
+    for (const event of events) {
+      // After a stall (background tab), resume from now rather than replaying the backlog.
+      event.next = Math.max(event.next, audioCtx.currentTime);
+      while (event.next < horizon) event.next += event.fire(event.next);
+    }
+  }, SCHEDULER_INTERVAL_MS);
+
+  // Ducking: follow the voice level, or hold down while told to.
+  const analyser = track(audioCtx.createAnalyser());
+  analyser.fftSize = 512;
+  voice.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  let heldDown = false;
+  let ducked = false;
+  const applyDuck = (down: boolean) => {
+    if (down === ducked) return;
+    ducked = down;
+    const t = audioCtx.currentTime;
+    duck.gain.cancelScheduledValues(t);
+    duck.gain.setTargetAtTime(down ? DUCK_LEVEL : 1, t, (down ? DUCK_ATTACK_SECONDS : DUCK_RELEASE_SECONDS) / 3);
+  };
+  let quietSince = 0;
+  const follower = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const speaking = autoDuck && Math.sqrt(sum / samples.length) > DUCK_THRESHOLD;
+    // Bridge the gaps between words so the bed does not pump.
+    if (speaking) quietSince = audioCtx.currentTime;
+    applyDuck(heldDown || audioCtx.currentTime - quietSince < 0.4);
+  }, 50);
+
+  let stopped: Promise<void> | null = null;
+
+  return {
+    voiceInput: voice,
+    setMix: (next) => {
+      const t = audioCtx.currentTime;
+      master.gain.setTargetAtTime(next.master, t, 0.05);
+      voice.gain.setTargetAtTime(next.voice, t, 0.05);
+      (Object.keys(channels) as (keyof typeof channels)[]).forEach(channel =>
+        channels[channel].gain.setTargetAtTime(next[channel], t, 0.05));
+    },
+    setDucked: (down) => {
+      heldDown = down;
+      applyDuck(down);
+    },
+    stop: (fadeSeconds = FADE_OUT_SECONDS) => {
+      if (!stopped) {
+        clearInterval(scheduler);
+        clearInterval(follower);
+        const t = audioCtx.currentTime;
+        fade.gain.cancelScheduledValues(t);
+        fade.gain.setValueAtTime(fade.gain.value, t);
+        fade.gain.linearRampToValueAtTime(0, t + fadeSeconds);
+        stopped = new Promise<void>(resolve => setTimeout(() => {
+          sources.forEach(source => {
+            try { source.stop(); } catch (e) { /* never started */ }
+          });
+          nodes.forEach(node => node.disconnect());
+          resolve();
+        }, fadeSeconds * 1000 + 50));
+      }
+      return stopped;
+    },
+  };
+};
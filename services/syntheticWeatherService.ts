@@ -0,0 +1,127 @@
+import { WeatherData, Coordinates, CityWeather, WeatherGrid, WeatherProvider } from '../types';
+import { MAJOR_CITIES } from '../constants';
+import { hashString, createSeededRandom } from './utils';
+import { getZoneOffsetSeconds, lookupTimezone } from './timezoneService';
+import { GRID_POINTS, buildWeatherGrid } from './weatherGridService';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const dayOfYearUTC = (date: Date) =>
+  Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 0)) / DAY_MS);
+
+/**
+ * Picks a WMO code weighted by how wet the climate band is and how cold it is.
+ */
+const pickConditionCode = (roll: number, wetness: number, temperature: number): number => {
+  if (roll > wetness) {
+    return [0, 1, 2, 3][Math.floor((roll - wetness) / (1 - wetness) * 4) % 4];
+  }
+  const intensity = roll / wetness; // 0..1 within the wet branch
+  if (temperature < 0) return intensity < 0.5 ? 71 : intensity < 0.85 ? 73 : 75;
+  if (intensity < 0.15) return 45;
+  if (intensity < 0.35) return 51;
+  if (intensity < 0.65) return 61;
+  if (intensity < 0.85) return 63;
+  return temperature > 22 ? 95 : 65;
+};
+
+/**
+ * Generates plausible weather from latitude, season and local solar time.
+ * Results are deterministic for a given location and UTC hour.
+ *
+ * @param coords - Location to simulate.
+ * @param date - Moment to simulate. Defaults to now.
+ */
+export const synthesizeWeather = (coords: Coordinates, date: Date = new Date()): WeatherData => {
+  const absLat = Math.abs(coords.lat);
+  const hourKey = Math.floor(date.getTime() / 3600000);
+  const random = createSeededRandom(hashString(`${coords.lat.toFixed(1)}|${coords.lng.toFixed(1)}|${hourKey}`));
+
+  // Seasonal swing peaks mid-July in the north and mid-January in the south,
+  // and grows with distance from the equator.
+  const season = Math.cos((2 * Math.PI * (dayOfYearUTC(date) - 196)) / 365) * (coords.lat >= 0 ? 1 : -1);
+  const annualMean = 28 - 0.55 * absLat - (absLat > 66 ? 8 : 0);
+  const seasonal = season * absLat * 0.3;
+
+  // Diurnal cycle from local solar time, warmest around 15:00.
+  const solarHour = (date.getUTCHours() + date.getUTCMinutes() / 60 + coords.lng / 15 + 24) % 24;
+  const diurnal = 5 * Math.cos((2 * Math.PI * (solarHour - 15)) / 24);
+
+  const temperature = round1(annualMean + seasonal + diurnal + (random() - 0.5) * 4);
+  const windSpeed = round1(4 + absLat * 0.25 + random() * 18);
+  const windGusts = round1(windSpeed * (1.4 + random() * 0.6));
+  // Prevailing trade winds / westerlies, with some scatter.
+  const prevailing = absLat < 30 ? (coords.lat >= 0 ? 60 : 120) : 260;
+  const windDirection = Math.round((prevailing + (random() - 0.5) * 90 + 360) % 360);
+
+  // Tropics and mid-latitude storm tracks are wetter than the subtropical deserts.
+  const wetness = absLat < 12 ? 0.55 : absLat < 35 ? 0.2 : absLat < 65 ? 0.45 : 0.3;
+  const conditionCode = pickConditionCode(random(), wetness, temperature);
+
+  const isWet = conditionCode >= 51;
+  const isFog = conditionCode === 45;
+  const cloudCover = conditionCode === 0 ? Math.round(random() * 10)
+    : conditionCode <= 3 ? conditionCode * 30 + Math.round(random() * 10)
+    : 85 + Math.round(random() * 15);
+  const humidity = Math.min(100, Math.round(35 + wetness * 60 + (isWet || isFog ? 25 : 0) - Math.max(0, temperature - 25) + random() * 10));
+  const precipitation = isWet ? round1(0.1 + random() * (conditionCode >= 63 ? 6 : 1.5)) : 0;
+  const visibility = isFog ? Math.round(100 + random() * 800)
+    : isWet ? Math.round(3000 + random() * 9000)
+    : Math.round(18000 + random() * 6140);
+  const pressure = round1(1013 - (isWet ? 12 : 0) + (random() - 0.5) * 16);
+
+  // Day whenever the sun is above the horizon at this solar hour, ignoring polar extremes.
+  const dayLength = 12 + season * Math.min(absLat, 66) * 0.08;
+  const isDay = Math.abs(solarHour - 12) < dayLength / 2;
+
+  const timezone = lookupTimezone(coords);
+
+  return {
+    temperature,
+    windSpeed,
+    windDirection,
+    windGusts,
+    conditionCode,
+    humidity,
+    precipitation,
+    cloudCover,
+    visibility,
+    pressure,
+    isDay,
+    timezone,
+    utcOffsetSeconds: getZoneOffsetSeconds(timezone, date),
+    observedAt: date.toISOString(),
+  };
+};
+
+export const fetchWeatherData = async (coords: Coordinates, at?: Date): Promise<WeatherData> => synthesizeWeather(coords, at);
+
+export const fetchGlobalTemperatures = async (): Promise<CityWeather[]> => {
+  const now = new Date();
+  return MAJOR_CITIES.map(city => {
+    const weather = synthesizeWeather(city, now);
+    return { ...city, temperature: weather.temperature, conditionCode: weather.conditionCode };
+  });
+};
+
+export const fetchWeatherGrid = async (at?: Date): Promise<WeatherGrid> => {
+  const now = new Date();
+  return buildWeatherGrid(GRID_POINTS.map(point => {
+    const { temperature, windSpeed, windDirection, precipitation, cloudCover } = synthesizeWeather(point, at ?? now);
+    return { temperature, windSpeed, windDirection, precipitation, cloudCover };
+  }), now, at);
+};
+
+/**
+ * Offline weather model. Useful for demos and tests that must not depend on a live service.
+ */
+export const syntheticWeatherProvider: WeatherProvider = {
+  id: 'SYNTHETIC',
+  name: 'Synthetic Climate',
+  requiresNetwork: false,
+  fetchWeatherData,
+  fetchGlobalTemperatures,
+  fetchWeatherGrid,
+};
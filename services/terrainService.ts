@@ -0,0 +1,265 @@
+import { Biome, Coordinates, ElevationBand, Place, TerrainDescriptor } from '../types';
+import { CITIES, LAND_POLYGONS, TERRAIN_REGIONS, WATER_BODIES, LngLat } from './geoData';
+import { NATURAL_EARTH_50M } from './naturalEarthData';
+import { topologyFeatures } from './topojson';
+import { distanceKm } from './utils';
+
+const COASTAL_KM = 50;
+// Cities sit on land even where the simplified coastline says otherwise.
+const CITY_LAND_KM = 20;
+// Beyond this, a city is no longer worth naming in the description.
+const NAMEABLE_CITY_KM = 600;
+const KM_PER_DEGREE = 111.2;
+// Twelve nautical miles; zone boundaries follow the territorial sea out this far.
+const TERRITORIAL_WATERS_KM = 22;
+
+const BIOME_PHRASES: Record<Biome, string> = {
+  ocean: 'open ocean',
+  ice: 'ice sheet',
+  tundra: 'frozen tundra',
+  taiga: 'boreal forest',
+  temperate_forest: 'temperate woodland',
+  farmland: 'farmland',
+  grassland: 'open grassland',
+  mediterranean: 'sun-baked scrubland',
+  desert: 'desert',
+  savanna: 'savanna',
+  rainforest: 'dense rainforest',
+  mountain: 'mountain range',
+  urban: 'city streets',
+};
+
+const ELEVATION_PHRASES: Record<ElevationBand, string> = {
+  sea: '',
+  lowland: '',
+  upland: ' on a high plateau',
+  highland: ' at high altitude',
+  alpine: ' among alpine peaks',
+};
+
+const bounds = (ring: LngLat[]) => ({
+  minLng: Math.min(...ring.map(p => p[0])),
+  maxLng: Math.max(...ring.map(p => p[0])),
+  minLat: Math.min(...ring.map(p => p[1])),
+  maxLat: Math.max(...ring.map(p => p[1])),
+});
+
+const LAND_BOUNDS = LAND_POLYGONS.map(p => bounds(p.ring));
+// The simplified coastline leaves out small islands; Natural Earth's 1:50m land keeps them.
+const DETAILED_LAND = topologyFeatures(NATURAL_EARTH_50M, 'land').flatMap(feature => feature.polygons.map(([outline]) => outline));
+const DETAILED_LAND_BOUNDS = DETAILED_LAND.map(bounds);
+
+const normalizeLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Even-odd ray casting in plain longitude/latitude space.
+ */
+export const pointInRing = (lng: number, lat: number, ring: LngLat[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[j];
+    if ((y1 > lat) !== (y2 > lat) && lng < ((x2 - x1) * (lat - y1)) / (y2 - y1) + x1) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Shortest distance from a point to a ring's edges, in a local equirectangular
+ * projection centred on the point. Accurate enough at coastal-check distances.
+ */
+const distanceToRingKm = (lng: number, lat: number, ring: LngLat[]): number => {
+  const kx = Math.cos((lat * Math.PI) / 180) * KM_PER_DEGREE;
+  let best = Infinity;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const ax = (ring[j][0] - lng) * kx;
+    const ay = (ring[j][1] - lat) * KM_PER_DEGREE;
+    const bx = (ring[i][0] - lng) * kx;
+    const by = (ring[i][1] - lat) * KM_PER_DEGREE;
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+};
+
+/**
+ * Finds the closest place to a coordinate.
+ */
+export const findNearestPlace = (coords: Coordinates, places: Place[] = CITIES): { place: Place; distanceKm: number } | null => {
+  let nearest: Place | null = null;
+  let best = Infinity;
+  for (const place of places) {
+    const d = distanceKm(coords, place);
+    if (d < best) {
+      best = d;
+      nearest = place;
+    }
+  }
+  return nearest ? { place: nearest, distanceKm: best } : null;
+};
+
+/**
+ * True when the coordinate falls on one of the bundled land outlines.
+ */
+export const isOnLandPolygon = (coords: Coordinates): boolean => {
+  const lng = normalizeLng(coords.lng);
+  return LAND_POLYGONS.some((polygon, i) => {
+    const b = LAND_BOUNDS[i];
+    return lng >= b.minLng && lng <= b.maxLng && coords.lat >= b.minLat && coords.lat <= b.maxLat
+      && pointInRing(lng, coords.lat, polygon.ring);
+  });
+};
+
+/**
+ * Names the sea, lake or ocean basin containing a coordinate. Marginal seas and
+ * lakes come from the bundled outlines; everything else falls back to the ocean basin.
+ */
+export const findWaterBody = (coords: Coordinates): string => {
+  const lng = normalizeLng(coords.lng);
+  const { lat } = coords;
+  const body = WATER_BODIES.find(w => pointInRing(lng, lat, w.ring));
+  if (body) return body.name;
+
+  if (lat >= 66) return 'the Arctic Ocean';
+  if (lat <= -60) return 'the Southern Ocean';
+  if (lng >= 20 && lng < 147 && lat < 25 && !(lng > 100 && lat > -8)) return 'the Indian Ocean';
+
+  const hemisphere = lat >= 0 ? 'North' : 'South';
+  if ((lng >= -70 && lng < 20) || (lng >= -100 && lng < -70 && lat > 8)) return `the ${hemisphere} Atlantic Ocean`;
+  return `the ${hemisphere} Pacific Ocean`;
+};
+
+const isInInlandWater = (coords: Coordinates): boolean => {
+  const lng = normalizeLng(coords.lng);
+  return WATER_BODIES.some(w => w.inland && pointInRing(lng, coords.lat, w.ring));
+};
+
+const distanceToCoastKm = (coords: Coordinates): number => {
+  const lng = normalizeLng(coords.lng);
+  const margin = COASTAL_KM / KM_PER_DEGREE + 0.5;
+  let best = Infinity;
+  LAND_POLYGONS.forEach((polygon, i) => {
+    const b = LAND_BOUNDS[i];
+    if (lng < b.minLng - margin * 2 || lng > b.maxLng + margin * 2 || coords.lat < b.minLat - margin || coords.lat > b.maxLat + margin) return;
+    best = Math.min(best, distanceToRingKm(lng, coords.lat, polygon.ring));
+  });
+  return best;
+};
+
+/**
+ * True past the territorial waters of every coast and island in the 1:50m land,
+ * where only nautical time applies.
+ */
+export const isOpenOcean = (coords: Coordinates): boolean => {
+  const lng = normalizeLng(coords.lng);
+  const { lat } = coords;
+  const latMargin = TERRITORIAL_WATERS_KM / KM_PER_DEGREE;
+  const lngMargin = latMargin / Math.max(0.05, Math.cos((lat * Math.PI) / 180));
+  return !DETAILED_LAND.some((ring, i) => {
+    const b = DETAILED_LAND_BOUNDS[i];
+    if (lng < b.minLng - lngMargin || lng > b.maxLng + lngMargin || lat < b.minLat - latMargin || lat > b.maxLat + latMargin) return false;
+    return pointInRing(lng, lat, ring) || distanceToRingKm(lng, lat, ring) <= TERRITORIAL_WATERS_KM;
+  });
+};
+
+/**
+ * Urban footprint grows with population: ~23 km for 1M people, capped at 60 km.
+ */
+export const urbanRadiusKm = (place: Place) => Math.min(60, 15 + 8 * Math.sqrt(place.population));
+
+/**
+ * Latitude where boreal forest begins. The Gulf Stream keeps western Europe
+ * temperate far further north than the continental interiors.
+ */
+const taigaLatitude = (lng: number): number => {
+  if (lng >= -30 && lng < 40) return 60;
+  if (lng >= 40 && lng < 60) return 56;
+  return 52;
+};
+
+/**
+ * Fallback biome for land outside every TERRAIN_REGIONS entry.
+ */
+const latitudeBiome = (lat: number, lng: number): Biome => {
+  const absLat = Math.abs(lat);
+  if (absLat >= 75 || lat <= -60) return 'ice';
+  if (absLat >= 66 || lat <= -50) return 'tundra';
+  if (lat >= taigaLatitude(lng)) return 'taiga';
+  if (absLat >= 23) return 'temperate_forest';
+  return 'savanna';
+};
+
+const describe = (terrain: Omit<TerrainDescriptor, 'description'>): string => {
+  const city = terrain.nearestCity && terrain.nearestCity.distanceKm <= NAMEABLE_CITY_KM ? terrain.nearestCity : null;
+  const distance = city ? `${Math.round(city.distanceKm)} km from ${city.name}` : '';
+
+  if (!terrain.isLand) {
+    const water = terrain.waterBody || 'open water';
+    const open = water.endsWith('Ocean') ? `open ocean in ${water}` : water;
+    if (terrain.coastal) return city ? `coastal waters of ${water} off ${city.name}` : `coastal waters of ${water}`;
+    return city ? `${open}, ${distance}` : `${open}, far from any shore`;
+  }
+
+  if (terrain.biome === 'urban' && city) {
+    return `the ${terrain.coastal ? 'waterfront ' : ''}streets of ${city.name}, ${city.country}`;
+  }
+
+  const phrase = `${terrain.coastal ? 'coastal ' : ''}${BIOME_PHRASES[terrain.biome]}`;
+  const region = terrain.region ? ` in ${terrain.region}` : '';
+  return `${phrase}${region}${ELEVATION_PHRASES[terrain.elevationBand]}${distance ? `, ${distance}` : ''}`;
+};
+
+/**
+ * Classifies the terrain under a coordinate from the bundled offline data:
+ * land or ocean, biome, coastline proximity, elevation band and nearest named city.
+ */
+export const describeTerrain = (coords: Coordinates): TerrainDescriptor => {
+  const lng = normalizeLng(coords.lng);
+  const nearest = findNearestPlace(coords);
+  const onPolygon = isOnLandPolygon(coords) && !isInInlandWater(coords);
+  const nearCity = !!nearest && nearest.distanceKm <= CITY_LAND_KM;
+  const isLand = onPolygon || nearCity;
+  // A city off the simplified coastline is almost certainly on an island or shore.
+  const coastal = (!onPolygon && nearCity) || distanceToCoastKm(coords) <= COASTAL_KM;
+
+  let biome: Biome = 'ocean';
+  let elevationBand: ElevationBand = 'sea';
+  let region: string | null = null;
+  let waterBody: string | null = null;
+
+  if (isLand) {
+    const regions = TERRAIN_REGIONS.filter(r => pointInRing(lng, coords.lat, r.ring));
+    const biomeRegion = regions.find(r => r.biome);
+    const elevationRegion = regions.find(r => r.elevation);
+
+    region = (biomeRegion || elevationRegion)?.name ?? null;
+    elevationBand = elevationRegion?.elevation ?? 'lowland';
+
+    if (nearest && nearest.distanceKm <= urbanRadiusKm(nearest.place)) {
+      biome = 'urban';
+    } else {
+      biome = biomeRegion?.biome ?? latitudeBiome(coords.lat, lng);
+    }
+  } else {
+    waterBody = findWaterBody(coords);
+  }
+
+  const terrain = {
+    biome,
+    isLand,
+    coastal,
+    elevationBand,
+    region,
+    waterBody,
+    nearestCity: nearest
+      ? { name: nearest.place.name, country: nearest.place.country, distanceKm: Math.round(nearest.distanceKm) }
+      : null,
+  };
+
+  return { ...terrain, description: describe(terrain) };
+};
@@ -0,0 +1,204 @@
+import { PostEffectSettings, TerrainDescriptor, ThemeConfig, ThemeValidationResult } from '../types';
+import { THEMES, TTS_VOICES } from '../constants';
+import { POST_EFFECT_IDS } from './postProcessingService';
+import { SOUNDSCAPE_STYLES } from './soundscapeService';
+import { VISUALIZER_MODES, VISUALIZER_SIGNATURES } from './visualizerService';
+
+const STORAGE_KEY = 'lynchian-themes';
+
+/**
+ * Values a scenery prompt template can insert with `{name}`. Sections test
+ * them: `{#name}…{/name}` keeps its text when the value is set, `{^name}…{/name}`
+ * when it is not, and `{#name=a|b}…{/name}` when it is one of the listed values.
+ */
+export const PROMPT_PLACEHOLDERS: Record<string, string> = {
+  atmosphere: 'Weather mood keywords and an excerpt of the narrative',
+  terrain: 'Prose description of the place',
+  biome: 'Biome id, e.g. desert, taiga, urban, ocean',
+  elevation: 'Elevation band: sea, lowland, upland, highland, alpine',
+  region: 'Named region, e.g. the Sahara (may be empty)',
+  water: 'Sea, lake or ocean basin when offshore (may be empty)',
+  city: 'Nearest city (may be empty)',
+  coastal: 'Set on coasts',
+  land: 'Set on land',
+};
+
+const SECTION_PATTERN = /\{([#^])(\w+)(?:=([\w|]+))?\}([\s\S]*?)\{\/\2\}/g;
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+const COLOR_FIELDS = ['primaryColor', 'secondaryColor', 'backgroundColor', 'textColor', 'captionColor'] as const;
+const TEXT_FIELDS = ['id', 'name', 'systemInstruction', 'videoPromptTemplate', 'voiceName', 'soundscape', 'visualizer', 'visualizerSignature', 'fontClass', 'containerClass', 'mapFilter', 'markerClass'] as const;
+
+const buildPromptValues = (atmosphere: string, terrain: TerrainDescriptor): Record<string, string> => ({
+  atmosphere,
+  terrain: terrain.description,
+  biome: terrain.biome,
+  elevation: terrain.elevationBand,
+  region: terrain.region ?? '',
+  water: terrain.waterBody ?? '',
+  city: terrain.nearestCity?.name ?? '',
+  coastal: terrain.coastal ? 'yes' : '',
+  land: terrain.isLand ? 'yes' : '',
+});
+
+/**
+ * Fills a theme's scenery prompt template for one place and atmosphere.
+ */
+export const renderPromptTemplate = (template: string, atmosphere: string, terrain: TerrainDescriptor): string => {
+  const values = buildPromptValues(atmosphere, terrain);
+  const matches = (key: string, options?: string) =>
+    options ? options.split('|').includes(values[key]) : Boolean(values[key]);
+
+  return template
+    .replace(SECTION_PATTERN, (_, kind: string, key: string, options: string | undefined, body: string) =>
+      matches(key, options) === (kind === '#') ? body : '')
+    .replace(PLACEHOLDER_PATTERN, (_, key: string) => values[key] ?? '');
+};
+
+/**
+ * Lists what is wrong with a prompt template: unknown placeholders, unclosed
+ * or stray sections, and a missing {atmosphere}.
+ */
+const checkPromptTemplate = (template: string): string[] => {
+  const errors: string[] = [];
+  const withoutSections = template.replace(SECTION_PATTERN, (_, _kind, key: string, _options, body: string) => {
+    if (!(key in PROMPT_PLACEHOLDERS)) errors.push(`Unknown section {#${key}} in the prompt template.`);
+    if (/\{[#^/]/.test(body)) errors.push(`Sections cannot be nested ({#${key}}).`);
+    return ` ${body} `;
+  });
+  for (const [tag] of withoutSections.matchAll(/\{[#^/][^}]*\}/g)) {
+    errors.push(`Unmatched section tag ${tag} in the prompt template.`);
+  }
+  for (const [, key] of withoutSections.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!(key in PROMPT_PLACEHOLDERS)) errors.push(`Unknown placeholder {${key}} in the prompt template.`);
+  }
+  if (!template.includes('{atmosphere}')) errors.push('The prompt template must include {atmosphere}.');
+  return errors;
+};
+
+// Roughly what the old CRT overlay looked like, for themes saved before post effects.
+const CRT_POST_EFFECTS: PostEffectSettings = { scanlines: 0.5, grain: 0.3, vignette: 0.5 };
+
+/**
+ * Brings a theme saved by an earlier version up to the current format, filling
+ * fields it predates with defaults instead of letting validation reject it.
+ */
+const upgradeTheme = (input: unknown): unknown => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return input;
+  const { overlayEffect, ...raw } = input as Record<string, unknown>;
+  return {
+    ...raw,
+    postEffects: raw.postEffects ?? (overlayEffect === 'crt' ? CRT_POST_EFFECTS : {}),
+    // Themes without a soundscape played the narration alone.
+    soundscape: raw.soundscape ?? 'none',
+    // Before visualizers were selectable every theme drew frequency bars.
+    visualizer: raw.visualizer ?? 'bars',
+    visualizerSignature: raw.visualizerSignature ?? VISUALIZER_SIGNATURES[0],
+  };
+};
+
+/**
+ * Checks an untrusted value (usually parsed JSON) against the theme format.
+ * Unknown keys are dropped from the returned theme.
+ */
+export const validateTheme = (input: unknown): ThemeValidationResult => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { theme: null, errors: ['A theme must be a JSON object.'] };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of [...TEXT_FIELDS, ...COLOR_FIELDS]) {
+    if (typeof raw[field] !== 'string') errors.push(`"${field}" must be a string.`);
+  }
+  const postEffects = raw.postEffects;
+  if (!postEffects || typeof postEffects !== 'object' || Array.isArray(postEffects)) {
+    errors.push('"postEffects" must be an object of effect strengths.');
+  }
+  if (errors.length) return { theme: null, errors };
+
+  const theme = {
+    ...Object.fromEntries([...TEXT_FIELDS, ...COLOR_FIELDS].map(field => [field, raw[field]])),
+    postEffects: { ...(postEffects as object) },
+  } as ThemeConfig;
+
+  if (!/^[A-Z][A-Z0-9_]{1,15}$/.test(theme.id)) {
+    errors.push('"id" must be 2-16 capital letters, digits or underscores, starting with a letter.');
+  }
+  if (!theme.name.trim()) errors.push('"name" must not be empty.');
+  if (!theme.systemInstruction.trim()) errors.push('"systemInstruction" must not be empty.');
+  if (!TTS_VOICES.includes(theme.voiceName)) errors.push(`"voiceName" must be one of ${TTS_VOICES.join(', ')}.`);
+  if (!SOUNDSCAPE_STYLES.includes(theme.soundscape)) errors.push(`"soundscape" must be one of ${SOUNDSCAPE_STYLES.join(', ')}.`);
+  if (!VISUALIZER_MODES.includes(theme.visualizer)) errors.push(`"visualizer" must be one of ${VISUALIZER_MODES.join(', ')}.`);
+  if (!VISUALIZER_SIGNATURES.includes(theme.visualizerSignature)) {
+    errors.push(`"visualizerSignature" must be one of ${VISUALIZER_SIGNATURES.join(', ')}.`);
+  }
+  for (const [effect, strength] of Object.entries(theme.postEffects)) {
+    if (!POST_EFFECT_IDS.includes(effect as typeof POST_EFFECT_IDS[number])) {
+      errors.push(`Unknown post effect "${effect}"; use ${POST_EFFECT_IDS.join(', ')}.`);
+    } else if (typeof strength !== 'number' || !(strength >= 0 && strength <= 1)) {
+      errors.push(`Post effect "${effect}" must be a number from 0 to 1.`);
+    }
+  }
+  for (const field of COLOR_FIELDS) {
+    if (!/^#[0-9a-f]{6}$/i.test(theme[field])) errors.push(`"${field}" must be a #rrggbb colour.`);
+  }
+  if (theme.mapFilter && typeof CSS !== 'undefined' && !CSS.supports('filter', theme.mapFilter)) {
+    errors.push('"mapFilter" is not a valid CSS filter.');
+  }
+  errors.push(...checkPromptTemplate(theme.videoPromptTemplate));
+
+  return errors.length ? { theme: null, errors } : { theme, errors };
+};
+
+/**
+ * Parses and validates theme JSON, e.g. from an imported file. Files exported
+ * by earlier versions are upgraded first.
+ */
+export const parseTheme = (json: string): ThemeValidationResult => {
+  try {
+    return validateTheme(upgradeTheme(JSON.parse(json)));
+  } catch (e: any) {
+    return { theme: null, errors: [`Not valid JSON: ${e.message}`] };
+  }
+};
+
+export const serializeTheme = (theme: ThemeConfig): string => JSON.stringify(theme, null, 2);
+
+export const isBuiltInTheme = (id: string): boolean => id in THEMES;
+
+const loadCustomThemes = (): ThemeConfig[] => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map(entry => validateTheme(upgradeTheme(entry)).theme)
+      .filter((theme): theme is ThemeConfig => theme !== null && !isBuiltInTheme(theme.id));
+  } catch (e) {
+    console.warn("Custom themes could not be loaded", e);
+    return [];
+  }
+};
+
+const storeCustomThemes = (themes: ThemeConfig[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+
+/**
+ * Built-in themes followed by the user's own, keyed by id.
+ */
+export const getThemes = (): Record<string, ThemeConfig> => ({
+  ...THEMES,
+  ...Object.fromEntries(loadCustomThemes().map(theme => [theme.id, theme])),
+});
+
+/**
+ * Adds or replaces a custom theme. Built-in themes cannot be overwritten.
+ */
+export const saveCustomTheme = (theme: ThemeConfig): void => {
+  if (isBuiltInTheme(theme.id)) throw new Error(`${theme.id} is a built-in theme; save it under a new id.`);
+  storeCustomThemes([...loadCustomThemes().filter(t => t.id !== theme.id), theme]);
+};
+
+export const deleteCustomTheme = (id: string): void =>
+  storeCustomThemes(loadCustomThemes().filter(t => t.id !== id));
@@ -0,0 +1,143 @@
+import tzlookup from '@photostructure/tz-lookup';
+import { Coordinates } from '../types';
+import { isOpenOcean } from './terrainService';
+import { formatUtcOffset } from './weatherService';
+
+// Antarctic stations keep the clocks of whoever supplies them; the continent itself gets nautical time.
+const ANTARCTIC_LATITUDE = -60;
+
+// English locales whose CLDR data names the zones their readers know, tried in order.
+const ABBREVIATION_LOCALES = ['en-US', 'en-GB', 'en-IE', 'en-CA', 'en-AU', 'en-NZ', 'en-IN', 'en-ZA'];
+
+// Well-known abbreviations CLDR only spells as "GMT+9"; [standard, summer].
+const ZONE_ABBREVIATIONS: Record<string, [string, string?]> = {
+  'Asia/Tokyo': ['JST'],
+  'Asia/Seoul': ['KST'],
+  'Asia/Shanghai': ['CST'],
+  'Asia/Hong_Kong': ['HKT'],
+  'Asia/Taipei': ['CST'],
+  'Asia/Singapore': ['SGT'],
+  'Asia/Jakarta': ['WIB'],
+  'Asia/Manila': ['PHT'],
+  'Asia/Karachi': ['PKT'],
+  'Asia/Dubai': ['GST'],
+  'Asia/Jerusalem': ['IST', 'IDT'],
+  'Asia/Tehran': ['IRST'],
+  'Europe/Moscow': ['MSK'],
+  'Europe/Istanbul': ['TRT'],
+  'Africa/Cairo': ['EET', 'EEST'],
+  'Africa/Johannesburg': ['SAST'],
+  'Africa/Lagos': ['WAT'],
+  'Africa/Nairobi': ['EAT'],
+  'America/Sao_Paulo': ['BRT'],
+  'America/Argentina/Buenos_Aires': ['ART'],
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Intl formatters are costly to build and the map asks for the same few every minute.
+ */
+const getFormatter = (locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat => {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, options);
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * The whole-hour nautical zone for a longitude at sea. Etc/GMT signs are inverted by convention.
+ */
+export const nauticalTimezone = (lng: number): string => {
+  const offsetHours = Math.max(-12, Math.min(12, Math.round(lng / 15)));
+  return offsetHours === 0 ? 'Etc/GMT' : `Etc/GMT${offsetHours > 0 ? '-' : '+'}${Math.abs(offsetHours)}`;
+};
+
+/**
+ * Finds the IANA zone for a coordinate offline, from the timezone-boundary-builder
+ * polygons bundled with tz-lookup. Those polygons also cover the open sea with
+ * whichever land zone is nearest, so open ocean, and Antarctica, get the nautical zone.
+ */
+export const lookupTimezone = (coords: Coordinates): string => {
+  if (coords.lat < ANTARCTIC_LATITUDE || isOpenOcean(coords)) return nauticalTimezone(coords.lng);
+  try {
+    return tzlookup(coords.lat, ((((coords.lng + 180) % 360) + 360) % 360) - 180);
+  } catch (e) {
+    return nauticalTimezone(coords.lng);
+  }
+};
+
+/**
+ * The zone's offset from UTC at `date`, in seconds, DST included.
+ */
+export const getZoneOffsetSeconds = (timeZone: string, date: Date = new Date()): number => {
+  const parts = getFormatter('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 1000);
+};
+
+/**
+ * Like getZoneOffsetSeconds, but returns `fallbackSeconds` for a zone this
+ * runtime does not know, so a provider's own offset still works.
+ */
+export const resolveZoneOffsetSeconds = (timeZone: string, date: Date, fallbackSeconds: number): number => {
+  try {
+    return getZoneOffsetSeconds(timeZone, date);
+  } catch (e) {
+    return fallbackSeconds;
+  }
+};
+
+/**
+ * The zone's abbreviation at `date`, e.g. "CEST", "EDT" or "JST". Falls back
+ * to the GMT offset ("GMT+5:45") where there is no common abbreviation.
+ */
+export const getZoneAbbreviation = (timeZone: string, date: Date = new Date()): string => {
+  let fallback = '';
+  for (const locale of ABBREVIATION_LOCALES) {
+    const name = getFormatter(locale, { timeZone, timeZoneName: 'short' }).formatToParts(date).find(p => p.type === 'timeZoneName')?.value ?? '';
+    if (name && !/\d|^(GMT|UTC)$/.test(name)) return name;
+    if (!fallback) fallback = name;
+  }
+
+  const known = ZONE_ABBREVIATIONS[timeZone];
+  if (known) {
+    const year = date.getUTCFullYear();
+    const standard = Math.min(
+      getZoneOffsetSeconds(timeZone, new Date(Date.UTC(year, 0, 1))),
+      getZoneOffsetSeconds(timeZone, new Date(Date.UTC(year, 6, 1))),
+    );
+    return getZoneOffsetSeconds(timeZone, date) > standard && known[1] ? known[1] : known[0];
+  }
+  return fallback || 'UTC';
+};
+
+export interface ZonedTime {
+  timeZone: string;
+  time: string; // "21:45"
+  date: string; // "Oct 14"
+  abbreviation: string; // "CEST"
+  utcOffset: string; // "UTC+02:00"
+  utcOffsetSeconds: number;
+}
+
+/**
+ * Wall-clock time in a zone, with its abbreviation and UTC offset.
+ */
+export const getZonedTime = (timeZone: string, date: Date = new Date()): ZonedTime => {
+  const utcOffsetSeconds = getZoneOffsetSeconds(timeZone, date);
+  return {
+    timeZone,
+    time: getFormatter('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(date),
+    date: getFormatter('en-US', { timeZone, month: 'short', day: 'numeric' }).format(date),
+    abbreviation: getZoneAbbreviation(timeZone, date),
+    utcOffset: formatUtcOffset(utcOffsetSeconds),
+    utcOffsetSeconds,
+  };
+};
@@ -0,0 +1,89 @@
+import { LngLat } from './geoData';
+
+type ArcIndices = number[];
+
+interface TopoPolygon {
+  type: 'Polygon';
+  arcs: ArcIndices[];
+  id?: string;
+  properties?: { name?: string };
+}
+
+interface TopoMultiPolygon {
+  type: 'MultiPolygon';
+  arcs: ArcIndices[][];
+  id?: string;
+  properties?: { name?: string };
+}
+
+/**
+ * The part of the TopoJSON format the bundled Natural Earth data uses:
+ * quantized, delta-encoded arcs shared between polygons.
+ */
+export interface Topology {
+  type: 'Topology';
+  bbox: [number, number, number, number];
+  transform: { scale: [number, number]; translate: [number, number] };
+  arcs: [number, number][][];
+  objects: Record<string, { type: 'GeometryCollection'; geometries: (TopoPolygon | TopoMultiPolygon)[] }>;
+}
+
+/**
+ * A decoded polygon: its outer ring first, then any holes.
+ */
+export type PolygonRings = LngLat[][];
+
+export interface GeoFeature {
+  id: string | null; // ISO 3166-1 numeric for countries
+  name: string | null;
+  polygons: PolygonRings[];
+}
+
+/**
+ * Undoes the quantization and delta encoding, giving each arc in degrees.
+ */
+const decodeArcs = (topology: Topology): LngLat[][] => {
+  const { scale: [sx, sy], translate: [tx, ty] } = topology.transform;
+  return topology.arcs.map(arc => {
+    let x = 0;
+    let y = 0;
+    return arc.map(([dx, dy]): LngLat => {
+      x += dx;
+      y += dy;
+      return [x * sx + tx, y * sy + ty];
+    });
+  });
+};
+
+/**
+ * Joins a ring's arcs. A negative index (~i) means arc i walked backwards.
+ */
+const stitchRing = (indices: ArcIndices, arcs: LngLat[][]): LngLat[] => {
+  const ring: LngLat[] = [];
+  for (const index of indices) {
+    const arc = index < 0 ? [...arcs[~index]].reverse() : arcs[index];
+    // Consecutive arcs share the point where they join.
+    ring.push(...(ring.length > 0 ? arc.slice(1) : arc));
+  }
+  return ring;
+};
+
+/**
+ * Decodes every geometry of one object in a topology into lng/lat polygons.
+ */
+export const topologyFeatures = (topology: Topology, objectName: string): GeoFeature[] => {
+  const object = topology.objects[objectName];
+  if (!object) {
+    throw new Error(`Topology has no object named "${objectName}"`);
+  }
+
+  const arcs = decodeArcs(topology);
+  return object.geometries.map(geometry => {
+    const polygons = geometry.type === 'Polygon' ? [geometry.arcs] : geometry.arcs;
+    return {
+      id: geometry.id ?? null,
+      name: geometry.properties?.name ?? null,
+      polygons: polygons.map(rings => rings.map(ring => stitchRing(ring, arcs))),
+    };
+  });
+};
@@ -0,0 +1,329 @@
+import {
+  AppState,
+  Coordinates,
+  GenerationProvider,
+  LynchContent,
+  PipelineEvent,
+  PipelineStageId,
+  SpeechMode,
+  StagePolicy,
+  ThemeConfig,
+  WeatherData,
+  WeatherProvider,
+} from '../types';
+import { getTimeFrame } from './weatherService';
+import { describeTerrain } from './terrainService';
+import { reverseGeocode } from './geocodingService';
+import { getDaylight } from './astronomyService';
+import { resolveZoneOffsetSeconds } from './timezoneService';
+import {
+  SPEECH_FALLBACKS,
+  SPEECH_MODE_LABELS,
+  generateAmbientBed,
+  isBrowserSpeechAvailable,
+} from './degradationService';
+import { estimateSpeechSeconds } from './captionService';
+
+/**
+ * Raised when a required stage has exhausted its retries.
+ */
+export class PipelineStageError extends Error {
+  constructor(public readonly stage: PipelineStageId, public readonly cause: unknown) {
+    super(`Stage "${stage}" failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'PipelineStageError';
+  }
+}
+
+/**
+ * Raised when the job's AbortSignal fires. Not a failure: a newer job usually replaced it.
+ */
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Transmission cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+class StageTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'StageTimeoutError';
+  }
+}
+
+// Video generation takes minutes, so it is off unless a caller opts in.
+// Speech is optional because the player has fallbacks for a missing voice.
+export const DEFAULT_STAGE_POLICIES: Record<PipelineStageId, StagePolicy> = {
+  weather: { enabled: true, timeoutMs: 15000, retries: 2, backoffMs: 1000, optional: false },
+  terrain: { enabled: true, timeoutMs: 2000, retries: 0, backoffMs: 0, optional: false },
+  narrative: { enabled: true, timeoutMs: 30000, retries: 1, backoffMs: 2000, optional: false },
+  speech: { enabled: true, timeoutMs: 45000, retries: 1, backoffMs: 2000, optional: true },
+  image: { enabled: true, timeoutMs: 60000, retries: 0, backoffMs: 0, optional: true },
+  video: { enabled: false, timeoutMs: 300000, retries: 0, backoffMs: 0, optional: true },
+};
+
+/**
+ * Which AppState the UI shows while a stage is running.
+ */
+export const STAGE_APP_STATES: Record<PipelineStageId, AppState> = {
+  weather: AppState.FETCHING_WEATHER,
+  terrain: AppState.FETCHING_WEATHER,
+  narrative: AppState.GENERATING_NARRATIVE,
+  speech: AppState.GENERATING_MEDIA,
+  image: AppState.GENERATING_MEDIA,
+  video: AppState.GENERATING_MEDIA,
+};
+
+/**
+ * In-world wording for a stage that gave up.
+ */
+export const STAGE_FAILURE_MESSAGES: Record<PipelineStageId, string> = {
+  weather: "Error: Unable to establish telemetry link (Weather Service Down).",
+  terrain: "Error: Cartography offline (Terrain Lookup Failed).",
+  narrative: "Error: Neural synthesis failure (LLM Unresponsive).",
+  speech: "Error: Audio frequency corruption (TTS Failed).",
+  image: "Error: Optical relay dark (Image Generation Failed).",
+  video: "Error: Projector jammed (Video Generation Failed).",
+};
+
+export interface TransmissionRequest {
+  coords: Coordinates;
+  at?: Date; // Omit for live conditions
+  theme: ThemeConfig;
+  provider: GenerationProvider;
+  weatherProvider: WeatherProvider;
+  audioCtx: AudioContext;
+  seed: number;
+}
+
+export interface PipelineOptions {
+  signal: AbortSignal;
+  onEvent: (event: PipelineEvent) => void;
+  policies?: Partial<Record<PipelineStageId, Partial<StagePolicy>>>;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new PipelineCancelledError();
+};
+
+/**
+ * Resolves after `ms`, or rejects as soon as the signal aborts.
+ */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PipelineCancelledError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Races a stage attempt against its timeout and the job's AbortSignal. The
+ * attempt gets a signal of its own that fires on either, which providers hand
+ * to `fetch` and the SDK so a timed-out or cancelled request is torn down.
+ */
+const withDeadline = <T>(work: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const attempt = new AbortController();
+    const timer = setTimeout(() => finish(() => reject(new StageTimeoutError(timeoutMs)), true), timeoutMs);
+    const onAbort = () => finish(() => reject(new PipelineCancelledError()), true);
+    const finish = (settle: () => void, abandon = false) => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      if (abandon) attempt.abort();
+      settle();
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    work(attempt.signal).then(value => finish(() => resolve(value)), error => finish(() => reject(error)));
+  });
+
+/**
+ * Runs one stage under its policy: timeout per attempt, exponential backoff
+ * between attempts. Optional stages resolve to null instead of throwing.
+ */
+const runStage = async <T>(
+  stage: PipelineStageId,
+  policy: StagePolicy,
+  options: PipelineOptions,
+  work: (signal: AbortSignal) => Promise<T>,
+  describe?: { start?: string; complete?: (result: T) => string | undefined },
+): Promise<T | null> => {
+  const { signal, onEvent } = options;
+  throwIfAborted(signal);
+
+  if (!policy.enabled) {
+    onEvent({ type: 'stage-skipped', stage });
+    return null;
+  }
+
+  const started = Date.now();
+  for (let attempt = 1; ; attempt++) {
+    onEvent({ type: 'stage-start', stage, attempt, message: attempt === 1 ? describe?.start : undefined });
+    try {
+      const result = await withDeadline(work, policy.timeoutMs, signal);
+      onEvent({ type: 'stage-complete', stage, durationMs: Date.now() - started, message: describe?.complete?.(result) });
+      return result;
+    } catch (error) {
+      if (error instanceof PipelineCancelledError || signal.aborted) throw new PipelineCancelledError();
+      console.warn(`Stage ${stage} attempt ${attempt} failed`, error);
+
+      if (attempt <= policy.retries) {
+        const delayMs = policy.backoffMs * 2 ** (attempt - 1);
+        onEvent({
+          type: 'stage-retry', stage, attempt, delayMs, error: errorMessage(error),
+          message: `${stage.toUpperCase()} stage faltered (${errorMessage(error)}). Retrying in ${(delayMs / 1000).toFixed(1)}s...`,
+        });
+        await sleep(delayMs, signal);
+        continue;
+      }
+
+      onEvent({ type: 'stage-failed', stage, error: errorMessage(error), message: STAGE_FAILURE_MESSAGES[stage] });
+      if (policy.optional) return null;
+      throw new PipelineStageError(stage, error);
+    }
+  }
+};
+
+/**
+ * Picks the first usable fallback for a missing voice. The ambient bed is
+ * rendered here so the player receives a ready buffer.
+ */
+const chooseSpeechFallback = (
+  narrative: string,
+  theme: ThemeConfig,
+  weather: WeatherData,
+  audioCtx: AudioContext,
+): { mode: SpeechMode; audioBuffer: AudioBuffer | null } => {
+  for (const mode of SPEECH_FALLBACKS) {
+    if (mode === 'browser-voice' && isBrowserSpeechAvailable()) return { mode, audioBuffer: null };
+    if (mode === 'ambient') {
+      try {
+        return { mode, audioBuffer: generateAmbientBed(theme, weather, audioCtx, estimateSpeechSeconds(narrative)) };
+      } catch (e) {
+        console.warn("Ambient bed generation failed", e);
+      }
+    }
+  }
+  return { mode: 'subtitles', audioBuffer: null };
+};
+
+/**
+ * Like runStage, for stages the transmission cannot do without.
+ */
+const runRequiredStage = async <T>(
+  stage: PipelineStageId,
+  policy: StagePolicy,
+  options: PipelineOptions,
+  work: (signal: AbortSignal) => Promise<T>,
+  describe?: { start?: string; complete?: (result: T) => string | undefined },
+): Promise<T> => {
+  const result = await runStage(stage, { ...policy, optional: false }, options, work, describe);
+  if (result === null) throw new PipelineStageError(stage, new Error('Stage is disabled'));
+  return result;
+};
+
+/**
+ * Runs one transmission end to end: weather → terrain → narrative → speech,
+ * image and video in parallel. Progress is reported through `onEvent`; aborting
+ * `signal` rejects with PipelineCancelledError at the next opportunity.
+ * Optional stages that fail are listed in the result's `degraded` map; a lost
+ * voice is replaced by the first workable SPEECH_FALLBACKS mode.
+ *
+ * @param request - Where, when and with which providers to transmit.
+ * @param options - Cancellation signal, event sink and per-stage policy overrides.
+ * @returns The finished content, ready for the player.
+ */
+export const runTransmissionPipeline = async (request: TransmissionRequest, pipelineOptions: PipelineOptions): Promise<LynchContent> => {
+  const { coords, at, theme, provider, weatherProvider, audioCtx, seed } = request;
+  const degraded: LynchContent['degraded'] = {};
+  const options: PipelineOptions = {
+    ...pipelineOptions,
+    onEvent: (event) => {
+      if (event.type === 'stage-failed') degraded[event.stage] = event.error;
+      pipelineOptions.onEvent(event);
+    },
+  };
+  const policy = (stage: PipelineStageId): StagePolicy => ({ ...DEFAULT_STAGE_POLICIES[stage], ...options.policies?.[stage] });
+
+  const rawWeather = await runRequiredStage(
+    'weather', policy('weather'), options,
+    (signal) => weatherProvider.fetchWeatherData(coords, at, signal),
+    {
+      start: `Connecting to coordinates: ${coords.lat.toFixed(2)}, ${coords.lng.toFixed(2)}...`,
+      complete: (w) => {
+        const timeFrame = getTimeFrame(w);
+        const locked = timeFrame === 'present' ? '' : `${timeFrame === 'past' ? 'Archive' : 'Prophecy'} locked: ${w.observedAt.slice(0, 16).replace('T', ' ')} UTC. `;
+        return `${locked}Conditions received. Temp: ${w.temperature}°C, humidity ${w.humidity}%, visibility ${(w.visibility / 1000).toFixed(1)} km.`;
+      },
+    },
+  );
+
+  const located = await runRequiredStage(
+    'terrain', policy('terrain'), options,
+    async () => {
+      const terrain = describeTerrain(coords);
+      return { terrain, locationName: reverseGeocode(coords, terrain) };
+    },
+    { complete: ({ terrain, locationName }) => `Signal traced to ${locationName}. Terrain: ${terrain.description}.` },
+  );
+
+  // Providers report the offset in force when asked; the observed hour may sit across a DST change.
+  const observedAt = new Date(rawWeather.observedAt);
+  const utcOffsetSeconds = resolveZoneOffsetSeconds(rawWeather.timezone, observedAt, rawWeather.utcOffsetSeconds);
+  const weather: WeatherData = {
+    ...rawWeather,
+    utcOffsetSeconds,
+    locationName: located.locationName,
+    daylight: getDaylight(coords, observedAt, utcOffsetSeconds),
+  };
+
+  const narrative = await runRequiredStage(
+    'narrative', policy('narrative'), options,
+    (signal) => provider.generateNarrative(weather, theme, seed, signal),
+    { complete: () => "Narrative synthesized." },
+  );
+
+  const [speechBuffer, imageUrl, videoUrl] = await Promise.all([
+    runStage('speech', policy('speech'), options,
+      (signal) => provider.generateSpeech(narrative, theme, audioCtx, signal),
+      { start: "Generating audiovisual hallucination..." }),
+    runStage('image', policy('image'), options,
+      (signal) => provider.generateSceneryImage(narrative, located.terrain, theme, weather, signal)),
+    runStage('video', policy('video'), options,
+      (signal) => provider.generateVideo(narrative, located.terrain, theme, weather, signal)),
+  ]);
+
+  throwIfAborted(options.signal);
+
+  let speechMode: SpeechMode = 'tts';
+  let audioBuffer = speechBuffer;
+  if (!audioBuffer) {
+    degraded.speech = degraded.speech ?? 'Speech stage disabled';
+    ({ mode: speechMode, audioBuffer } = chooseSpeechFallback(narrative, theme, weather, audioCtx));
+    options.onEvent({
+      type: 'stage-degraded', stage: 'speech', fallback: speechMode,
+      message: `Voice lost. Falling back to: ${SPEECH_MODE_LABELS[speechMode]}.`,
+    });
+  }
+
+  return {
+    narrativeText: narrative,
+    weather,
+    audioBuffer,
+    videoUrl: videoUrl ?? null,
+    imageUrl: imageUrl ?? null,
+    location: coords,
+    themeId: theme.id,
+    providerId: provider.id,
+    seed,
+    speechMode,
+    degraded,
+  };
+};
@@ -1,3 +1,5 @@
+import { Coordinates } from "../types";
+
 export function decode(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -25,4 +27,86 @@ export async function decodeAudioData(
     }
   }
   return buffer;
-}
\ No newline at end of file
+}
+
+/**
+ * Hashes a string into an unsigned 32-bit integer (FNV-1a).
+ * Used to derive stable seeds from generation inputs.
+ */
+export function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a deterministic pseudo-random generator (mulberry32).
+ * The same seed always yields the same sequence in [0, 1).
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Great-circle distance between two coordinates in kilometres (haversine).
+ */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * The point reached by travelling `angleDeg` degrees of arc from `from` on an
+ * initial compass bearing of `bearingDeg` along a great circle.
+ */
+export function destinationPoint(from: Coordinates, bearingDeg: number, angleDeg: number): Coordinates {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const toDeg = (rad: number) => (rad * 180) / Math.PI;
+  const lat1 = toRad(from.lat);
+  const lng1 = toRad(from.lng);
+  const bearing = toRad(bearingDeg);
+  const delta = toRad(angleDeg);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(bearing));
+  const lng2 = lng1 + Math.atan2(Math.sin(bearing) * Math.sin(delta) * Math.cos(lat1), Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2));
+  return { lat: toDeg(lat2), lng: ((toDeg(lng2) + 540) % 360) - 180 };
+}
+
+/**
+ * Points along the great circle from `a` to `b`, `steps` segments long,
+ * for drawing and animating hops across the map.
+ */
+export function greatCirclePath(a: Coordinates, b: Coordinates, steps: number = 64): Coordinates[] {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const toDeg = (rad: number) => (rad * 180) / Math.PI;
+  const toVector = (c: Coordinates) => [
+    Math.cos(toRad(c.lat)) * Math.cos(toRad(c.lng)),
+    Math.cos(toRad(c.lat)) * Math.sin(toRad(c.lng)),
+    Math.sin(toRad(c.lat)),
+  ];
+  const va = toVector(a);
+  const vb = toVector(b);
+  const omega = Math.acos(Math.max(-1, Math.min(1, va[0] * vb[0] + va[1] * vb[1] + va[2] * vb[2])));
+  const points: Coordinates[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    // Coincident or antipodal ends have no unique arc; fall back to a straight blend.
+    const wa = omega < 1e-6 || Math.PI - omega < 1e-6 ? 1 - t : Math.sin((1 - t) * omega) / Math.sin(omega);
+    const wb = omega < 1e-6 || Math.PI - omega < 1e-6 ? t : Math.sin(t * omega) / Math.sin(omega);
+    const [x, y, z] = [0, 1, 2].map(k => wa * va[k] + wb * vb[k]);
+    points.push({ lat: toDeg(Math.atan2(z, Math.hypot(x, y))), lng: toDeg(Math.atan2(y, x)) });
+  }
+  return points;
+}
@@ -0,0 +1,326 @@
+import { ThemeConfig, VisualizerMode, VisualizerSignature } from '../types';
+
+export const VISUALIZER_MODES: VisualizerMode[] = ['bars', 'oscilloscope', 'radial', 'spectrogram', 'signature'];
+
+export const VISUALIZER_MODE_LABELS: Record<VisualizerMode, string> = {
+  bars: 'Bars',
+  oscilloscope: 'Scope',
+  radial: 'Radial',
+  spectrogram: 'Waterfall',
+  signature: 'Signature',
+};
+
+export const VISUALIZER_SIGNATURES: VisualizerSignature[] = ['chevron', 'symmetry', 'neon-grid'];
+
+// Fine enough for the waterfall; the other renderers group bins into bands.
+export const ANALYSER_FFT_SIZE = 2048;
+// Bins above this fraction of the spectrum carry little of a voice.
+const USEFUL_SPECTRUM = 0.4;
+
+/**
+ * What a renderer draws from. Sizes are CSS pixels; the context is already
+ * scaled by `pixelRatio` and cleared.
+ */
+export interface VisualizerFrame {
+  width: number;
+  height: number;
+  pixelRatio: number;
+  frequency: Uint8Array; // Byte spectrum, 0-255 per bin
+  waveform: Uint8Array; // Byte time domain, 128 is silence
+  seconds: number; // Since the renderer was created
+}
+
+export interface VisualizerRenderer {
+  draw: (ctx: CanvasRenderingContext2D, frame: VisualizerFrame) => void;
+}
+
+type RendererFactory = (theme: ThemeConfig) => VisualizerRenderer;
+
+const parseHex = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+
+const rgba = (hex: string, alpha: number): string => {
+  const [r, g, b] = parseHex(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+/**
+ * Averages the spectrum into `count` log-spaced bands, 0-1, low to high.
+ */
+export const spectrumBands = (frequency: Uint8Array, count: number): number[] => {
+  const top = Math.max(2, Math.floor(frequency.length * USEFUL_SPECTRUM));
+  return Array.from({ length: count }, (_, band) => {
+    const from = Math.floor(Math.pow(top, band / count));
+    const to = Math.max(from + 1, Math.floor(Math.pow(top, (band + 1) / count)));
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += frequency[i];
+    return sum / (to - from) / 255;
+  });
+};
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+
+const traceWaveform = (ctx: CanvasRenderingContext2D, waveform: Uint8Array, width: number, height: number) => {
+  ctx.beginPath();
+  for (let i = 0; i < waveform.length; i++) {
+    const x = (i / (waveform.length - 1)) * width;
+    const y = (waveform[i] / 255) * height;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+};
+
+const createBars: RendererFactory = (theme) => ({
+  draw: (ctx, { width, height, frequency }) => {
+    const bands = spectrumBands(frequency, 64);
+    const barWidth = width / bands.length;
+    ctx.fillStyle = theme.primaryColor;
+    bands.forEach((level, i) => {
+      ctx.globalAlpha = 0.25 + level * 0.75;
+      ctx.fillRect(i * barWidth, height - level * height, Math.max(1, barWidth - 1), level * height);
+    });
+  },
+});
+
+const createOscilloscope: RendererFactory = (theme) => ({
+  draw: (ctx, { width, height, waveform }) => {
+    ctx.strokeStyle = rgba(theme.primaryColor, 0.25);
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, height / 2);
+    ctx.lineTo(width, height / 2);
+    ctx.stroke();
+
+    ctx.strokeStyle = theme.primaryColor;
+    ctx.lineWidth = 2;
+    ctx.shadowColor = theme.primaryColor;
+    ctx.shadowBlur = 6;
+    traceWaveform(ctx, waveform, width, height);
+  },
+});
+
+const createRadial: RendererFactory = (theme) => ({
+  draw: (ctx, { width, height, frequency }) => {
+    const bands = spectrumBands(frequency, 48);
+    const cx = width / 2;
+    const cy = height / 2;
+    const radius = Math.min(width, height) * 0.22;
+    const reach = Math.min(width, height) / 2 - radius;
+
+    ctx.strokeStyle = rgba(theme.primaryColor, 0.4);
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // Low bands at the top, mirrored down both sides.
+    ctx.strokeStyle = theme.primaryColor;
+    ctx.lineWidth = Math.max(1, ((Math.PI * radius) / bands.length) * 0.6);
+    ctx.lineCap = 'round';
+    bands.forEach((level, i) => {
+      for (const side of [-1, 1]) {
+        const angle = -Math.PI / 2 + side * ((i + 0.5) / bands.length) * Math.PI;
+        const length = radius + level * reach;
+        ctx.globalAlpha = 0.35 + level * 0.65;
+        ctx.beginPath();
+        ctx.moveTo(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+        ctx.lineTo(cx + Math.cos(angle) * length, cy + Math.sin(angle) * length);
+        ctx.stroke();
+      }
+    });
+  },
+});
+
+/**
+ * 256 RGB colours from the theme: background for silence, through the
+ * secondary colour, to the primary colour at full level.
+ */
+const buildPalette = (theme: ThemeConfig): Uint8ClampedArray => {
+  const stops = [theme.backgroundColor, theme.secondaryColor, theme.primaryColor].map(parseHex);
+  const palette = new Uint8ClampedArray(256 * 3);
+  for (let v = 0; v < 256; v++) {
+    const position = (v / 255) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(position));
+    const t = position - index;
+    for (let c = 0; c < 3; c++) palette[v * 3 + c] = stops[index][c] + (stops[index + 1][c] - stops[index][c]) * t;
+  }
+  return palette;
+};
+
+/**
+ * Scrolling waterfall: each frame shifts the history left and paints the
+ * current spectrum as a new column, low frequencies at the bottom.
+ */
+const createSpectrogram: RendererFactory = (theme) => {
+  const palette = buildPalette(theme);
+  let history: HTMLCanvasElement | null = null;
+  let historyCtx: CanvasRenderingContext2D | null = null;
+
+  return {
+    draw: (ctx, { width, height, pixelRatio, frequency }) => {
+      const w = Math.max(1, Math.round(width * pixelRatio));
+      const h = Math.max(1, Math.round(height * pixelRatio));
+      if (!history || history.width !== w || history.height !== h) {
+        history = document.createElement('canvas');
+        history.width = w;
+        history.height = h;
+        historyCtx = history.getContext('2d');
+        if (historyCtx) {
+          historyCtx.fillStyle = theme.backgroundColor;
+          historyCtx.fillRect(0, 0, w, h);
+        }
+      }
+      if (!historyCtx) return;
+
+      const step = Math.max(1, Math.round(2 * pixelRatio));
+      historyCtx.drawImage(history, -step, 0);
+
+      const top = Math.max(2, Math.floor(frequency.length * USEFUL_SPECTRUM));
+      const column = historyCtx.createImageData(step, h);
+      for (let y = 0; y < h; y++) {
+        const bin = Math.min(top - 1, Math.floor(Math.pow(top, 1 - y / h)));
+        const v = frequency[bin];
+        for (let x = 0; x < step; x++) {
+          const o = (y * step + x) * 4;
+          column.data[o] = palette[v * 3];
+          column.data[o + 1] = palette[v * 3 + 1];
+          column.data[o + 2] = palette[v * 3 + 2];
+          column.data[o + 3] = 255;
+        }
+      }
+      historyCtx.putImageData(column, w - step, 0);
+      ctx.drawImage(history, 0, 0, width, height);
+    },
+  };
+};
+
+/**
+ * A zigzag floor of alternating stripes, heaving with the bass, with the
+ * voice traced across it.
+ */
+const createChevron: RendererFactory = (theme) => ({
+  draw: (ctx, { width, height, frequency, waveform, seconds }) => {
+    const bands = spectrumBands(frequency, 8);
+    const bass = (bands[0] + bands[1] + bands[2]) / 3;
+    const period = 28;
+    const amplitude = height * (0.12 + bass * 0.25);
+    const spacing = height * 0.3;
+    const phase = (seconds * 12) % period;
+    const zig = (x: number) => {
+      const t = ((x + phase) % period) / period;
+      return (t < 0.5 ? t : 1 - t) * 2 * amplitude;
+    };
+    // Vertices fall where the zigzag turns.
+    const xs: number[] = [];
+    for (let x = -(phase % period); x <= width + period; x += period / 2) xs.push(x);
+
+    ctx.globalAlpha = 0.45 + bass * 0.4;
+    for (let k = 0, y0 = -spacing - amplitude; y0 < height; k++, y0 += spacing) {
+      ctx.fillStyle = k % 2 ? theme.textColor : theme.backgroundColor;
+      ctx.beginPath();
+      xs.forEach((x, i) => (i === 0 ? ctx.moveTo(x, y0 + zig(x)) : ctx.lineTo(x, y0 + zig(x))));
+      for (let i = xs.length - 1; i >= 0; i--) ctx.lineTo(xs[i], y0 + spacing + zig(xs[i]));
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = theme.primaryColor;
+    ctx.lineWidth = 2;
+    traceWaveform(ctx, waveform, width, height);
+  },
+});
+
+/**
+ * Bars mirrored about the centre inside a double frame, low bands innermost.
+ */
+const createSymmetry: RendererFactory = (theme) => ({
+  draw: (ctx, { width, height, frequency }) => {
+    const bands = spectrumBands(frequency, 16);
+    const cx = width / 2;
+    const slot = (width * 0.4) / bands.length;
+
+    ctx.strokeStyle = theme.primaryColor;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(4, 4, width - 8, height - 8);
+    ctx.strokeStyle = rgba(theme.primaryColor, 0.4);
+    ctx.lineWidth = 1;
+    ctx.strokeRect(9, 9, width - 18, height - 18);
+
+    bands.forEach((level, i) => {
+      const barHeight = Math.max(2, level * (height - 24));
+      const offset = i * slot + slot * 0.15;
+      ctx.fillStyle = i % 2 ? theme.secondaryColor : theme.primaryColor;
+      ctx.fillRect(cx + offset, (height - barHeight) / 2, slot * 0.7, barHeight);
+      ctx.fillRect(cx - offset - slot * 0.7, (height - barHeight) / 2, slot * 0.7, barHeight);
+    });
+  },
+});
+
+/**
+ * A glowing spectrum skyline over a perspective grid that rushes towards the
+ * viewer faster as the signal gets louder.
+ */
+const createNeonGrid: RendererFactory = (theme) => {
+  let travelled = 0;
+  let lastSeconds = 0;
+
+  return {
+    draw: (ctx, { width, height, frequency, seconds }) => {
+      const bands = spectrumBands(frequency, 40);
+      const level = average(bands);
+      const horizon = height * 0.45;
+      const cx = width / 2;
+      travelled = (travelled + (seconds - lastSeconds) * (0.4 + level * 2.5)) % 1;
+      lastSeconds = seconds;
+
+      ctx.strokeStyle = rgba(theme.primaryColor, 0.35);
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let i = -12; i <= 12; i++) {
+        ctx.moveTo(cx, horizon);
+        ctx.lineTo(cx + i * (width / 12), height);
+      }
+      for (let j = 0; j < 8; j++) {
+        const t = (j + travelled) / 8;
+        const y = horizon + (height - horizon) * t * t;
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+      }
+      ctx.stroke();
+
+      const barWidth = width / bands.length;
+      ctx.fillStyle = theme.primaryColor;
+      ctx.shadowColor = theme.primaryColor;
+      ctx.shadowBlur = 8;
+      bands.forEach((b, i) => {
+        const barHeight = b * horizon * 0.95;
+        ctx.fillRect(i * barWidth + 1, horizon - barHeight, Math.max(1, barWidth - 2), barHeight);
+      });
+      ctx.fillRect(0, horizon - 1, width, 2);
+    },
+  };
+};
+
+const RENDERERS: Record<Exclude<VisualizerMode, 'signature'>, RendererFactory> = {
+  bars: createBars,
+  oscilloscope: createOscilloscope,
+  radial: createRadial,
+  spectrogram: createSpectrogram,
+};
+
+const SIGNATURE_RENDERERS: Record<VisualizerSignature, RendererFactory> = {
+  'chevron': createChevron,
+  'symmetry': createSymmetry,
+  'neon-grid': createNeonGrid,
+};
+
+/**
+ * A fresh renderer for `mode`, coloured by the theme. 'signature' uses the
+ * theme's own renderer. Renderers may keep state between frames.
+ */
+export const createVisualizerRenderer = (mode: VisualizerMode, theme: ThemeConfig): VisualizerRenderer =>
+  mode === 'signature'
+    ? (SIGNATURE_RENDERERS[theme.visualizerSignature] ?? createBars)(theme)
+    : (RENDERERS[mode] ?? createBars)(theme);
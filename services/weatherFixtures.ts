@@ -0,0 +1,72 @@
+import { Coordinates, OpenMeteoResponse } from '../types';
+
+export interface WeatherRecording {
+  coords: Coordinates;
+  /** An Open-Meteo `/v1/forecast` response body. */
+  response: OpenMeteoResponse;
+}
+
+/**
+ * Synthetic Open-Meteo responses for the major cities and a handful of remote
+ * points, hand-written in the API's format rather than recorded. Each one is
+ * set at 2025-10-14 18:00 UTC, with local times and day/night matching that
+ * moment. Used by the replay weather provider.
+ */
+export const FIXTURE_WEATHER: WeatherRecording[] = [
+  {
+    coords: { lat: 34.05, lng: -118.24 },
+    response: {"latitude": 34.05, "longitude": -118.24, "generationtime_ms": 0.05, "utc_offset_seconds": -25200, "timezone": "America/Los_Angeles", "timezone_abbreviation": "PDT", "elevation": 89, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T11:00", "interval": 900, "temperature_2m": 21.4, "relative_humidity_2m": 58, "is_day": 1, "precipitation": 0.0, "weather_code": 1, "cloud_cover": 12, "surface_pressure": 1003.2, "wind_speed_10m": 7.9, "wind_direction_10m": 250, "wind_gusts_10m": 14.8, "visibility": 24140}},
+  },
+  {
+    coords: { lat: 40.71, lng: -74.0 },
+    response: {"latitude": 40.71, "longitude": -74.0, "generationtime_ms": 0.05, "utc_offset_seconds": -14400, "timezone": "America/New_York", "timezone_abbreviation": "EDT", "elevation": 51, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T14:00", "interval": 900, "temperature_2m": 16.2, "relative_humidity_2m": 71, "is_day": 1, "precipitation": 0.0, "weather_code": 3, "cloud_cover": 100, "surface_pressure": 1012.6, "wind_speed_10m": 14.1, "wind_direction_10m": 70, "wind_gusts_10m": 27.0, "visibility": 16900}},
+  },
+  {
+    coords: { lat: 51.5, lng: -0.12 },
+    response: {"latitude": 51.5, "longitude": -0.12, "generationtime_ms": 0.05, "utc_offset_seconds": 3600, "timezone": "Europe/London", "timezone_abbreviation": "BST", "elevation": 23, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T19:00", "interval": 900, "temperature_2m": 12.8, "relative_humidity_2m": 89, "is_day": 0, "precipitation": 0.6, "weather_code": 61, "cloud_cover": 100, "surface_pressure": 1003.9, "wind_speed_10m": 19.4, "wind_direction_10m": 225, "wind_gusts_10m": 38.2, "visibility": 9800}},
+  },
+  {
+    coords: { lat: 35.67, lng: 139.65 },
+    response: {"latitude": 35.67, "longitude": 139.65, "generationtime_ms": 0.05, "utc_offset_seconds": 32400, "timezone": "Asia/Tokyo", "timezone_abbreviation": "JST", "elevation": 40, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-15T03:00", "interval": 900, "temperature_2m": 18.9, "relative_humidity_2m": 66, "is_day": 0, "precipitation": 0.0, "weather_code": 2, "cloud_cover": 48, "surface_pressure": 1012.1, "wind_speed_10m": 9.7, "wind_direction_10m": 20, "wind_gusts_10m": 19.1, "visibility": 24140}},
+  },
+  {
+    coords: { lat: -33.86, lng: 151.2 },
+    response: {"latitude": -33.86, "longitude": 151.2, "generationtime_ms": 0.05, "utc_offset_seconds": 39600, "timezone": "Australia/Sydney", "timezone_abbreviation": "AEDT", "elevation": 58, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-15T05:00", "interval": 900, "temperature_2m": 23.5, "relative_humidity_2m": 44, "is_day": 0, "precipitation": 0.0, "weather_code": 0, "cloud_cover": 0, "surface_pressure": 1008.3, "wind_speed_10m": 22.3, "wind_direction_10m": 315, "wind_gusts_10m": 41.4, "visibility": 24140}},
+  },
+  {
+    coords: { lat: 55.75, lng: 37.61 },
+    response: {"latitude": 55.75, "longitude": 37.61, "generationtime_ms": 0.05, "utc_offset_seconds": 10800, "timezone": "Europe/Moscow", "timezone_abbreviation": "MSK", "elevation": 144, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T21:00", "interval": 900, "temperature_2m": 4.1, "relative_humidity_2m": 93, "is_day": 0, "precipitation": 0.4, "weather_code": 73, "cloud_cover": 100, "surface_pressure": 995.0, "wind_speed_10m": 11.2, "wind_direction_10m": 340, "wind_gusts_10m": 23.8, "visibility": 2100}},
+  },
+  {
+    coords: { lat: -22.9, lng: -43.17 },
+    response: {"latitude": -22.9, "longitude": -43.17, "generationtime_ms": 0.05, "utc_offset_seconds": -10800, "timezone": "America/Sao_Paulo", "timezone_abbreviation": "-03", "elevation": 9, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T15:00", "interval": 900, "temperature_2m": 27.3, "relative_humidity_2m": 78, "is_day": 1, "precipitation": 1.2, "weather_code": 80, "cloud_cover": 76, "surface_pressure": 1010.4, "wind_speed_10m": 8.6, "wind_direction_10m": 150, "wind_gusts_10m": 20.9, "visibility": 14200}},
+  },
+  {
+    coords: { lat: 30.04, lng: 31.23 },
+    response: {"latitude": 30.04, "longitude": 31.23, "generationtime_ms": 0.05, "utc_offset_seconds": 10800, "timezone": "Africa/Cairo", "timezone_abbreviation": "EEST", "elevation": 23, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T21:00", "interval": 900, "temperature_2m": 29.8, "relative_humidity_2m": 31, "is_day": 0, "precipitation": 0.0, "weather_code": 0, "cloud_cover": 0, "surface_pressure": 1010.7, "wind_speed_10m": 12.9, "wind_direction_10m": 0, "wind_gusts_10m": 24.5, "visibility": 24140}},
+  },
+  {
+    coords: { lat: 19.07, lng: 72.87 },
+    response: {"latitude": 19.07, "longitude": 72.87, "generationtime_ms": 0.05, "utc_offset_seconds": 19800, "timezone": "Asia/Kolkata", "timezone_abbreviation": "IST", "elevation": 10, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T23:30", "interval": 900, "temperature_2m": 31.2, "relative_humidity_2m": 84, "is_day": 0, "precipitation": 4.8, "weather_code": 95, "cloud_cover": 100, "surface_pressure": 1005.8, "wind_speed_10m": 16.5, "wind_direction_10m": 260, "wind_gusts_10m": 52.6, "visibility": 6400}},
+  },
+  {
+    coords: { lat: 48.85, lng: 2.35 },
+    response: {"latitude": 48.85, "longitude": 2.35, "generationtime_ms": 0.05, "utc_offset_seconds": 7200, "timezone": "Europe/Paris", "timezone_abbreviation": "CEST", "elevation": 43, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T20:00", "interval": 900, "temperature_2m": 13.6, "relative_humidity_2m": 97, "is_day": 0, "precipitation": 0.0, "weather_code": 45, "cloud_cover": 100, "surface_pressure": 1011.5, "wind_speed_10m": 6.1, "wind_direction_10m": 190, "wind_gusts_10m": 11.9, "visibility": 300}},
+  },
+  {
+    coords: { lat: 64.0, lng: -22.56 },
+    response: {"latitude": 64.0, "longitude": -22.56, "generationtime_ms": 0.05, "utc_offset_seconds": 0, "timezone": "Atlantic/Reykjavik", "timezone_abbreviation": "GMT", "elevation": 28, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T18:00", "interval": 900, "temperature_2m": 3.2, "relative_humidity_2m": 86, "is_day": 1, "precipitation": 0.3, "weather_code": 71, "cloud_cover": 100, "surface_pressure": 987.4, "wind_speed_10m": 31.8, "wind_direction_10m": 105, "wind_gusts_10m": 56.2, "visibility": 4800}},
+  },
+  {
+    coords: { lat: -75.25, lng: 0.0 },
+    response: {"latitude": -75.25, "longitude": 0.0, "generationtime_ms": 0.05, "utc_offset_seconds": 0, "timezone": "Antarctica/Troll", "timezone_abbreviation": "+00", "elevation": 2835, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T18:00", "interval": 900, "temperature_2m": -38.7, "relative_humidity_2m": 62, "is_day": 1, "precipitation": 0.0, "weather_code": 3, "cloud_cover": 96, "surface_pressure": 702.1, "wind_speed_10m": 24.0, "wind_direction_10m": 90, "wind_gusts_10m": 35.3, "visibility": 11000}},
+  },
+  {
+    coords: { lat: 34.137, lng: -118.352 },
+    response: {"latitude": 34.137, "longitude": -118.352, "generationtime_ms": 0.05, "utc_offset_seconds": -25200, "timezone": "America/Los_Angeles", "timezone_abbreviation": "PDT", "elevation": 175, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-14T11:00", "interval": 900, "temperature_2m": 20.1, "relative_humidity_2m": 55, "is_day": 1, "precipitation": 0.0, "weather_code": 0, "cloud_cover": 4, "surface_pressure": 996.0, "wind_speed_10m": 5.4, "wind_direction_10m": 230, "wind_gusts_10m": 11.2, "visibility": 24140}},
+  },
+  {
+    coords: { lat: 0.0, lng: -160.0 },
+    response: {"latitude": 0.0, "longitude": -160.0, "generationtime_ms": 0.05, "utc_offset_seconds": 50400, "timezone": "Pacific/Kiritimati", "timezone_abbreviation": "+14", "elevation": 0, "current_units": {"time": "iso8601", "interval": "seconds", "temperature_2m": "°C", "relative_humidity_2m": "%", "is_day": "", "precipitation": "mm", "weather_code": "wmo code", "cloud_cover": "%", "surface_pressure": "hPa", "wind_speed_10m": "km/h", "wind_direction_10m": "°", "wind_gusts_10m": "km/h", "visibility": "m"}, "current": {"time": "2025-10-15T08:00", "interval": 900, "temperature_2m": 27.9, "relative_humidity_2m": 82, "is_day": 1, "precipitation": 2.1, "weather_code": 63, "cloud_cover": 88, "surface_pressure": 1009.6, "wind_speed_10m": 27.2, "wind_direction_10m": 95, "wind_gusts_10m": 44.0, "visibility": 12800}},
+  },
+];
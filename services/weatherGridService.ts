@@ -0,0 +1,95 @@
+import { Coordinates, GridWeather, WeatherGrid, WeatherProvider } from '../types';
+
+// Node spacing in degrees. Open-Meteo counts every coordinate as a call, so
+// the grid is kept coarse: 264 nodes, refetched hourly, stays inside its free tier.
+const GRID_STEP = 15;
+const GRID_MAX_LATITUDE = 75;
+// Current conditions only change hourly at this scale.
+const GRID_TTL_MS = 60 * 60000;
+
+export const GRID_LATS = Array.from({ length: (2 * GRID_MAX_LATITUDE) / GRID_STEP + 1 }, (_, i) => GRID_MAX_LATITUDE - i * GRID_STEP);
+export const GRID_LNGS = Array.from({ length: 360 / GRID_STEP }, (_, i) => -180 + i * GRID_STEP);
+
+/**
+ * Every node of the grid, row by row from the north, in the order WeatherGrid.cells uses.
+ */
+export const GRID_POINTS: Coordinates[] = GRID_LATS.flatMap(lat => GRID_LNGS.map(lng => ({ lat, lng })));
+
+/**
+ * Wraps per-node weather, in GRID_POINTS order, as a grid. `validAt` is the
+ * hour it describes, when that is not now.
+ */
+export const buildWeatherGrid = (cells: GridWeather[], fetchedAt: Date = new Date(), validAt?: Date): WeatherGrid => {
+  if (cells.length !== GRID_POINTS.length) {
+    throw new Error(`Weather grid needs ${GRID_POINTS.length} nodes, got ${cells.length}`);
+  }
+  return { lats: GRID_LATS, lngs: GRID_LNGS, cells, fetchedAt: fetchedAt.toISOString(), validAt: validAt?.toISOString() };
+};
+
+/**
+ * The four nodes around a point and its position between them. Longitude
+ * wraps round the antimeridian; latitude is held at the outermost rows.
+ */
+const surroundingNodes = (grid: WeatherGrid, coords: Coordinates) => {
+  const { lats, lngs } = grid;
+  const latStep = lats[0] - lats[1];
+  const lngStep = lngs[1] - lngs[0];
+  const row = Math.max(0, Math.min(lats.length - 1.000001, (lats[0] - coords.lat) / latStep));
+  const col = ((((coords.lng - lngs[0]) / lngStep) % lngs.length) + lngs.length) % lngs.length;
+  const r = Math.floor(row);
+  const c = Math.floor(col);
+  const index = (i: number, j: number) => i * lngs.length + (j % lngs.length);
+  return {
+    nodes: [index(r, c), index(r, c + 1), index(r + 1, c), index(r + 1, c + 1)].map(i => grid.cells[i]),
+    fx: col - c,
+    fy: row - r,
+  };
+};
+
+const bilinear = (a: number, b: number, c: number, d: number, fx: number, fy: number) =>
+  (a * (1 - fx) + b * fx) * (1 - fy) + (c * (1 - fx) + d * fx) * fy;
+
+/**
+ * Bilinear interpolation of one scalar field at a point.
+ */
+export const sampleGrid = (grid: WeatherGrid, coords: Coordinates, field: Exclude<keyof GridWeather, 'windDirection'>): number => {
+  const { nodes: [a, b, c, d], fx, fy } = surroundingNodes(grid, coords);
+  return bilinear(a[field], b[field], c[field], d[field], fx, fy);
+};
+
+/**
+ * The wind at a point as a vector, in km/h towards the east (u) and north (v).
+ * Interpolated as components so opposing winds cancel rather than averaging their bearings.
+ */
+export const sampleWind = (grid: WeatherGrid, coords: Coordinates): { u: number; v: number } => {
+  const { nodes, fx, fy } = surroundingNodes(grid, coords);
+  // Direction is where the wind comes from, so it blows the opposite way.
+  const vectors = nodes.map(node => {
+    const towards = ((node.windDirection + 180) * Math.PI) / 180;
+    return { u: node.windSpeed * Math.sin(towards), v: node.windSpeed * Math.cos(towards) };
+  });
+  return {
+    u: bilinear(vectors[0].u, vectors[1].u, vectors[2].u, vectors[3].u, fx, fy),
+    v: bilinear(vectors[0].v, vectors[1].v, vectors[2].v, vectors[3].v, fx, fy),
+  };
+};
+
+const gridCache = new Map<string, { grid: Promise<WeatherGrid>; expires: number }>();
+
+/**
+ * The provider's weather grid for now, or for the hour `at` falls in, fetched
+ * at most once per GRID_TTL_MS for each hour. Callers share one request while
+ * it is in flight, and a failed fetch is not cached.
+ */
+export const getWeatherGrid = (provider: WeatherProvider, at?: Date, now: number = Date.now()): Promise<WeatherGrid> => {
+  const key = `${provider.id}|${at ? at.toISOString().slice(0, 13) : 'live'}`;
+  const cached = gridCache.get(key);
+  if (cached && cached.expires > now) return cached.grid;
+
+  const grid = provider.fetchWeatherGrid(at);
+  gridCache.set(key, { grid, expires: now + GRID_TTL_MS });
+  grid.catch(() => {
+    if (gridCache.get(key)?.grid === grid) gridCache.delete(key);
+  });
+  return grid;
+};
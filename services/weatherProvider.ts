@@ -0,0 +1,10 @@
+import { WeatherProvider } from "../types";
+import { openMeteoProvider } from "./weatherService";
+import { replayWeatherProvider } from "./replayWeatherService";
+import { syntheticWeatherProvider } from "./syntheticWeatherService";
+
+export const WEATHER_PROVIDERS: Record<string, WeatherProvider> = {
+  OPEN_METEO: openMeteoProvider,
+  REPLAY: replayWeatherProvider,
+  SYNTHETIC: syntheticWeatherProvider,
+};
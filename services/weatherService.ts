@@ -1,41 +1,253 @@
-import { WeatherData, Coordinates, CityWeather } from '../types';
-import { MAJOR_CITIES } from '../constants';
+import { WeatherData, Coordinates, CityWeather, WeatherProvider, TimeFrame, GridWeather, WeatherGrid, OpenMeteoResponse } from '../types';
+import { MAJOR_CITIES, getWeatherCondition } from '../constants';
+import { SOLAR_PHASE_LABELS } from './astronomyService';
+import { GRID_POINTS, buildWeatherGrid } from './weatherGridService';
+
+const HOUR_MS = 3600000;
+
+// How far the time-travel window reaches either side of now.
+export const TIME_TRAVEL_PAST_DAYS = 7;
+export const TIME_TRAVEL_FUTURE_DAYS = 7;
+
+/**
+ * Converts an Open-Meteo local timestamp ("2025-10-14T18:00") to a UTC Date.
+ */
+const parseLocalTime = (time: string, utcOffsetSeconds: number): Date =>
+  new Date(Date.parse(`${time}Z`) - utcOffsetSeconds * 1000);
+
+/**
+ * Maps an Open-Meteo forecast response (the `current=` block) onto WeatherData.
+ * Shared with the replay provider, which stores raw responses.
+ */
+export const parseOpenMeteoCurrent = (data: OpenMeteoResponse): WeatherData => {
+  const current = data.current;
+  if (!current) {
+    throw new Error('Open-Meteo response has no current conditions');
+  }
+
+  return {
+    temperature: current.temperature_2m,
+    windSpeed: current.wind_speed_10m,
+    windDirection: current.wind_direction_10m,
+    windGusts: current.wind_gusts_10m,
+    conditionCode: current.weather_code,
+    humidity: current.relative_humidity_2m,
+    precipitation: current.precipitation,
+    cloudCover: current.cloud_cover,
+    visibility: current.visibility,
+    pressure: current.surface_pressure,
+    isDay: current.is_day === 1,
+    timezone: data.timezone,
+    utcOffsetSeconds: data.utc_offset_seconds,
+    observedAt: parseLocalTime(current.time, data.utc_offset_seconds).toISOString(),
+  };
+};
+
+/**
+ * Picks the hour nearest to `at` out of an Open-Meteo `hourly=` response.
+ * Throws when the response does not cover that hour.
+ */
+export const parseOpenMeteoHourly = (data: OpenMeteoResponse, at: Date): WeatherData => {
+  const h = data.hourly;
+  if (!h) {
+    throw new Error('Open-Meteo response has no hourly series');
+  }
+
+  const times = h.time;
+  let index = -1;
+  let best = Infinity;
+  times.forEach((time, i) => {
+    const delta = Math.abs(parseLocalTime(time, data.utc_offset_seconds).getTime() - at.getTime());
+    if (delta < best) {
+      best = delta;
+      index = i;
+    }
+  });
+
+  if (index === -1 || best >= HOUR_MS) {
+    throw new Error('Requested time is outside the forecast window');
+  }
+
+  return {
+    temperature: h.temperature_2m[index],
+    windSpeed: h.wind_speed_10m[index],
+    windDirection: h.wind_direction_10m[index],
+    windGusts: h.wind_gusts_10m[index],
+    conditionCode: h.weather_code[index],
+    humidity: h.relative_humidity_2m[index],
+    precipitation: h.precipitation[index],
+    cloudCover: h.cloud_cover[index],
+    visibility: h.visibility[index],
+    pressure: h.surface_pressure[index],
+    isDay: h.is_day[index] === 1,
+    timezone: data.timezone,
+    utcOffsetSeconds: data.utc_offset_seconds,
+    observedAt: parseLocalTime(times[index], data.utc_offset_seconds).toISOString(),
+  };
+};
+
+/**
+ * Classifies an observation as past, present or future relative to `now`.
+ * Anything within an hour of now counts as the present.
+ */
+export const getTimeFrame = (weather: WeatherData, now: Date = new Date()): TimeFrame => {
+  const delta = Date.parse(weather.observedAt) - now.getTime();
+  if (delta <= -HOUR_MS) return 'past';
+  if (delta >= HOUR_MS) return 'future';
+  return 'present';
+};
+
+const WEATHER_FIELDS = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'is_day',
+  'precipitation',
+  'weather_code',
+  'cloud_cover',
+  'surface_pressure',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'wind_gusts_10m',
+  'visibility',
+].join(',');
+
+const GRID_FIELDS = 'temperature_2m,precipitation,cloud_cover,wind_speed_10m,wind_direction_10m';
+// Coordinates per request when fetching the overlay grid, keeping URLs a sensible length.
+const GRID_BATCH_SIZE = 100;
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/**
+ * Converts a meteorological wind direction (degrees) to an 8-point compass label.
+ */
+export const toCompass = (degrees: number): string =>
+  COMPASS_POINTS[Math.round((((degrees % 360) + 360) % 360) / 45) % 8];
+
+/**
+ * Formats the wall-clock time at a location from its UTC offset, e.g. "21:45".
+ * Pass `withDate` for "2025-10-14 21:45".
+ */
+export const formatLocalTime = (utcOffsetSeconds: number, date: Date = new Date(), withDate: boolean = false): string => {
+  const local = new Date(date.getTime() + utcOffsetSeconds * 1000);
+  const time = `${String(local.getUTCHours()).padStart(2, '0')}:${String(local.getUTCMinutes()).padStart(2, '0')}`;
+  return withDate ? `${local.toISOString().slice(0, 10)} ${time}` : time;
+};
+
+/**
+ * Formats a UTC offset as "UTC+05:30".
+ */
+export const formatUtcOffset = (utcOffsetSeconds: number): string => {
+  const sign = utcOffsetSeconds < 0 ? '-' : '+';
+  const abs = Math.abs(utcOffsetSeconds);
+  return `UTC${sign}${String(Math.floor(abs / 3600)).padStart(2, '0')}:${String(Math.floor((abs % 3600) / 60)).padStart(2, '0')}`;
+};
+
+/**
+ * Summarises the sky overhead as a comma-separated phrase for image prompts,
+ * e.g. "heavy rain, night, overcast, damp air (94% humidity), gusting 52 km/h from the SW".
+ * When a theme id is given, that theme's mood keywords for the condition are appended.
+ */
+export const describeAtmosphere = (weather: WeatherData, themeId?: string): string => {
+  const condition = getWeatherCondition(weather.conditionCode);
+  const phase = weather.daylight?.phase;
+  const light = phase === 'civil' || phase === 'nautical' || phase === 'astronomical'
+    ? SOLAR_PHASE_LABELS[phase].toLowerCase()
+    : weather.isDay ? 'daytime' : 'night';
+  const parts: string[] = [condition.label.toLowerCase(), light];
+
+  if (weather.cloudCover >= 85) parts.push('overcast');
+  else if (weather.cloudCover >= 40) parts.push('broken clouds');
+  else if (weather.cloudCover <= 10) parts.push('clear sky');
+
+  if (weather.visibility < 1000) parts.push(`thick fog (visibility ${Math.round(weather.visibility)} m)`);
+  else if (weather.visibility < 5000) parts.push(`haze (visibility ${(weather.visibility / 1000).toFixed(1)} km)`);
+
+  if (weather.precipitation > 0) parts.push(`${weather.precipitation} mm of precipitation falling`);
+  if (weather.humidity >= 85) parts.push(`damp air (${weather.humidity}% humidity)`);
+  else if (weather.humidity <= 25) parts.push(`bone-dry air (${weather.humidity}% humidity)`);
+
+  if (weather.windGusts >= 40) parts.push(`gusting ${Math.round(weather.windGusts)} km/h from the ${toCompass(weather.windDirection)}`);
+
+  const moods = themeId ? condition.moods[themeId] : undefined;
+  if (moods?.length) parts.push(`mood: ${moods.join(', ')}`);
+
+  return parts.join(', ');
+};
+
+/**
+ * Describes the sun for narrative prompts in the location's local time, e.g.
+ * "sunrise 07:12, sunset 18:40; the sun is 4° below the horizon (civil twilight)".
+ * Returns null when the weather carries no daylight information.
+ */
+export const describeDaylight = (weather: WeatherData): string | null => {
+  const daylight = weather.daylight;
+  if (!daylight) return null;
+  const times = daylight.polar === 'day' ? 'the sun does not set today'
+    : daylight.polar === 'night' ? 'the sun does not rise today'
+    : `sunrise ${formatLocalTime(weather.utcOffsetSeconds, new Date(daylight.sunrise!))}, sunset ${formatLocalTime(weather.utcOffsetSeconds, new Date(daylight.sunset!))}`;
+  const elevation = Math.round(daylight.solarElevation);
+  const position = elevation >= 0 ? `${elevation}° above the horizon` : `${-elevation}° below the horizon`;
+  return `${times}; the sun is ${position} (${SOLAR_PHASE_LABELS[daylight.phase].toLowerCase()})`;
+};
+
+export const fetchWeatherData = async (coords: Coordinates, at?: Date, signal?: AbortSignal): Promise<WeatherData> => {
+  if (at) return fetchHourlyWeatherData(coords, at, signal);
 
-export const fetchWeatherData = async (coords: Coordinates): Promise<WeatherData> => {
   try {
     const response = await fetch(
-      `https://api.open-meteo.com/v1/forecast?latitude=${coords.lat}&longitude=${coords.lng}&current=temperature_2m,weather_code,wind_speed_10m`
+      `https://api.open-meteo.com/v1/forecast?latitude=${coords.lat}&longitude=${coords.lng}&current=${WEATHER_FIELDS}&timezone=auto`,
+      { signal }
     );
     
     if (!response.ok) {
       throw new Error('Failed to fetch weather data');
     }
 
-    const data = await response.json();
+    const data: OpenMeteoResponse = await response.json();
     
-    return {
-      temperature: data.current.temperature_2m,
-      windSpeed: data.current.wind_speed_10m,
-      conditionCode: data.current.weather_code,
-    };
+    return parseOpenMeteoCurrent(data);
   } catch (error) {
     console.error("Weather fetch error", error);
     throw error;
   }
 };
 
+/**
+ * Fetches the hourly series covering the whole time-travel window (past days
+ * plus forecast) and picks the requested hour out of it.
+ */
+const fetchHourlyWeatherData = async (coords: Coordinates, at: Date, signal?: AbortSignal): Promise<WeatherData> => {
+  try {
+    const response = await fetch(
+      `https://api.open-meteo.com/v1/forecast?latitude=${coords.lat}&longitude=${coords.lng}&hourly=${WEATHER_FIELDS}&timezone=auto&past_days=${TIME_TRAVEL_PAST_DAYS}&forecast_days=${TIME_TRAVEL_FUTURE_DAYS + 1}`,
+      { signal }
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch hourly weather data');
+    }
+
+    const data: OpenMeteoResponse = await response.json();
+
+    return parseOpenMeteoHourly(data, at);
+  } catch (error) {
+    console.error("Hourly weather fetch error", error);
+    throw error;
+  }
+};
+
 export const fetchGlobalTemperatures = async (): Promise<CityWeather[]> => {
   try {
     const lats = MAJOR_CITIES.map(c => c.lat).join(',');
     const lngs = MAJOR_CITIES.map(c => c.lng).join(',');
     
     const response = await fetch(
-      `https://api.open-meteo.com/v1/forecast?latitude=${lats}&longitude=${lngs}&current=temperature_2m`
+      `https://api.open-meteo.com/v1/forecast?latitude=${lats}&longitude=${lngs}&current=temperature_2m,weather_code`
     );
 
     if (!response.ok) return [];
 
-    const data = await response.json();
+    const data: OpenMeteoResponse | OpenMeteoResponse[] = await response.json();
     
     // Open-Meteo returns array of objects if multiple coords, or single object if one. 
     // But since we always request multiple, it should be an array of result objects 
@@ -47,7 +259,8 @@ export const fetchGlobalTemperatures = async (): Promise<CityWeather[]> => {
         name: MAJOR_CITIES[i].name,
         lat: MAJOR_CITIES[i].lat,
         lng: MAJOR_CITIES[i].lng,
-        temperature: d.current.temperature_2m
+        temperature: d.current?.temperature_2m ?? 0,
+        conditionCode: d.current?.weather_code ?? 0
       }));
     }
     
@@ -58,9 +271,61 @@ export const fetchGlobalTemperatures = async (): Promise<CityWeather[]> => {
   }
 };
 
-export const getTerrainDescription = (lat: number, lng: number): string => {
-  if (Math.abs(lat) > 60) return "frozen tundra";
-  if (Math.abs(lat) < 20 && Math.abs(lng) < 30) return "dense jungle";
-  if (Math.abs(lat) > 20 && Math.abs(lat) < 40 && Math.abs(lng) > 100) return "lonely desert highway";
-  return "an industrial wasteland";
-};
\ No newline at end of file
+/**
+ * Conditions at every overlay grid node, using Open-Meteo's multi-coordinate
+ * queries: current ones, or the single hour `at` falls in. Batches run one
+ * after another to go easy on the API.
+ */
+export const fetchWeatherGrid = async (at?: Date): Promise<WeatherGrid> => {
+  // Hours are requested in GMT, Open-Meteo's default, as "2025-10-14T18:00".
+  const hour = at && `${at.toISOString().slice(0, 13)}:00`;
+  const series = hour ? `hourly=${GRID_FIELDS}&start_hour=${hour}&end_hour=${hour}` : `current=${GRID_FIELDS}`;
+  const cells: GridWeather[] = [];
+  for (let i = 0; i < GRID_POINTS.length; i += GRID_BATCH_SIZE) {
+    const batch = GRID_POINTS.slice(i, i + GRID_BATCH_SIZE);
+    const response = await fetch(
+      `https://api.open-meteo.com/v1/forecast?latitude=${batch.map(p => p.lat).join(',')}&longitude=${batch.map(p => p.lng).join(',')}&${series}`
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch weather grid');
+    }
+
+    const data: OpenMeteoResponse | OpenMeteoResponse[] = await response.json();
+    // A batch of one comes back as a single object rather than an array.
+    for (const d of Array.isArray(data) ? data : [data]) {
+      const c = hour
+        ? d.hourly && {
+          temperature_2m: d.hourly.temperature_2m[0],
+          wind_speed_10m: d.hourly.wind_speed_10m[0],
+          wind_direction_10m: d.hourly.wind_direction_10m[0],
+          precipitation: d.hourly.precipitation[0],
+          cloud_cover: d.hourly.cloud_cover[0],
+        }
+        : d.current;
+      if (!c) {
+        throw new Error(`Weather grid response has no ${hour ? 'hourly' : 'current'} conditions`);
+      }
+      cells.push({
+        temperature: c.temperature_2m,
+        windSpeed: c.wind_speed_10m,
+        windDirection: c.wind_direction_10m,
+        precipitation: c.precipitation,
+        cloudCover: c.cloud_cover,
+      });
+    }
+  }
+  return buildWeatherGrid(cells, new Date(), at);
+};
+
+/**
+ * Live weather from the Open-Meteo forecast API.
+ */
+export const openMeteoProvider: WeatherProvider = {
+  id: 'OPEN_METEO',
+  name: 'Open-Meteo',
+  requiresNetwork: true,
+  fetchWeatherData,
+  fetchGlobalTemperatures,
+  fetchWeatherGrid,
+};
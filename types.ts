@@ -3,35 +3,277 @@ export interface Coordinates {
   lng: number;
 }
 
+export interface Place {
+  name: string;
+  country: string;
+  lat: number;
+  lng: number;
+  population: number; // Millions
+}
+
+export type Biome =
+  | 'ocean'
+  | 'ice'
+  | 'tundra'
+  | 'taiga'
+  | 'temperate_forest'
+  | 'farmland'
+  | 'grassland'
+  | 'mediterranean'
+  | 'desert'
+  | 'savanna'
+  | 'rainforest'
+  | 'mountain'
+  | 'urban';
+
+export type ElevationBand = 'sea' | 'lowland' | 'upland' | 'highland' | 'alpine';
+
+/**
+ * Structured description of the ground under a coordinate, from the bundled offline lookup.
+ */
+export interface TerrainDescriptor {
+  biome: Biome;
+  isLand: boolean;
+  coastal: boolean;
+  elevationBand: ElevationBand;
+  region: string | null; // Named region, e.g. "the Sahara"
+  waterBody: string | null; // Sea, lake or ocean basin when not on land, e.g. "the North Atlantic Ocean"
+  nearestCity: { name: string; country: string; distanceKm: number } | null;
+  description: string; // Prose for prompts, e.g. "a coastal mediterranean lowland, 12 km from Lisbon"
+}
+
+/**
+ * Values Open-Meteo reports for the variables this app requests. A request
+ * for fewer variables gets only those back.
+ */
+export interface OpenMeteoValues {
+  temperature_2m: number;
+  relative_humidity_2m: number;
+  is_day: number; // 1 or 0
+  precipitation: number;
+  weather_code: number;
+  cloud_cover: number;
+  surface_pressure: number;
+  wind_speed_10m: number;
+  wind_direction_10m: number;
+  wind_gusts_10m: number;
+  visibility: number;
+}
+
+/**
+ * An Open-Meteo `/v1/forecast` response body for one location. Only the
+ * blocks that were requested (`current=` or `hourly=`) are present.
+ */
+export interface OpenMeteoResponse {
+  latitude: number;
+  longitude: number;
+  generationtime_ms?: number;
+  utc_offset_seconds: number;
+  timezone: string;
+  timezone_abbreviation?: string;
+  elevation?: number;
+  current_units?: Record<string, string>;
+  current?: OpenMeteoValues & { time: string; interval: number }; // Local time, "2025-10-14T18:00"
+  hourly?: { [K in keyof OpenMeteoValues]: OpenMeteoValues[K][] } & { time: string[] };
+}
+
 export interface WeatherData {
-  temperature: number;
-  windSpeed: number;
-  conditionCode: number;
+  temperature: number; // °C at 2m
+  windSpeed: number; // km/h at 10m
+  windDirection: number; // Degrees the wind blows from
+  windGusts: number; // km/h
+  conditionCode: number; // WMO weather code
+  humidity: number; // Relative humidity, %
+  precipitation: number; // mm over the preceding interval
+  cloudCover: number; // %
+  visibility: number; // metres
+  pressure: number; // Surface pressure, hPa
+  isDay: boolean;
+  timezone: string; // IANA zone, e.g. 'Europe/Lisbon'
+  utcOffsetSeconds: number;
+  observedAt: string; // ISO 8601 UTC instant the values describe
   locationName?: string;
+  daylight?: DaylightInfo; // Sun times and twilight at the location, added by the pipeline
+}
+
+/**
+ * Where the sun is relative to the horizon: above it, in one of the three
+ * twilight bands (down to 6°, 12° and 18° below), or in full night.
+ */
+export type SolarPhase = 'day' | 'civil' | 'nautical' | 'astronomical' | 'night';
+
+export interface DaylightInfo {
+  sunrise: string | null; // ISO 8601 UTC, on the local calendar day; null when the sun does not rise
+  sunset: string | null; // ISO 8601 UTC; null when the sun does not set
+  polar: 'day' | 'night' | null; // Set when the sun stays up or down all day
+  solarElevation: number; // Degrees above the horizon at the observation time
+  phase: SolarPhase;
+}
+
+export interface MoonState {
+  position: Coordinates; // Sublunar point
+  illumination: number; // Lit fraction of the disc, 0-1
+  phase: number; // 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  phaseName: string;
 }
 
+/**
+ * Whether a transmission describes a recorded past, the present, or a forecast (prophecy).
+ */
+export type TimeFrame = 'past' | 'present' | 'future';
+
 export interface CityWeather {
   name: string;
   lat: number;
   lng: number;
   temperature: number;
+  conditionCode?: number; // WMO code, when the source provides one
+}
+
+/**
+ * Weather at one node of the global overlay grid. Units as in WeatherData.
+ */
+export interface GridWeather {
+  temperature: number;
+  windSpeed: number;
+  windDirection: number; // Degrees the wind blows from
+  precipitation: number;
+  cloudCover: number;
+}
+
+/**
+ * Coarse global weather on a regular latitude/longitude grid, for the map's overlay layers.
+ */
+export interface WeatherGrid {
+  lats: number[]; // North to south
+  lngs: number[]; // West to east, not repeating the antimeridian
+  cells: GridWeather[]; // Row by row from the north, lats.length * lngs.length
+  fetchedAt: string; // ISO 8601
+  validAt?: string; // ISO 8601 hour the grid describes; absent for current conditions
+}
+
+export type OverlayLayer = 'temperature' | 'wind' | 'precipitation' | 'cloud';
+
+/**
+ * One stop of an overlay colour ramp, at a value in the layer's units.
+ */
+export interface ColorStop {
+  value: number;
+  color: string; // #rrggbb
+  alpha: number; // 0-1
+}
+
+export type LocationMatchKind = 'coordinates' | 'geohash' | 'city';
+
+export interface LocationSearchResult {
+  kind: LocationMatchKind;
+  label: string; // Primary text, e.g. "Lisbon" or "38.7223°N 9.1393°W"
+  detail: string; // Secondary text, e.g. "Portugal" or "Geohash eyckr"
+  coords: Coordinates;
+}
+
+export type WeatherCategory =
+  | 'clear'
+  | 'cloudy'
+  | 'fog'
+  | 'drizzle'
+  | 'rain'
+  | 'snow'
+  | 'showers'
+  | 'thunderstorm';
+
+export type PrecipitationType = 'none' | 'drizzle' | 'rain' | 'freezing' | 'snow' | 'hail';
+
+/**
+ * 0 = none, 1 = light, 2 = moderate, 3 = heavy, 4 = severe.
+ */
+export type WeatherIntensity = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * One entry of the WMO condition catalog. Everything that talks about the
+ * weather (prompts, map markers, player overlay) reads from these.
+ */
+export interface WeatherCondition {
+  code: number;
+  label: string;
+  category: WeatherCategory;
+  intensity: WeatherIntensity;
+  precipitation: PrecipitationType;
+  moods: Record<string, string[]>; // Keyed by ThemeConfig.id
+}
+
+/**
+ * A source of weather telemetry. The live Open-Meteo API is one implementation;
+ * bundled fixtures and the synthetic model let demos run without it.
+ */
+export interface WeatherProvider {
+  id: string;
+  name: string;
+  requiresNetwork: boolean;
+  /** Current conditions, or the conditions at `at` (hour resolution) when given. Aborting `signal` cancels the request. */
+  fetchWeatherData: (coords: Coordinates, at?: Date, signal?: AbortSignal) => Promise<WeatherData>;
+  fetchGlobalTemperatures: () => Promise<CityWeather[]>;
+  /** Current conditions on the overlay grid, or the conditions at `at` (hour resolution); see weatherGridService. */
+  fetchWeatherGrid: (at?: Date) => Promise<WeatherGrid>;
+}
+
+export type PostEffectId = 'kenBurns' | 'chromaticAberration' | 'bloom' | 'rain' | 'grain' | 'scanlines' | 'vignette';
+
+// Strength of each scenery post-processing effect, 0-1. Omitted effects are off.
+export type PostEffectSettings = Partial<Record<PostEffectId, number>>;
+
+export type SoundscapeStyle = 'industrial' | 'music-box' | 'synth-pad' | 'none';
+
+export type SoundscapeChannel = 'master' | 'voice' | 'drone' | 'texture' | 'rain' | 'wind';
+
+// Mixer levels, 0-1 per channel.
+export type SoundscapeMix = Record<SoundscapeChannel, number>;
+
+export type VisualizerMode = 'bars' | 'oscilloscope' | 'radial' | 'spectrogram' | 'signature';
+
+// The theme's own renderer, used by the 'signature' visualizer mode.
+export type VisualizerSignature = 'chevron' | 'symmetry' | 'neon-grid';
+
+/**
+ * Player transport preferences, kept between transmissions.
+ */
+export interface TransportSettings {
+  volume: number; // 0-1, the transmission's own track; the soundscape has its own mixer
+  rate: number; // Playback speed; pitch is preserved
+  loop: boolean;
 }
 
+/**
+ * A director. Plain data, so themes can be written, exported and imported as
+ * JSON. `videoPromptTemplate` uses the placeholders rendered by themeService,
+ * e.g. "Shot of {terrain}. {#coastal}Black water.{/coastal} Atmosphere: {atmosphere}."
+ */
 export interface ThemeConfig {
   id: string;
   name: string;
   systemInstruction: string;
-  videoPromptTemplate: (weather: string, terrain: string) => string;
-  voiceName: string; // 'Fenrir' | 'Puck' | 'Kore' | 'Zephyr' | 'Charon'
+  videoPromptTemplate: string;
+  voiceName: string; // One of TTS_VOICES
+  soundscape: SoundscapeStyle; // Ambient bed under the narration
+  visualizer: VisualizerMode; // Default audio visualizer in the player
+  visualizerSignature: VisualizerSignature;
   
   // Visuals
   primaryColor: string; // For visualizer and accents
   secondaryColor: string; 
   backgroundColor: string; // App background
+  textColor: string; // Body text on the background
+  captionColor: string; // Subtitles over the image
   fontClass: string;
   containerClass: string; // Border/Shadow styles
   mapFilter: string; // CSS filter for the map
   markerClass: string; // CSS for map markers
+  postEffects: PostEffectSettings; // Applied to the scenery in the player and video exports
+}
+
+export interface ThemeValidationResult {
+  theme: ThemeConfig | null; // Null when there are errors
+  errors: string[];
 }
 
 export enum AppState {
@@ -43,11 +285,196 @@ export enum AppState {
   ERROR = 'ERROR'
 }
 
+/**
+ * A backend capable of producing every generated artefact in a transmission.
+ * `App` only talks to this contract, so the Gemini models can be swapped for
+ * the offline mock (or anything else) without touching the pipeline.
+ */
+export interface GenerationProvider {
+  id: string;
+  name: string;
+  /** True when the provider needs network access and an API key. */
+  requiresNetwork: boolean;
+  /**
+   * `seed` makes the text reproducible where the backend supports it. In every
+   * method, aborting `signal` cancels the request and rejects.
+   */
+  generateNarrative: (weather: WeatherData, theme: ThemeConfig, seed?: number, signal?: AbortSignal) => Promise<string>;
+  generateSpeech: (text: string, theme: ThemeConfig, audioCtx: AudioContext, signal?: AbortSignal) => Promise<AudioBuffer>;
+  generateSceneryImage: (narrative: string, terrain: TerrainDescriptor, theme: ThemeConfig, weather: WeatherData, signal?: AbortSignal) => Promise<string | null>;
+  generateVideo: (narrative: string, terrain: TerrainDescriptor, theme: ThemeConfig, weather: WeatherData, signal?: AbortSignal) => Promise<string | null>;
+}
+
+/**
+ * The steps of one transmission, in order. Speech, image and video run in parallel.
+ */
+export type PipelineStageId = 'weather' | 'terrain' | 'narrative' | 'speech' | 'image' | 'video';
+
+export interface StagePolicy {
+  enabled: boolean;
+  timeoutMs: number; // Per attempt
+  retries: number; // Extra attempts after the first
+  backoffMs: number; // Delay before the first retry; doubles on each further retry
+  optional: boolean; // When true, a failure is logged and the transmission continues without it
+}
+
+export type PipelineEvent =
+  | { type: 'stage-start'; stage: PipelineStageId; attempt: number; message?: string }
+  | { type: 'stage-retry'; stage: PipelineStageId; attempt: number; delayMs: number; error: string; message: string }
+  | { type: 'stage-complete'; stage: PipelineStageId; durationMs: number; message?: string }
+  | { type: 'stage-skipped'; stage: PipelineStageId; message?: string }
+  | { type: 'stage-failed'; stage: PipelineStageId; error: string; message: string }
+  | { type: 'stage-degraded'; stage: PipelineStageId; fallback: string; message: string };
+
+/**
+ * How the narrative reaches the listener. Anything other than 'tts' means the
+ * generated voice failed and the player is running a fallback.
+ */
+export type SpeechMode =
+  | 'tts' // Generated voice from the provider
+  | 'browser-voice' // The browser's local speechSynthesis voice, with on-screen text
+  | 'ambient' // A themed ambient bed under on-screen text
+  | 'subtitles'; // Silent, on-screen text only
+
+/**
+ * A word of on-screen text, timed in seconds from the start of playback.
+ */
+export interface CaptionWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A line of on-screen text, timed in seconds from the start of playback.
+ */
+export interface Caption {
+  text: string;
+  start: number;
+  end: number;
+  words: CaptionWord[];
+}
+
 export interface LynchContent {
   narrativeText: string;
+  weather: WeatherData;
   audioBuffer: AudioBuffer | null;
   videoUrl: string | null;
   imageUrl: string | null;
   location: Coordinates;
   themeId: string;
-}
\ No newline at end of file
+  providerId: string; // GenerationProvider that produced it
+  seed?: number; // Generation seed; with the inputs, identifies the transmission in permalinks. Absent on replays archived before seeds were recorded
+  speechMode: SpeechMode;
+  degraded: Partial<Record<PipelineStageId, string>>; // Stages that failed, with the reason
+}
+
+export type BroadcastItemStatus = 'queued' | 'generating' | 'ready' | 'failed';
+
+/**
+ * A transmission waiting its turn in broadcast mode.
+ */
+export interface BroadcastItem {
+  id: string;
+  coords: Coordinates;
+  status: BroadcastItemStatus;
+  label: string; // Why the drift planner picked it, e.g. "Storm chase: Thunderstorm"
+  itineraryPosition?: ItineraryPosition; // The waypoint it airs for, in itinerary mode
+  content: LynchContent | null; // Set once ready
+  error?: string; // Why generation failed
+}
+
+/**
+ * How broadcast mode picks where to go next.
+ * - land: random points, mostly on land
+ * - storm: the most dramatic weather among a handful of sampled points
+ * - dusk: somewhere the sun has just set, following the terminator
+ * - itinerary: the stops of a user-authored itinerary, in order
+ */
+export type DriftMode = 'land' | 'storm' | 'dusk' | 'itinerary';
+
+export interface ItineraryWaypoint {
+  name: string;
+  coords: Coordinates;
+  dwellMinutes: number; // Airtime before moving on to the next stop
+}
+
+export interface Itinerary {
+  id: string;
+  name: string;
+  waypoints: ItineraryWaypoint[];
+}
+
+/**
+ * One waypoint of one itinerary.
+ */
+export interface ItineraryPosition {
+  itineraryId: string;
+  index: number;
+}
+
+/**
+ * How far broadcast mode has got through an itinerary. Advanced by airtime and
+ * kept outside the drift planner, so rebuilding the planner keeps its place.
+ */
+export interface ItineraryProgress extends ItineraryPosition {
+  airedSeconds: number; // Airtime at the current waypoint so far
+}
+
+/**
+ * A location chosen by the drift planner.
+ */
+export interface DriftStop {
+  coords: Coordinates;
+  label: string;
+  itineraryPosition?: ItineraryPosition; // Set for itinerary stops
+}
+
+/**
+ * A drift move, animated on the map from one location to the next.
+ */
+export interface DriftHop {
+  from: Coordinates;
+  to: Coordinates;
+}
+
+export type MapProjection = 'equirectangular' | 'robinson' | 'orthographic';
+
+/**
+ * How the world map is framed: the projection, how far it is zoomed, and
+ * where it has been dragged to.
+ */
+export interface MapView {
+  projection: MapProjection;
+  zoom: number; // 1 fits the whole world in the frame
+  pan: { x: number; y: number }; // Pixels the map's centre is moved from the frame's
+  rotation: Coordinates; // Centre of the globe; unused by the flat projections
+}
+
+/**
+ * A transmission as stored in the local archive. Audio is kept as interleaved
+ * 16-bit PCM so it survives the page; everything else is plain data.
+ */
+export interface ArchivedTransmission {
+  id: string;
+  createdAt: string; // ISO 8601 UTC
+  favourite: boolean;
+  narrativeText: string;
+  weather: WeatherData;
+  location: Coordinates;
+  themeId: string;
+  providerId: string;
+  seed?: number; // Absent on entries archived before seeds were recorded
+  imageUrl: string | null; // Data URL
+  audio: { pcm: Int16Array; sampleRate: number; channels: number } | null;
+  speechMode: SpeechMode;
+  degraded: Partial<Record<PipelineStageId, string>>;
+  log: string[]; // Every progress message from the run, oldest first
+  sizeBytes: number; // Approximate stored size, for the quota manager
+}
+
+export interface ArchiveFilter {
+  query?: string; // Matches place name or narrative text
+  themeId?: string;
+  favouritesOnly?: boolean;
+}